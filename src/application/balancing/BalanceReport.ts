@@ -0,0 +1,65 @@
+import {
+  IBalanceRun,
+  IBalanceSummary,
+  summarizeBalanceRuns,
+} from '@application/balancing/BalanceRunner';
+
+export type BalanceReportFormat = 'csv' | 'json';
+
+/**
+ * Report with every run plus per-variant, per-profile averages
+ */
+export interface IBalanceReport {
+  days: number;
+  summary: IBalanceSummary[];
+  runs: IBalanceRun[];
+}
+
+const CSV_COLUMNS = [
+  'variant',
+  'profile',
+  'seed',
+  'survived',
+  'time_to_death',
+  'hypothermic_time',
+  'resources_gathered',
+  'resources_per_day',
+];
+
+export function createBalanceReport(runs: IBalanceRun[], days: number): IBalanceReport {
+  return { days, summary: summarizeBalanceRuns(runs), runs };
+}
+
+/**
+ * One row per run, ready for a spreadsheet. Times are seconds of game time.
+ */
+export function formatBalanceCsv(runs: IBalanceRun[]): string {
+  const rows = runs.map((run) =>
+    [
+      csvField(run.variant),
+      run.profile,
+      run.seed,
+      run.survived,
+      run.timeToDeath === null ? '' : run.timeToDeath.toFixed(1),
+      run.hypothermicTime.toFixed(1),
+      run.resourcesGathered,
+      (run.resourcesGathered / Math.max(run.resourcesByDay.length, 1)).toFixed(2),
+    ].join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+export function formatBalanceJson(report: IBalanceReport): string {
+  return JSON.stringify(report, null, 2) + '\n';
+}
+
+export function formatBalanceReport(report: IBalanceReport, format: BalanceReportFormat): string {
+  return format === 'csv' ? formatBalanceCsv(report.runs) : formatBalanceJson(report);
+}
+
+/**
+ * Quote names containing separators
+ */
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
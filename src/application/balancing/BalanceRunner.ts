@@ -0,0 +1,153 @@
+import { GAME_CONFIG } from '@shared/constants/GameConstants';
+import { GameEventType, ItemCollectedEvent } from '@application/events/EventBus';
+import { GameSimulation } from '@application/simulation/GameSimulation';
+import { ISurvivalBalance } from '@application/balancing/SurvivalBalance';
+import {
+  BehaviourProfileId,
+  createBehaviourProfile,
+} from '@application/balancing/BehaviourProfiles';
+
+const DECISION_INTERVAL = 0.5; // Seconds of game time between profile decisions
+
+/**
+ * A named balance to compare against others
+ */
+export interface IBalanceVariant {
+  name: string;
+  balance: ISurvivalBalance;
+}
+
+export interface IBalanceRunOptions {
+  variants: IBalanceVariant[];
+  profiles: BehaviourProfileId[];
+  seeds: number[];
+  days: number; // In-game days per run, cut short by death
+}
+
+/**
+ * Outcome of one seeded run of one profile under one variant
+ */
+export interface IBalanceRun {
+  variant: string;
+  profile: BehaviourProfileId;
+  seed: number;
+  survived: boolean;
+  timeToDeath: number | null; // Seconds of game time, null if the character survived
+  hypothermicTime: number; // Seconds spent below HYPOTHERMIA_THRESHOLD
+  resourcesGathered: number; // Items collected over the whole run
+  resourcesByDay: number[]; // Items collected on each in-game day lived
+}
+
+/**
+ * Averages over every seed of one profile under one variant
+ */
+export interface IBalanceSummary {
+  variant: string;
+  profile: BehaviourProfileId;
+  runs: number;
+  deaths: number;
+  meanTimeToDeath: number | null; // Over the runs that died
+  meanHypothermicTime: number;
+  meanResourcesPerDay: number;
+}
+
+/**
+ * Simulates behaviour profiles over many seeded days, headless and as fast as the CPU allows,
+ * to compare survival tuning variants side by side.
+ */
+export class BalanceRunner {
+  run(options: IBalanceRunOptions): IBalanceRun[] {
+    const runs: IBalanceRun[] = [];
+    for (const variant of options.variants) {
+      for (const profile of options.profiles) {
+        for (const seed of options.seeds) {
+          runs.push(this.runOne(variant, profile, seed, options.days));
+        }
+      }
+    }
+    return runs;
+  }
+
+  runOne(
+    variant: IBalanceVariant,
+    profileId: BehaviourProfileId,
+    seed: number,
+    days: number
+  ): IBalanceRun {
+    const simulation = new GameSimulation({ seed, balance: variant.balance });
+    const profile = createBehaviourProfile(profileId);
+    const duration = days * GAME_CONFIG.DAY_CYCLE_DURATION;
+    const fixedDelta = simulation.clock.getFixedDelta();
+    const totalTicks = Math.round(duration / fixedDelta);
+    const ticksPerDecision = Math.round(DECISION_INTERVAL / fixedDelta);
+
+    let ticks = 0;
+    let elapsed = 0;
+    let hypothermicTicks = 0;
+    let timeToDeath: number | null = null;
+    const resourcesByDay: number[] = [0];
+
+    simulation.onTick(() => {
+      ticks++;
+      elapsed = ticks * fixedDelta;
+      const character = simulation.getCharacter();
+      if (!character.isAlive) {
+        timeToDeath ??= elapsed;
+      } else if (character.stats.temperature < GAME_CONFIG.HYPOTHERMIA_THRESHOLD) {
+        hypothermicTicks++;
+      }
+    });
+    simulation.eventBus.subscribe<ItemCollectedEvent>(GameEventType.ITEM_COLLECTED, (event) => {
+      const day = Math.floor(elapsed / GAME_CONFIG.DAY_CYCLE_DURATION);
+      resourcesByDay[day] = (resourcesByDay[day] ?? 0) + event.quantity;
+    });
+
+    while (ticks < totalTicks && simulation.getCharacter().isAlive) {
+      profile.act(simulation, DECISION_INTERVAL);
+      const steps = Math.min(ticksPerDecision, totalTicks - ticks);
+      for (let i = 0; i < steps; i++) {
+        simulation.clock.step();
+      }
+    }
+
+    const daysLived = Math.ceil((timeToDeath ?? duration) / GAME_CONFIG.DAY_CYCLE_DURATION);
+    return {
+      variant: variant.name,
+      profile: profileId,
+      seed,
+      survived: timeToDeath === null,
+      timeToDeath,
+      hypothermicTime: hypothermicTicks * fixedDelta,
+      resourcesGathered: resourcesByDay.reduce((sum, count) => sum + count, 0),
+      resourcesByDay: Array.from({ length: daysLived }, (_, day) => resourcesByDay[day] ?? 0),
+    };
+  }
+}
+
+/**
+ * Group runs by variant and profile, in first-seen order
+ */
+export function summarizeBalanceRuns(runs: IBalanceRun[]): IBalanceSummary[] {
+  const groups = new Map<string, IBalanceRun[]>();
+  for (const run of runs) {
+    const key = `${run.variant}\u0000${run.profile}`;
+    groups.set(key, [...(groups.get(key) ?? []), run]);
+  }
+
+  const mean = (values: number[]): number =>
+    values.reduce((sum, value) => sum + value, 0) / Math.max(values.length, 1);
+
+  return Array.from(groups.values(), (group) => {
+    const first = group[0]!;
+    const deathTimes = group.flatMap((run) => (run.timeToDeath === null ? [] : [run.timeToDeath]));
+    return {
+      variant: first.variant,
+      profile: first.profile,
+      runs: group.length,
+      deaths: deathTimes.length,
+      meanTimeToDeath: deathTimes.length > 0 ? mean(deathTimes) : null,
+      meanHypothermicTime: mean(group.map((run) => run.hypothermicTime)),
+      meanResourcesPerDay: mean(group.flatMap((run) => run.resourcesByDay)),
+    };
+  });
+}
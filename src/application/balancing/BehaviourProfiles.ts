@@ -0,0 +1,119 @@
+import { Resource, ResourceType } from '@domain/entities/Resource';
+import { GameSimulation } from '@application/simulation/GameSimulation';
+import { CraftingRecipes } from '@application/use-cases/CraftItemUseCase';
+
+export type BehaviourProfileId = 'idle' | 'gathering' | 'crafting';
+
+export const BEHAVIOUR_PROFILE_IDS: readonly BehaviourProfileId[] = [
+  'idle',
+  'gathering',
+  'crafting',
+];
+
+/**
+ * Scripted player behaviour for headless balancing runs.
+ * act() runs once per decision step and may set the activity and issue commands.
+ */
+export interface IBehaviourProfile {
+  readonly id: BehaviourProfileId;
+  act(simulation: GameSimulation, deltaTime: number): void;
+}
+
+const WALK_TIME = 4; // Seconds walking from one resource to the next
+const CRAFT_ORDER = ['campfire', 'stone_axe'];
+
+/**
+ * Stands still for the whole run
+ */
+export class IdleProfile implements IBehaviourProfile {
+  readonly id: BehaviourProfileId = 'idle';
+
+  act(simulation: GameSimulation): void {
+    simulation.setActivity({ isMoving: false, isSprinting: false });
+  }
+}
+
+/**
+ * Walks between resources and hits them at their gather speed, spreading hits across
+ * resource types. Waits for stamina to regenerate instead of failing hits.
+ */
+export class GatheringProfile implements IBehaviourProfile {
+  readonly id: BehaviourProfileId = 'gathering';
+  private target: Resource | null = null;
+  private walkRemaining: number = 0;
+  private hitCooldown: number = 0;
+  private hitsByType = new Map<ResourceType, number>();
+
+  act(simulation: GameSimulation, deltaTime: number): void {
+    if (!this.target || this.target.isDepleted) {
+      this.target = this.pickTarget(simulation);
+      this.walkRemaining = WALK_TIME;
+    }
+
+    const walking = this.target !== null && this.walkRemaining > 0;
+    simulation.setActivity({ isMoving: walking, isSprinting: false });
+    if (!this.target || walking) {
+      this.walkRemaining -= deltaTime;
+      return;
+    }
+
+    this.hitCooldown -= deltaTime;
+    if (this.hitCooldown > 0) return;
+    if (!simulation.getCharacter().canUseStamina(this.target.config.staminaCost)) return;
+
+    simulation.gather(this.target.id);
+    this.hitCooldown = this.target.config.gatherTime;
+    const type = this.target.config.type;
+    this.hitsByType.set(type, (this.hitsByType.get(type) ?? 0) + 1);
+  }
+
+  /**
+   * The first standing resource of the least-hit type
+   */
+  private pickTarget(simulation: GameSimulation): Resource | null {
+    let best: Resource | null = null;
+    for (const resource of simulation.getResources().getResources()) {
+      if (resource.isDepleted) continue;
+      if (!best || this.hitsOf(resource) < this.hitsOf(best)) {
+        best = resource;
+      }
+    }
+    return best;
+  }
+
+  private hitsOf(resource: Resource): number {
+    return this.hitsByType.get(resource.config.type) ?? 0;
+  }
+}
+
+/**
+ * Gathers like GatheringProfile and crafts whatever it can afford in between
+ */
+export class CraftingProfile extends GatheringProfile {
+  override readonly id: BehaviourProfileId = 'crafting';
+
+  override act(simulation: GameSimulation, deltaTime: number): void {
+    for (const recipeId of CRAFT_ORDER) {
+      const recipe = CraftingRecipes.getRecipe(recipeId);
+      if (recipe && simulation.craftUseCase.preview(recipe).canCraft) {
+        simulation.craft(recipeId);
+        return;
+      }
+    }
+    super.act(simulation, deltaTime);
+  }
+}
+
+/**
+ * A fresh (stateful) profile for one run
+ */
+export function createBehaviourProfile(id: BehaviourProfileId): IBehaviourProfile {
+  switch (id) {
+    case 'idle':
+      return new IdleProfile();
+    case 'gathering':
+      return new GatheringProfile();
+    case 'crafting':
+      return new CraftingProfile();
+  }
+}
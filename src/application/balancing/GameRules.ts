@@ -0,0 +1,129 @@
+/**
+ * Difficulty presets offered when a game starts; CUSTOM is anything set in the editor
+ */
+export enum Difficulty {
+  EASY = 'easy',
+  NORMAL = 'normal',
+  HARD = 'hard',
+  BRUTAL = 'brutal',
+  CUSTOM = 'custom',
+}
+
+/**
+ * Rules a game is played with, chosen at game start and kept in its save.
+ * Each value multiplies the survival balance; 1 everywhere is the Normal game.
+ */
+export interface IGameRules {
+  difficulty: Difficulty;
+  depletion: number; // Hunger, thirst and tiredness drain
+  cooling: number; // Body heat lost toward the air temperature
+  damage: number; // Health lost to cold, starvation and thirst
+  resourceRespawn: number; // Time gathered resources take to grow back
+  nightLength: number; // How long the night lasts
+  blizzardChance: number; // Likelihood of a blizzard whenever the weather changes
+}
+
+export type GameRuleMultiplier = Exclude<keyof IGameRules, 'difficulty'>;
+
+/**
+ * The multipliers in the order the custom editor lists them
+ */
+export const GAME_RULE_MULTIPLIERS: readonly GameRuleMultiplier[] = [
+  'depletion',
+  'cooling',
+  'damage',
+  'resourceRespawn',
+  'nightLength',
+  'blizzardChance',
+];
+
+/**
+ * Range a custom multiplier is clamped to
+ */
+export const GAME_RULE_LIMITS = { MIN: 0.25, MAX: 4 } as const;
+
+export type DifficultyPreset = Exclude<Difficulty, Difficulty.CUSTOM>;
+
+export const GAME_RULE_PRESETS: Record<DifficultyPreset, IGameRules> = {
+  [Difficulty.EASY]: {
+    difficulty: Difficulty.EASY,
+    depletion: 0.6,
+    cooling: 0.6,
+    damage: 0.5,
+    resourceRespawn: 0.5,
+    nightLength: 0.75,
+    blizzardChance: 0.5,
+  },
+  [Difficulty.NORMAL]: {
+    difficulty: Difficulty.NORMAL,
+    depletion: 1,
+    cooling: 1,
+    damage: 1,
+    resourceRespawn: 1,
+    nightLength: 1,
+    blizzardChance: 1,
+  },
+  [Difficulty.HARD]: {
+    difficulty: Difficulty.HARD,
+    depletion: 1.3,
+    cooling: 1.3,
+    damage: 1.5,
+    resourceRespawn: 1.5,
+    nightLength: 1.25,
+    blizzardChance: 1.5,
+  },
+  [Difficulty.BRUTAL]: {
+    difficulty: Difficulty.BRUTAL,
+    depletion: 1.6,
+    cooling: 1.75,
+    damage: 2,
+    resourceRespawn: 2.5,
+    nightLength: 1.5,
+    blizzardChance: 2.5,
+  },
+};
+
+export const DEFAULT_GAME_RULES: IGameRules = GAME_RULE_PRESETS[Difficulty.NORMAL];
+
+/**
+ * Custom rules: a preset (Normal unless given) with some multipliers changed,
+ * each clamped to GAME_RULE_LIMITS
+ */
+export function createCustomGameRules(
+  overrides: Partial<Record<GameRuleMultiplier, number>>,
+  base: IGameRules = DEFAULT_GAME_RULES
+): IGameRules {
+  const rules: IGameRules = { ...base, difficulty: Difficulty.CUSTOM };
+  for (const key of GAME_RULE_MULTIPLIERS) {
+    const value = overrides[key];
+    if (value !== undefined && Number.isFinite(value)) {
+      rules[key] = Math.min(Math.max(value, GAME_RULE_LIMITS.MIN), GAME_RULE_LIMITS.MAX);
+    }
+  }
+  return rules;
+}
+
+/**
+ * Rebuild saved rules. Throws on an unknown difficulty or a multiplier outside GAME_RULE_LIMITS.
+ */
+export function gameRulesFromJSON(data: Record<string, unknown>): IGameRules {
+  const difficulty = Object.values(Difficulty).find((known) => known === data['difficulty']);
+  if (!difficulty) {
+    throw new Error(`Unknown difficulty: ${String(data['difficulty'])}`);
+  }
+
+  const rules: IGameRules = { ...DEFAULT_GAME_RULES, difficulty };
+  for (const key of GAME_RULE_MULTIPLIERS) {
+    const value = data[key];
+    if (
+      typeof value !== 'number' ||
+      !(value >= GAME_RULE_LIMITS.MIN && value <= GAME_RULE_LIMITS.MAX)
+    ) {
+      throw new Error(
+        `Game rule ${key} must be between ${GAME_RULE_LIMITS.MIN} and ${GAME_RULE_LIMITS.MAX}`
+      );
+    }
+    rules[key] = value;
+  }
+  return rules;
+}
@@ -0,0 +1,60 @@
+import { GAME_CONFIG, TIME_CONFIG, WEATHER_CONFIG } from '@shared/constants/GameConstants';
+import { TimeTemperatures } from '@application/services/TimeService';
+import { IWeatherModifiers, WeatherModifierTable } from '@application/services/WeatherService';
+import { MetabolismModel } from '@application/survival/Metabolism';
+
+/**
+ * The survival tuning values a simulation runs with.
+ * Defaults come from GAME_CONFIG, TIME_CONFIG and WEATHER_CONFIG.
+ */
+export interface ISurvivalBalance {
+  hungerDepletionRate: number; // Points per minute
+  thirstDepletionRate: number; // Points per minute
+  baseCoolingRate: number; // Degrees per minute toward the air temperature
+  temperatures: TimeTemperatures;
+  weatherModifiers: WeatherModifierTable;
+  metabolism: MetabolismModel; // How activity changes the hunger and thirst rates
+}
+
+/**
+ * Partial balance, e.g. a designer's variant file. Nested tables merge per key.
+ */
+export interface ISurvivalBalanceOverrides {
+  hungerDepletionRate?: number;
+  thirstDepletionRate?: number;
+  baseCoolingRate?: number;
+  temperatures?: Partial<TimeTemperatures>;
+  weatherModifiers?: Partial<Record<keyof WeatherModifierTable, Partial<IWeatherModifiers>>>;
+  metabolism?: MetabolismModel;
+}
+
+export const DEFAULT_SURVIVAL_BALANCE: ISurvivalBalance = {
+  hungerDepletionRate: GAME_CONFIG.HUNGER_DEPLETION_RATE,
+  thirstDepletionRate: GAME_CONFIG.THIRST_DEPLETION_RATE,
+  baseCoolingRate: GAME_CONFIG.BASE_COOLING_RATE,
+  temperatures: TIME_CONFIG.TEMPERATURES,
+  weatherModifiers: WEATHER_CONFIG.MODIFIERS,
+  metabolism: MetabolismModel.FLAT,
+};
+
+/**
+ * Apply overrides on top of a base balance (the defaults unless given)
+ */
+export function createSurvivalBalance(
+  overrides: ISurvivalBalanceOverrides = {},
+  base: ISurvivalBalance = DEFAULT_SURVIVAL_BALANCE
+): ISurvivalBalance {
+  const weatherModifiers = { ...base.weatherModifiers };
+  for (const key of Object.keys(weatherModifiers) as Array<keyof WeatherModifierTable>) {
+    weatherModifiers[key] = { ...weatherModifiers[key], ...overrides.weatherModifiers?.[key] };
+  }
+
+  return {
+    hungerDepletionRate: overrides.hungerDepletionRate ?? base.hungerDepletionRate,
+    thirstDepletionRate: overrides.thirstDepletionRate ?? base.thirstDepletionRate,
+    baseCoolingRate: overrides.baseCoolingRate ?? base.baseCoolingRate,
+    temperatures: { ...base.temperatures, ...overrides.temperatures },
+    weatherModifiers,
+    metabolism: overrides.metabolism ?? base.metabolism,
+  };
+}
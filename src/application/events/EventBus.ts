@@ -1,12 +1,40 @@
+import { DamageCause, StatName } from '@domain/events/CharacterEvents';
+import { StatusEffectType } from '@domain/value-objects/StatusEffectDefinitions';
+import { IItemEffect } from '@domain/entities/Item';
+import { SleepEndReason, SleepSpot } from '@application/use-cases/SleepUseCase';
+
 /**
  * Game event types
  */
 export enum GameEventType {
   TIME_CHANGED = 'TIME_CHANGED',
+  DAWN_STARTED = 'DAWN_STARTED',
+  DAY_STARTED = 'DAY_STARTED',
+  DUSK_STARTED = 'DUSK_STARTED',
+  NIGHT_STARTED = 'NIGHT_STARTED',
   WEATHER_CHANGED = 'WEATHER_CHANGED',
+  WEATHER_TRANSITION_STARTED = 'WEATHER_TRANSITION_STARTED',
+  WEATHER_TRANSITION_COMPLETED = 'WEATHER_TRANSITION_COMPLETED',
   ITEM_COLLECTED = 'ITEM_COLLECTED',
   INVENTORY_CHANGED = 'INVENTORY_CHANGED',
   ITEM_CRAFTED = 'ITEM_CRAFTED',
+  CHARACTER_DAMAGED = 'CHARACTER_DAMAGED',
+  CHARACTER_DIED = 'CHARACTER_DIED',
+  STAT_THRESHOLD_CROSSED = 'STAT_THRESHOLD_CROSSED',
+  STATUS_EFFECT_APPLIED = 'STATUS_EFFECT_APPLIED',
+  STATUS_EFFECT_REMOVED = 'STATUS_EFFECT_REMOVED',
+  SURVIVAL_RULE_ACTIVATED = 'SURVIVAL_RULE_ACTIVATED',
+  SURVIVAL_RULE_DEACTIVATED = 'SURVIVAL_RULE_DEACTIVATED',
+  RESOURCE_DEPLETED = 'RESOURCE_DEPLETED',
+  RESOURCE_RESPAWNED = 'RESOURCE_RESPAWNED',
+  ITEM_CONSUMED = 'ITEM_CONSUMED',
+  ITEM_DROPPED = 'ITEM_DROPPED',
+  HEAT_SOURCE_PLACED = 'HEAT_SOURCE_PLACED',
+  SLEEP_STARTED = 'SLEEP_STARTED',
+  SLEEP_ENDED = 'SLEEP_ENDED',
+  CORPSE_CREATED = 'CORPSE_CREATED',
+  CORPSE_LOOTED = 'CORPSE_LOOTED',
+  CHARACTER_RESPAWNED = 'CHARACTER_RESPAWNED',
 }
 
 export interface TimeChangedEvent {
@@ -14,6 +42,17 @@ export interface TimeChangedEvent {
   normalizedTime: number; // 0-1 (0=midnight, 0.5=noon)
   timeOfDay: string;
   hours: number;
+  day: number; // In-game day, starts at 1
+  environmentTemperature: number;
+}
+
+export interface TimeSegmentStartedEvent {
+  type:
+    | GameEventType.DAWN_STARTED
+    | GameEventType.DAY_STARTED
+    | GameEventType.DUSK_STARTED
+    | GameEventType.NIGHT_STARTED;
+  day: number;
   environmentTemperature: number;
 }
 
@@ -26,6 +65,18 @@ export interface WeatherChangedEvent {
   visibility: number;
 }
 
+export interface WeatherTransitionStartedEvent {
+  type: GameEventType.WEATHER_TRANSITION_STARTED;
+  from: string;
+  to: string;
+  duration: number; // Seconds until WEATHER_TRANSITION_COMPLETED
+}
+
+export interface WeatherTransitionCompletedEvent {
+  type: GameEventType.WEATHER_TRANSITION_COMPLETED;
+  weather: string;
+}
+
 export interface ItemCollectedEvent {
   type: GameEventType.ITEM_COLLECTED;
   itemId: string;
@@ -43,49 +94,345 @@ export interface ItemCraftedEvent {
   itemName: string;
 }
 
+export interface CharacterDamagedEvent {
+  type: GameEventType.CHARACTER_DAMAGED;
+  characterId: string;
+  amount: number; // Health lost since the last CHARACTER_DAMAGED of this cause
+  cause: DamageCause;
+  health: number; // Health after the damage
+}
+
+export interface CharacterDiedEvent {
+  type: GameEventType.CHARACTER_DIED;
+  characterId: string;
+  cause: DamageCause;
+}
+
+export interface StatThresholdCrossedEvent {
+  type: GameEventType.STAT_THRESHOLD_CROSSED;
+  characterId: string;
+  stat: StatName;
+  threshold: number;
+  direction: 'below' | 'above';
+  value: number;
+}
+
+export interface StatusEffectAppliedEvent {
+  type: GameEventType.STATUS_EFFECT_APPLIED;
+  characterId: string;
+  effect: StatusEffectType;
+  stacks: number;
+  remaining: number; // Seconds
+}
+
+export interface StatusEffectRemovedEvent {
+  type: GameEventType.STATUS_EFFECT_REMOVED;
+  characterId: string;
+  effect: StatusEffectType;
+  reason: 'expired' | 'cured';
+}
+
+export interface SurvivalRuleActivatedEvent {
+  type: GameEventType.SURVIVAL_RULE_ACTIVATED;
+  characterId: string;
+  ruleId: string; // e.g. 'hypothermia' once the cold starts dealing damage
+}
+
+export interface SurvivalRuleDeactivatedEvent {
+  type: GameEventType.SURVIVAL_RULE_DEACTIVATED;
+  characterId: string;
+  ruleId: string;
+}
+
+export interface ResourceDepletedEvent {
+  type: GameEventType.RESOURCE_DEPLETED;
+  resourceId: string;
+  resourceType: string;
+  respawnTime: number; // Seconds until it grows back
+}
+
+export interface ResourceRespawnedEvent {
+  type: GameEventType.RESOURCE_RESPAWNED;
+  resourceId: string;
+  resourceType: string;
+}
+
+export interface ItemConsumedEvent {
+  type: GameEventType.ITEM_CONSUMED;
+  itemId: string;
+  itemName: string;
+  quantity: number;
+  effects: IItemEffect;
+}
+
+export interface ItemDroppedEvent {
+  type: GameEventType.ITEM_DROPPED;
+  itemId: string;
+  itemName: string;
+  quantity: number;
+}
+
+export interface HeatSourcePlacedEvent {
+  type: GameEventType.HEAT_SOURCE_PLACED;
+  sourceId: string;
+  itemId: string;
+  position: { x: number; y: number; z: number };
+  radius: number;
+}
+
+export interface SleepStartedEvent {
+  type: GameEventType.SLEEP_STARTED;
+  characterId: string;
+  spot: SleepSpot;
+}
+
+export interface SleepEndedEvent {
+  type: GameEventType.SLEEP_ENDED;
+  characterId: string;
+  reason: SleepEndReason;
+  energy: number;
+}
+
+export interface CorpseCreatedEvent {
+  type: GameEventType.CORPSE_CREATED;
+  corpseId: string;
+  characterName: string;
+  cause: DamageCause;
+  position: { x: number; y: number; z: number };
+  itemCount: number; // Items (summed quantities) left in the corpse
+}
+
+export interface CorpseLootedEvent {
+  type: GameEventType.CORPSE_LOOTED;
+  corpseId: string;
+  itemCount: number; // Items (summed quantities) taken
+  isEmpty: boolean; // Emptied corpses are removed from the world
+}
+
+export interface CharacterRespawnedEvent {
+  type: GameEventType.CHARACTER_RESPAWNED;
+  characterId: string;
+  pointId: string;
+  position: { x: number; y: number; z: number };
+}
+
 export type GameEvent =
   | TimeChangedEvent
+  | TimeSegmentStartedEvent
   | WeatherChangedEvent
+  | WeatherTransitionStartedEvent
+  | WeatherTransitionCompletedEvent
   | ItemCollectedEvent
   | InventoryChangedEvent
-  | ItemCraftedEvent;
+  | ItemCraftedEvent
+  | CharacterDamagedEvent
+  | CharacterDiedEvent
+  | StatThresholdCrossedEvent
+  | StatusEffectAppliedEvent
+  | StatusEffectRemovedEvent
+  | SurvivalRuleActivatedEvent
+  | SurvivalRuleDeactivatedEvent
+  | ResourceDepletedEvent
+  | ResourceRespawnedEvent
+  | ItemConsumedEvent
+  | ItemDroppedEvent
+  | HeatSourcePlacedEvent
+  | SleepStartedEvent
+  | SleepEndedEvent
+  | CorpseCreatedEvent
+  | CorpseLootedEvent
+  | CharacterRespawnedEvent;
 
 type EventCallback<T extends GameEvent> = (event: T) => void;
 
 /**
- * Typed pub/sub event bus for loose coupling between game systems
+ * Receives errors thrown by listeners, with the event being delivered
+ */
+export type EventErrorHandler = (error: unknown, event: GameEvent) => void;
+
+export interface ISubscribeOptions {
+  priority?: number; // Higher runs first; equal priorities run in subscription order
+  once?: boolean; // Unsubscribe after the first delivery
+}
+
+interface IListener {
+  callback: EventCallback<GameEvent>;
+  priority: number;
+  once: boolean;
+  order: number;
+  owner: IListener[];
+  removed: boolean;
+}
+
+const MAX_FLUSH_PASSES = 100; // Guards against listeners that keep queueing events forever
+
+/**
+ * Typed pub/sub event bus for loose coupling between game systems.
+ * Listeners are isolated: one that throws is reported on the error channel
+ * and the remaining listeners still run.
  */
 export class EventBus {
-  private listeners = new Map<GameEventType, Set<EventCallback<GameEvent>>>();
+  private listeners = new Map<GameEventType, IListener[]>();
+  private wildcardListeners: IListener[] = [];
+  private errorHandlers: EventErrorHandler[] = [];
+  private queue: GameEvent[] = [];
+  private nextOrder: number = 0;
 
   subscribe<T extends GameEvent>(
     type: T['type'],
-    callback: EventCallback<T>
+    callback: EventCallback<T>,
+    options: ISubscribeOptions = {}
   ): () => void {
-    if (!this.listeners.has(type)) {
-      this.listeners.set(type, new Set());
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = [];
+      this.listeners.set(type, listeners);
     }
+    return this.addListener(listeners, callback as EventCallback<GameEvent>, options);
+  }
+
+  /**
+   * Subscribe for the next event of a type only
+   */
+  once<T extends GameEvent>(
+    type: T['type'],
+    callback: EventCallback<T>,
+    priority: number = 0
+  ): () => void {
+    return this.subscribe(type, callback, { priority, once: true });
+  }
 
-    const callbacks = this.listeners.get(type)!;
-    const wrappedCallback = callback as EventCallback<GameEvent>;
-    callbacks.add(wrappedCallback);
+  /**
+   * Receive every event, e.g. for logging or networking.
+   * Runs alongside typed listeners, ordered by priority.
+   */
+  subscribeAll(callback: EventCallback<GameEvent>, options: ISubscribeOptions = {}): () => void {
+    return this.addListener(this.wildcardListeners, callback, options);
+  }
 
-    // Return unsubscribe function
+  /**
+   * Observe listener errors. Without any handler they are logged to the console.
+   */
+  onError(handler: EventErrorHandler): () => void {
+    this.errorHandlers.push(handler);
     return () => {
-      callbacks.delete(wrappedCallback);
+      this.errorHandlers = this.errorHandlers.filter((h) => h !== handler);
     };
   }
 
+  /**
+   * Deliver an event to its listeners right away
+   */
   publish<T extends GameEvent>(event: T): void {
-    const callbacks = this.listeners.get(event.type);
-    if (callbacks) {
-      for (const callback of callbacks) {
-        callback(event);
+    const typed = this.listeners.get(event.type) ?? [];
+    const targets =
+      this.wildcardListeners.length === 0
+        ? [...typed]
+        : [...typed, ...this.wildcardListeners].sort(byPriority);
+
+    for (const listener of targets) {
+      if (listener.removed) continue; // Unsubscribed by an earlier listener
+      if (listener.once) {
+        this.removeListener(listener);
       }
+      try {
+        listener.callback(event);
+      } catch (error) {
+        this.reportError(error, event);
+      }
+    }
+  }
+
+  /**
+   * Queue an event for the next flush() instead of delivering it re-entrantly
+   */
+  enqueue<T extends GameEvent>(event: T): void {
+    this.queue.push(event);
+  }
+
+  /**
+   * Queue an event unless one of the same type is already waiting; the queued one
+   * takes the newer payload. Batches bursts such as INVENTORY_CHANGED into one per flush.
+   */
+  enqueueLatest<T extends GameEvent>(event: T): void {
+    const index = this.queue.findIndex((queued) => queued.type === event.type);
+    if (index === -1) {
+      this.queue.push(event);
+    } else {
+      this.queue[index] = event;
     }
   }
 
+  /**
+   * Deliver queued events in order, including any queued while flushing
+   */
+  flush(): void {
+    for (let pass = 0; pass < MAX_FLUSH_PASSES && this.queue.length > 0; pass++) {
+      const events = this.queue;
+      this.queue = [];
+      for (const event of events) {
+        this.publish(event);
+      }
+    }
+    if (this.queue.length > 0) {
+      console.error(`EventBus: dropped ${this.queue.length} events queued in a flush loop`);
+      this.queue = [];
+    }
+  }
+
+  getQueuedCount(): number {
+    return this.queue.length;
+  }
+
   clear(): void {
     this.listeners.clear();
+    this.wildcardListeners = [];
+    this.queue = [];
   }
+
+  private addListener(
+    listeners: IListener[],
+    callback: EventCallback<GameEvent>,
+    options: ISubscribeOptions
+  ): () => void {
+    const listener: IListener = {
+      callback,
+      priority: options.priority ?? 0,
+      once: options.once ?? false,
+      order: this.nextOrder++,
+      owner: listeners,
+      removed: false,
+    };
+    listeners.push(listener);
+    listeners.sort(byPriority);
+
+    // Return unsubscribe function
+    return () => this.removeListener(listener);
+  }
+
+  private removeListener(listener: IListener): void {
+    listener.removed = true;
+    const index = listener.owner.indexOf(listener);
+    if (index !== -1) {
+      listener.owner.splice(index, 1);
+    }
+  }
+
+  private reportError(error: unknown, event: GameEvent): void {
+    if (this.errorHandlers.length === 0) {
+      console.error(`Error in ${event.type} listener:`, error);
+      return;
+    }
+    for (const handler of this.errorHandlers) {
+      try {
+        handler(error, event);
+      } catch (handlerError) {
+        console.error('Error in EventBus error handler:', handlerError);
+      }
+    }
+  }
+}
+
+function byPriority(a: IListener, b: IListener): number {
+  return b.priority - a.priority || a.order - b.order;
 }
@@ -0,0 +1,131 @@
+import { EventBus, GameEvent, GameEventType } from '@application/events/EventBus';
+
+/**
+ * One recorded event
+ */
+export interface IJournalEntry {
+  sequence: number; // Position among every event recorded, including ones overwritten since
+  tick: number; // Simulation tick the event was published on
+  time: number; // Wall-clock time (ms since epoch)
+  event: GameEvent;
+}
+
+/**
+ * Serialized journal, as exported for bug reports
+ */
+export interface IJournalExport {
+  exportedAt: number;
+  capacity: number;
+  dropped: number; // Events overwritten before the export
+  entries: IJournalEntry[];
+}
+
+/**
+ * Opt-in ring buffer of every event published on an EventBus.
+ * Nothing is recorded until start(); once full, the oldest entries are overwritten.
+ */
+export class EventJournal {
+  private buffer: Array<IJournalEntry | undefined>;
+  private recorded: number = 0;
+  private paused: boolean = false;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    private eventBus: EventBus,
+    private getTick: () => number,
+    readonly capacity: number,
+    private now: () => number = Date.now
+  ) {
+    this.buffer = new Array<IJournalEntry | undefined>(capacity);
+  }
+
+  /**
+   * Begin recording. Runs before any other listener, so entries are in publish order.
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = this.eventBus.subscribeAll((event) => this.record(event), {
+      priority: Number.MAX_SAFE_INTEGER,
+    });
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  isStarted(): boolean {
+    return this.unsubscribe !== null;
+  }
+
+  /**
+   * Keep the subscription but ignore events until resumed
+   */
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  isCapturing(): boolean {
+    return this.isStarted() && !this.paused;
+  }
+
+  /**
+   * Total events recorded; changes whenever a new entry arrives
+   */
+  getRecordedCount(): number {
+    return this.recorded;
+  }
+
+  getDroppedCount(): number {
+    return Math.max(this.recorded - this.capacity, 0);
+  }
+
+  /**
+   * Entries oldest first, optionally only the given event types
+   */
+  getEntries(types?: ReadonlySet<GameEventType>): IJournalEntry[] {
+    const count = Math.min(this.recorded, this.capacity);
+    const entries: IJournalEntry[] = [];
+    for (let i = this.recorded - count; i < this.recorded; i++) {
+      const entry = this.buffer[i % this.capacity];
+      if (entry && (!types || types.has(entry.event.type))) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+
+  clear(): void {
+    this.buffer = new Array<IJournalEntry | undefined>(this.capacity);
+    this.recorded = 0;
+  }
+
+  toJSON(types?: ReadonlySet<GameEventType>): IJournalExport {
+    return {
+      exportedAt: this.now(),
+      capacity: this.capacity,
+      dropped: this.getDroppedCount(),
+      entries: this.getEntries(types),
+    };
+  }
+
+  private record(event: GameEvent): void {
+    if (this.paused) return;
+
+    this.buffer[this.recorded % this.capacity] = {
+      sequence: this.recorded,
+      tick: this.getTick(),
+      time: this.now(),
+      event: { ...event },
+    };
+    this.recorded++;
+  }
+}
@@ -0,0 +1,66 @@
+import { getSchemaVersion } from '@domain/value-objects/SchemaVersion';
+
+/**
+ * Upgrades serialized data from one schema version to the next
+ */
+export type SchemaMigration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Registry of per-entity schema migrations.
+ * Each migration upgrades data from version N to N+1; migrate() chains them
+ * (v1 -> v2 -> ... -> target) and stamps the new schemaVersion after every step.
+ */
+export class MigrationRegistry {
+  private migrations = new Map<string, Map<number, SchemaMigration>>();
+
+  /**
+   * Register a migration upgrading `entity` data from `fromVersion` to `fromVersion + 1`
+   */
+  register(entity: string, fromVersion: number, migration: SchemaMigration): this {
+    if (!this.migrations.has(entity)) {
+      this.migrations.set(entity, new Map());
+    }
+
+    const entityMigrations = this.migrations.get(entity)!;
+    if (entityMigrations.has(fromVersion)) {
+      throw new Error(`Migration already registered for ${entity} v${fromVersion}`);
+    }
+    entityMigrations.set(fromVersion, migration);
+    return this;
+  }
+
+  /**
+   * Check whether a migration step exists
+   */
+  has(entity: string, fromVersion: number): boolean {
+    return this.migrations.get(entity)?.has(fromVersion) ?? false;
+  }
+
+  /**
+   * Upgrade data to the target schema version
+   */
+  migrate(
+    entity: string,
+    data: Record<string, unknown>,
+    targetVersion: number
+  ): Record<string, unknown> {
+    let version = getSchemaVersion(data);
+    if (version > targetVersion) {
+      throw new Error(
+        `${entity} data is schema v${version}, newer than supported v${targetVersion}`
+      );
+    }
+
+    let migrated = data;
+    while (version < targetVersion) {
+      const migration = this.migrations.get(entity)?.get(version);
+      if (!migration) {
+        throw new Error(`No migration registered for ${entity} v${version} -> v${version + 1}`);
+      }
+      migrated = { ...migration(migrated), schemaVersion: version + 1 };
+      version++;
+    }
+
+    return migrated;
+  }
+}
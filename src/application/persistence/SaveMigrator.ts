@@ -0,0 +1,244 @@
+import { Character } from '@domain/entities/Character';
+import { Inventory } from '@domain/entities/Inventory';
+import { Item, ItemRarity } from '@domain/entities/Item';
+import { TimeService } from '@application/services/TimeService';
+import { DEFAULT_GAME_RULES } from '@application/balancing/GameRules';
+import { CharacterClass, FRESHNESS_CONFIG, WeatherType } from '@shared/constants/GameConstants';
+import { MigrationRegistry } from '@application/persistence/MigrationRegistry';
+import { ISaveGameSnapshot, SAVE_SCHEMA_VERSION } from '@application/persistence/SaveSnapshot';
+
+type Data = Record<string, unknown>;
+
+/**
+ * Seed assigned to worlds saved before v4, which were generated with Math.random()
+ */
+export const LEGACY_WORLD_SEED = 0;
+
+/**
+ * Fill null/missing keys of `data` from `defaults`, keeping any extra keys
+ */
+const withDefaults = (data: Data | undefined, defaults: Data): Data => {
+  const result: Data = { ...data };
+  for (const [key, value] of Object.entries(defaults)) {
+    result[key] = result[key] ?? value;
+  }
+  return result;
+};
+
+/**
+ * v1 saves stored `version` on the envelope; v2 uses the shared `schemaVersion` stamp
+ */
+const saveV1ToV2 = (data: Data): Data => {
+  const migrated = { ...data };
+  delete migrated['version'];
+  return migrated;
+};
+
+/**
+ * v3 adds slot metadata; derive what we can from the saved session
+ */
+const saveV2ToV3 = (data: Data): Data => {
+  const character = (data['character'] as Data | undefined) ?? {};
+  const time = (data['time'] as Data | undefined) ?? {};
+  const weather = (data['weather'] as Data | undefined) ?? {};
+  const transitioning = ((weather['transitionProgress'] as number | undefined) ?? 1) < 1;
+
+  const metadata = withDefaults(
+    {
+      characterName: character['name'],
+      characterClass: character['characterClass'],
+      day: time['day'],
+      weather: transitioning ? weather['targetWeather'] : weather['currentWeather'],
+    },
+    {
+      characterName: 'Unknown',
+      characterClass: CharacterClass.SURVIVOR,
+      day: 1,
+      weather: WeatherType.CLEAR,
+    }
+  );
+
+  return {
+    ...data,
+    metadata: {
+      ...metadata,
+      playtime: 0,
+      timeOfDay: TimeService.getTimeOfDayAt((time['normalizedTime'] as number | undefined) ?? 0),
+      position: withDefaults(character['position'] as Data | undefined, { x: 0, y: 0, z: 0 }),
+      thumbnail: null,
+    },
+  };
+};
+
+/**
+ * v4 records the world seed and random stream positions. Legacy worlds get a fixed seed;
+ * their resource state still restores by id onto the regenerated layout.
+ */
+const saveV3ToV4 = (data: Data): Data => ({
+  ...data,
+  metadata: { ...(data['metadata'] as Data | undefined), worldSeed: LEGACY_WORLD_SEED },
+  random: { seed: LEGACY_WORLD_SEED, streams: {} },
+});
+
+/**
+ * v5 stores placed heat sources; older worlds had none
+ */
+const saveV4ToV5 = (data: Data): Data => ({
+  ...data,
+  world: withDefaults(data['world'] as Data | undefined, { heatSources: [] }),
+});
+
+/**
+ * v6 stores corpses left by dead characters; older worlds had none
+ */
+const saveV5ToV6 = (data: Data): Data => ({
+  ...data,
+  world: withDefaults(data['world'] as Data | undefined, { corpses: [] }),
+});
+
+/**
+ * v7 stores the game rules; older games were all played on Normal
+ */
+const saveV6ToV7 = (data: Data): Data => ({
+  ...data,
+  rules: data['rules'] ?? { ...DEFAULT_GAME_RULES },
+});
+
+/**
+ * v1 characters relied on fromJSON falling back to defaults; v2 stores every field
+ */
+const characterV1ToV2 = (data: Data): Data => {
+  const stats = withDefaults(data['stats'] as Data | undefined, {
+    health: 100,
+    maxHealth: 100,
+    hunger: 100,
+    maxHunger: 100,
+    thirst: 100,
+    maxThirst: 100,
+    temperature: 37,
+    stamina: 100,
+    maxStamina: 100,
+  });
+  const position = withDefaults(data['position'] as Data | undefined, { x: 0, y: 0, z: 0 });
+
+  return withDefaults({ ...data, stats, position }, { isAlive: (stats['health'] as number) > 0 });
+};
+
+/**
+ * v3 adds status effects; older characters had none
+ */
+const characterV2ToV3 = (data: Data): Data => withDefaults(data, { statusEffects: [] });
+
+/**
+ * v4 adds wetness to the stats; older characters were dry
+ */
+const characterV3ToV4 = (data: Data): Data => ({
+  ...data,
+  stats: withDefaults(data['stats'] as Data | undefined, { wetness: 0 }),
+});
+
+/**
+ * v5 adds energy to the stats; older characters start fully rested
+ */
+const characterV4ToV5 = (data: Data): Data => ({
+  ...data,
+  stats: withDefaults(data['stats'] as Data | undefined, { energy: 100 }),
+});
+
+const inventoryV1ToV2 = (data: Data): Data =>
+  withDefaults(data, { maxSlots: 20, maxWeight: 100, items: [] });
+
+const itemV1ToV2 = (data: Data): Data =>
+  withDefaults(data, {
+    rarity: ItemRarity.COMMON,
+    maxStack: 1,
+    weight: 1,
+    modelPath: '',
+    iconPath: '',
+    isConsumable: false,
+    effects: null,
+    craftingMaterials: null,
+    quantity: 1,
+  });
+
+/**
+ * v3 adds freshness; food saved before spoiling existed is fresh
+ */
+const itemV2ToV3 = (data: Data): Data =>
+  withDefaults(data, {
+    shelfLife: FRESHNESS_CONFIG.SHELF_LIFE[data['id'] as string] ?? null,
+    freshness: 1,
+  });
+
+/**
+ * Upgrades a raw save (envelope and every nested entity) to the current schema
+ * versions before anything is deserialized.
+ */
+export class SaveMigrator {
+  constructor(private registry: MigrationRegistry = SaveMigrator.createDefaultRegistry()) {}
+
+  /**
+   * Registry with every migration shipped so far
+   */
+  static createDefaultRegistry(): MigrationRegistry {
+    return new MigrationRegistry()
+      .register('save', 1, saveV1ToV2)
+      .register('save', 2, saveV2ToV3)
+      .register('save', 3, saveV3ToV4)
+      .register('save', 4, saveV4ToV5)
+      .register('save', 5, saveV5ToV6)
+      .register('save', 6, saveV6ToV7)
+      .register('character', 1, characterV1ToV2)
+      .register('character', 2, characterV2ToV3)
+      .register('character', 3, characterV3ToV4)
+      .register('character', 4, characterV4ToV5)
+      .register('inventory', 1, inventoryV1ToV2)
+      .register('item', 1, itemV1ToV2)
+      .register('item', 2, itemV2ToV3);
+  }
+
+  /**
+   * Upgrade a raw save snapshot to the current schema
+   */
+  upgrade(data: Data): ISaveGameSnapshot {
+    const save = this.registry.migrate(
+      'save',
+      data,
+      SAVE_SCHEMA_VERSION
+    ) as unknown as ISaveGameSnapshot;
+
+    return {
+      ...save,
+      character: this.upgradeCharacter(save.character),
+      inventory: this.upgradeInventory(save.inventory),
+      world: {
+        ...save.world,
+        corpses: save.world.corpses.map((corpse) => ({
+          ...corpse,
+          inventory: this.upgradeInventory(corpse['inventory'] as Data),
+        })),
+      },
+    };
+  }
+
+  upgradeCharacter(data: Data): Data {
+    return this.registry.migrate('character', data, Character.SCHEMA_VERSION);
+  }
+
+  upgradeInventory(data: Data): Data {
+    const inventory = this.registry.migrate('inventory', data, Inventory.SCHEMA_VERSION);
+    const items = inventory['items'] as Array<{ slotIndex: number; item: Data }>;
+
+    return {
+      ...inventory,
+      items: items.map(({ slotIndex, item }) => ({
+        slotIndex,
+        item: this.upgradeItem(item),
+      })),
+    };
+  }
+
+  upgradeItem(data: Data): Data {
+    return this.registry.migrate('item', data, Item.SCHEMA_VERSION);
+  }
+}
@@ -0,0 +1,42 @@
+import { CharacterClass, TimeOfDay, WeatherType } from '@shared/constants/GameConstants';
+import { IRandomState } from '@application/services/RandomService';
+
+/**
+ * Current schema version of the save snapshot envelope
+ */
+export const SAVE_SCHEMA_VERSION = 7;
+
+/**
+ * Summary shown in the save slot menu without deserializing the whole session
+ */
+export interface ISaveMetadata {
+  characterName: string;
+  characterClass: CharacterClass;
+  playtime: number; // Total seconds played
+  day: number; // In-game day, starts at 1
+  timeOfDay: TimeOfDay;
+  weather: WeatherType;
+  position: { x: number; y: number; z: number };
+  worldSeed: number; // Reproduces the world layout, loot and weather
+  thumbnail: string | null; // Image data URL captured from the canvas
+}
+
+/**
+ * Complete serialized game session
+ */
+export interface ISaveGameSnapshot {
+  schemaVersion: number;
+  savedAt: number; // Unix epoch milliseconds
+  metadata: ISaveMetadata;
+  character: Record<string, unknown>;
+  inventory: Record<string, unknown>;
+  time: Record<string, unknown>;
+  weather: Record<string, unknown>;
+  random: IRandomState;
+  rules: Record<string, unknown>; // Difficulty the game was started with
+  world: {
+    resources: Array<Record<string, unknown>>;
+    heatSources: Array<Record<string, unknown>>;
+    corpses: Array<Record<string, unknown>>;
+  };
+}
@@ -0,0 +1,131 @@
+import { ISaveGameSnapshot } from '@application/persistence/SaveSnapshot';
+import { GameSimulation } from '@application/simulation/GameSimulation';
+import { IInputState, isSameInput } from '@application/simulation/PlayerInput';
+import {
+  IInputRecording,
+  IRecordedCommand,
+  IRecordedInput,
+  IRecordedPosition,
+  REPLAY_FORMAT_VERSION,
+} from '@application/replay/InputRecording';
+
+/**
+ * Records the input state and player position of every simulation tick plus every
+ * command, starting from a save of the session at that moment.
+ */
+export class InputRecorder {
+  private initialSave: ISaveGameSnapshot | null = null;
+  private seed: number = 0;
+  private startTick: number = 0;
+  private inputs: IRecordedInput[] = [];
+  private positions: IRecordedPosition[] = [];
+  private commands: IRecordedCommand[] = [];
+  private lastInput: IInputState | null = null;
+  private lastPosition: IRecordedPosition | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  /**
+   * readInput returns the input state the simulation used for the tick that just ran
+   */
+  constructor(
+    private simulation: GameSimulation,
+    private readInput: () => IInputState
+  ) {}
+
+  isRecording(): boolean {
+    return this.initialSave !== null;
+  }
+
+  /**
+   * Ticks recorded so far
+   */
+  getLength(): number {
+    return this.isRecording() ? this.simulation.clock.getTick() - this.startTick : 0;
+  }
+
+  /**
+   * Start recording. initialSave must capture the session as it is right now.
+   */
+  start(initialSave: ISaveGameSnapshot): void {
+    if (this.isRecording()) {
+      throw new Error('Already recording');
+    }
+
+    this.initialSave = initialSave;
+    this.seed = this.simulation.random.getSeed();
+    this.startTick = this.simulation.clock.getTick();
+    this.inputs = [];
+    this.positions = [];
+    this.commands = [];
+    this.lastInput = null;
+    this.lastPosition = null;
+    this.recordPosition();
+
+    this.unsubscribers = [
+      this.simulation.onTick(() => {
+        this.recordInput();
+        this.recordPosition();
+      }),
+      this.simulation.onCommand((command, result) => {
+        // The player may have been moved since the last tick
+        this.recordPosition();
+        this.commands.push({
+          tick: this.getLength(),
+          command: { ...command },
+          result: { success: result.success, message: result.message },
+        });
+      }),
+    ];
+  }
+
+  /**
+   * Stop recording and return the finished recording
+   */
+  stop(): IInputRecording {
+    if (!this.initialSave) {
+      throw new Error('Not recording');
+    }
+
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
+
+    const recording: IInputRecording = {
+      version: REPLAY_FORMAT_VERSION,
+      seed: this.seed,
+      tickRate: 1 / this.simulation.clock.getFixedDelta(),
+      length: this.getLength(),
+      recordedAt: Date.now(),
+      initialSave: this.initialSave,
+      inputs: this.inputs,
+      positions: this.positions,
+      commands: this.commands,
+    };
+    this.initialSave = null;
+    return recording;
+  }
+
+  private recordInput(): void {
+    const state = this.readInput();
+    if (this.lastInput && isSameInput(state, this.lastInput)) {
+      return;
+    }
+    this.lastInput = { ...state };
+    this.inputs.push({ tick: this.getLength(), state: { ...state } });
+  }
+
+  private recordPosition(): void {
+    const { x, y, z } = this.simulation.getCharacter().position;
+    const last = this.lastPosition;
+    if (last && last.x === x && last.y === y && last.z === z) {
+      return;
+    }
+    const tick = this.getLength();
+    if (last?.tick === tick) {
+      this.positions.pop();
+    }
+    this.lastPosition = { tick, x, y, z };
+    this.positions.push(this.lastPosition);
+  }
+}
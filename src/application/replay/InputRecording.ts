@@ -0,0 +1,90 @@
+import { ISaveGameSnapshot } from '@application/persistence/SaveSnapshot';
+import { ICommandResult, SimulationCommand } from '@application/simulation/GameSimulation';
+import { IInputState } from '@application/simulation/PlayerInput';
+
+export const REPLAY_FORMAT_VERSION = 1;
+export const REPLAY_FILE_EXTENSION = '.wreplay';
+
+/**
+ * Input state in effect from `tick` onward (only changes are stored)
+ */
+export interface IRecordedInput {
+  tick: number;
+  state: IInputState;
+}
+
+/**
+ * Where the player stood after `tick` (only changes are stored)
+ */
+export interface IRecordedPosition {
+  tick: number;
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * A command that ran after `tick` simulation steps, with the result it produced
+ */
+export interface IRecordedCommand {
+  tick: number;
+  command: SimulationCommand;
+  result: ICommandResult;
+}
+
+/**
+ * Everything needed to reproduce a session: the world seed, the save it started
+ * from, and the per-tick input, player position and commands. Ticks count from the start
+ * of the recording.
+ */
+export interface IInputRecording {
+  version: number;
+  seed: number;
+  tickRate: number;
+  length: number; // Ticks recorded
+  recordedAt: number;
+  initialSave: ISaveGameSnapshot;
+  inputs: IRecordedInput[];
+  positions: IRecordedPosition[];
+  commands: IRecordedCommand[];
+}
+
+/**
+ * Raised when a file is not a replay this version can play
+ */
+export class ReplayFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayFormatError';
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check the shape of a parsed replay file
+ */
+export function parseRecording(data: unknown): IInputRecording {
+  if (!isObject(data)) {
+    throw new ReplayFormatError('Not a replay file');
+  }
+  if (data['version'] !== REPLAY_FORMAT_VERSION) {
+    throw new ReplayFormatError(`Unsupported replay version: ${JSON.stringify(data['version'])}`);
+  }
+  for (const field of ['seed', 'tickRate', 'length']) {
+    if (typeof data[field] !== 'number' || !Number.isFinite(data[field])) {
+      throw new ReplayFormatError(`Replay ${field} must be a finite number`);
+    }
+  }
+  if (!isObject(data['initialSave'])) {
+    throw new ReplayFormatError('Replay has no initial save');
+  }
+  for (const field of ['inputs', 'positions', 'commands']) {
+    if (!Array.isArray(data[field])) {
+      throw new ReplayFormatError(`Replay ${field} must be an array`);
+    }
+  }
+  return data as unknown as IInputRecording;
+}
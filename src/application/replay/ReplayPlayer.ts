@@ -0,0 +1,203 @@
+import { GameSimulation, ICommandResult } from '@application/simulation/GameSimulation';
+import { IInputState, activityFromInput } from '@application/simulation/PlayerInput';
+import {
+  IInputRecording,
+  IRecordedCommand,
+  IRecordedPosition,
+} from '@application/replay/InputRecording';
+
+/**
+ * A replayed command whose result differs from the recorded one
+ */
+export interface IReplayDivergence {
+  tick: number;
+  recorded: IRecordedCommand;
+  actual: ICommandResult;
+}
+
+/**
+ * Feeds a recording back into a simulation tick by tick: the recorded input drives
+ * the player's activity, the recorded position places the player and every command
+ * re-runs at the tick it was issued.
+ * The simulation must already be restored from the recording's initial save.
+ * Playback speed is the simulation clock's: pause, step and fast-forward act on it.
+ */
+export class ReplayPlayer {
+  private played: number = 0;
+  private nextInput: number = 0;
+  private nextPosition: number = 0;
+  private nextCommand: number = 0;
+  private divergences: IReplayDivergence[] = [];
+  private unsubscribe: (() => void) | null = null;
+  private finishHandlers: Array<() => void> = [];
+  private positionHandlers: Array<(position: IRecordedPosition) => void> = [];
+
+  /**
+   * applyInput mirrors the replayed input elsewhere (e.g. the InputManager); null on finish
+   */
+  constructor(
+    private simulation: GameSimulation,
+    private recording: IInputRecording,
+    private applyInput: (state: IInputState | null) => void = () => {}
+  ) {}
+
+  /**
+   * Begin playback: runs the commands issued before the first tick and queues its input
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = this.simulation.onTick(() => this.afterTick());
+    this.applyPositions();
+    this.runCommands();
+    if (this.isFinished()) {
+      this.finish();
+      return;
+    }
+    this.applyNextInput();
+  }
+
+  /**
+   * Stop playback early and hand input back
+   */
+  stop(): void {
+    if (!this.unsubscribe) return;
+
+    this.unsubscribe();
+    this.unsubscribe = null;
+    this.simulation.clock.setTimeScale(1);
+    this.applyInput(null);
+  }
+
+  pause(): void {
+    this.simulation.clock.pause();
+  }
+
+  resume(): void {
+    this.simulation.clock.resume();
+  }
+
+  isPaused(): boolean {
+    return this.simulation.clock.isPaused();
+  }
+
+  /**
+   * Advance exactly one recorded tick
+   */
+  step(): void {
+    if (!this.isFinished()) {
+      this.simulation.clock.step();
+    }
+  }
+
+  /**
+   * Playback speed multiplier (1 = real time)
+   */
+  setSpeed(speed: number): void {
+    this.simulation.clock.setTimeScale(speed);
+  }
+
+  getSpeed(): number {
+    return this.simulation.clock.getTimeScale();
+  }
+
+  /**
+   * Ticks played so far
+   */
+  getTick(): number {
+    return this.played;
+  }
+
+  getLength(): number {
+    return this.recording.length;
+  }
+
+  isFinished(): boolean {
+    return this.played >= this.recording.length;
+  }
+
+  isPlaying(): boolean {
+    return this.unsubscribe !== null;
+  }
+
+  getDivergences(): IReplayDivergence[] {
+    return [...this.divergences];
+  }
+
+  /**
+   * Called once when the last recorded tick has played
+   */
+  onFinish(handler: () => void): void {
+    this.finishHandlers.push(handler);
+  }
+
+  /**
+   * Called whenever playback moves the player (e.g. to move the rendered player along)
+   */
+  onPosition(handler: (position: IRecordedPosition) => void): void {
+    this.positionHandlers.push(handler);
+  }
+
+  private afterTick(): void {
+    this.played++;
+    this.applyPositions();
+    this.runCommands();
+
+    if (this.isFinished()) {
+      this.finish();
+    } else {
+      this.applyNextInput();
+    }
+  }
+
+  private finish(): void {
+    this.pause();
+    this.stop();
+    for (const handler of this.finishHandlers) {
+      handler();
+    }
+  }
+
+  /**
+   * Apply the input recorded for the upcoming tick, if it changed
+   */
+  private applyNextInput(): void {
+    const entry = this.recording.inputs[this.nextInput];
+    if (!entry || entry.tick > this.played + 1) return;
+
+    this.nextInput++;
+    this.simulation.setActivity(activityFromInput(entry.state));
+    this.applyInput(entry.state);
+  }
+
+  /**
+   * Put the player where they stood after the tick just played
+   */
+  private applyPositions(): void {
+    let entry = this.recording.positions[this.nextPosition];
+    let latest: IRecordedPosition | null = null;
+    while (entry && entry.tick <= this.played) {
+      latest = entry;
+      this.nextPosition++;
+      entry = this.recording.positions[this.nextPosition];
+    }
+    if (!latest) return;
+
+    this.simulation.setPlayerPosition(latest.x, latest.y, latest.z);
+    for (const handler of this.positionHandlers) {
+      handler(latest);
+    }
+  }
+
+  private runCommands(): void {
+    let entry = this.recording.commands[this.nextCommand];
+    while (entry && entry.tick <= this.played) {
+      const actual = this.simulation.execute(entry.command);
+      if (actual.success !== entry.result.success || actual.message !== entry.result.message) {
+        this.divergences.push({ tick: this.played, recorded: entry, actual });
+      }
+      this.nextCommand++;
+      entry = this.recording.commands[this.nextCommand];
+    }
+  }
+}
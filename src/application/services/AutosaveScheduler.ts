@@ -0,0 +1,66 @@
+import { EventBus, GameEventType, TimeChangedEvent } from '@application/events/EventBus';
+
+/**
+ * Decides when to autosave: every `interval` seconds of play, and whenever
+ * the in-game clock crosses into a new day.
+ */
+export class AutosaveScheduler {
+  private elapsed: number = 0;
+  private lastDay: number | null = null;
+  private pending: boolean = false;
+  private unsubscribe: () => void;
+
+  constructor(
+    eventBus: EventBus,
+    private interval: number,
+    private onAutosave: () => void
+  ) {
+    this.unsubscribe = eventBus.subscribe<TimeChangedEvent>(GameEventType.TIME_CHANGED, (event) => {
+      if (this.lastDay !== null && event.day > this.lastDay) {
+        this.pending = true;
+      }
+      this.lastDay = event.day;
+    });
+  }
+
+  /**
+   * Change the autosave interval in seconds (0 disables interval autosaves)
+   */
+  setInterval(seconds: number): void {
+    this.interval = Math.max(0, seconds);
+  }
+
+  getInterval(): number {
+    return this.interval;
+  }
+
+  /**
+   * Restart the interval countdown (e.g. after a manual save or a load)
+   */
+  reset(): void {
+    this.elapsed = 0;
+    this.pending = false;
+    this.lastDay = null;
+  }
+
+  /**
+   * Advance the countdown; fires the autosave callback when due
+   */
+  update(deltaTime: number): void {
+    this.elapsed += deltaTime;
+
+    if (this.interval > 0 && this.elapsed >= this.interval) {
+      this.pending = true;
+    }
+
+    if (this.pending) {
+      this.elapsed = 0;
+      this.pending = false;
+      this.onAutosave();
+    }
+  }
+
+  dispose(): void {
+    this.unsubscribe();
+  }
+}
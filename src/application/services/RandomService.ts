@@ -0,0 +1,103 @@
+import { SeededRandom, hashSeed } from '@shared/random/SeededRandom';
+
+/**
+ * Named random streams. Each system draws from its own stream so that, for example,
+ * gathering more loot does not shift the weather sequence.
+ */
+export enum RandomStream {
+  WORLD_GEN = 'worldGen',
+  LOOT = 'loot',
+  WEATHER = 'weather',
+  CONSUMPTION = 'consumption', // Food poisoning rolls when eating or drinking
+}
+
+/**
+ * Serialized world seed and the position of every stream
+ */
+export interface IRandomState {
+  seed: number;
+  streams: Record<string, number>;
+}
+
+/**
+ * Owns the world seed and hands out deterministic sub-streams derived from it.
+ * Stream instances are stable: reseeding or restoring rewinds them in place, so
+ * systems can hold on to the stream they were given.
+ */
+export class RandomService {
+  private seed: number;
+  private streams = new Map<RandomStream, SeededRandom>();
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+  }
+
+  /**
+   * Pick a fresh seed for a new world
+   */
+  static createSeed(): number {
+    return Math.floor(Math.random() * 0x100000000);
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Get (or create) a named stream
+   */
+  stream(name: RandomStream): SeededRandom {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new SeededRandom(this.streamSeed(name));
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+
+  /**
+   * A new generator at the start of a stream, for content that must be regenerated
+   * identically from the seed every time (e.g. world layout)
+   */
+  fork(name: RandomStream): SeededRandom {
+    return new SeededRandom(this.streamSeed(name));
+  }
+
+  /**
+   * Switch to a new world seed and rewind every stream to its start
+   */
+  reseed(seed: number): void {
+    this.seed = seed >>> 0;
+    for (const [name, stream] of this.streams) {
+      stream.setState(this.streamSeed(name));
+    }
+  }
+
+  /**
+   * Serialize seed and stream positions for persistence
+   */
+  toJSON(): IRandomState {
+    const streams: Record<string, number> = {};
+    for (const name of Object.values(RandomStream)) {
+      streams[name] = this.stream(name).getState();
+    }
+    return { seed: this.seed, streams };
+  }
+
+  /**
+   * Restore seed and stream positions. Streams missing from the data start fresh.
+   */
+  restoreState(data: IRandomState): void {
+    this.reseed(data.seed);
+    for (const name of Object.values(RandomStream)) {
+      const state = data.streams[name];
+      if (typeof state === 'number' && Number.isFinite(state)) {
+        this.stream(name).setState(state);
+      }
+    }
+  }
+
+  private streamSeed(name: RandomStream): number {
+    return hashSeed(`${this.seed}:${name}`);
+  }
+}
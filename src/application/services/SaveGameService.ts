@@ -0,0 +1,298 @@
+import { Character } from '@domain/entities/Character';
+import { Inventory } from '@domain/entities/Inventory';
+import { Resource } from '@domain/entities/Resource';
+import { HeatSource } from '@domain/entities/HeatSource';
+import { Corpse } from '@domain/entities/Corpse';
+import { TimeService } from '@application/services/TimeService';
+import { WeatherService } from '@application/services/WeatherService';
+import { RandomService, IRandomState } from '@application/services/RandomService';
+import {
+  DEFAULT_GAME_RULES,
+  IGameRules,
+  gameRulesFromJSON,
+} from '@application/balancing/GameRules';
+import {
+  ISaveGameSnapshot,
+  ISaveMetadata,
+  SAVE_SCHEMA_VERSION,
+} from '@application/persistence/SaveSnapshot';
+import { SaveMigrator } from '@application/persistence/SaveMigrator';
+import {
+  IValidationIssue,
+  PayloadValidationError,
+  ValidationMode,
+  fieldPath,
+} from '@domain/validation/ValidationContext';
+import { IPayloadTypes, PayloadKind, validatePayload } from '@domain/validation/PayloadValidator';
+
+/**
+ * Persistence port for save snapshots.
+ * Implemented in the infrastructure layer (localStorage, IndexedDB, ...).
+ */
+export interface ISaveStorage {
+  save(key: string, snapshot: ISaveGameSnapshot): Promise<void>;
+  load(key: string): Promise<ISaveGameSnapshot | null>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Live session state captured into a snapshot
+ */
+export interface ISaveGameState {
+  character: Character;
+  inventory: Inventory;
+  resources: Resource[];
+  heatSources?: readonly HeatSource[]; // Placed campfires etc.; none when omitted
+  corpses?: readonly Corpse[]; // Bodies left by dead characters; none when omitted
+  rules?: IGameRules; // Normal when omitted
+  playtime: number; // Total seconds played
+  thumbnail?: string | null;
+}
+
+/**
+ * Entities rebuilt from a snapshot
+ */
+export interface ILoadedGame {
+  character: Character;
+  inventory: Inventory;
+  heatSources: HeatSource[];
+  corpses: Corpse[];
+  rules: IGameRules;
+  metadata: ISaveMetadata;
+  repairs: IValidationIssue[]; // Fields fixed by lenient validation; empty for clean saves
+}
+
+const DEFAULT_SAVE_KEY = 'default';
+
+/**
+ * Resources to restore into. A function receives the save's world seed so the caller
+ * can regenerate the layout first when it differs from the running world.
+ */
+export type SaveWorldResources = Resource[] | ((worldSeed: number) => Resource[]);
+
+/**
+ * Raised when a snapshot cannot be rebuilt. Names the entity that failed and, for
+ * validation failures, every invalid field path; no session state has been touched.
+ */
+export class SaveRestoreError extends Error {
+  constructor(
+    public readonly entity: string,
+    public readonly reason: string,
+    public readonly issues: IValidationIssue[] = []
+  ) {
+    super(`Failed to restore ${entity}: ${reason}`);
+    this.name = 'SaveRestoreError';
+  }
+}
+
+/**
+ * Run a deserialization step, attributing any failure to the given entity
+ */
+function restoreEntity<T>(entity: string, build: () => T): T {
+  try {
+    return build();
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    const issues = error instanceof PayloadValidationError ? error.issues : [];
+    throw new SaveRestoreError(entity, reason, issues);
+  }
+}
+
+/**
+ * Check the saved random state before anything is applied
+ */
+function checkRandomState(random: IRandomState | undefined): IRandomState {
+  if (!random || typeof random.seed !== 'number' || !Number.isFinite(random.seed)) {
+    throw new Error('seed must be a finite number');
+  }
+  if (typeof random.streams !== 'object' || random.streams === null) {
+    throw new Error('streams must be an object');
+  }
+  return random;
+}
+
+/**
+ * Captures and restores the full game session: character, inventory,
+ * day/night clock, weather state machine, random streams, world resource state,
+ * placed heat sources, corpses and the game rules.
+ */
+export class SaveGameService {
+  constructor(
+    private storage: ISaveStorage,
+    private timeService: TimeService,
+    private weatherService: WeatherService,
+    private randomService: RandomService,
+    private migrator: SaveMigrator = new SaveMigrator()
+  ) {}
+
+  /**
+   * Build a snapshot of the current session
+   */
+  createSnapshot(state: ISaveGameState): ISaveGameSnapshot {
+    const {
+      character,
+      inventory,
+      resources,
+      heatSources = [],
+      corpses = [],
+      rules = DEFAULT_GAME_RULES,
+    } = state;
+
+    return {
+      schemaVersion: SAVE_SCHEMA_VERSION,
+      savedAt: Date.now(),
+      metadata: {
+        characterName: character.name,
+        characterClass: character.characterClass,
+        playtime: state.playtime,
+        day: this.timeService.getDay(),
+        timeOfDay: this.timeService.getTimeOfDay(),
+        weather: this.weatherService.getWeather(),
+        position: { x: character.position.x, y: character.position.y, z: character.position.z },
+        worldSeed: this.randomService.getSeed(),
+        thumbnail: state.thumbnail ?? null,
+      },
+      character: character.toJSON(),
+      inventory: inventory.toJSON(),
+      time: this.timeService.toJSON(),
+      weather: this.weatherService.toJSON(),
+      random: this.randomService.toJSON(),
+      rules: { ...rules },
+      world: {
+        resources: resources.map((resource) => resource.toJSON()),
+        heatSources: heatSources.map((source) => source.toJSON()),
+        corpses: corpses.map((corpse) => corpse.toJSON()),
+      },
+    };
+  }
+
+  /**
+   * Apply a snapshot to the running services and world, returning rebuilt entities.
+   * Older snapshots are migrated first, then validated: lenient mode (the default)
+   * repairs what it can, strict mode rejects any invalid field. Every entity is rebuilt
+   * before any state is applied, so a corrupt snapshot throws SaveRestoreError and
+   * leaves the session untouched. Resources missing from the snapshot keep their current state.
+   */
+  restoreSnapshot(
+    rawSnapshot: ISaveGameSnapshot,
+    resources: SaveWorldResources,
+    mode: ValidationMode = 'lenient'
+  ): ILoadedGame {
+    const snapshot = restoreEntity('save', () =>
+      this.migrator.upgrade(rawSnapshot as unknown as Record<string, unknown>)
+    );
+
+    const repairs: IValidationIssue[] = [];
+    const character = restoreEntity('Character', () =>
+      Character.fromPayload(
+        this.validate('character', 'Character', snapshot.character, mode, repairs)
+      )
+    );
+    const inventory = restoreEntity('Inventory', () =>
+      Inventory.fromPayload(
+        this.validate('inventory', 'Inventory', snapshot.inventory, mode, repairs)
+      )
+    );
+    const random = restoreEntity('random state', () => checkRandomState(snapshot.random));
+    const rules = restoreEntity('game rules', () => gameRulesFromJSON(snapshot.rules));
+    const time = restoreEntity('Time', () =>
+      this.validate('time', 'Time', snapshot.time, mode, repairs)
+    );
+    const weather = restoreEntity('Weather', () =>
+      this.validate('weather', 'Weather', snapshot.weather, mode, repairs)
+    );
+    const world = restoreEntity('World', () =>
+      this.validate('world', 'World', snapshot.world, mode, repairs)
+    );
+    const savedResources = new Map(world.resources.map((state) => [state.id, state]));
+    const heatSources = world.heatSources.map((payload) => HeatSource.fromPayload(payload));
+    const corpses = world.corpses.map((payload) => Corpse.fromPayload(payload));
+
+    const worldResources = typeof resources === 'function' ? resources(random.seed) : resources;
+    this.randomService.restoreState(random);
+    this.timeService.restoreState(time);
+    this.weatherService.restoreState(weather);
+
+    for (const resource of worldResources) {
+      const state = savedResources.get(resource.id);
+      if (state) {
+        resource.restoreState(state);
+      }
+    }
+
+    return {
+      character,
+      inventory,
+      heatSources,
+      corpses,
+      rules,
+      metadata: snapshot.metadata,
+      repairs,
+    };
+  }
+
+  /**
+   * Save the current session to storage
+   */
+  async save(state: ISaveGameState, key: string = DEFAULT_SAVE_KEY): Promise<ISaveGameSnapshot> {
+    const snapshot = this.createSnapshot(state);
+    await this.storage.save(key, snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Load a session from storage. Returns null if no save exists.
+   */
+  async load(
+    resources: SaveWorldResources,
+    key: string = DEFAULT_SAVE_KEY
+  ): Promise<ILoadedGame | null> {
+    const snapshot = await this.storage.load(key);
+    if (!snapshot) {
+      return null;
+    }
+    return this.restoreSnapshot(snapshot, resources);
+  }
+
+  /**
+   * Read a save's metadata and timestamp without touching the running session
+   */
+  async peek(key: string = DEFAULT_SAVE_KEY): Promise<{
+    savedAt: number;
+    metadata: ISaveMetadata;
+  } | null> {
+    const snapshot = await this.storage.load(key);
+    if (!snapshot) {
+      return null;
+    }
+    const upgraded = this.migrator.upgrade(snapshot as unknown as Record<string, unknown>);
+    return { savedAt: upgraded.savedAt, metadata: upgraded.metadata };
+  }
+
+  /**
+   * Validate one snapshot section, collecting repairs with paths rooted at the section
+   */
+  private validate<K extends PayloadKind>(
+    kind: K,
+    entity: string,
+    data: unknown,
+    mode: ValidationMode,
+    repairs: IValidationIssue[]
+  ): IPayloadTypes[K] {
+    const result = validatePayload(kind, data, mode);
+    if (result.value === null) {
+      throw new PayloadValidationError(entity, result.errors);
+    }
+    for (const repair of result.repairs) {
+      repairs.push({ ...repair, path: repair.path ? fieldPath(kind, repair.path) : kind });
+    }
+    return result.value;
+  }
+
+  /**
+   * Delete a saved session
+   */
+  async delete(key: string = DEFAULT_SAVE_KEY): Promise<void> {
+    await this.storage.delete(key);
+  }
+}
@@ -0,0 +1,159 @@
+import {
+  SaveGameService,
+  ISaveGameState,
+  ILoadedGame,
+  SaveWorldResources,
+} from '@application/services/SaveGameService';
+import { ISaveGameSnapshot, ISaveMetadata } from '@application/persistence/SaveSnapshot';
+import { SAVE_CONFIG } from '@shared/constants/GameConstants';
+
+/**
+ * Reserved slot identifiers
+ */
+export const AUTOSAVE_SLOT = 'autosave';
+export const QUICKSAVE_SLOT = 'quicksave';
+
+/**
+ * A save slot as listed in the slot menu
+ */
+export interface ISaveSlotInfo {
+  slotId: string;
+  label: string;
+  savedAt: number | null; // null = empty or corrupt slot
+  metadata: ISaveMetadata | null;
+  corrupt: boolean; // The slot holds a save that could not be read
+}
+
+/**
+ * Live session state to save, minus the playtime this service tracks itself
+ */
+export type SaveStateProvider = () => Omit<ISaveGameState, 'playtime'> | null;
+
+/**
+ * Manages named save slots (autosave, quicksave, manual slots) and total playtime.
+ */
+export class SaveSlotService {
+  private playtime: number = 0;
+
+  constructor(
+    private saveGameService: SaveGameService,
+    private captureState: SaveStateProvider,
+    private manualSlotCount: number = SAVE_CONFIG.MANUAL_SLOT_COUNT
+  ) {}
+
+  /**
+   * All slot ids in menu order
+   */
+  getSlotIds(): string[] {
+    const manual = Array.from({ length: this.manualSlotCount }, (_, i) => `slot_${i + 1}`);
+    return [AUTOSAVE_SLOT, QUICKSAVE_SLOT, ...manual];
+  }
+
+  /**
+   * Human-readable label for a slot id
+   */
+  getSlotLabel(slotId: string): string {
+    if (slotId === AUTOSAVE_SLOT) return 'Autosave';
+    if (slotId === QUICKSAVE_SLOT) return 'Quicksave';
+    return `Slot ${slotId.replace('slot_', '')}`;
+  }
+
+  /**
+   * List every slot with its metadata (empty slots have null metadata). A slot that
+   * cannot be read is listed as corrupt instead of failing the whole list.
+   */
+  async listSlots(): Promise<ISaveSlotInfo[]> {
+    return Promise.all(
+      this.getSlotIds().map(async (slotId) => {
+        const label = this.getSlotLabel(slotId);
+        try {
+          const saved = await this.saveGameService.peek(slotId);
+          return {
+            slotId,
+            label,
+            savedAt: saved?.savedAt ?? null,
+            metadata: saved?.metadata ?? null,
+            corrupt: false,
+          };
+        } catch {
+          return { slotId, label, savedAt: null, metadata: null, corrupt: true };
+        }
+      })
+    );
+  }
+
+  /**
+   * Find the most recently written slot, if any
+   */
+  async findLatestSlot(): Promise<string | null> {
+    const slots = await this.listSlots();
+    let latest: ISaveSlotInfo | null = null;
+    for (const slot of slots) {
+      if (slot.savedAt !== null && (latest === null || slot.savedAt > (latest.savedAt ?? 0))) {
+        latest = slot;
+      }
+    }
+    return latest?.slotId ?? null;
+  }
+
+  /**
+   * Save the current session into a slot. Returns the written metadata, or null if
+   * there is no session to save.
+   */
+  async saveToSlot(slotId: string): Promise<ISaveMetadata | null> {
+    const state = this.captureState();
+    if (!state) {
+      return null;
+    }
+
+    const snapshot = await this.saveGameService.save({ ...state, playtime: this.playtime }, slotId);
+    return snapshot.metadata;
+  }
+
+  /**
+   * Load a slot into the running session; playtime continues from the save
+   */
+  async loadSlot(slotId: string, resources: SaveWorldResources): Promise<ILoadedGame | null> {
+    const loaded = await this.saveGameService.load(resources, slotId);
+    if (loaded) {
+      this.playtime = loaded.metadata.playtime;
+    }
+    return loaded;
+  }
+
+  /**
+   * Snapshot the current session for export, or null if there is no session
+   */
+  exportSnapshot(): ISaveGameSnapshot | null {
+    const state = this.captureState();
+    if (!state) {
+      return null;
+    }
+    return this.saveGameService.createSnapshot({ ...state, playtime: this.playtime });
+  }
+
+  /**
+   * Load an imported snapshot into the running session; playtime continues from the save.
+   * Imported files come from outside the game, so they are validated strictly.
+   */
+  importSnapshot(snapshot: ISaveGameSnapshot, resources: SaveWorldResources): ILoadedGame {
+    const loaded = this.saveGameService.restoreSnapshot(snapshot, resources, 'strict');
+    this.playtime = loaded.metadata.playtime;
+    return loaded;
+  }
+
+  async deleteSlot(slotId: string): Promise<void> {
+    await this.saveGameService.delete(slotId);
+  }
+
+  /**
+   * Accumulate played time (call every frame)
+   */
+  addPlaytime(deltaTime: number): void {
+    this.playtime += deltaTime;
+  }
+
+  getPlaytime(): number {
+    return this.playtime;
+  }
+}
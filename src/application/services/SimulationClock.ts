@@ -0,0 +1,127 @@
+import { SIMULATION_CONFIG } from '@shared/constants/GameConstants';
+
+/**
+ * Called once per fixed simulation step
+ */
+export type SimulationTickHandler = (deltaTime: number, tick: number) => void;
+
+/**
+ * Fixed-timestep clock that decouples the simulation from the render frame rate.
+ * Frame time is clamped, scaled and accumulated; every full step runs all tick
+ * handlers with the same fixed delta, in registration order. The leftover fraction
+ * of a step is exposed as an interpolation alpha for rendering.
+ */
+export class SimulationClock {
+  private handlers: SimulationTickHandler[] = [];
+  private accumulator: number = 0;
+  private tick: number = 0;
+  private timeScale: number = 1;
+  private paused: boolean = false;
+  private readonly fixedDelta: number;
+
+  constructor(
+    tickRate: number = SIMULATION_CONFIG.TICK_RATE,
+    private readonly maxFrameDelta: number = SIMULATION_CONFIG.MAX_FRAME_DELTA
+  ) {
+    if (tickRate <= 0) {
+      throw new Error(`Tick rate must be positive, got ${tickRate}`);
+    }
+    this.fixedDelta = 1 / tickRate;
+  }
+
+  /**
+   * Register a tick handler. Returns an unsubscribe function.
+   */
+  onTick(handler: SimulationTickHandler): () => void {
+    this.handlers.push(handler);
+    return () => {
+      this.handlers = this.handlers.filter((h) => h !== handler);
+    };
+  }
+
+  /**
+   * Feed one render frame's elapsed real time. Returns the number of ticks run.
+   */
+  advance(frameDelta: number): number {
+    if (this.paused) return 0;
+
+    const clamped = Math.min(Math.max(frameDelta, 0), this.maxFrameDelta);
+    this.accumulator += clamped * this.timeScale;
+
+    let ticks = 0;
+    while (this.accumulator >= this.fixedDelta) {
+      this.accumulator -= this.fixedDelta;
+      this.runTick();
+      ticks++;
+    }
+    return ticks;
+  }
+
+  /**
+   * Run exactly one tick, even while paused (frame-by-frame stepping)
+   */
+  step(): void {
+    this.runTick();
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  /**
+   * Resume ticking. Time spent paused is not simulated.
+   */
+  resume(): void {
+    this.paused = false;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Simulated seconds per real second (0 freezes, 2 doubles speed)
+   */
+  setTimeScale(scale: number): void {
+    if (!Number.isFinite(scale) || scale < 0) {
+      throw new Error(`Time scale must be a non-negative number, got ${scale}`);
+    }
+    this.timeScale = scale;
+  }
+
+  getTimeScale(): number {
+    return this.timeScale;
+  }
+
+  /**
+   * Fraction (0-1) of the next tick already accumulated; blend previous/current state by it
+   */
+  getAlpha(): number {
+    return this.accumulator / this.fixedDelta;
+  }
+
+  getFixedDelta(): number {
+    return this.fixedDelta;
+  }
+
+  /**
+   * Number of ticks run so far
+   */
+  getTick(): number {
+    return this.tick;
+  }
+
+  /**
+   * Simulated seconds elapsed
+   */
+  getElapsed(): number {
+    return this.tick * this.fixedDelta;
+  }
+
+  private runTick(): void {
+    this.tick++;
+    for (const handler of this.handlers) {
+      handler(this.fixedDelta, this.tick);
+    }
+  }
+}
@@ -1,41 +1,120 @@
-import { EventBus, GameEventType, TimeChangedEvent } from '@application/events/EventBus';
+import {
+  EventBus,
+  GameEventType,
+  TimeChangedEvent,
+  TimeSegmentStartedEvent,
+} from '@application/events/EventBus';
 import { GAME_CONFIG, TIME_CONFIG, TimeOfDay } from '@shared/constants/GameConstants';
+import { ITimePayload } from '@domain/validation/WorldPayloads';
+
+/**
+ * Air temperature for each time-of-day segment
+ */
+export type TimeTemperatures = Record<keyof typeof TIME_CONFIG.TEMPERATURES, number>;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Share of the normalized day that is night (NIGHT_START to midnight, then to DAWN_START)
+ */
+const NIGHT_SHARE = 1 - TIME_CONFIG.SEGMENTS.NIGHT_START + TIME_CONFIG.SEGMENTS.DAWN_START;
+
+const SEGMENT_EVENTS: Record<TimeOfDay, TimeSegmentStartedEvent['type']> = {
+  [TimeOfDay.DAWN]: GameEventType.DAWN_STARTED,
+  [TimeOfDay.DAY]: GameEventType.DAY_STARTED,
+  [TimeOfDay.DUSK]: GameEventType.DUSK_STARTED,
+  [TimeOfDay.NIGHT]: GameEventType.NIGHT_STARTED,
+};
 
 /**
  * Manages the day/night cycle with normalized time tracking.
  * Pure application logic - no rendering dependencies.
+ *
+ * TIME_CHANGED is published every TIME_CONFIG.EVENT_INTERVAL_MINUTES in-game minutes and a
+ * segment event (DAWN_STARTED, NIGHT_STARTED, ...) when the time of day changes.
+ * Per-frame consumers such as lighting read getNormalizedTime() instead.
+ * The night runs nightLength times as long as in GAME_CONFIG.DAY_CYCLE_DURATION.
  */
 export class TimeService {
   private normalizedTime: number = 0.333; // Start at morning (8 AM)
+  private day: number = 1;
   private eventBus: EventBus;
+  private temperatures: TimeTemperatures;
+  private nightLength: number;
+  private segment: TimeOfDay;
+  private lastEventInterval: number | null = null; // null until the first TIME_CHANGED
 
-  constructor(eventBus: EventBus) {
+  constructor(
+    eventBus: EventBus,
+    temperatures: TimeTemperatures = TIME_CONFIG.TEMPERATURES,
+    nightLength: number = 1
+  ) {
     this.eventBus = eventBus;
+    this.temperatures = temperatures;
+    this.nightLength = nightLength;
+    this.segment = this.getTimeOfDay();
   }
 
   /**
    * Advance time by deltaTime seconds
    */
   update(deltaTime: number): void {
-    const timeIncrement = deltaTime / GAME_CONFIG.DAY_CYCLE_DURATION;
-    this.normalizedTime = (this.normalizedTime + timeIncrement) % 1.0;
+    const cycleDuration = GAME_CONFIG.DAY_CYCLE_DURATION * (this.isNight() ? this.nightLength : 1);
+    const timeIncrement = deltaTime / cycleDuration;
+    const advanced = this.normalizedTime + timeIncrement;
+    this.day += Math.floor(advanced);
+    this.normalizedTime = advanced % 1.0;
 
-    const event: TimeChangedEvent = {
-      type: GameEventType.TIME_CHANGED,
-      normalizedTime: this.normalizedTime,
-      timeOfDay: this.getTimeOfDay(),
-      hours: this.getHours(),
-      environmentTemperature: this.getEnvironmentTemperature(),
-    };
+    const interval = this.getEventInterval();
+    if (interval !== this.lastEventInterval) {
+      this.lastEventInterval = interval;
+      const event: TimeChangedEvent = {
+        type: GameEventType.TIME_CHANGED,
+        normalizedTime: this.normalizedTime,
+        timeOfDay: this.getTimeOfDay(),
+        hours: this.getHours(),
+        day: this.day,
+        environmentTemperature: this.getEnvironmentTemperature(),
+      };
+      this.eventBus.publish(event);
+    }
 
-    this.eventBus.publish(event);
+    const segment = this.getTimeOfDay();
+    if (segment !== this.segment) {
+      this.segment = segment;
+      this.eventBus.publish<TimeSegmentStartedEvent>({
+        type: SEGMENT_EVENTS[segment],
+        day: this.day,
+        environmentTemperature: this.getEnvironmentTemperature(),
+      });
+    }
+  }
+
+  /**
+   * Scale how long the night lasts (e.g. from the game rules)
+   */
+  setNightLength(nightLength: number): void {
+    this.nightLength = nightLength;
+  }
+
+  /**
+   * Seconds a full day takes, with the night scaled
+   */
+  getDayLength(): number {
+    return GAME_CONFIG.DAY_CYCLE_DURATION * (1 + NIGHT_SHARE * (this.nightLength - 1));
   }
 
   /**
    * Get current time of day segment
    */
   getTimeOfDay(): TimeOfDay {
-    const t = this.normalizedTime;
+    return TimeService.getTimeOfDayAt(this.normalizedTime);
+  }
+
+  /**
+   * Get the time of day segment for any normalized time (0-1)
+   */
+  static getTimeOfDayAt(t: number): TimeOfDay {
     const s = TIME_CONFIG.SEGMENTS;
 
     if (t >= s.DAWN_START && t < s.DAY_START) return TimeOfDay.DAWN;
@@ -51,13 +130,13 @@ export class TimeService {
     const timeOfDay = this.getTimeOfDay();
     switch (timeOfDay) {
       case TimeOfDay.DAWN:
-        return TIME_CONFIG.TEMPERATURES.DAWN;
+        return this.temperatures.DAWN;
       case TimeOfDay.DAY:
-        return TIME_CONFIG.TEMPERATURES.DAY;
+        return this.temperatures.DAY;
       case TimeOfDay.DUSK:
-        return TIME_CONFIG.TEMPERATURES.DUSK;
+        return this.temperatures.DUSK;
       case TimeOfDay.NIGHT:
-        return TIME_CONFIG.TEMPERATURES.NIGHT;
+        return this.temperatures.NIGHT;
     }
   }
 
@@ -68,6 +147,13 @@ export class TimeService {
     return this.normalizedTime * 24;
   }
 
+  /**
+   * Get current in-game day (starts at 1)
+   */
+  getDay(): number {
+    return this.day;
+  }
+
   /**
    * Get raw normalized time (0-1)
    */
@@ -83,6 +169,36 @@ export class TimeService {
     return tod === TimeOfDay.NIGHT;
   }
 
+  /**
+   * Serialize clock state for persistence
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      normalizedTime: this.normalizedTime,
+      day: this.day,
+    };
+  }
+
+  /**
+   * Restore clock state from a validated save payload
+   */
+  restoreState(state: ITimePayload): void {
+    this.normalizedTime = state.normalizedTime;
+    this.day = state.day;
+
+    // Announce the restored time on the next update, without a segment event
+    this.segment = this.getTimeOfDay();
+    this.lastEventInterval = null;
+  }
+
+  /**
+   * Index of the TIME_CHANGED interval the clock is in, counted from day 1 midnight
+   */
+  private getEventInterval(): number {
+    const minutes = (this.day - 1 + this.normalizedTime) * MINUTES_PER_DAY;
+    return Math.floor(minutes / TIME_CONFIG.EVENT_INTERVAL_MINUTES);
+  }
+
   /**
    * Format time as HH:MM string
    */
@@ -1,9 +1,32 @@
-import { EventBus, GameEventType, WeatherChangedEvent } from '@application/events/EventBus';
+import {
+  EventBus,
+  GameEventType,
+  WeatherChangedEvent,
+  WeatherTransitionCompletedEvent,
+  WeatherTransitionStartedEvent,
+} from '@application/events/EventBus';
 import { WeatherType, WEATHER_CONFIG } from '@shared/constants/GameConstants';
+import { IRandomSource, MATH_RANDOM } from '@shared/random/SeededRandom';
+import { IWeatherPayload } from '@domain/validation/WorldPayloads';
+
+/**
+ * Environment effects of one weather type
+ */
+export interface IWeatherModifiers {
+  temperature: number;
+  movement: number;
+  visibility: number;
+}
+
+export type WeatherModifierTable = Record<keyof typeof WEATHER_CONFIG.MODIFIERS, IWeatherModifiers>;
 
 /**
  * Weather state machine with weighted random transitions.
  * Manages weather changes, transition interpolation, and environment modifiers.
+ *
+ * WEATHER_CHANGED is only published when the state moves: at the start and end of a
+ * transition and every WEATHER_CONFIG.EVENT_INTENSITY_STEP of intensity in between.
+ * blizzardChance scales the weight of turning to a blizzard at each change.
  */
 export class WeatherService {
   private currentWeather: WeatherType = WeatherType.CLEAR;
@@ -13,9 +36,21 @@ export class WeatherService {
   private timeUntilChange: number;
   private isNight: boolean = false;
   private eventBus: EventBus;
-
-  constructor(eventBus: EventBus) {
+  private random: IRandomSource;
+  private modifiers: WeatherModifierTable;
+  private blizzardChance: number;
+  private publishedIntensity: number | null = null; // null until the next WEATHER_CHANGED
+
+  constructor(
+    eventBus: EventBus,
+    random: IRandomSource = MATH_RANDOM,
+    modifiers: WeatherModifierTable = WEATHER_CONFIG.MODIFIERS,
+    blizzardChance: number = 1
+  ) {
     this.eventBus = eventBus;
+    this.random = random;
+    this.modifiers = modifiers;
+    this.blizzardChance = blizzardChance;
     this.timeUntilChange = this.randomDuration();
   }
 
@@ -30,6 +65,11 @@ export class WeatherService {
 
       if (this.transitionProgress >= 1) {
         this.currentWeather = this.targetWeather;
+        this.publishEvent();
+        this.eventBus.publish<WeatherTransitionCompletedEvent>({
+          type: GameEventType.WEATHER_TRANSITION_COMPLETED,
+          weather: this.currentWeather,
+        });
       }
     }
 
@@ -40,7 +80,12 @@ export class WeatherService {
       this.timeUntilChange = this.randomDuration();
     }
 
-    this.publishEvent();
+    if (
+      this.publishedIntensity === null ||
+      Math.abs(this.intensity - this.publishedIntensity) >= WEATHER_CONFIG.EVENT_INTENSITY_STEP
+    ) {
+      this.publishEvent();
+    }
   }
 
   /**
@@ -50,6 +95,13 @@ export class WeatherService {
     this.isNight = isNight;
   }
 
+  /**
+   * Scale the chance of a blizzard (e.g. from the game rules)
+   */
+  setBlizzardChance(blizzardChance: number): void {
+    this.blizzardChance = blizzardChance;
+  }
+
   getWeather(): WeatherType {
     return this.transitionProgress >= 1 ? this.currentWeather : this.targetWeather;
   }
@@ -58,6 +110,14 @@ export class WeatherService {
     return this.intensity;
   }
 
+  /**
+   * How heavily snow is falling (0 = none, 1 = full blizzard), scaled by intensity
+   */
+  getSnowfall(): number {
+    const key = this.getWeather().toUpperCase() as keyof typeof WEATHER_CONFIG.SNOWFALL;
+    return WEATHER_CONFIG.SNOWFALL[key] * this.intensity;
+  }
+
   getTemperatureModifier(): number {
     const currentMod = this.getModifiers(this.currentWeather).temperature;
     const targetMod = this.getModifiers(this.targetWeather).temperature;
@@ -76,11 +136,44 @@ export class WeatherService {
     return currentVis + (targetVis - currentVis) * this.transitionProgress;
   }
 
+  /**
+   * Serialize weather state machine for persistence
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      currentWeather: this.currentWeather,
+      targetWeather: this.targetWeather,
+      intensity: this.intensity,
+      transitionProgress: this.transitionProgress,
+      timeUntilChange: this.timeUntilChange,
+    };
+  }
+
+  /**
+   * Restore weather state machine from a validated save payload
+   */
+  restoreState(state: IWeatherPayload): void {
+    this.currentWeather = state.currentWeather;
+    this.targetWeather = state.targetWeather;
+    this.intensity = state.intensity;
+    this.transitionProgress = state.transitionProgress;
+    this.timeUntilChange = state.timeUntilChange ?? this.randomDuration();
+    this.publishedIntensity = null; // Announce the restored weather on the next update
+  }
+
   private changeWeather(): void {
     const weights = this.getTransitionWeights(this.currentWeather);
     this.targetWeather = this.weightedRandom(weights);
     this.transitionProgress = 0;
     this.intensity = 0;
+
+    this.eventBus.publish<WeatherTransitionStartedEvent>({
+      type: GameEventType.WEATHER_TRANSITION_STARTED,
+      from: this.currentWeather,
+      to: this.targetWeather,
+      duration: WEATHER_CONFIG.TRANSITION_DURATION,
+    });
+    this.publishEvent();
   }
 
   private getTransitionWeights(from: WeatherType): Map<WeatherType, number> {
@@ -95,6 +188,9 @@ export class WeatherService {
       if (w === WeatherType.BLIZZARD && this.isNight) {
         weight += WEATHER_CONFIG.NIGHT_BLIZZARD_BONUS;
       }
+      if (w === WeatherType.BLIZZARD) {
+        weight *= this.blizzardChance;
+      }
       weights.set(w, weight);
     });
 
@@ -105,7 +201,7 @@ export class WeatherService {
     let total = 0;
     for (const w of weights.values()) total += w;
 
-    let random = Math.random() * total;
+    let random = this.random.next() * total;
     for (const [weather, weight] of weights) {
       random -= weight;
       if (random <= 0) return weather;
@@ -114,14 +210,14 @@ export class WeatherService {
     return WeatherType.CLEAR;
   }
 
-  private getModifiers(weather: WeatherType): { temperature: number; movement: number; visibility: number } {
-    const key = weather.toUpperCase() as keyof typeof WEATHER_CONFIG.MODIFIERS;
-    return WEATHER_CONFIG.MODIFIERS[key];
+  private getModifiers(weather: WeatherType): IWeatherModifiers {
+    const key = weather.toUpperCase() as keyof WeatherModifierTable;
+    return this.modifiers[key];
   }
 
   private randomDuration(): number {
     return WEATHER_CONFIG.MIN_DURATION +
-      Math.random() * (WEATHER_CONFIG.MAX_DURATION - WEATHER_CONFIG.MIN_DURATION);
+      this.random.next() * (WEATHER_CONFIG.MAX_DURATION - WEATHER_CONFIG.MIN_DURATION);
   }
 
   private publishEvent(): void {
@@ -133,6 +229,7 @@ export class WeatherService {
       movementModifier: this.getMovementModifier(),
       visibility: this.getVisibility(),
     };
+    this.publishedIntensity = this.intensity;
     this.eventBus.publish(event);
   }
 }
@@ -0,0 +1,69 @@
+import { Character } from '@domain/entities/Character';
+import { Corpse } from '@domain/entities/Corpse';
+import { Inventory } from '@domain/entities/Inventory';
+import { DamageCause } from '@domain/events/CharacterEvents';
+import { Position } from '@domain/value-objects/Position';
+
+/**
+ * Corpses lying in the world, each holding what its character carried
+ */
+export class CorpseRegistry {
+  private corpses: Corpse[] = [];
+  private nextIndex: number = 0;
+
+  /**
+   * Leave a corpse where a character died, moving their whole inventory into it
+   */
+  create(character: Character, inventory: Inventory, cause: DamageCause): Corpse {
+    const id = `corpse_${this.nextIndex++}`;
+    const { maxSlots, maxWeight } = inventory;
+    const contents = Inventory.create(`${id}_inventory`, maxSlots, maxWeight);
+    inventory.transferAllTo(contents);
+
+    const corpse = Corpse.create(id, character.name, cause, character.position, contents);
+    this.corpses.push(corpse);
+    return corpse;
+  }
+
+  getCorpses(): readonly Corpse[] {
+    return this.corpses;
+  }
+
+  getCorpse(id: string): Corpse | undefined {
+    return this.corpses.find((corpse) => corpse.id === id);
+  }
+
+  /**
+   * Closest corpse within range of a position, or null
+   */
+  findNearest(position: Position, range: number): Corpse | null {
+    let nearest: Corpse | null = null;
+    let nearestDistance = range;
+    for (const corpse of this.corpses) {
+      const distance = corpse.distanceTo(position);
+      if (distance <= nearestDistance) {
+        nearest = corpse;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  remove(id: string): boolean {
+    const index = this.corpses.findIndex((corpse) => corpse.id === id);
+    if (index === -1) return false;
+    this.corpses.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Replace every corpse, e.g. with those from a loaded save
+   */
+  restore(corpses: Corpse[]): void {
+    this.corpses = [...corpses];
+    this.nextIndex = corpses.reduce((next, corpse) => {
+      const index = Number(corpse.id.replace('corpse_', ''));
+      return Number.isInteger(index) ? Math.max(next, index + 1) : next;
+    }, 0);
+  }
+}
@@ -0,0 +1,713 @@
+import { Character } from '@domain/entities/Character';
+import { Inventory } from '@domain/entities/Inventory';
+import { Stats } from '@domain/value-objects/Stats';
+import { Position } from '@domain/value-objects/Position';
+import {
+  CharacterClass,
+  CHARACTER_STATS,
+  FATIGUE_CONFIG,
+  GAME_CONFIG,
+  MOVEMENT_CONFIG,
+  STATUS_EFFECT_CONFIG,
+} from '@shared/constants/GameConstants';
+import {
+  CharacterDamagedEvent,
+  CharacterDiedEvent,
+  CharacterRespawnedEvent,
+  CorpseCreatedEvent,
+  EventBus,
+  GameEventType,
+  InventoryChangedEvent,
+  ResourceRespawnedEvent,
+  SleepEndedEvent,
+  SleepStartedEvent,
+  StatThresholdCrossedEvent,
+  StatusEffectAppliedEvent,
+  StatusEffectRemovedEvent,
+} from '@application/events/EventBus';
+import { TimeService } from '@application/services/TimeService';
+import { WeatherService } from '@application/services/WeatherService';
+import { RandomService, RandomStream } from '@application/services/RandomService';
+import { SimulationClock, SimulationTickHandler } from '@application/services/SimulationClock';
+import { GatherResourceUseCase, IGatherResult } from '@application/use-cases/GatherResourceUseCase';
+import {
+  CraftItemUseCase,
+  CraftingRecipes,
+  ICraftingResult,
+} from '@application/use-cases/CraftItemUseCase';
+import { ConsumeItemUseCase, IConsumeResult } from '@application/use-cases/ConsumeItemUseCase';
+import { IResourceRegistry, ResourceRegistry } from '@application/simulation/ResourceRegistry';
+import { HeatSourceRegistry } from '@application/simulation/HeatSourceRegistry';
+import { CorpseRegistry } from '@application/simulation/CorpseRegistry';
+import {
+  IPlaceResult,
+  PlaceHeatSourceUseCase,
+} from '@application/use-cases/PlaceHeatSourceUseCase';
+import { ISleepResult, SleepEndReason, SleepUseCase } from '@application/use-cases/SleepUseCase';
+import { ILootResult, LootCorpseUseCase } from '@application/use-cases/LootCorpseUseCase';
+import {
+  IRespawnPoint,
+  IRespawnResult,
+  RespawnUseCase,
+} from '@application/use-cases/RespawnUseCase';
+import { DamageCause } from '@domain/events/CharacterEvents';
+import { DEFAULT_SURVIVAL_BALANCE, ISurvivalBalance } from '@application/balancing/SurvivalBalance';
+import { DEFAULT_GAME_RULES, IGameRules } from '@application/balancing/GameRules';
+import { IPlayerActivity } from '@application/survival/SurvivalRules';
+import { SurvivalSystem, createDefaultSurvivalRules } from '@application/survival/SurvivalSystem';
+import { Exertion, IMetabolism, createMetabolism } from '@application/survival/Metabolism';
+
+export interface IGameSimulationOptions {
+  seed?: number; // Defaults to a fresh random seed
+  eventBus?: EventBus;
+  character?: Character;
+  inventory?: Inventory;
+  resources?: IResourceRegistry; // Defaults to a headless registry of the standard world
+  balance?: ISurvivalBalance; // Defaults to the shipped game constants
+  rules?: IGameRules; // Difficulty on top of the balance; defaults to Normal
+  metabolism?: IMetabolism; // Defaults to the balance's metabolism model
+}
+
+/**
+ * A player action applied between ticks. Commands are recorded for replays.
+ */
+export type SimulationCommand =
+  | { type: 'gather'; resourceId: string }
+  | { type: 'craft'; recipeId: string }
+  | { type: 'consume'; slotIndex: number }
+  | { type: 'place'; itemId: string }
+  | { type: 'sleep' }
+  | { type: 'wake' }
+  | { type: 'jump' }
+  | { type: 'loot'; corpseId: string }
+  | { type: 'respawn'; pointId: string };
+
+/**
+ * Outcome of a command, shared by the gather, craft, consume, place, sleep, jump, loot and
+ * respawn results
+ */
+export interface ICommandResult {
+  success: boolean;
+  message: string;
+}
+
+export type SimulationCommandListener = (
+  command: SimulationCommand,
+  result: ICommandResult
+) => void;
+
+const IDLE: IPlayerActivity = { isMoving: false, isSprinting: false };
+
+/**
+ * 'exhausted' after stamina ran out, until it recovers to SPRINT_RECOVERY_STAMINA
+ */
+export type StaminaState = 'normal' | 'sprinting' | 'exhausted';
+
+/**
+ * A fresh survivor with base stats
+ */
+export function createStarterCharacter(): Character {
+  return Character.create(
+    'player_1',
+    CharacterClass.SURVIVOR,
+    'Player',
+    Stats.create(
+      CHARACTER_STATS.BASE_HEALTH,
+      CHARACTER_STATS.BASE_HEALTH,
+      CHARACTER_STATS.BASE_HUNGER,
+      CHARACTER_STATS.BASE_HUNGER,
+      CHARACTER_STATS.BASE_THIRST,
+      CHARACTER_STATS.BASE_THIRST,
+      GAME_CONFIG.NORMAL_BODY_TEMP,
+      CHARACTER_STATS.BASE_STAMINA,
+      CHARACTER_STATS.BASE_STAMINA
+    )
+  );
+}
+
+/**
+ * Headless game core: day/night clock, weather, survival, resources, placed heat sources,
+ * sleep and the gather/craft/place use cases, all stepped by one fixed-timestep clock.
+ * Has no rendering or DOM dependencies, so scripted scenarios can run whole
+ * in-game days in tests; the browser build wraps the same instance.
+ */
+export class GameSimulation {
+  readonly eventBus: EventBus;
+  readonly random: RandomService;
+  readonly clock: SimulationClock;
+  readonly time: TimeService;
+  readonly weather: WeatherService;
+  readonly gatherUseCase: GatherResourceUseCase;
+  readonly craftUseCase: CraftItemUseCase;
+  readonly consumeUseCase: ConsumeItemUseCase;
+  readonly placeUseCase: PlaceHeatSourceUseCase;
+  readonly sleepUseCase: SleepUseCase;
+  readonly lootUseCase: LootCorpseUseCase;
+  readonly respawnUseCase: RespawnUseCase;
+  readonly heatSources: HeatSourceRegistry = new HeatSourceRegistry();
+  readonly corpses: CorpseRegistry = new CorpseRegistry();
+  readonly balance: ISurvivalBalance;
+  readonly metabolism: IMetabolism;
+  readonly survival: SurvivalSystem;
+
+  private character: Character;
+  private inventory: Inventory;
+  private resources: IResourceRegistry;
+  private activity: IPlayerActivity = IDLE;
+  private warmingUp: boolean = false;
+  private sleeping: boolean = false;
+  private sprintLocked: boolean = false;
+  private rules: IGameRules;
+  private commandListeners: SimulationCommandListener[] = [];
+
+  constructor(options: IGameSimulationOptions = {}) {
+    this.eventBus = options.eventBus ?? new EventBus();
+    this.random = new RandomService(options.seed ?? RandomService.createSeed());
+    this.clock = new SimulationClock();
+    this.balance = options.balance ?? DEFAULT_SURVIVAL_BALANCE;
+    this.rules = options.rules ?? DEFAULT_GAME_RULES;
+    this.metabolism = options.metabolism ?? createMetabolism(this.balance.metabolism);
+    this.time = new TimeService(this.eventBus, this.balance.temperatures, this.rules.nightLength);
+    this.weather = new WeatherService(
+      this.eventBus,
+      this.random.stream(RandomStream.WEATHER),
+      this.balance.weatherModifiers,
+      this.rules.blizzardChance
+    );
+    this.survival = new SurvivalSystem(
+      this.eventBus,
+      createDefaultSurvivalRules(this.balance, this.rules, this.metabolism)
+    );
+
+    this.character = options.character ?? createStarterCharacter();
+    this.inventory = options.inventory ?? Inventory.create('player_inventory', 20, 100);
+    this.resources =
+      options.resources ?? ResourceRegistry.fromSpawnTable(this.random.stream(RandomStream.LOOT));
+
+    this.gatherUseCase = new GatherResourceUseCase(this.character, this.inventory, this.eventBus);
+    this.craftUseCase = new CraftItemUseCase(this.character, this.inventory, this.eventBus, () =>
+      this.getHeat()
+    );
+    this.consumeUseCase = new ConsumeItemUseCase(
+      this.character,
+      this.inventory,
+      this.eventBus,
+      this.random.stream(RandomStream.CONSUMPTION)
+    );
+    this.placeUseCase = new PlaceHeatSourceUseCase(
+      this.character,
+      this.inventory,
+      this.heatSources,
+      this.eventBus
+    );
+    this.sleepUseCase = new SleepUseCase(this.character, this.inventory);
+    this.lootUseCase = new LootCorpseUseCase(
+      this.character,
+      this.inventory,
+      this.corpses,
+      this.eventBus
+    );
+    this.respawnUseCase = new RespawnUseCase(
+      this.character,
+      this.heatSources,
+      () => createStarterCharacter().stats
+    );
+
+    // Registered first, so onTick handlers always see this step's state
+    this.clock.onTick((deltaTime) => this.tick(deltaTime));
+  }
+
+  getCharacter(): Character {
+    return this.character;
+  }
+
+  /**
+   * Replace the character (immutable updates, loading a save)
+   */
+  setCharacter(character: Character): void {
+    this.character = character;
+    this.gatherUseCase.setCharacter(character);
+    this.craftUseCase.setCharacter(character);
+    this.consumeUseCase.setCharacter(character);
+    this.placeUseCase.setCharacter(character);
+    this.sleepUseCase.setCharacter(character);
+    this.lootUseCase.setCharacter(character);
+    this.respawnUseCase.setCharacter(character);
+  }
+
+  getInventory(): Inventory {
+    return this.inventory;
+  }
+
+  setInventory(inventory: Inventory): void {
+    this.inventory = inventory;
+    this.gatherUseCase.setInventory(inventory);
+    this.craftUseCase.setInventory(inventory);
+    this.consumeUseCase.setInventory(inventory);
+    this.placeUseCase.setInventory(inventory);
+    this.sleepUseCase.setInventory(inventory);
+    this.lootUseCase.setInventory(inventory);
+  }
+
+  getRules(): IGameRules {
+    return this.rules;
+  }
+
+  /**
+   * Play on with other game rules (e.g. those of a new game or a loaded save).
+   * Replaces the shipped survival rules in place; rules added by hand are kept.
+   */
+  setRules(rules: IGameRules): void {
+    this.rules = rules;
+    this.time.setNightLength(rules.nightLength);
+    this.weather.setBlizzardChance(rules.blizzardChance);
+    for (const rule of createDefaultSurvivalRules(this.balance, rules, this.metabolism)) {
+      this.survival.addRule(rule);
+    }
+  }
+
+  getResources(): IResourceRegistry {
+    return this.resources;
+  }
+
+  /**
+   * Swap the resource registry (e.g. for the scene's ResourceManager once it exists)
+   */
+  setResources(resources: IResourceRegistry): void {
+    this.resources = resources;
+  }
+
+  setActivity(activity: IPlayerActivity): void {
+    this.activity = activity;
+  }
+
+  /**
+   * Move the character to where the player is in the scene
+   */
+  setPlayerPosition(x: number, y: number, z: number): void {
+    const { position } = this.character;
+    if (position.x !== x || position.y !== y || position.z !== z) {
+      this.character.moveTo(Position.create(x, y, z));
+    }
+  }
+
+  /**
+   * Heat (0-1) from placed heat sources at the character's position
+   */
+  getHeat(): number {
+    return this.heatSources.getHeatAt(this.character.position);
+  }
+
+  /**
+   * Whether a heat source raised the body temperature on the last tick
+   */
+  isWarmingUp(): boolean {
+    return this.warmingUp;
+  }
+
+  isSleeping(): boolean {
+    return this.sleeping;
+  }
+
+  /**
+   * False while exhausted: the player has to walk until stamina recovers
+   */
+  canSprint(): boolean {
+    return !this.sprintLocked;
+  }
+
+  getStaminaState(): StaminaState {
+    if (this.sprintLocked) return 'exhausted';
+    const { isMoving, isSprinting } = this.activity;
+    return isMoving && isSprinting && !this.sleeping ? 'sprinting' : 'normal';
+  }
+
+  /**
+   * Air temperature from the time of day plus weather
+   */
+  getEnvironmentTemperature(): number {
+    return this.time.getEnvironmentTemperature() + this.weather.getTemperatureModifier();
+  }
+
+  /**
+   * Run a handler after every simulation step. Returns an unsubscribe function.
+   */
+  onTick(handler: SimulationTickHandler): () => void {
+    return this.clock.onTick(handler);
+  }
+
+  /**
+   * Observe every command after it runs. Returns an unsubscribe function.
+   */
+  onCommand(listener: SimulationCommandListener): () => void {
+    this.commandListeners.push(listener);
+    return () => {
+      this.commandListeners = this.commandListeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * Run whole ticks covering `seconds` of game time, independent of the clock's pause state.
+   * Queued events are flushed after every tick, as the browser loop does once per frame.
+   */
+  runFor(seconds: number): void {
+    const ticks = Math.round(seconds / this.clock.getFixedDelta());
+    for (let i = 0; i < ticks; i++) {
+      this.clock.step();
+      this.eventBus.flush();
+    }
+  }
+
+  /**
+   * Run a number of full in-game days
+   */
+  runDays(days: number): void {
+    this.runFor(days * this.time.getDayLength());
+  }
+
+  /**
+   * Hit a resource once
+   */
+  gather(resourceId: string): IGatherResult {
+    const resource = this.resources.getResourceById(resourceId);
+    if (!resource) {
+      throw new Error(`Unknown resource: ${resourceId}`);
+    }
+    const result = this.gatherUseCase.execute(resource);
+    if (result.success) {
+      this.exert({ type: 'gather', staminaCost: resource.config.staminaCost });
+    }
+    this.notifyCommand({ type: 'gather', resourceId }, result);
+    return result;
+  }
+
+  /**
+   * Craft a recipe by id
+   */
+  craft(recipeId: string): ICraftingResult {
+    const recipe = CraftingRecipes.getRecipe(recipeId);
+    if (!recipe) {
+      throw new Error(`Unknown recipe: ${recipeId}`);
+    }
+    const result = this.craftUseCase.execute(recipe);
+    if (result.success) {
+      this.exert({ type: 'craft' });
+    }
+    this.notifyCommand({ type: 'craft', recipeId }, result);
+    return result;
+  }
+
+  /**
+   * Eat or drink one item from an inventory slot
+   */
+  consume(slotIndex: number): IConsumeResult {
+    const result = this.consumeUseCase.execute(slotIndex);
+    this.notifyCommand({ type: 'consume', slotIndex }, result);
+    return result;
+  }
+
+  /**
+   * Place a heat-source item from the inventory at the character's position
+   */
+  place(itemId: string): IPlaceResult {
+    const result = this.placeUseCase.execute(itemId);
+    this.notifyCommand({ type: 'place', itemId }, result);
+    return result;
+  }
+
+  /**
+   * Lie down to sleep on a bedroll. While asleep the world runs
+   * SLEEP_TIME_SCALE times faster, and hunger, thirst and temperature keep changing.
+   */
+  sleep(): ISleepResult {
+    const result = this.sleeping
+      ? { success: false, message: 'Already asleep', spot: null }
+      : this.sleepUseCase.execute();
+    if (result.spot) {
+      this.sleeping = true;
+      this.eventBus.publish<SleepStartedEvent>({
+        type: GameEventType.SLEEP_STARTED,
+        characterId: this.character.id,
+        spot: result.spot,
+      });
+    }
+    this.notifyCommand({ type: 'sleep' }, result);
+    return result;
+  }
+
+  /**
+   * Get up before being fully rested
+   */
+  wake(): ICommandResult {
+    const result = this.interruptSleep('woken')
+      ? { success: true, message: 'Woke up' }
+      : { success: false, message: 'Not asleep' };
+    this.notifyCommand({ type: 'wake' }, result);
+    return result;
+  }
+
+  /**
+   * Spend stamina on a jump; the scene runs the jump itself when this succeeds
+   */
+  jump(): ICommandResult {
+    let result: ICommandResult = { success: true, message: 'Jumped' };
+    if (!this.character.isAlive) {
+      result = { success: false, message: 'Character is dead' };
+    } else if (this.sleeping) {
+      result = { success: false, message: 'Cannot jump while asleep' };
+    } else if (
+      this.sprintLocked ||
+      !this.character.canUseStamina(MOVEMENT_CONFIG.JUMP_STAMINA_COST)
+    ) {
+      result = { success: false, message: 'Too exhausted to jump' };
+    } else {
+      this.character.useStamina(MOVEMENT_CONFIG.JUMP_STAMINA_COST);
+    }
+    this.notifyCommand({ type: 'jump' }, result);
+    return result;
+  }
+
+  /**
+   * Take what fits from a corpse within reach
+   */
+  loot(corpseId: string): ILootResult {
+    const result = this.lootUseCase.execute(corpseId);
+    this.notifyCommand({ type: 'loot', corpseId }, result);
+    return result;
+  }
+
+  /**
+   * Where a dead character can come back: the spawn point and every camp
+   */
+  getRespawnPoints(): IRespawnPoint[] {
+    return this.respawnUseCase.getRespawnPoints();
+  }
+
+  /**
+   * Bring the dead character back with fresh stats at a respawn point
+   */
+  respawn(pointId: string): IRespawnResult {
+    const result = this.respawnUseCase.execute(pointId);
+    if (result.point) {
+      this.survival.reset();
+      this.sprintLocked = false;
+      const { x, y, z } = result.point.position;
+      this.eventBus.publish<CharacterRespawnedEvent>({
+        type: GameEventType.CHARACTER_RESPAWNED,
+        characterId: this.character.id,
+        pointId,
+        position: { x, y, z },
+      });
+    }
+    this.notifyCommand({ type: 'respawn', pointId }, result);
+    return result;
+  }
+
+  /**
+   * End sleep for a reason other than the player's choice (e.g. loading a save).
+   * Returns false when the character was awake.
+   */
+  interruptSleep(reason: SleepEndReason): boolean {
+    if (!this.sleeping) return false;
+
+    this.sleeping = false;
+    this.eventBus.publish<SleepEndedEvent>({
+      type: GameEventType.SLEEP_ENDED,
+      characterId: this.character.id,
+      reason,
+      energy: this.character.stats.energy,
+    });
+    return true;
+  }
+
+  /**
+   * Run a command, e.g. one read back from a recording
+   */
+  execute(command: SimulationCommand): ICommandResult {
+    switch (command.type) {
+      case 'gather':
+        return this.gather(command.resourceId);
+      case 'craft':
+        return this.craft(command.recipeId);
+      case 'consume':
+        return this.consume(command.slotIndex);
+      case 'place':
+        return this.place(command.itemId);
+      case 'sleep':
+        return this.sleep();
+      case 'wake':
+        return this.wake();
+      case 'jump':
+        return this.jump();
+      case 'loot':
+        return this.loot(command.corpseId);
+      case 'respawn':
+        return this.respawn(command.pointId);
+    }
+  }
+
+  private notifyCommand(command: SimulationCommand, result: ICommandResult): void {
+    for (const listener of this.commandListeners) {
+      listener(command, result);
+    }
+  }
+
+  /**
+   * One fixed simulation step; asleep, it covers SLEEP_TIME_SCALE times as much game time
+   */
+  private tick(realDelta: number): void {
+    const deltaTime = this.sleeping ? realDelta * FATIGUE_CONFIG.SLEEP_TIME_SCALE : realDelta;
+    this.time.update(deltaTime);
+    this.weather.setNight(this.time.isNight());
+    this.weather.update(deltaTime);
+    const environmentTemperature = this.getEnvironmentTemperature();
+    this.inventory.decayItems(deltaTime, environmentTemperature);
+
+    const heat = this.getHeat();
+    const bodyTemperature = this.character.stats.temperature;
+    this.setCharacter(
+      this.survival.update(this.character, {
+        deltaTime,
+        environmentTemperature,
+        activity: this.sleeping ? IDLE : this.getActivity(),
+        snowfall: this.weather.getSnowfall(),
+        heat,
+        isSleeping: this.sleeping,
+      })
+    );
+    this.warmingUp = heat > 0 && this.character.stats.temperature > bodyTemperature;
+    this.updateSprintLock();
+    const damaged = this.publishCharacterEvents();
+    if (this.sleeping) {
+      this.checkSleep(damaged);
+    }
+
+    // Longer respawn times in the rules slow every resource's timer down
+    for (const resource of this.resources.update(deltaTime / this.rules.resourceRespawn)) {
+      this.eventBus.publish<ResourceRespawnedEvent>({
+        type: GameEventType.RESOURCE_RESPAWNED,
+        resourceId: resource.id,
+        resourceType: resource.config.type,
+      });
+    }
+  }
+
+  /**
+   * The player's activity, walking instead of sprinting while exhausted
+   */
+  private getActivity(): IPlayerActivity {
+    return this.sprintLocked ? { ...this.activity, isSprinting: false } : this.activity;
+  }
+
+  private updateSprintLock(): void {
+    const { stamina } = this.character.stats;
+    if (stamina <= STATUS_EFFECT_CONFIG.EXHAUSTED_STAMINA) {
+      this.sprintLocked = true;
+    } else if (stamina >= MOVEMENT_CONFIG.SPRINT_RECOVERY_STAMINA) {
+      this.sprintLocked = false;
+    }
+  }
+
+  /**
+   * Spend the food and water an effort costs under the metabolism
+   */
+  private exert(exertion: Exertion): void {
+    const cost = this.metabolism.getExertionCost(exertion);
+    if (cost.hunger === 0 && cost.thirst === 0) return;
+
+    const { stats } = this.character;
+    this.character.updateStats(
+      stats.withHunger(stats.hunger - cost.hunger).withThirst(stats.thirst - cost.thirst)
+    );
+  }
+
+  /**
+   * Drop everything the dead character carried into a corpse where they fell
+   */
+  private leaveCorpse(cause: DamageCause): void {
+    const corpse = this.corpses.create(this.character, this.inventory, cause);
+    const { x, y, z } = corpse.position;
+    this.eventBus.publish<CorpseCreatedEvent>({
+      type: GameEventType.CORPSE_CREATED,
+      corpseId: corpse.id,
+      characterName: corpse.characterName,
+      cause,
+      position: { x, y, z },
+      itemCount: corpse.inventory.getAllItems().reduce((sum, item) => sum + item.quantity, 0),
+    });
+    this.eventBus.enqueueLatest<InventoryChangedEvent>({ type: GameEventType.INVENTORY_CHANGED });
+  }
+
+  /**
+   * Wake the character when the cold, an injury or full energy ends their sleep
+   */
+  private checkSleep(damaged: boolean): void {
+    const { stats } = this.character;
+    if (stats.temperature < GAME_CONFIG.HYPOTHERMIA_THRESHOLD) {
+      this.interruptSleep('hypothermia');
+    } else if (damaged) {
+      this.interruptSleep('damage');
+    } else if (stats.energy >= Stats.MAX_ENERGY) {
+      this.interruptSleep('rested');
+    }
+  }
+
+  /**
+   * Publish what happened to the character since the last tick (survival, commands, item use).
+   * Returns whether the character took damage.
+   */
+  private publishCharacterEvents(): boolean {
+    const character = this.character;
+    let damaged = false;
+    for (const event of character.pullEvents()) {
+      switch (event.type) {
+        case 'damaged':
+          damaged = true;
+          this.eventBus.publish<CharacterDamagedEvent>({
+            type: GameEventType.CHARACTER_DAMAGED,
+            characterId: character.id,
+            amount: event.amount,
+            cause: event.cause,
+            health: character.stats.health,
+          });
+          break;
+        case 'died':
+          this.eventBus.publish<CharacterDiedEvent>({
+            type: GameEventType.CHARACTER_DIED,
+            characterId: character.id,
+            cause: event.cause,
+          });
+          this.leaveCorpse(event.cause);
+          break;
+        case 'thresholdCrossed':
+          this.eventBus.publish<StatThresholdCrossedEvent>({
+            type: GameEventType.STAT_THRESHOLD_CROSSED,
+            characterId: character.id,
+            stat: event.stat,
+            threshold: event.threshold,
+            direction: event.direction,
+            value: event.value,
+          });
+          break;
+        case 'statusEffectApplied':
+          this.eventBus.publish<StatusEffectAppliedEvent>({
+            type: GameEventType.STATUS_EFFECT_APPLIED,
+            characterId: character.id,
+            effect: event.effect,
+            stacks: event.stacks,
+            remaining: event.remaining,
+          });
+          break;
+        case 'statusEffectRemoved':
+          this.eventBus.publish<StatusEffectRemovedEvent>({
+            type: GameEventType.STATUS_EFFECT_REMOVED,
+            characterId: character.id,
+            effect: event.effect,
+            reason: event.reason,
+          });
+          break;
+      }
+    }
+    return damaged;
+  }
+}
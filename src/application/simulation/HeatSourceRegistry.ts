@@ -0,0 +1,42 @@
+import { HeatSource } from '@domain/entities/HeatSource';
+import { Position } from '@domain/value-objects/Position';
+
+/**
+ * Heat sources the player has placed in the world
+ */
+export class HeatSourceRegistry {
+  private sources: HeatSource[] = [];
+  private nextIndex: number = 0;
+
+  /**
+   * Place a heat source for an item at a position
+   */
+  place(itemId: string, position: Position): HeatSource {
+    const source = HeatSource.create(`${itemId}_${this.nextIndex++}`, itemId, position);
+    this.sources.push(source);
+    return source;
+  }
+
+  getHeatSources(): readonly HeatSource[] {
+    return this.sources;
+  }
+
+  /**
+   * Heat (0-1) at a position from the warmest source in range
+   */
+  getHeatAt(position: Position): number {
+    let heat = 0;
+    for (const source of this.sources) {
+      heat = Math.max(heat, source.getHeatAt(position));
+    }
+    return heat;
+  }
+
+  /**
+   * Replace every source, e.g. with those from a loaded save
+   */
+  restore(sources: HeatSource[]): void {
+    this.sources = [...sources];
+    this.nextIndex = sources.length;
+  }
+}
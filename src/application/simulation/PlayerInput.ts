@@ -0,0 +1,56 @@
+import { IPlayerActivity } from '@application/survival/SurvivalRules';
+
+/**
+ * Input state for keyboard and mouse
+ */
+export interface IInputState {
+  // Movement keys
+  forward: boolean;
+  backward: boolean;
+  left: boolean;
+  right: boolean;
+
+  // Actions
+  jump: boolean;
+  sprint: boolean;
+  interact: boolean;
+
+  // Mouse
+  mouseX: number;
+  mouseY: number;
+  mouseLeftClick: boolean;
+  mouseRightClick: boolean;
+}
+
+/**
+ * Input state with nothing pressed
+ */
+export function createIdleInput(): IInputState {
+  return {
+    forward: false,
+    backward: false,
+    left: false,
+    right: false,
+    jump: false,
+    sprint: false,
+    interact: false,
+    mouseX: 0,
+    mouseY: 0,
+    mouseLeftClick: false,
+    mouseRightClick: false,
+  };
+}
+
+/**
+ * What the simulation needs to know about an input state
+ */
+export function activityFromInput(input: IInputState): IPlayerActivity {
+  return {
+    isMoving: input.forward || input.backward || input.left || input.right,
+    isSprinting: input.sprint,
+  };
+}
+
+export function isSameInput(a: IInputState, b: IInputState): boolean {
+  return (Object.keys(a) as Array<keyof IInputState>).every((key) => a[key] === b[key]);
+}
@@ -0,0 +1,70 @@
+import { Resource } from '@domain/entities/Resource';
+import {
+  RESOURCE_DEFINITIONS,
+  RESOURCE_SPAWN_TABLE,
+} from '@domain/value-objects/ResourceDefinitions';
+import { IRandomSource, MATH_RANDOM } from '@shared/random/SeededRandom';
+
+/**
+ * The world's gatherable resources, as seen by the simulation.
+ * The browser build backs this with the scene's ResourceManager; headless runs use ResourceRegistry.
+ */
+export interface IResourceRegistry {
+  getResources(): Resource[];
+  getResourceById(id: string): Resource | undefined;
+  /**
+   * Advance respawn timers by one simulation step. Returns the resources that respawned.
+   */
+  update(deltaTime: number): Resource[];
+}
+
+/**
+ * In-memory resource registry with no scene or meshes
+ */
+export class ResourceRegistry implements IResourceRegistry {
+  private resources = new Map<string, Resource>();
+
+  constructor(resources: Resource[] = []) {
+    for (const resource of resources) {
+      this.add(resource);
+    }
+  }
+
+  /**
+   * Create the same resources (ids and configs) the browser world spawns
+   */
+  static fromSpawnTable(lootRandom: IRandomSource = MATH_RANDOM): ResourceRegistry {
+    const registry = new ResourceRegistry();
+    for (const ring of RESOURCE_SPAWN_TABLE) {
+      const config = RESOURCE_DEFINITIONS[ring.definitionId];
+      if (!config) continue;
+
+      for (let i = 0; i < ring.count; i++) {
+        registry.add(new Resource(`${ring.definitionId}_${i}`, config, lootRandom));
+      }
+    }
+    return registry;
+  }
+
+  add(resource: Resource): void {
+    this.resources.set(resource.id, resource);
+  }
+
+  getResources(): Resource[] {
+    return Array.from(this.resources.values());
+  }
+
+  getResourceById(id: string): Resource | undefined {
+    return this.resources.get(id);
+  }
+
+  update(deltaTime: number): Resource[] {
+    const respawned: Resource[] = [];
+    for (const resource of this.resources.values()) {
+      if (resource.updateRespawn(deltaTime)) {
+        respawned.push(resource);
+      }
+    }
+    return respawned;
+  }
+}
@@ -0,0 +1,99 @@
+import { Character } from '@domain/entities/Character';
+import { ISurvivalContext } from '@application/survival/SurvivalRules';
+import { GAME_CONFIG, METABOLISM_CONFIG } from '@shared/constants/GameConstants';
+
+/**
+ * The metabolism models a balance can choose between
+ */
+export enum MetabolismModel {
+  FLAT = 'flat',
+  ACTIVITY = 'activity',
+}
+
+/**
+ * A one-off effort that costs food and water on top of the steady burn
+ */
+export type Exertion = { type: 'gather'; staminaCost: number } | { type: 'craft' };
+
+/**
+ * Hunger and thirst amounts, as rate multipliers or as points depending on the method
+ */
+export interface IBurn {
+  hunger: number;
+  thirst: number;
+}
+
+/**
+ * Strategy for how fast a character burns calories and water
+ */
+export interface IMetabolism {
+  readonly model: MetabolismModel;
+
+  /**
+   * Multipliers on the base hunger and thirst depletion rates for this step
+   */
+  getBurnRate(character: Character, context: ISurvivalContext): IBurn;
+
+  /**
+   * Hunger and thirst points an exertion costs
+   */
+  getExertionCost(exertion: Exertion): IBurn;
+}
+
+/**
+ * Hunger and thirst fall at the base rates whatever the character does
+ */
+export class FlatMetabolism implements IMetabolism {
+  readonly model = MetabolismModel.FLAT;
+
+  getBurnRate(): IBurn {
+    return { hunger: 1, thirst: 1 };
+  }
+
+  getExertionCost(): IBurn {
+    return { hunger: 0, thirst: 0 };
+  }
+}
+
+/**
+ * Burn follows what the character does: sprinting, gathering, crafting and shivering
+ * in the cold spend more, standing still and sleeping less
+ */
+export class ActivityMetabolism implements IMetabolism {
+  readonly model = MetabolismModel.ACTIVITY;
+
+  getBurnRate(character: Character, context: ISurvivalContext): IBurn {
+    const { calories, water } = METABOLISM_CONFIG.ACTIVITY_BURN[this.getActivityLevel(context)];
+    const chill = Math.max(0, GAME_CONFIG.NORMAL_BODY_TEMP - character.stats.temperature);
+    return { hunger: calories + chill * METABOLISM_CONFIG.COLD_BURN_PER_DEGREE, thirst: water };
+  }
+
+  getExertionCost(exertion: Exertion): IBurn {
+    const calories =
+      exertion.type === 'gather'
+        ? exertion.staminaCost * METABOLISM_CONFIG.GATHER_CALORIES_PER_STAMINA
+        : METABOLISM_CONFIG.CRAFT_CALORIES;
+    return {
+      hunger: calories / METABOLISM_CONFIG.CALORIES_PER_HUNGER,
+      thirst: calories * METABOLISM_CONFIG.WATER_PER_CALORIE,
+    };
+  }
+
+  private getActivityLevel({
+    activity,
+    isSleeping,
+  }: ISurvivalContext): keyof typeof METABOLISM_CONFIG.ACTIVITY_BURN {
+    if (isSleeping) return 'SLEEPING';
+    if (!activity.isMoving) return 'RESTING';
+    return activity.isSprinting ? 'SPRINTING' : 'WALKING';
+  }
+}
+
+export function createMetabolism(model: MetabolismModel): IMetabolism {
+  switch (model) {
+    case MetabolismModel.FLAT:
+      return new FlatMetabolism();
+    case MetabolismModel.ACTIVITY:
+      return new ActivityMetabolism();
+  }
+}
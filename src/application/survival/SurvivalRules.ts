@@ -0,0 +1,264 @@
+import { Character } from '@domain/entities/Character';
+import { Stats } from '@domain/value-objects/Stats';
+import { DamageCause } from '@domain/events/CharacterEvents';
+import { StatusEffectType, StatusModifier } from '@domain/value-objects/StatusEffectDefinitions';
+
+/**
+ * What the player is doing this step (fed from input in the browser, scripted in tests)
+ */
+export interface IPlayerActivity {
+  isMoving: boolean;
+  isSprinting: boolean;
+}
+
+/**
+ * Everything a rule may read besides the character
+ */
+export interface ISurvivalContext {
+  deltaTime: number; // Seconds
+  environmentTemperature: number; // Air temperature including weather
+  activity: IPlayerActivity;
+  snowfall: number; // 0 = none, 1 = full blizzard
+  heat: number; // Warmth from nearby heat sources after falloff, 0 = none, 1 = right beside one
+  isSleeping: boolean;
+}
+
+/**
+ * One piece of survival logic applied to the character every tick
+ */
+export interface ISurvivalRule {
+  readonly id: string;
+
+  /**
+   * Apply the rule. Returns the updated character when the rule fired, null when it did nothing.
+   */
+  apply(character: Character, context: ISurvivalContext): Character | null;
+}
+
+/**
+ * Ids of the rules the game ships with
+ */
+export enum SurvivalRuleId {
+  HUNGER = 'hunger',
+  THIRST = 'thirst',
+  STAMINA_REGEN = 'stamina_regen',
+  SPRINT = 'sprint',
+  TEMPERATURE = 'temperature',
+  HYPOTHERMIA = 'hypothermia',
+  STARVATION = 'starvation',
+  DEHYDRATION = 'dehydration',
+  STATUS_EFFECTS = 'status_effects',
+  HYPOTHERMIA_EFFECT = 'hypothermia_effect',
+  FROSTBITE = 'frostbite',
+  EXHAUSTION = 'exhaustion',
+  WETNESS = 'wetness',
+  FATIGUE = 'fatigue',
+  SPRINT_FATIGUE = 'sprint_fatigue',
+  SLEEP_RECOVERY = 'sleep_recovery',
+}
+
+export type DepletableStat = 'hunger' | 'thirst' | 'stamina' | 'energy';
+
+const STAT_SETTERS: Record<DepletableStat, (stats: Stats, value: number) => Stats> = {
+  hunger: (stats, value) => stats.withHunger(value),
+  thirst: (stats, value) => stats.withThirst(value),
+  stamina: (stats, value) => stats.withStamina(value),
+  energy: (stats, value) => stats.withEnergy(value),
+};
+
+export interface IDepletionRuleConfig {
+  id: string;
+  stat: DepletableStat;
+  ratePerMinute: number; // Positive drains the stat, negative restores it
+  condition?: (context: ISurvivalContext) => boolean; // Always applies when omitted
+  modifier?: StatusModifier; // Status effect multiplier applied to the rate
+  scale?: (character: Character, context: ISurvivalContext) => number; // E.g. the metabolism's burn
+}
+
+/**
+ * Drains (or restores) a stat at a steady rate, clamped to its range
+ */
+export class DepletionRule implements ISurvivalRule {
+  readonly id: string;
+
+  constructor(readonly config: IDepletionRuleConfig) {
+    this.id = config.id;
+  }
+
+  apply(character: Character, context: ISurvivalContext): Character | null {
+    if (this.config.condition && !this.config.condition(context)) {
+      return null;
+    }
+
+    const stats = character.stats;
+    const current = stats[this.config.stat];
+    const multiplier =
+      (this.config.modifier ? character.getStatusModifier(this.config.modifier) : 1) *
+      (this.config.scale ? this.config.scale(character, context) : 1);
+    const next = STAT_SETTERS[this.config.stat](
+      stats,
+      current - this.config.ratePerMinute * multiplier * (context.deltaTime / 60)
+    );
+    if (next[this.config.stat] === current) {
+      return null; // Already empty (or full)
+    }
+    return character.updateStats(next);
+  }
+}
+
+export interface ITemperatureExchangeRuleConfig {
+  id: string;
+  ratePerMinute: number; // Most degrees the body moves toward the effective temperature per minute
+  coolingMultiplier?: number; // Scales cooling only, so warming by a fire keeps its pace
+  wetCoolingMultiplier?: number; // Cooling multiplier when soaked through (1 = wetness ignored)
+  fullHeatTemperature?: number; // Temperature at heat 1, scaling linearly with heat (heat ignored when omitted)
+  maxHeatTemperature?: number; // Heat never makes it warmer than this
+}
+
+/**
+ * Moves body temperature toward the effective temperature without overshooting it: the
+ * air temperature, or the warmth of nearby heat sources where that is higher.
+ * Cooling is scaled by the character's 'cooling' status modifier and by wet clothes.
+ */
+export class TemperatureExchangeRule implements ISurvivalRule {
+  readonly id: string;
+
+  constructor(readonly config: ITemperatureExchangeRuleConfig) {
+    this.id = config.id;
+  }
+
+  apply(character: Character, context: ISurvivalContext): Character | null {
+    const bodyTemp = character.stats.temperature;
+    const tempDiff = this.getEffectiveTemperature(context) - bodyTemp;
+    const multiplier = tempDiff < 0 ? this.getCoolingMultiplier(character) : 1;
+    const maxDrift = this.config.ratePerMinute * multiplier * (context.deltaTime / 60);
+    if (tempDiff === 0 || maxDrift <= 0) {
+      return null;
+    }
+    return character.updateTemperature(
+      bodyTemp + Math.sign(tempDiff) * Math.min(Math.abs(tempDiff), maxDrift)
+    );
+  }
+
+  getEffectiveTemperature(context: ISurvivalContext): number {
+    const { fullHeatTemperature, maxHeatTemperature = Infinity } = this.config;
+    if (fullHeatTemperature === undefined || context.heat <= 0) {
+      return context.environmentTemperature;
+    }
+    const heatTemperature = Math.min(context.heat * fullHeatTemperature, maxHeatTemperature);
+    return Math.max(context.environmentTemperature, heatTemperature);
+  }
+
+  private getCoolingMultiplier(character: Character): number {
+    const soaked = character.stats.wetness / Stats.MAX_WETNESS;
+    const wet = 1 + ((this.config.wetCoolingMultiplier ?? 1) - 1) * soaked;
+    return (this.config.coolingMultiplier ?? 1) * wet * character.getStatusModifier('cooling');
+  }
+}
+
+export interface IWetnessRuleConfig {
+  id: string;
+  wettingRate: number; // Points per minute under full snowfall
+  dryingRate: number; // Points per minute in the open without snow
+  heatDryingRate: number; // Points per minute at full heat
+}
+
+/**
+ * Soaks the character while snow falls on them, and dries them out otherwise:
+ * slowly in the open, faster near a heat source
+ */
+export class WetnessRule implements ISurvivalRule {
+  readonly id: string;
+
+  constructor(readonly config: IWetnessRuleConfig) {
+    this.id = config.id;
+  }
+
+  apply(character: Character, context: ISurvivalContext): Character | null {
+    const { wettingRate, dryingRate, heatDryingRate } = this.config;
+
+    let ratePerMinute = context.snowfall > 0 ? wettingRate * context.snowfall : -dryingRate;
+    ratePerMinute -= heatDryingRate * context.heat;
+
+    const current = character.stats.wetness;
+    const next = character.stats.withWetness(current + ratePerMinute * (context.deltaTime / 60));
+    if (next.wetness === current) {
+      return null; // Already dry (or soaked through)
+    }
+    return character.updateStats(next);
+  }
+}
+
+export interface IDamageOverTimeRuleConfig {
+  id: string;
+  cause: DamageCause;
+  damagePerSecond: number;
+  condition: (stats: Stats, context: ISurvivalContext) => boolean;
+}
+
+/**
+ * Deals steady damage while a condition on the stats holds (hypothermia, starvation, ...)
+ */
+export class DamageOverTimeRule implements ISurvivalRule {
+  readonly id: string;
+
+  constructor(readonly config: IDamageOverTimeRuleConfig) {
+    this.id = config.id;
+  }
+
+  apply(character: Character, context: ISurvivalContext): Character | null {
+    if (!this.config.condition(character.stats, context)) {
+      return null;
+    }
+    return character.takeDamage(this.config.damagePerSecond * context.deltaTime, this.config.cause);
+  }
+}
+
+/**
+ * Counts status effect durations down and applies their periodic ticks
+ */
+export class StatusEffectTickRule implements ISurvivalRule {
+  constructor(readonly id: string = SurvivalRuleId.STATUS_EFFECTS) {}
+
+  apply(character: Character, context: ISurvivalContext): Character | null {
+    if (character.statusEffects.length === 0) {
+      return null;
+    }
+    return character.updateStatusEffects(context.deltaTime);
+  }
+}
+
+export interface IStatusEffectTriggerRuleConfig {
+  id: string;
+  effect: StatusEffectType;
+  condition: (stats: Stats, context: ISurvivalContext) => boolean;
+  exposure?: number; // Seconds the condition must hold per application; every tick when omitted
+}
+
+/**
+ * Applies a status effect while a condition on the stats holds, either every tick
+ * (keeping a lingering effect refreshed) or once per `exposure` seconds (adding stacks)
+ */
+export class StatusEffectTriggerRule implements ISurvivalRule {
+  readonly id: string;
+  private exposed: number = 0;
+
+  constructor(readonly config: IStatusEffectTriggerRuleConfig) {
+    this.id = config.id;
+  }
+
+  apply(character: Character, context: ISurvivalContext): Character | null {
+    if (!this.config.condition(character.stats, context)) {
+      this.exposed = 0;
+      return null;
+    }
+
+    const exposure = this.config.exposure ?? 0;
+    this.exposed += context.deltaTime;
+    if (this.exposed < exposure) {
+      return null;
+    }
+    this.exposed -= exposure;
+    return character.applyStatusEffect(this.config.effect);
+  }
+}
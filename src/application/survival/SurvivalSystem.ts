@@ -0,0 +1,234 @@
+import { Character } from '@domain/entities/Character';
+import { DamageCause } from '@domain/events/CharacterEvents';
+import { Stats } from '@domain/value-objects/Stats';
+import {
+  EventBus,
+  GameEventType,
+  SurvivalRuleActivatedEvent,
+  SurvivalRuleDeactivatedEvent,
+} from '@application/events/EventBus';
+import { ISurvivalBalance } from '@application/balancing/SurvivalBalance';
+import { DEFAULT_GAME_RULES, IGameRules } from '@application/balancing/GameRules';
+import { IMetabolism, createMetabolism } from '@application/survival/Metabolism';
+import {
+  DamageOverTimeRule,
+  DepletionRule,
+  ISurvivalContext,
+  ISurvivalRule,
+  StatusEffectTickRule,
+  StatusEffectTriggerRule,
+  SurvivalRuleId,
+  TemperatureExchangeRule,
+  WetnessRule,
+} from '@application/survival/SurvivalRules';
+import { StatusEffectType } from '@domain/value-objects/StatusEffectDefinitions';
+import {
+  FATIGUE_CONFIG,
+  GAME_CONFIG,
+  STATUS_EFFECT_CONFIG,
+  WETNESS_CONFIG,
+} from '@shared/constants/GameConstants';
+
+/**
+ * The shipped rule set, in the order it runs: status effect durations, depletion,
+ * stamina regeneration and sprinting, fatigue and sleep, wetness, temperature (air and heat),
+ * damage over time, then the thresholds that start status effects. The game rules scale
+ * depletion, cooling and damage; the metabolism (the balance's model unless given) scales
+ * hunger and thirst with activity.
+ */
+export function createDefaultSurvivalRules(
+  balance: ISurvivalBalance,
+  rules: IGameRules = DEFAULT_GAME_RULES,
+  metabolism: IMetabolism = createMetabolism(balance.metabolism)
+): ISurvivalRule[] {
+  const isHypothermic = (stats: Stats): boolean =>
+    stats.temperature < GAME_CONFIG.HYPOTHERMIA_THRESHOLD;
+
+  return [
+    new StatusEffectTickRule(),
+    new DepletionRule({
+      id: SurvivalRuleId.HUNGER,
+      stat: 'hunger',
+      ratePerMinute: balance.hungerDepletionRate * rules.depletion,
+      modifier: 'hungerDepletion',
+      scale: (character, context) => metabolism.getBurnRate(character, context).hunger,
+    }),
+    new DepletionRule({
+      id: SurvivalRuleId.THIRST,
+      stat: 'thirst',
+      ratePerMinute: balance.thirstDepletionRate * rules.depletion,
+      modifier: 'thirstDepletion',
+      scale: (character, context) => metabolism.getBurnRate(character, context).thirst,
+    }),
+    new DepletionRule({
+      id: SurvivalRuleId.STAMINA_REGEN,
+      stat: 'stamina',
+      ratePerMinute: -GAME_CONFIG.STAMINA_REGEN_RATE * 60,
+      condition: ({ activity }) => !activity.isMoving && !activity.isSprinting,
+      modifier: 'staminaRegen',
+    }),
+    new DepletionRule({
+      id: SurvivalRuleId.SPRINT,
+      stat: 'stamina',
+      ratePerMinute: GAME_CONFIG.STAMINA_SPRINT_COST * 60,
+      condition: ({ activity }) => activity.isMoving && activity.isSprinting,
+    }),
+    new DepletionRule({
+      id: SurvivalRuleId.FATIGUE,
+      stat: 'energy',
+      ratePerMinute: FATIGUE_CONFIG.DRAIN_RATE * rules.depletion,
+      condition: ({ isSleeping }) => !isSleeping,
+    }),
+    new DepletionRule({
+      id: SurvivalRuleId.SPRINT_FATIGUE,
+      stat: 'energy',
+      ratePerMinute: FATIGUE_CONFIG.SPRINT_DRAIN_RATE * rules.depletion,
+      condition: ({ activity, isSleeping }) =>
+        !isSleeping && activity.isMoving && activity.isSprinting,
+    }),
+    new DepletionRule({
+      id: SurvivalRuleId.SLEEP_RECOVERY,
+      stat: 'energy',
+      ratePerMinute: -FATIGUE_CONFIG.SLEEP_RECOVERY_RATE,
+      condition: ({ isSleeping }) => isSleeping,
+    }),
+    new WetnessRule({
+      id: SurvivalRuleId.WETNESS,
+      wettingRate: WETNESS_CONFIG.WETTING_RATE,
+      dryingRate: WETNESS_CONFIG.DRYING_RATE,
+      heatDryingRate: WETNESS_CONFIG.HEAT_DRYING_RATE,
+    }),
+    new TemperatureExchangeRule({
+      id: SurvivalRuleId.TEMPERATURE,
+      ratePerMinute: balance.baseCoolingRate,
+      coolingMultiplier: rules.cooling,
+      wetCoolingMultiplier: WETNESS_CONFIG.COOLING_MULTIPLIER,
+      fullHeatTemperature: GAME_CONFIG.FULL_HEAT_TEMPERATURE,
+      maxHeatTemperature: GAME_CONFIG.NORMAL_BODY_TEMP,
+    }),
+    new DamageOverTimeRule({
+      id: SurvivalRuleId.HYPOTHERMIA,
+      cause: DamageCause.HYPOTHERMIA,
+      damagePerSecond: GAME_CONFIG.HYPOTHERMIA_DAMAGE_RATE * rules.damage,
+      condition: isHypothermic,
+    }),
+    new DamageOverTimeRule({
+      id: SurvivalRuleId.STARVATION,
+      cause: DamageCause.STARVATION,
+      damagePerSecond: GAME_CONFIG.STARVATION_DAMAGE_RATE * rules.damage,
+      condition: (stats) => stats.isStarving(),
+    }),
+    new DamageOverTimeRule({
+      id: SurvivalRuleId.DEHYDRATION,
+      cause: DamageCause.DEHYDRATION,
+      damagePerSecond: GAME_CONFIG.DEHYDRATION_DAMAGE_RATE * rules.damage,
+      condition: (stats) => stats.isDehydrated(),
+    }),
+    new StatusEffectTriggerRule({
+      id: SurvivalRuleId.HYPOTHERMIA_EFFECT,
+      effect: StatusEffectType.HYPOTHERMIA,
+      condition: isHypothermic,
+    }),
+    new StatusEffectTriggerRule({
+      id: SurvivalRuleId.FROSTBITE,
+      effect: StatusEffectType.FROSTBITE,
+      condition: isHypothermic,
+      exposure: STATUS_EFFECT_CONFIG.FROSTBITE_EXPOSURE,
+    }),
+    new StatusEffectTriggerRule({
+      id: SurvivalRuleId.EXHAUSTION,
+      effect: StatusEffectType.EXHAUSTED,
+      condition: (stats) => stats.stamina <= STATUS_EFFECT_CONFIG.EXHAUSTED_STAMINA,
+    }),
+  ];
+}
+
+/**
+ * Applies survival rules to the character each tick, in order.
+ * Publishes SURVIVAL_RULE_ACTIVATED when a rule starts firing and
+ * SURVIVAL_RULE_DEACTIVATED when it stops (including when the character dies).
+ */
+export class SurvivalSystem {
+  private rules: ISurvivalRule[];
+  private active = new Set<string>();
+
+  constructor(
+    private eventBus: EventBus,
+    rules: ISurvivalRule[] = []
+  ) {
+    this.rules = [...rules];
+  }
+
+  getRules(): readonly ISurvivalRule[] {
+    return this.rules;
+  }
+
+  getRule(id: string): ISurvivalRule | undefined {
+    return this.rules.find((rule) => rule.id === id);
+  }
+
+  /**
+   * Add a rule, replacing any rule with the same id in place
+   */
+  addRule(rule: ISurvivalRule): void {
+    const index = this.rules.findIndex((existing) => existing.id === rule.id);
+    if (index === -1) {
+      this.rules.push(rule);
+    } else {
+      this.rules[index] = rule;
+    }
+  }
+
+  removeRule(id: string): boolean {
+    const index = this.rules.findIndex((rule) => rule.id === id);
+    if (index === -1) return false;
+    this.rules.splice(index, 1);
+    this.active.delete(id);
+    return true;
+  }
+
+  isActive(id: string): boolean {
+    return this.active.has(id);
+  }
+
+  /**
+   * Run every rule once. Returns the updated character.
+   */
+  update(character: Character, context: ISurvivalContext): Character {
+    for (const rule of this.rules) {
+      const updated = character.isAlive ? rule.apply(character, context) : null;
+      if (updated) {
+        character = updated;
+      }
+      this.setActive(rule.id, updated !== null, character.id);
+    }
+    return character;
+  }
+
+  /**
+   * Forget which rules were firing, e.g. when a save is loaded
+   */
+  reset(): void {
+    this.active.clear();
+  }
+
+  private setActive(ruleId: string, fired: boolean, characterId: string): void {
+    if (fired === this.active.has(ruleId)) return;
+
+    if (fired) {
+      this.active.add(ruleId);
+      this.eventBus.publish<SurvivalRuleActivatedEvent>({
+        type: GameEventType.SURVIVAL_RULE_ACTIVATED,
+        characterId,
+        ruleId,
+      });
+    } else {
+      this.active.delete(ruleId);
+      this.eventBus.publish<SurvivalRuleDeactivatedEvent>({
+        type: GameEventType.SURVIVAL_RULE_DEACTIVATED,
+        characterId,
+        ruleId,
+      });
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { Character } from '@domain/entities/Character';
+import { Inventory } from '@domain/entities/Inventory';
+import {
+  EventBus,
+  GameEventType,
+  InventoryChangedEvent,
+  ItemConsumedEvent,
+} from '@application/events/EventBus';
+import { IRandomSource } from '@shared/random/SeededRandom';
+
+export interface IConsumeResult {
+  success: boolean;
+  message: string;
+}
+
+/**
+ * Use case for eating or drinking one item from an inventory slot.
+ * Perishable food is eaten at its current freshness. Food poisoning is rolled on
+ * the given seeded stream, so replays reproduce it.
+ */
+export class ConsumeItemUseCase {
+  constructor(
+    private character: Character,
+    private inventory: Inventory,
+    private eventBus: EventBus,
+    private random: IRandomSource
+  ) {}
+
+  /**
+   * Update character reference (since Character uses immutable updates)
+   */
+  setCharacter(character: Character): void {
+    this.character = character;
+  }
+
+  /**
+   * Update inventory reference (e.g. after loading a save)
+   */
+  setInventory(inventory: Inventory): void {
+    this.inventory = inventory;
+  }
+
+  execute(slotIndex: number): IConsumeResult {
+    if (!this.character.isAlive) {
+      return { success: false, message: 'Character is dead' };
+    }
+
+    const item = this.inventory.getItemAt(slotIndex);
+    if (!item) {
+      return { success: false, message: 'Nothing in that slot' };
+    }
+    // Perishable food gives what it is worth now
+    const effects = item.getEffects();
+    if (!item.isConsumable || !effects) {
+      return { success: false, message: `${item.name} cannot be used` };
+    }
+
+    this.character.consume(effects, this.random);
+    this.inventory.removeItemAt(slotIndex, 1);
+
+    this.eventBus.publish<ItemConsumedEvent>({
+      type: GameEventType.ITEM_CONSUMED,
+      itemId: item.id,
+      itemName: item.name,
+      quantity: 1,
+      effects: { ...effects },
+    });
+    this.eventBus.enqueueLatest<InventoryChangedEvent>({ type: GameEventType.INVENTORY_CHANGED });
+
+    return { success: true, message: `Used ${item.name}` };
+  }
+}
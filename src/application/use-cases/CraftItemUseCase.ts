@@ -2,6 +2,7 @@ import { Character } from '@domain/entities/Character';
 import { Inventory } from '@domain/entities/Inventory';
 import { Item, ItemType, ItemRarity } from '@domain/entities/Item';
 import { EventBus, GameEventType, ItemCraftedEvent, InventoryChangedEvent } from '@application/events/EventBus';
+import { FRESHNESS_CONFIG } from '@shared/constants/GameConstants';
 
 /**
  * Crafting recipe definition
@@ -16,9 +17,11 @@ export interface ICraftingRecipe {
     type: ItemType;
     rarity: ItemRarity;
     effects?: Record<string, number>;
+    maxStack?: number; // Defaults to 20 for materials, 1 otherwise
   };
   requiredMaterials: Map<string, number>;
   requiredSkillLevel?: number;
+  requiresHeat?: boolean; // Cooking: only craftable beside a heat source
   craftingTime: number; // in seconds
 }
 
@@ -33,7 +36,8 @@ export interface ICraftingResult {
 }
 
 /**
- * Use case for crafting items from materials
+ * Use case for crafting items from materials.
+ * getHeat reports the heat (0-1) where the character stands, for recipes that need a fire.
  */
 export class CraftItemUseCase {
   private eventBus: EventBus | null;
@@ -41,7 +45,8 @@ export class CraftItemUseCase {
   constructor(
     private character: Character,
     private inventory: Inventory,
-    eventBus?: EventBus
+    eventBus?: EventBus,
+    private getHeat: () => number = () => 0
   ) {
     this.eventBus = eventBus ?? null;
   }
@@ -53,6 +58,13 @@ export class CraftItemUseCase {
     this.character = character;
   }
 
+  /**
+   * Update inventory reference (e.g. after loading a save)
+   */
+  setInventory(inventory: Inventory): void {
+    this.inventory = inventory;
+  }
+
   /**
    * Attempt to craft an item using a recipe
    */
@@ -65,6 +77,14 @@ export class CraftItemUseCase {
       };
     }
 
+    if (recipe.requiresHeat && this.getHeat() <= 0) {
+      return {
+        success: false,
+        item: null,
+        message: 'You need to be near a heat source to make this',
+      };
+    }
+
     const staminaCost = recipe.craftingTime * 2;
     if (!this.character.canUseStamina(staminaCost)) {
       return {
@@ -110,7 +130,7 @@ export class CraftItemUseCase {
         itemId: recipe.resultItem.id,
         itemName: recipe.name,
       });
-      this.eventBus.publish<InventoryChangedEvent>({
+      this.eventBus.enqueueLatest<InventoryChangedEvent>({
         type: GameEventType.INVENTORY_CHANGED,
       });
     }
@@ -164,11 +184,14 @@ export class CraftItemUseCase {
       description: recipe.description,
       type: recipe.resultItem.type,
       rarity: recipe.resultItem.rarity,
-      maxStack: recipe.resultItem.type === ItemType.MATERIAL ? 20 : 1,
+      maxStack:
+        recipe.resultItem.maxStack ?? (recipe.resultItem.type === ItemType.MATERIAL ? 20 : 1),
       weight: 1,
-      isConsumable: recipe.resultItem.type === ItemType.FOOD,
+      isConsumable:
+        recipe.resultItem.type === ItemType.FOOD || recipe.resultItem.type === ItemType.CONSUMABLE,
       effects: recipe.resultItem.effects ?? null,
       quantity: 1,
+      shelfLife: FRESHNESS_CONFIG.SHELF_LIFE[recipe.resultItem.id] ?? null,
     });
   }
 
@@ -184,6 +207,10 @@ export class CraftItemUseCase {
       return { canCraft: false, reason: 'Character is dead' };
     }
 
+    if (recipe.requiresHeat && this.getHeat() <= 0) {
+      return { canCraft: false, reason: 'Needs a heat source' };
+    }
+
     const staminaCost = recipe.craftingTime * 2;
     if (!this.character.canUseStamina(staminaCost)) {
       return { canCraft: false, reason: 'Not enough stamina' };
@@ -245,6 +272,22 @@ export class CraftingRecipes {
         craftingTime: 10,
       },
     ],
+    [
+      'bedroll',
+      {
+        id: 'bedroll',
+        name: 'Bedroll',
+        description: 'A bed of pine boughs to sleep on anywhere',
+        resultItem: {
+          id: 'bedroll',
+          name: 'Bedroll',
+          type: ItemType.TOOL,
+          rarity: ItemRarity.COMMON,
+        },
+        requiredMaterials: new Map([['wood', 4]]),
+        craftingTime: 5,
+      },
+    ],
     [
       'cooked_meat',
       {
@@ -256,12 +299,50 @@ export class CraftingRecipes {
           name: 'Cooked Meat',
           type: ItemType.FOOD,
           rarity: ItemRarity.COMMON,
-          effects: { hungerRestore: 40 },
+          effects: { calories: 800 },
         },
         requiredMaterials: new Map([['raw_meat', 1]]),
         craftingTime: 3,
       },
     ],
+    [
+      'melt_snow',
+      {
+        id: 'melt_snow',
+        name: 'Melt Snow',
+        description: 'Melt snow over a fire. The water is gritty and may make you sick',
+        resultItem: {
+          id: 'dirty_water',
+          name: 'Dirty Water',
+          type: ItemType.CONSUMABLE,
+          rarity: ItemRarity.COMMON,
+          effects: { thirstRestore: 20, poisonChance: 0.25 },
+          maxStack: 10,
+        },
+        requiredMaterials: new Map([['snow', 3]]),
+        requiresHeat: true,
+        craftingTime: 3,
+      },
+    ],
+    [
+      'melt_ice',
+      {
+        id: 'melt_ice',
+        name: 'Melt Ice',
+        description: 'Melt clear ice over a fire into clean drinking water',
+        resultItem: {
+          id: 'clean_water',
+          name: 'Clean Water',
+          type: ItemType.CONSUMABLE,
+          rarity: ItemRarity.COMMON,
+          effects: { thirstRestore: 35 },
+          maxStack: 10,
+        },
+        requiredMaterials: new Map([['ice', 2]]),
+        requiresHeat: true,
+        craftingTime: 4,
+      },
+    ],
   ]);
 
   static getRecipe(id: string): ICraftingRecipe | undefined {
@@ -2,7 +2,14 @@ import { Character } from '@domain/entities/Character';
 import { Inventory } from '@domain/entities/Inventory';
 import { Resource, IResourceDrop } from '@domain/entities/Resource';
 import { Item, ItemType, ItemRarity } from '@domain/entities/Item';
-import { EventBus, GameEventType, ItemCollectedEvent, InventoryChangedEvent } from '@application/events/EventBus';
+import {
+  EventBus,
+  GameEventType,
+  ItemCollectedEvent,
+  InventoryChangedEvent,
+  ResourceDepletedEvent,
+} from '@application/events/EventBus';
+import { FATIGUE_CONFIG, FRESHNESS_CONFIG } from '@shared/constants/GameConstants';
 
 export interface IGatherResult {
   success: boolean;
@@ -13,7 +20,7 @@ export interface IGatherResult {
 
 /**
  * Use case for gathering resources from the world.
- * Coordinates character stamina, resource health, item creation, and inventory.
+ * Coordinates character stamina and energy, resource health, item creation, and inventory.
  */
 export class GatherResourceUseCase {
   constructor(
@@ -29,6 +36,13 @@ export class GatherResourceUseCase {
     this.character = character;
   }
 
+  /**
+   * Update inventory reference (e.g. after loading a save)
+   */
+  setInventory(inventory: Inventory): void {
+    this.inventory = inventory;
+  }
+
   /**
    * Attempt to gather from a resource
    */
@@ -48,8 +62,9 @@ export class GatherResourceUseCase {
       return { success: false, message: 'Not enough stamina', drops: [], resourceDepleted: false };
     }
 
-    // Use stamina
+    // Use stamina (and tire a little)
     this.character.useStamina(resource.config.staminaCost);
+    this.character.useEnergy(FATIGUE_CONFIG.GATHER_COST);
 
     // Hit resource
     const rawDrops = resource.hit(toolId);
@@ -76,14 +91,24 @@ export class GatherResourceUseCase {
         }
       }
 
-      // Publish inventory changed
+      // Inventory listeners refresh once per flush, however many changes a frame makes
       const invEvent: InventoryChangedEvent = {
         type: GameEventType.INVENTORY_CHANGED,
       };
-      this.eventBus.publish(invEvent);
+      this.eventBus.enqueueLatest(invEvent);
     }
 
     const depleted = resource.isDepleted;
+    if (depleted) {
+      const depletedEvent: ResourceDepletedEvent = {
+        type: GameEventType.RESOURCE_DEPLETED,
+        resourceId: resource.id,
+        resourceType: resource.config.type,
+        respawnTime: resource.respawnTimer,
+      };
+      this.eventBus.publish(depletedEvent);
+    }
+
     const message = depleted
       ? `Gathered from ${resource.config.name}!`
       : `Hitting ${resource.config.name} (${resource.health}/${resource.config.health})`;
@@ -112,8 +137,9 @@ export class GatherResourceUseCase {
       maxStack: 20,
       weight: 0.5,
       isConsumable: itemType === ItemType.FOOD,
-      effects: itemType === ItemType.FOOD ? { hungerRestore: 5 } : null,
+      effects: itemType === ItemType.FOOD ? { calories: 100 } : null,
       quantity,
+      shelfLife: FRESHNESS_CONFIG.SHELF_LIFE[drop.itemId] ?? null,
     });
   }
 }
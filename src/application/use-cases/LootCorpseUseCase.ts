@@ -0,0 +1,81 @@
+import { Character } from '@domain/entities/Character';
+import { Inventory } from '@domain/entities/Inventory';
+import {
+  CorpseLootedEvent,
+  EventBus,
+  GameEventType,
+  InventoryChangedEvent,
+} from '@application/events/EventBus';
+import { CorpseRegistry } from '@application/simulation/CorpseRegistry';
+import { DEATH_CONFIG } from '@shared/constants/GameConstants';
+
+export interface ILootResult {
+  success: boolean;
+  message: string;
+  itemCount: number; // Items (summed quantities) taken
+}
+
+/**
+ * Use case for taking everything that fits from a corpse near the character.
+ * An emptied corpse is removed from the world.
+ */
+export class LootCorpseUseCase {
+  constructor(
+    private character: Character,
+    private inventory: Inventory,
+    private corpses: CorpseRegistry,
+    private eventBus: EventBus
+  ) {}
+
+  /**
+   * Update character reference (since Character uses immutable updates)
+   */
+  setCharacter(character: Character): void {
+    this.character = character;
+  }
+
+  /**
+   * Update inventory reference (e.g. after loading a save)
+   */
+  setInventory(inventory: Inventory): void {
+    this.inventory = inventory;
+  }
+
+  execute(corpseId: string): ILootResult {
+    if (!this.character.isAlive) {
+      return { success: false, message: 'Character is dead', itemCount: 0 };
+    }
+
+    const corpse = this.corpses.getCorpse(corpseId);
+    if (!corpse) {
+      return { success: false, message: 'Nothing to loot', itemCount: 0 };
+    }
+    if (corpse.distanceTo(this.character.position) > DEATH_CONFIG.LOOT_RANGE) {
+      return { success: false, message: 'Too far away', itemCount: 0 };
+    }
+
+    const itemCount = corpse.inventory.transferAllTo(this.inventory);
+    const isEmpty = corpse.isEmpty();
+    if (isEmpty) {
+      this.corpses.remove(corpse.id);
+    }
+
+    this.eventBus.publish<CorpseLootedEvent>({
+      type: GameEventType.CORPSE_LOOTED,
+      corpseId: corpse.id,
+      itemCount,
+      isEmpty,
+    });
+    if (itemCount > 0) {
+      this.eventBus.enqueueLatest<InventoryChangedEvent>({ type: GameEventType.INVENTORY_CHANGED });
+    }
+
+    if (itemCount === 0 && !isEmpty) {
+      return { success: false, message: 'Your inventory is full', itemCount };
+    }
+    const message = isEmpty
+      ? `Looted ${corpse.characterName}'s body`
+      : `Took ${itemCount} items; the rest does not fit`;
+    return { success: true, message, itemCount };
+  }
+}
@@ -0,0 +1,73 @@
+import { Character } from '@domain/entities/Character';
+import { Inventory } from '@domain/entities/Inventory';
+import { HeatSource } from '@domain/entities/HeatSource';
+import {
+  EventBus,
+  GameEventType,
+  HeatSourcePlacedEvent,
+  InventoryChangedEvent,
+} from '@application/events/EventBus';
+import { HeatSourceRegistry } from '@application/simulation/HeatSourceRegistry';
+
+export interface IPlaceResult {
+  success: boolean;
+  message: string;
+  heatSource: HeatSource | null;
+}
+
+/**
+ * Use case for placing a heat-source item (campfire, ...) at the character's feet.
+ * Takes one of the item from the inventory.
+ */
+export class PlaceHeatSourceUseCase {
+  constructor(
+    private character: Character,
+    private inventory: Inventory,
+    private heatSources: HeatSourceRegistry,
+    private eventBus: EventBus
+  ) {}
+
+  /**
+   * Update character reference (since Character uses immutable updates)
+   */
+  setCharacter(character: Character): void {
+    this.character = character;
+  }
+
+  /**
+   * Update inventory reference (e.g. after loading a save)
+   */
+  setInventory(inventory: Inventory): void {
+    this.inventory = inventory;
+  }
+
+  execute(itemId: string): IPlaceResult {
+    if (!this.character.isAlive) {
+      return { success: false, message: 'Character is dead', heatSource: null };
+    }
+    if (!HeatSource.isHeatSource(itemId)) {
+      return { success: false, message: 'This item cannot be placed', heatSource: null };
+    }
+
+    const slot = this.inventory.getAllSlots().find((s) => s.item?.id === itemId);
+    if (!slot?.item) {
+      return { success: false, message: 'Item not in inventory', heatSource: null };
+    }
+
+    const name = slot.item.name;
+    this.inventory.removeItemAt(slot.slotIndex, 1);
+    const heatSource = this.heatSources.place(itemId, this.character.position);
+
+    const { x, y, z } = heatSource.position;
+    this.eventBus.publish<HeatSourcePlacedEvent>({
+      type: GameEventType.HEAT_SOURCE_PLACED,
+      sourceId: heatSource.id,
+      itemId,
+      position: { x, y, z },
+      radius: heatSource.config.radius,
+    });
+    this.eventBus.enqueueLatest<InventoryChangedEvent>({ type: GameEventType.INVENTORY_CHANGED });
+
+    return { success: true, message: `Placed ${name}`, heatSource };
+  }
+}
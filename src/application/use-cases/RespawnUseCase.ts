@@ -0,0 +1,80 @@
+import { Character } from '@domain/entities/Character';
+import { Stats } from '@domain/value-objects/Stats';
+import { Position } from '@domain/value-objects/Position';
+import { HeatSourceRegistry } from '@application/simulation/HeatSourceRegistry';
+import { DEATH_CONFIG } from '@shared/constants/GameConstants';
+
+/**
+ * Id of the world spawn point; camps use their heat source id
+ */
+export const SPAWN_POINT_ID = 'spawn';
+
+/**
+ * A place a dead character can come back at
+ */
+export interface IRespawnPoint {
+  id: string;
+  name: string;
+  position: Position;
+}
+
+export interface IRespawnResult {
+  success: boolean;
+  message: string;
+  point: IRespawnPoint | null;
+}
+
+/**
+ * Use case for bringing a dead character back with fresh stats, at the spawn point
+ * or beside one of the camps (placed heat sources).
+ */
+export class RespawnUseCase {
+  /**
+   * freshStats builds the stats a respawned character starts with
+   */
+  constructor(
+    private character: Character,
+    private heatSources: HeatSourceRegistry,
+    private freshStats: () => Stats
+  ) {}
+
+  /**
+   * Update character reference (since Character uses immutable updates)
+   */
+  setCharacter(character: Character): void {
+    this.character = character;
+  }
+
+  /**
+   * The spawn point first, then every camp
+   */
+  getRespawnPoints(): IRespawnPoint[] {
+    const { x, y, z } = DEATH_CONFIG.SPAWN_POINT;
+    const points: IRespawnPoint[] = [
+      { id: SPAWN_POINT_ID, name: 'Spawn point', position: Position.create(x, y, z) },
+    ];
+    for (const source of this.heatSources.getHeatSources()) {
+      const { position } = source;
+      points.push({
+        id: source.id,
+        name: `${source.config.name} camp`,
+        position: Position.create(position.x + DEATH_CONFIG.CAMP_OFFSET, position.y, position.z),
+      });
+    }
+    return points;
+  }
+
+  execute(pointId: string): IRespawnResult {
+    if (this.character.isAlive) {
+      return { success: false, message: 'Character is alive', point: null };
+    }
+
+    const point = this.getRespawnPoints().find((candidate) => candidate.id === pointId);
+    if (!point) {
+      return { success: false, message: 'Unknown respawn point', point: null };
+    }
+
+    this.character.respawn(this.freshStats(), point.position);
+    return { success: true, message: `Respawned at the ${point.name.toLowerCase()}`, point };
+  }
+}
@@ -0,0 +1,71 @@
+import { Character } from '@domain/entities/Character';
+import { Inventory } from '@domain/entities/Inventory';
+import { Stats } from '@domain/value-objects/Stats';
+import { GAME_CONFIG } from '@shared/constants/GameConstants';
+
+/**
+ * Item the player can sleep on anywhere
+ */
+export const BEDROLL_ITEM_ID = 'bedroll';
+
+/**
+ * Where the character lies down (only a bedroll until shelters can be built)
+ */
+export type SleepSpot = 'bedroll';
+
+/**
+ * Why the character woke up: 'woken' by the player, 'rested' with full energy,
+ * or interrupted by 'damage' or 'hypothermia'
+ */
+export type SleepEndReason = 'woken' | 'rested' | 'damage' | 'hypothermia';
+
+export interface ISleepResult {
+  success: boolean;
+  message: string;
+  spot: SleepSpot | null;
+}
+
+/**
+ * Use case for lying down to sleep on a bedroll from the inventory.
+ * Only checks whether the character can sleep; the simulation runs the sleep itself.
+ */
+export class SleepUseCase {
+  constructor(
+    private character: Character,
+    private inventory: Inventory
+  ) {}
+
+  /**
+   * Update character reference (since Character uses immutable updates)
+   */
+  setCharacter(character: Character): void {
+    this.character = character;
+  }
+
+  /**
+   * Update inventory reference (e.g. after loading a save)
+   */
+  setInventory(inventory: Inventory): void {
+    this.inventory = inventory;
+  }
+
+  execute(): ISleepResult {
+    if (!this.character.isAlive) {
+      return { success: false, message: 'Character is dead', spot: null };
+    }
+
+    if (!this.inventory.hasItem(BEDROLL_ITEM_ID)) {
+      return { success: false, message: 'You need a bedroll to sleep', spot: null };
+    }
+
+    const { stats } = this.character;
+    if (stats.energy >= Stats.MAX_ENERGY) {
+      return { success: false, message: 'You are not tired', spot: null };
+    }
+    if (stats.temperature < GAME_CONFIG.HYPOTHERMIA_THRESHOLD) {
+      return { success: false, message: 'Too cold to sleep', spot: null };
+    }
+
+    return { success: true, message: 'Sleeping in the bedroll', spot: 'bedroll' };
+  }
+}
@@ -1,6 +1,18 @@
 import { Stats } from '../value-objects/Stats';
 import { Position } from '../value-objects/Position';
-import { CharacterClass } from '@shared/constants/GameConstants';
+import { StatusEffect } from '../value-objects/StatusEffect';
+import { StatusEffectType, StatusModifier } from '../value-objects/StatusEffectDefinitions';
+import { IItemEffect } from './Item';
+import {
+  CharacterClass,
+  METABOLISM_CONFIG,
+  STATUS_EFFECT_CONFIG,
+} from '@shared/constants/GameConstants';
+import { IRandomSource } from '@shared/random/SeededRandom';
+import { assertSchemaVersion } from '../value-objects/SchemaVersion';
+import { ICharacterPayload } from '../validation/CharacterPayloads';
+import { parsePayload } from '../validation/PayloadValidator';
+import { CharacterEvent, DamageCause, STAT_THRESHOLDS } from '../events/CharacterEvents';
 
 /**
  * Unique identifier for game entities
@@ -12,6 +24,15 @@ export type EntityId = string;
  * Pure domain logic - no framework dependencies
  */
 export class Character {
+  /**
+   * Version of the toJSON() shape. Bump and register a migration when it changes.
+   */
+  static readonly SCHEMA_VERSION = 5;
+
+  private pendingEvents: CharacterEvent[] = [];
+  private lastDamageCause: DamageCause = DamageCause.OTHER;
+  private _statusEffects: StatusEffect[] = [];
+
   private constructor(
     public readonly id: EntityId,
     public readonly characterClass: CharacterClass,
@@ -44,12 +65,34 @@ export class Character {
     return this._isAlive;
   }
 
+  get statusEffects(): readonly StatusEffect[] {
+    return this._statusEffects;
+  }
+
   /**
-   * Update character stats
+   * Update character stats. Health and stamina are capped by status effect maxima.
    */
   updateStats(newStats: Stats): Character {
+    const wasAlive = this._isAlive;
+    newStats = this.applyStatusCaps(newStats);
+    this.recordThresholds(this._stats, newStats);
     this._stats = newStats;
     this._isAlive = newStats.isAlive();
+    if (wasAlive && !this._isAlive) {
+      this.pendingEvents.push({ type: 'died', cause: this.lastDamageCause });
+    }
+    return this;
+  }
+
+  /**
+   * Bring the character back with fresh stats at a position, without status effects
+   */
+  respawn(stats: Stats, position: Position): Character {
+    this._stats = stats;
+    this._isAlive = stats.isAlive();
+    this._position = position;
+    this._statusEffects = [];
+    this.lastDamageCause = DamageCause.OTHER;
     return this;
   }
 
@@ -64,7 +107,10 @@ export class Character {
   /**
    * Apply damage to character
    */
-  takeDamage(amount: number): Character {
+  takeDamage(amount: number, cause: DamageCause = DamageCause.OTHER): Character {
+    if (this._isAlive && amount > 0) {
+      this.recordDamage(amount, cause);
+    }
     const newStats = this._stats.withHealth(this._stats.health - amount);
     return this.updateStats(newStats);
   }
@@ -101,6 +147,20 @@ export class Character {
     return this.updateStats(newStats);
   }
 
+  /**
+   * Update how wet the character's clothes are
+   */
+  updateWetness(wetness: number): Character {
+    return this.updateStats(this._stats.withWetness(wetness));
+  }
+
+  /**
+   * Spend energy on tiring work (e.g., gathering)
+   */
+  useEnergy(amount: number): Character {
+    return this.updateStats(this._stats.withEnergy(this._stats.energy - amount));
+  }
+
   /**
    * Use stamina (e.g., for sprinting)
    */
@@ -117,6 +177,119 @@ export class Character {
     return this.updateStats(newStats);
   }
 
+  /**
+   * Apply an item's effects: restores, warmth (which also warms the character up),
+   * a well-fed bonus when eating to a full stomach and a chance of food poisoning,
+   * rolled on the given random source (a seeded stream in the game)
+   */
+  consume(effects: IItemEffect, random: IRandomSource): Character {
+    const hungerRestore =
+      (effects.hungerRestore ?? 0) +
+      (effects.calories ?? 0) / METABOLISM_CONFIG.CALORIES_PER_HUNGER;
+    if (hungerRestore) {
+      this.eat(hungerRestore);
+      if (this._stats.hunger >= STATUS_EFFECT_CONFIG.WELL_FED_HUNGER) {
+        this.applyStatusEffect(StatusEffectType.WELL_FED);
+      }
+    }
+    if (effects.thirstRestore) this.drink(effects.thirstRestore);
+    if (effects.healthRestore) this.heal(effects.healthRestore);
+    if (effects.staminaRestore) this.regenStamina(effects.staminaRestore);
+    if (effects.temperatureChange) {
+      this.updateTemperature(this._stats.temperature + effects.temperatureChange);
+      if (effects.temperatureChange > 0) {
+        this.applyStatusEffect(StatusEffectType.WARMED_UP);
+      }
+    }
+    if (effects.poisonChance && random.next() < effects.poisonChance) {
+      this.applyStatusEffect(StatusEffectType.FOOD_POISONING);
+    }
+    return this;
+  }
+
+  getStatusEffect(type: StatusEffectType): StatusEffect | undefined {
+    return this._statusEffects.find((effect) => effect.type === type);
+  }
+
+  hasStatusEffect(type: StatusEffectType): boolean {
+    return this.getStatusEffect(type) !== undefined;
+  }
+
+  /**
+   * Start an effect, or re-apply it following its stacking rule
+   */
+  applyStatusEffect(type: StatusEffectType, duration?: number): Character {
+    if (!this._isAlive) return this;
+
+    const index = this._statusEffects.findIndex((effect) => effect.type === type);
+    const existing = this._statusEffects[index];
+    const effect = existing ? existing.reapply(duration) : StatusEffect.create(type, duration);
+    if (existing) {
+      this._statusEffects[index] = effect;
+    } else {
+      this._statusEffects.push(effect);
+    }
+
+    if (!existing || effect.stacks > existing.stacks) {
+      this.pendingEvents.push({
+        type: 'statusEffectApplied',
+        effect: type,
+        stacks: effect.stacks,
+        remaining: effect.remaining,
+      });
+    }
+    return this.updateStats(this._stats);
+  }
+
+  /**
+   * End an effect early (e.g. cured by an item)
+   */
+  removeStatusEffect(type: StatusEffectType): Character {
+    const count = this._statusEffects.length;
+    this._statusEffects = this._statusEffects.filter((effect) => effect.type !== type);
+    if (this._statusEffects.length < count) {
+      this.pendingEvents.push({ type: 'statusEffectRemoved', effect: type, reason: 'cured' });
+    }
+    return this;
+  }
+
+  /**
+   * Count effect durations down, apply their periodic ticks and drop expired ones
+   */
+  updateStatusEffects(deltaTime: number): Character {
+    if (!this._isAlive || this._statusEffects.length === 0) return this;
+
+    const remaining: StatusEffect[] = [];
+    for (const current of this._statusEffects) {
+      const { effect, ticks } = current.advance(deltaTime);
+      if (ticks > 0) {
+        this.applyStatusTick(effect, ticks);
+      }
+      if (effect.isExpired) {
+        this.pendingEvents.push({
+          type: 'statusEffectRemoved',
+          effect: effect.type,
+          reason: 'expired',
+        });
+      } else {
+        remaining.push(effect);
+      }
+    }
+    this._statusEffects = remaining;
+    return this.updateStats(this._stats);
+  }
+
+  /**
+   * Combined multiplier of every active effect for a rate or maximum (1 = unchanged)
+   */
+  getStatusModifier(modifier: StatusModifier): number {
+    let product = 1;
+    for (const effect of this._statusEffects) {
+      product *= effect.getModifier(modifier);
+    }
+    return product;
+  }
+
   /**
    * Check if character can perform an action requiring stamina
    */
@@ -124,6 +297,15 @@ export class Character {
     return this._stats.stamina >= amount;
   }
 
+  /**
+   * Take the events recorded since the last call
+   */
+  pullEvents(): CharacterEvent[] {
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    return events;
+  }
+
   /**
    * Get character status summary
    */
@@ -143,11 +325,79 @@ export class Character {
     };
   }
 
+  /**
+   * Damage of one cause in a row adds up into a single event until pulled
+   */
+  private recordDamage(amount: number, cause: DamageCause): void {
+    this.lastDamageCause = cause;
+    const last = this.pendingEvents[this.pendingEvents.length - 1];
+    if (last?.type === 'damaged' && last.cause === cause) {
+      last.amount += amount;
+    } else {
+      this.pendingEvents.push({ type: 'damaged', amount, cause });
+    }
+  }
+
+  private applyStatusTick(effect: StatusEffect, ticks: number): void {
+    const { tick, damageCause } = effect.definition;
+    if (!tick) return;
+
+    const scale = ticks * effect.stacks;
+    let stats = this._stats;
+    if (tick.hunger) stats = stats.withHunger(stats.hunger + tick.hunger * scale);
+    if (tick.thirst) stats = stats.withThirst(stats.thirst + tick.thirst * scale);
+    if (tick.stamina) stats = stats.withStamina(stats.stamina + tick.stamina * scale);
+    if (tick.temperature)
+      stats = stats.withTemperature(stats.temperature + tick.temperature * scale);
+    this.updateStats(stats);
+
+    if (tick.health && tick.health < 0) {
+      this.takeDamage(-tick.health * scale, damageCause);
+    } else if (tick.health) {
+      this.heal(tick.health * scale);
+    }
+  }
+
+  private applyStatusCaps(stats: Stats): Stats {
+    if (this._statusEffects.length === 0) return stats;
+
+    const maxHealth = stats.maxHealth * this.getStatusModifier('maxHealth');
+    const maxStamina = stats.maxStamina * this.getStatusModifier('maxStamina');
+    if (stats.health > maxHealth) stats = stats.withHealth(maxHealth);
+    if (stats.stamina > maxStamina) stats = stats.withStamina(maxStamina);
+    return stats;
+  }
+
+  private recordThresholds(before: Stats, after: Stats): void {
+    for (const { stat, value } of STAT_THRESHOLDS) {
+      const from = before[stat];
+      const to = after[stat];
+      if (from > value && to <= value) {
+        this.pendingEvents.push({
+          type: 'thresholdCrossed',
+          stat,
+          threshold: value,
+          direction: 'below',
+          value: to,
+        });
+      } else if (from <= value && to > value) {
+        this.pendingEvents.push({
+          type: 'thresholdCrossed',
+          stat,
+          threshold: value,
+          direction: 'above',
+          value: to,
+        });
+      }
+    }
+  }
+
   /**
    * Serialize character for persistence
    */
   toJSON(): Record<string, unknown> {
     return {
+      schemaVersion: Character.SCHEMA_VERSION,
       id: this.id,
       characterClass: this.characterClass,
       name: this.name,
@@ -161,6 +411,8 @@ export class Character {
         temperature: this._stats.temperature,
         stamina: this._stats.stamina,
         maxStamina: this._stats.maxStamina,
+        wetness: this._stats.wetness,
+        energy: this._stats.energy,
       },
       position: {
         x: this._position.x,
@@ -168,41 +420,54 @@ export class Character {
         z: this._position.z,
       },
       isAlive: this._isAlive,
+      statusEffects: this._statusEffects.map((effect) => ({
+        type: effect.type,
+        stacks: effect.stacks,
+        remaining: effect.remaining,
+        sinceTick: effect.sinceTick,
+      })),
     };
   }
 
   /**
-   * Deserialize character from saved data
+   * Deserialize character from saved data.
+   * Data must already be migrated to the current schema version; it is validated
+   * strictly and PayloadValidationError lists every invalid field.
    */
   static fromJSON(data: Record<string, unknown>): Character {
-    const statsData = data['stats'] as Record<string, number>;
-    const posData = data['position'] as Record<string, number>;
-
-    const stats = Stats.create(
-      statsData['health'] ?? 100,
-      statsData['maxHealth'] ?? 100,
-      statsData['hunger'] ?? 100,
-      statsData['maxHunger'] ?? 100,
-      statsData['thirst'] ?? 100,
-      statsData['maxThirst'] ?? 100,
-      statsData['temperature'] ?? 37,
-      statsData['stamina'] ?? 100,
-      statsData['maxStamina'] ?? 100
-    );
+    assertSchemaVersion('Character', data, Character.SCHEMA_VERSION);
+    return Character.fromPayload(parsePayload('character', 'Character', data));
+  }
 
-    const position = Position.create(
-      posData['x'] ?? 0,
-      posData['y'] ?? 0,
-      posData['z'] ?? 0
-    );
+  /**
+   * Build a character from an already validated payload
+   */
+  static fromPayload(payload: ICharacterPayload): Character {
+    const { stats, position } = payload;
 
-    return new Character(
-      data['id'] as EntityId,
-      data['characterClass'] as CharacterClass,
-      data['name'] as string,
-      stats,
-      position,
-      (data['isAlive'] as boolean) ?? true
+    const character = new Character(
+      payload.id,
+      payload.characterClass,
+      payload.name,
+      Stats.create(
+        stats.health,
+        stats.maxHealth,
+        stats.hunger,
+        stats.maxHunger,
+        stats.thirst,
+        stats.maxThirst,
+        stats.temperature,
+        stats.stamina,
+        stats.maxStamina,
+        stats.wetness,
+        stats.energy
+      ),
+      Position.create(position.x, position.y, position.z),
+      payload.isAlive
+    );
+    character._statusEffects = payload.statusEffects.map((effect) =>
+      StatusEffect.restore(effect.type, effect.stacks, effect.remaining, effect.sinceTick)
     );
+    return character;
   }
 }
@@ -0,0 +1,79 @@
+import { Position } from '../value-objects/Position';
+import { DamageCause } from '../events/CharacterEvents';
+import { Inventory } from './Inventory';
+import { ICorpsePayload } from '../validation/WorldPayloads';
+import { parsePayload } from '../validation/PayloadValidator';
+
+/**
+ * What a dead character leaves behind: a container with everything they carried
+ */
+export class Corpse {
+  private constructor(
+    public readonly id: string,
+    public readonly characterName: string,
+    public readonly cause: DamageCause,
+    public readonly position: Position,
+    public readonly inventory: Inventory
+  ) {}
+
+  static create(
+    id: string,
+    characterName: string,
+    cause: DamageCause,
+    position: Position,
+    inventory: Inventory
+  ): Corpse {
+    return new Corpse(id, characterName, cause, position, inventory);
+  }
+
+  /**
+   * Nothing left to loot
+   */
+  isEmpty(): boolean {
+    return this.inventory.getAllItems().length === 0;
+  }
+
+  /**
+   * Distance along the ground to a position
+   */
+  distanceTo(position: Position): number {
+    const dx = position.x - this.position.x;
+    const dz = position.z - this.position.z;
+    return Math.sqrt(dx * dx + dz * dz);
+  }
+
+  /**
+   * Serialize for persistence
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      id: this.id,
+      characterName: this.characterName,
+      cause: this.cause,
+      position: { x: this.position.x, y: this.position.y, z: this.position.z },
+      inventory: this.inventory.toJSON(),
+    };
+  }
+
+  /**
+   * Deserialize a corpse, validated strictly. The nested inventory must already be
+   * migrated to the current schema.
+   */
+  static fromJSON(data: Record<string, unknown>): Corpse {
+    return Corpse.fromPayload(parsePayload('corpse', 'Corpse', data));
+  }
+
+  /**
+   * Build a corpse from an already validated payload
+   */
+  static fromPayload(payload: ICorpsePayload): Corpse {
+    const { x, y, z } = payload.position;
+    return Corpse.create(
+      payload.id,
+      payload.characterName,
+      payload.cause,
+      Position.create(x, y, z),
+      Inventory.fromPayload(payload.inventory)
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { Position } from '../value-objects/Position';
+import { IHeatSourcePayload } from '../validation/WorldPayloads';
+import { parsePayload } from '../validation/PayloadValidator';
+
+/**
+ * Configuration for a placeable heat source
+ */
+export interface IHeatSourceConfig {
+  name: string;
+  radius: number; // Metres the warmth reaches
+  strength: number; // 0-1 heat right beside the source; falls off linearly to 0 at the radius
+}
+
+/**
+ * Items that can be placed in the world as heat sources, by item id
+ */
+export const HEAT_SOURCE_DEFINITIONS: Record<string, IHeatSourceConfig> = {
+  campfire: {
+    name: 'Campfire',
+    radius: 12,
+    strength: 1,
+  },
+};
+
+/**
+ * A heat source placed in the world (campfire, ...)
+ */
+export class HeatSource {
+  private constructor(
+    public readonly id: string,
+    public readonly itemId: string,
+    public readonly config: IHeatSourceConfig,
+    public readonly position: Position
+  ) {}
+
+  /**
+   * Place the heat source an item turns into. Throws for items that give off no heat.
+   */
+  static create(id: string, itemId: string, position: Position): HeatSource {
+    const config = HEAT_SOURCE_DEFINITIONS[itemId];
+    if (!config) {
+      throw new Error(`${itemId} is not a heat source`);
+    }
+    return new HeatSource(id, itemId, config, position);
+  }
+
+  static isHeatSource(itemId: string): boolean {
+    return HEAT_SOURCE_DEFINITIONS[itemId] !== undefined;
+  }
+
+  /**
+   * Heat (0-1) at a position. Distance is measured along the ground.
+   */
+  getHeatAt(position: Position): number {
+    const dx = position.x - this.position.x;
+    const dz = position.z - this.position.z;
+    const distance = Math.sqrt(dx * dx + dz * dz);
+    if (distance >= this.config.radius) return 0;
+    return this.config.strength * (1 - distance / this.config.radius);
+  }
+
+  /**
+   * Serialize for persistence (config is rebuilt from definitions)
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      id: this.id,
+      itemId: this.itemId,
+      position: { x: this.position.x, y: this.position.y, z: this.position.z },
+    };
+  }
+
+  /**
+   * Deserialize from saved data, validated strictly
+   */
+  static fromJSON(data: Record<string, unknown>): HeatSource {
+    return HeatSource.fromPayload(parsePayload('heatSource', 'Heat source', data));
+  }
+
+  /**
+   * Build a heat source from an already validated payload
+   */
+  static fromPayload(payload: IHeatSourcePayload): HeatSource {
+    const { x, y, z } = payload.position;
+    return HeatSource.create(payload.id, payload.itemId, Position.create(x, y, z));
+  }
+}
@@ -1,5 +1,8 @@
 import { Item } from './Item';
 import { EntityId } from './Character';
+import { assertSchemaVersion } from '../value-objects/SchemaVersion';
+import { IInventoryPayload } from '../validation/ItemPayloads';
+import { parsePayload } from '../validation/PayloadValidator';
 
 /**
  * Inventory slot structure
@@ -13,6 +16,11 @@ export interface IInventorySlot {
  * Inventory entity managing character items
  */
 export class Inventory {
+  /**
+   * Version of the toJSON() shape. Bump and register a migration when it changes.
+   */
+  static readonly SCHEMA_VERSION = 2;
+
   private slots: Map<number, Item | null>;
 
   private constructor(
@@ -100,7 +108,7 @@ export class Inventory {
         const spaceInStack = existingItem.maxStack - existingItem.quantity;
         const amountToAdd = Math.min(item.quantity, spaceInStack);
 
-        existingItem.addToStack(amountToAdd);
+        existingItem.addToStack(amountToAdd, item.freshness);
         const remaining = item.quantity - amountToAdd;
 
         if (remaining > 0) {
@@ -150,6 +158,8 @@ export class Inventory {
       effects: item.effects,
       craftingMaterials: item.craftingMaterials,
       quantity: amount,
+      shelfLife: item.shelfLife,
+      freshness: item.freshness,
     });
 
     item.removeFromStack(amount);
@@ -179,7 +189,7 @@ export class Inventory {
       const spaceInStack = toItem.maxStack - toItem.quantity;
       const amountToMove = Math.min(fromItem.quantity, spaceInStack);
 
-      toItem.addToStack(amountToMove);
+      toItem.addToStack(amountToMove, fromItem.freshness);
       fromItem.removeFromStack(amountToMove);
 
       if (fromItem.quantity === 0) {
@@ -194,6 +204,33 @@ export class Inventory {
     return true;
   }
 
+  /**
+   * Move every item into another inventory as far as it has room.
+   * Returns the quantity moved; what does not fit stays here.
+   */
+  transferAllTo(target: Inventory): number {
+    let moved = 0;
+    for (const [slotIndex, item] of this.slots) {
+      if (!item) continue;
+
+      const quantity = item.quantity;
+      this.slots.set(slotIndex, null);
+      const { remainingItem } = target.addItem(item);
+      this.slots.set(slotIndex, remainingItem);
+      moved += quantity - (remainingItem?.quantity ?? 0);
+    }
+    return moved;
+  }
+
+  /**
+   * Age every perishable item by `seconds` at an air temperature
+   */
+  decayItems(seconds: number, temperature: number): void {
+    for (const item of this.slots.values()) {
+      item?.decay(seconds, temperature);
+    }
+  }
+
   /**
    * Find first slot with stackable item
    */
@@ -250,6 +287,7 @@ export class Inventory {
       }));
 
     return {
+      schemaVersion: Inventory.SCHEMA_VERSION,
       id: this.id,
       maxSlots: this.maxSlots,
       maxWeight: this.maxWeight,
@@ -258,21 +296,33 @@ export class Inventory {
   }
 
   /**
-   * Deserialize inventory from saved data
+   * Deserialize inventory from saved data.
+   * Data (including nested items) must already be migrated to the current schema version;
+   * it is validated strictly and PayloadValidationError lists every invalid field.
    */
   static fromJSON(data: Record<string, unknown>): Inventory {
-    const itemsArray = data['items'] as Array<{ slotIndex: number; item: Record<string, unknown> }>;
-    const itemsMap = new Map<number, Item>();
+    assertSchemaVersion('Inventory', data, Inventory.SCHEMA_VERSION);
+    const entries = Array.isArray(data['items'])
+      ? (data['items'] as Array<{ item?: unknown }>)
+      : [];
+    for (const entry of entries) {
+      if (typeof entry?.item === 'object' && entry.item !== null) {
+        assertSchemaVersion('Item', entry.item as Record<string, unknown>, Item.SCHEMA_VERSION);
+      }
+    }
 
-    itemsArray.forEach(({ slotIndex, item }) => {
-      itemsMap.set(slotIndex, Item.fromJSON(item));
+    return Inventory.fromPayload(parsePayload('inventory', 'Inventory', data));
+  }
+
+  /**
+   * Build an inventory from an already validated payload
+   */
+  static fromPayload(payload: IInventoryPayload): Inventory {
+    const itemsMap = new Map<number, Item>();
+    payload.items.forEach(({ slotIndex, item }) => {
+      itemsMap.set(slotIndex, Item.fromPayload(item));
     });
 
-    return new Inventory(
-      data['id'] as EntityId,
-      (data['maxSlots'] as number) ?? 20,
-      (data['maxWeight'] as number) ?? 100,
-      itemsMap
-    );
+    return new Inventory(payload.id, payload.maxSlots, payload.maxWeight, itemsMap);
   }
 }
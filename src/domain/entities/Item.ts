@@ -1,4 +1,8 @@
 import { EntityId } from './Character';
+import { assertSchemaVersion } from '../value-objects/SchemaVersion';
+import { IItemPayload } from '../validation/ItemPayloads';
+import { parsePayload } from '../validation/PayloadValidator';
+import { FRESHNESS_CONFIG } from '@shared/constants/GameConstants';
 
 /**
  * Item types available in the game
@@ -28,15 +32,22 @@ export enum ItemRarity {
 export interface IItemEffect {
   healthRestore?: number;
   hungerRestore?: number;
+  calories?: number; // Food energy in kcal; restores hunger at METABOLISM_CONFIG.CALORIES_PER_HUNGER
   thirstRestore?: number;
   temperatureChange?: number;
   staminaRestore?: number;
+  poisonChance?: number; // 0-1 chance of food poisoning when consumed
 }
 
 /**
  * Item entity representing any collectible object in the game
  */
 export class Item {
+  /**
+   * Version of the toJSON() shape. Bump and register a migration when it changes.
+   */
+  static readonly SCHEMA_VERSION = 3;
+
   private constructor(
     public readonly id: EntityId,
     public readonly name: string,
@@ -50,11 +61,16 @@ export class Item {
     public readonly isConsumable: boolean,
     public readonly effects: IItemEffect | null,
     public readonly craftingMaterials: Map<string, number> | null,
-    private _quantity: number = 1
+    private _quantity: number = 1,
+    public readonly shelfLife: number | null = null, // Seconds until spoiled; null = never spoils
+    private _freshness: number = 1
   ) {
     if (_quantity < 0 || _quantity > maxStack) {
       throw new Error(`Invalid quantity: ${_quantity}. Must be between 0 and ${maxStack}`);
     }
+    if (_freshness < 0 || _freshness > 1) {
+      throw new Error(`Invalid freshness: ${_freshness}. Must be between 0 and 1`);
+    }
   }
 
   static create(params: {
@@ -71,6 +87,8 @@ export class Item {
     effects?: IItemEffect | null;
     craftingMaterials?: Map<string, number> | null;
     quantity?: number;
+    shelfLife?: number | null;
+    freshness?: number;
   }): Item {
     return new Item(
       params.id,
@@ -85,14 +103,72 @@ export class Item {
       params.isConsumable ?? false,
       params.effects ?? null,
       params.craftingMaterials ?? null,
-      params.quantity ?? 1
+      params.quantity ?? 1,
+      params.shelfLife ?? null,
+      params.freshness ?? 1
     );
   }
 
+  /**
+   * How fast food spoils at an air temperature, relative to its shelf life
+   */
+  static getDecayFactor(temperature: number): number {
+    const { REFERENCE_TEMPERATURE, COLD_SLOWDOWN, MIN_DECAY_FACTOR } = FRESHNESS_CONFIG;
+    return Math.max(MIN_DECAY_FACTOR, 1 + (temperature - REFERENCE_TEMPERATURE) * COLD_SLOWDOWN);
+  }
+
   get quantity(): number {
     return this._quantity;
   }
 
+  get freshness(): number {
+    return this._freshness;
+  }
+
+  isPerishable(): boolean {
+    return this.shelfLife !== null;
+  }
+
+  isSpoiled(): boolean {
+    return this.isPerishable() && this._freshness <= FRESHNESS_CONFIG.SPOILED_FRESHNESS;
+  }
+
+  /**
+   * Spoil for `seconds` at an air temperature (colder keeps food longer)
+   */
+  decay(seconds: number, temperature: number): Item {
+    if (this.shelfLife !== null && this._freshness > 0) {
+      const spoiled = (seconds / this.shelfLife) * Item.getDecayFactor(temperature);
+      this._freshness = Math.max(0, this._freshness - spoiled);
+    }
+    return this;
+  }
+
+  /**
+   * Effects when consumed now: stale food restores less hunger (and has fewer calories),
+   * spoiled food may poison
+   */
+  getEffects(): IItemEffect | null {
+    if (!this.effects || !this.isPerishable()) return this.effects;
+
+    const effects = { ...this.effects };
+    const { SPOILED_NUTRITION } = FRESHNESS_CONFIG;
+    const nutrition = SPOILED_NUTRITION + (1 - SPOILED_NUTRITION) * this._freshness;
+    if (effects.hungerRestore) {
+      effects.hungerRestore = Math.round(effects.hungerRestore * nutrition);
+    }
+    if (effects.calories) {
+      effects.calories = Math.round(effects.calories * nutrition);
+    }
+    if (this.isSpoiled()) {
+      effects.poisonChance = Math.max(
+        effects.poisonChance ?? 0,
+        FRESHNESS_CONFIG.SPOILED_POISON_CHANCE
+      );
+    }
+    return effects;
+  }
+
   /**
    * Check if item can be stacked
    */
@@ -108,10 +184,14 @@ export class Item {
   }
 
   /**
-   * Add to stack
+   * Add to stack. Freshness becomes the quantity-weighted average of both parts.
    */
-  addToStack(amount: number): Item {
+  addToStack(amount: number, freshness: number = this._freshness): Item {
     const newQuantity = Math.min(this._quantity + amount, this.maxStack);
+    const added = newQuantity - this._quantity;
+    if (newQuantity > 0) {
+      this._freshness = (this._freshness * this._quantity + freshness * added) / newQuantity;
+    }
     this._quantity = newQuantity;
     return this;
   }
@@ -149,6 +229,8 @@ export class Item {
       effects: this.effects,
       craftingMaterials: this.craftingMaterials,
       quantity: amount,
+      shelfLife: this.shelfLife,
+      freshness: this._freshness,
     });
 
     return { original: this, split: splitItem };
@@ -179,6 +261,7 @@ export class Item {
    */
   toJSON(): Record<string, unknown> {
     return {
+      schemaVersion: Item.SCHEMA_VERSION,
       id: this.id,
       name: this.name,
       description: this.description,
@@ -194,31 +277,29 @@ export class Item {
         ? Array.from(this.craftingMaterials.entries())
         : null,
       quantity: this._quantity,
+      shelfLife: this.shelfLife,
+      freshness: this._freshness,
     };
   }
 
   /**
-   * Deserialize item from saved data
+   * Deserialize item from saved data.
+   * Data must already be migrated to the current schema version; it is validated
+   * strictly and PayloadValidationError lists every invalid field.
    */
   static fromJSON(data: Record<string, unknown>): Item {
-    const craftingMaterials = data['craftingMaterials']
-      ? new Map(data['craftingMaterials'] as Array<[string, number]>)
-      : null;
+    assertSchemaVersion('Item', data, Item.SCHEMA_VERSION);
+    return Item.fromPayload(parsePayload('item', 'Item', data));
+  }
 
+  /**
+   * Build an item from an already validated payload
+   */
+  static fromPayload(payload: IItemPayload): Item {
     return Item.create({
-      id: data['id'] as EntityId,
-      name: data['name'] as string,
-      description: data['description'] as string,
-      type: data['type'] as ItemType,
-      rarity: (data['rarity'] as ItemRarity) ?? ItemRarity.COMMON,
-      maxStack: (data['maxStack'] as number) ?? 1,
-      weight: (data['weight'] as number) ?? 1,
-      modelPath: (data['modelPath'] as string) ?? '',
-      iconPath: (data['iconPath'] as string) ?? '',
-      isConsumable: (data['isConsumable'] as boolean) ?? false,
-      effects: (data['effects'] as IItemEffect) ?? null,
-      craftingMaterials,
-      quantity: (data['quantity'] as number) ?? 1,
+      ...payload,
+      effects: payload.effects ? { ...payload.effects } : null,
+      craftingMaterials: payload.craftingMaterials ? new Map(payload.craftingMaterials) : null,
     });
   }
 }
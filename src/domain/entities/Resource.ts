@@ -1,3 +1,6 @@
+import { IRandomSource, MATH_RANDOM } from '@shared/random/SeededRandom';
+import { IResourceStatePayload } from '../validation/WorldPayloads';
+
 /**
  * Types of gatherable resources in the world
  */
@@ -5,6 +8,8 @@ export enum ResourceType {
   TREE = 'tree',
   ROCK = 'rock',
   BUSH = 'bush',
+  SNOW = 'snow',
+  ICE = 'ice',
 }
 
 /**
@@ -41,11 +46,13 @@ export class Resource {
   private _health: number;
   private _isDepleted: boolean = false;
   private _respawnTimer: number = 0;
+  private random: IRandomSource;
 
-  constructor(id: string, config: IResourceConfig) {
+  constructor(id: string, config: IResourceConfig, random: IRandomSource = MATH_RANDOM) {
     this.id = id;
     this.config = config;
     this._health = config.health;
+    this.random = random;
   }
 
   get health(): number {
@@ -105,18 +112,39 @@ export class Resource {
     this._respawnTimer = 0;
   }
 
+  /**
+   * Serialize runtime state for persistence (config is rebuilt from definitions)
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      id: this.id,
+      health: this._health,
+      isDepleted: this._isDepleted,
+      respawnTimer: this._respawnTimer,
+    };
+  }
+
+  /**
+   * Restore runtime state from a validated save payload
+   */
+  restoreState(state: IResourceStatePayload): void {
+    this._health = state.health ?? this.config.health;
+    this._isDepleted = state.isDepleted;
+    this._respawnTimer = state.respawnTimer;
+  }
+
   private rollDrops(): IResourceDrop[] {
     const drops: IResourceDrop[] = [];
     for (const drop of this.config.drops) {
-      if (Math.random() <= drop.dropChance) {
+      if (this.random.next() <= drop.dropChance) {
         drops.push({
           ...drop,
           // Roll actual quantity within range
           minQuantity: Math.floor(
-            drop.minQuantity + Math.random() * (drop.maxQuantity - drop.minQuantity + 1)
+            drop.minQuantity + this.random.next() * (drop.maxQuantity - drop.minQuantity + 1)
           ),
           maxQuantity: Math.floor(
-            drop.minQuantity + Math.random() * (drop.maxQuantity - drop.minQuantity + 1)
+            drop.minQuantity + this.random.next() * (drop.maxQuantity - drop.minQuantity + 1)
           ),
         });
       }
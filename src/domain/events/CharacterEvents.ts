@@ -0,0 +1,50 @@
+import { FATIGUE_CONFIG, GAME_CONFIG } from '@shared/constants/GameConstants';
+import { StatusEffectType } from '../value-objects/StatusEffectDefinitions';
+
+/**
+ * What hurt a character
+ */
+export enum DamageCause {
+  HYPOTHERMIA = 'hypothermia',
+  STARVATION = 'starvation',
+  DEHYDRATION = 'dehydration',
+  FOOD_POISONING = 'food_poisoning',
+  OTHER = 'other',
+}
+
+export type StatName = 'health' | 'hunger' | 'thirst' | 'temperature' | 'stamina' | 'energy';
+
+/**
+ * A stat level worth announcing when crossed in either direction
+ */
+export interface IStatThreshold {
+  stat: StatName;
+  value: number;
+}
+
+export const STAT_THRESHOLDS: readonly IStatThreshold[] = [
+  { stat: 'health', value: 20 }, // Critical
+  { stat: 'hunger', value: 20 }, // Starving
+  { stat: 'thirst', value: 20 }, // Dehydrated
+  { stat: 'temperature', value: GAME_CONFIG.HYPOTHERMIA_THRESHOLD },
+  { stat: 'temperature', value: GAME_CONFIG.HYPERTHERMIA_THRESHOLD },
+  { stat: 'energy', value: FATIGUE_CONFIG.TIRED_ENERGY },
+];
+
+/**
+ * Things that happened to a character, collected until the application publishes them.
+ * 'below' means the stat fell to or under the threshold, 'above' that it rose past it.
+ * statusEffectApplied is recorded when an effect starts or gains a stack, not on every refresh.
+ */
+export type CharacterEvent =
+  | { type: 'damaged'; amount: number; cause: DamageCause }
+  | { type: 'died'; cause: DamageCause }
+  | {
+      type: 'thresholdCrossed';
+      stat: StatName;
+      threshold: number;
+      direction: 'below' | 'above';
+      value: number;
+    }
+  | { type: 'statusEffectApplied'; effect: StatusEffectType; stacks: number; remaining: number }
+  | { type: 'statusEffectRemoved'; effect: StatusEffectType; reason: 'expired' | 'cured' };
@@ -0,0 +1,218 @@
+import { CharacterClass } from '@shared/constants/GameConstants';
+import { StatusEffectType } from '../value-objects/StatusEffectDefinitions';
+import { Stats } from '../value-objects/Stats';
+import { ValidationContext, anyMissing, fieldPath } from './ValidationContext';
+
+/**
+ * Validated shapes of character payloads (the toJSON() output without schemaVersion)
+ */
+export interface IStatsPayload {
+  health: number;
+  maxHealth: number;
+  hunger: number;
+  maxHunger: number;
+  thirst: number;
+  maxThirst: number;
+  temperature: number;
+  stamina: number;
+  maxStamina: number;
+  wetness: number;
+  energy: number;
+}
+
+export interface IPositionPayload {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface IStatusEffectPayload {
+  type: StatusEffectType;
+  stacks: number;
+  remaining: number;
+  sinceTick: number;
+}
+
+export interface ICharacterPayload {
+  id: string;
+  characterClass: CharacterClass;
+  name: string;
+  stats: IStatsPayload;
+  position: IPositionPayload;
+  isAlive: boolean;
+  statusEffects: IStatusEffectPayload[];
+}
+
+/**
+ * Current/max stat pairs: max must be positive, current is clamped to [0, max]
+ */
+const STAT_PAIRS = [
+  ['health', 'maxHealth'],
+  ['hunger', 'maxHunger'],
+  ['thirst', 'maxThirst'],
+  ['stamina', 'maxStamina'],
+] as const;
+
+const DEFAULT_STAT_MAX = 100;
+const DEFAULT_TEMPERATURE = 37;
+
+export function validateStats(
+  context: ValidationContext,
+  path: string,
+  value: unknown
+): IStatsPayload | null {
+  const data = context.object(path, value);
+  if (!data) return null;
+
+  const stats: Partial<IStatsPayload> = {};
+  let valid = true;
+  for (const [current, max] of STAT_PAIRS) {
+    const maxValue = context.number(fieldPath(path, max), data[max], {
+      optional: true,
+      fallback: DEFAULT_STAT_MAX,
+      min: 1,
+    });
+    const currentValue = context.number(fieldPath(path, current), data[current], {
+      optional: true,
+      fallback: maxValue ?? DEFAULT_STAT_MAX,
+      min: 0,
+      max: maxValue ?? undefined,
+    });
+    if (maxValue === null || currentValue === null) {
+      valid = false;
+      continue;
+    }
+
+    stats[max] = maxValue;
+    stats[current] = currentValue;
+  }
+
+  const temperature = context.number(fieldPath(path, 'temperature'), data['temperature'], {
+    optional: true,
+    fallback: DEFAULT_TEMPERATURE,
+  });
+  const wetness = context.number(fieldPath(path, 'wetness'), data['wetness'], {
+    optional: true,
+    fallback: 0,
+    min: 0,
+    max: Stats.MAX_WETNESS,
+  });
+  const energy = context.number(fieldPath(path, 'energy'), data['energy'], {
+    optional: true,
+    fallback: Stats.MAX_ENERGY,
+    min: 0,
+    max: Stats.MAX_ENERGY,
+  });
+  if (!valid || temperature === null || wetness === null || energy === null) return null;
+
+  return { ...stats, temperature, wetness, energy } as IStatsPayload;
+}
+
+export function validatePosition(
+  context: ValidationContext,
+  path: string,
+  value: unknown
+): IPositionPayload | null {
+  const data = context.object(path, value);
+  if (!data) return null;
+
+  const options = { optional: true, fallback: 0 };
+  const x = context.number(fieldPath(path, 'x'), data['x'], options);
+  const y = context.number(fieldPath(path, 'y'), data['y'], options);
+  const z = context.number(fieldPath(path, 'z'), data['z'], options);
+  if (x === null || y === null || z === null) return null;
+
+  return { x, y, z };
+}
+
+/**
+ * Active effects; unknown or broken entries are dropped in lenient mode
+ */
+function validateStatusEffects(
+  context: ValidationContext,
+  path: string,
+  value: unknown
+): IStatusEffectPayload[] {
+  const entries = context.array(path, value, { optional: true, fallback: [] }) ?? [];
+  const effects: IStatusEffectPayload[] = [];
+
+  entries.forEach((entry, index) => {
+    const entryPath = fieldPath(path, index);
+    const effect = context.element(entryPath, (child) => {
+      const data = child.object(entryPath, entry);
+      if (!data) return null;
+
+      const type = child.enumMember(
+        fieldPath(entryPath, 'type'),
+        data['type'],
+        Object.values(StatusEffectType)
+      );
+      const stacks = child.number(fieldPath(entryPath, 'stacks'), data['stacks'], {
+        optional: true,
+        fallback: 1,
+        min: 1,
+        integer: true,
+      });
+      const remaining = child.number(fieldPath(entryPath, 'remaining'), data['remaining'], {
+        min: 0,
+      });
+      const sinceTick = child.number(fieldPath(entryPath, 'sinceTick'), data['sinceTick'], {
+        optional: true,
+        fallback: 0,
+        min: 0,
+      });
+      if (anyMissing(type, stacks, remaining, sinceTick)) return null;
+      return { type, stacks, remaining, sinceTick } as IStatusEffectPayload;
+    });
+    if (effect) {
+      effects.push(effect);
+    }
+  });
+  return effects;
+}
+
+export function validateCharacter(
+  context: ValidationContext,
+  path: string,
+  value: unknown
+): ICharacterPayload | null {
+  const data = context.object(path, value);
+  if (!data) return null;
+
+  const id = context.string(fieldPath(path, 'id'), data['id']);
+  const name = context.string(fieldPath(path, 'name'), data['name']);
+  const characterClass = context.enumMember(
+    fieldPath(path, 'characterClass'),
+    data['characterClass'],
+    Object.values(CharacterClass),
+    { fallback: CharacterClass.SURVIVOR }
+  );
+  const stats = validateStats(context, fieldPath(path, 'stats'), data['stats']);
+  const position =
+    data['position'] === undefined
+      ? { x: 0, y: 0, z: 0 }
+      : validatePosition(context, fieldPath(path, 'position'), data['position']);
+  const isAlive = context.boolean(fieldPath(path, 'isAlive'), data['isAlive'], {
+    optional: true,
+    fallback: (stats?.health ?? 0) > 0,
+  });
+
+  const statusEffects = validateStatusEffects(
+    context,
+    fieldPath(path, 'statusEffects'),
+    data['statusEffects']
+  );
+
+  if (anyMissing(id, name, characterClass, stats, position, isAlive)) {
+    return null;
+  }
+  return {
+    id,
+    characterClass,
+    name,
+    stats,
+    position,
+    isAlive,
+    statusEffects,
+  } as ICharacterPayload;
+}
@@ -0,0 +1,231 @@
+import { IItemEffect, ItemRarity, ItemType } from '../entities/Item';
+import { ValidationContext, anyMissing, fieldPath } from './ValidationContext';
+
+/**
+ * Validated shapes of item payloads (the toJSON() output without schemaVersion)
+ */
+export interface IItemPayload {
+  id: string;
+  name: string;
+  description: string;
+  type: ItemType;
+  rarity: ItemRarity;
+  maxStack: number;
+  weight: number;
+  modelPath: string;
+  iconPath: string;
+  isConsumable: boolean;
+  effects: IItemEffect | null;
+  craftingMaterials: Array<[string, number]> | null;
+  quantity: number;
+  shelfLife: number | null;
+  freshness: number;
+}
+
+export interface IInventoryPayload {
+  id: string;
+  maxSlots: number;
+  maxWeight: number;
+  items: Array<{ slotIndex: number; item: IItemPayload }>;
+}
+
+const ITEM_EFFECT_KEYS: ReadonlyArray<keyof IItemEffect> = [
+  'healthRestore',
+  'hungerRestore',
+  'calories',
+  'thirstRestore',
+  'temperatureChange',
+  'staminaRestore',
+  'poisonChance',
+];
+
+/**
+ * Effects are a sparse map of known keys to numbers; unknown keys are dropped in lenient mode
+ */
+export function validateItemEffect(
+  context: ValidationContext,
+  path: string,
+  value: unknown
+): IItemEffect | null {
+  const data = context.object(path, value);
+  if (!data) return null;
+
+  const effect: IItemEffect = {};
+  let valid = true;
+  for (const [key, amount] of Object.entries(data)) {
+    const keyPath = fieldPath(path, key);
+    if (!ITEM_EFFECT_KEYS.includes(key as keyof IItemEffect)) {
+      valid = context.repair(keyPath, 'is not a known effect', 'dropped') && valid;
+      continue;
+    }
+    const number = context.number(keyPath, amount);
+    if (number === null) {
+      valid = false;
+      continue;
+    }
+    effect[key as keyof IItemEffect] = number;
+  }
+  return valid ? effect : null;
+}
+
+function validateCraftingMaterials(
+  context: ValidationContext,
+  path: string,
+  value: unknown
+): Array<[string, number]> | null {
+  const entries = context.array(path, value) ?? [];
+  const materials: Array<[string, number]> = [];
+
+  entries.forEach((entry, index) => {
+    const material = context.element(fieldPath(path, index), (child) => {
+      if (!Array.isArray(entry) || entry.length !== 2) {
+        child.error(fieldPath(path, index), 'must be a [materialId, amount] pair');
+        return null;
+      }
+      const id = child.string(fieldPath(fieldPath(path, index), 0), entry[0]);
+      const amount = child.number(fieldPath(fieldPath(path, index), 1), entry[1], {
+        min: 1,
+        integer: true,
+      });
+      return id === null || amount === null ? null : ([id, amount] as [string, number]);
+    });
+    if (material) {
+      materials.push(material);
+    }
+  });
+  return materials;
+}
+
+export function validateItem(
+  context: ValidationContext,
+  path: string,
+  value: unknown
+): IItemPayload | null {
+  const data = context.object(path, value);
+  if (!data) return null;
+
+  const at = (key: string): string => fieldPath(path, key);
+  const id = context.string(at('id'), data['id']);
+  const name = context.string(at('name'), data['name']);
+  const type = context.enumMember(at('type'), data['type'], Object.values(ItemType));
+  const maxStack = context.number(at('maxStack'), data['maxStack'], {
+    optional: true,
+    fallback: 1,
+    min: 1,
+    integer: true,
+  });
+  const quantity = context.number(at('quantity'), data['quantity'], {
+    optional: true,
+    fallback: 1,
+    min: 0,
+    max: maxStack ?? undefined,
+    integer: true,
+  });
+  const shelfLife =
+    data['shelfLife'] === undefined || data['shelfLife'] === null
+      ? null
+      : context.number(at('shelfLife'), data['shelfLife'], { min: 1 });
+  const freshness = context.number(at('freshness'), data['freshness'], {
+    optional: true,
+    fallback: 1,
+    min: 0,
+    max: 1,
+  });
+  const fields = {
+    description: context.string(at('description'), data['description'], {
+      optional: true,
+      fallback: '',
+    }),
+    rarity: context.enumMember(at('rarity'), data['rarity'], Object.values(ItemRarity), {
+      optional: true,
+      fallback: ItemRarity.COMMON,
+    }),
+    weight: context.number(at('weight'), data['weight'], { optional: true, fallback: 1, min: 0 }),
+    modelPath: context.string(at('modelPath'), data['modelPath'], { optional: true, fallback: '' }),
+    iconPath: context.string(at('iconPath'), data['iconPath'], { optional: true, fallback: '' }),
+    isConsumable: context.boolean(at('isConsumable'), data['isConsumable'], {
+      optional: true,
+      fallback: false,
+    }),
+  };
+  const effects =
+    data['effects'] === undefined || data['effects'] === null
+      ? null
+      : validateItemEffect(context, at('effects'), data['effects']);
+  const craftingMaterials =
+    data['craftingMaterials'] === undefined || data['craftingMaterials'] === null
+      ? null
+      : validateCraftingMaterials(context, at('craftingMaterials'), data['craftingMaterials']);
+
+  if (anyMissing(id, name, type, maxStack, quantity, freshness, ...Object.values(fields))) {
+    return null;
+  }
+  return {
+    id,
+    name,
+    type,
+    maxStack,
+    quantity,
+    shelfLife,
+    freshness,
+    effects,
+    craftingMaterials,
+    ...fields,
+  } as IItemPayload;
+}
+
+export function validateInventory(
+  context: ValidationContext,
+  path: string,
+  value: unknown
+): IInventoryPayload | null {
+  const data = context.object(path, value);
+  if (!data) return null;
+
+  const id = context.string(fieldPath(path, 'id'), data['id']);
+  const maxSlots = context.number(fieldPath(path, 'maxSlots'), data['maxSlots'], {
+    optional: true,
+    fallback: 20,
+    min: 1,
+    integer: true,
+  });
+  const maxWeight = context.number(fieldPath(path, 'maxWeight'), data['maxWeight'], {
+    optional: true,
+    fallback: 100,
+    min: 0,
+  });
+  const entries = context.array(fieldPath(path, 'items'), data['items'], { fallback: [] });
+  if (id === null || maxSlots === null || maxWeight === null || entries === null) {
+    return null;
+  }
+
+  const items: IInventoryPayload['items'] = [];
+  const usedSlots = new Set<number>();
+  entries.forEach((entry, index) => {
+    const entryPath = fieldPath(fieldPath(path, 'items'), index);
+    const slot = context.element(entryPath, (child) => {
+      const entryData = child.object(entryPath, entry);
+      if (!entryData) return null;
+
+      const slotIndex = child.number(fieldPath(entryPath, 'slotIndex'), entryData['slotIndex'], {
+        integer: true,
+      });
+      if (slotIndex !== null && (slotIndex < 0 || slotIndex >= maxSlots)) {
+        child.error(fieldPath(entryPath, 'slotIndex'), `must be between 0 and ${maxSlots - 1}`);
+        return null;
+      }
+      if (slotIndex !== null && usedSlots.has(slotIndex)) {
+        child.error(fieldPath(entryPath, 'slotIndex'), `duplicates slot ${slotIndex}`);
+        return null;
+      }
+      const item = validateItem(child, fieldPath(entryPath, 'item'), entryData['item']);
+      return slotIndex === null || item === null ? null : { slotIndex, item };
+    });
+    if (slot) {
+      usedSlots.add(slot.slotIndex);
+      items.push(slot);
+    }
+  });
+
+  return { id, maxSlots, maxWeight, items };
+}
@@ -0,0 +1,124 @@
+import { IItemEffect } from '../entities/Item';
+import {
+  ICharacterPayload,
+  IPositionPayload,
+  IStatsPayload,
+  validateCharacter,
+  validatePosition,
+  validateStats,
+} from './CharacterPayloads';
+import {
+  IInventoryPayload,
+  IItemPayload,
+  validateInventory,
+  validateItem,
+  validateItemEffect,
+} from './ItemPayloads';
+import {
+  IResourceStatePayload,
+  ITimePayload,
+  ICorpsePayload,
+  IHeatSourcePayload,
+  IWeatherPayload,
+  IWorldPayload,
+  validateCorpse,
+  validateHeatSource,
+  validateResourceState,
+  validateTime,
+  validateWeather,
+  validateWorld,
+} from './WorldPayloads';
+import {
+  IValidationIssue,
+  PayloadValidationError,
+  ValidationContext,
+  ValidationMode,
+} from './ValidationContext';
+
+/**
+ * Payload kinds accepted from untrusted sources (saves, imported files, network messages)
+ */
+export interface IPayloadTypes {
+  character: ICharacterPayload;
+  stats: IStatsPayload;
+  position: IPositionPayload;
+  item: IItemPayload;
+  itemEffect: IItemEffect;
+  inventory: IInventoryPayload;
+  time: ITimePayload;
+  weather: IWeatherPayload;
+  resourceState: IResourceStatePayload;
+  heatSource: IHeatSourcePayload;
+  corpse: ICorpsePayload;
+  world: IWorldPayload;
+}
+
+export type PayloadKind = keyof IPayloadTypes;
+
+/**
+ * Outcome of validating a payload. value is null when any error was found;
+ * repairs lists what lenient mode changed to make the payload usable.
+ */
+export interface IValidationResult<T> {
+  value: T | null;
+  errors: IValidationIssue[];
+  repairs: IValidationIssue[];
+}
+
+const VALIDATORS: {
+  [K in PayloadKind]: (
+    context: ValidationContext,
+    path: string,
+    value: unknown
+  ) => IPayloadTypes[K] | null;
+} = {
+  character: validateCharacter,
+  stats: validateStats,
+  position: validatePosition,
+  item: validateItem,
+  itemEffect: validateItemEffect,
+  inventory: validateInventory,
+  time: validateTime,
+  weather: validateWeather,
+  resourceState: validateResourceState,
+  heatSource: validateHeatSource,
+  corpse: validateCorpse,
+  world: validateWorld,
+};
+
+/**
+ * Validate (and in lenient mode, repair) an untrusted payload
+ */
+export function validatePayload<K extends PayloadKind>(
+  kind: K,
+  data: unknown,
+  mode: ValidationMode = 'strict'
+): IValidationResult<IPayloadTypes[K]> {
+  const context = new ValidationContext(mode);
+  const value = VALIDATORS[kind](context, '', data);
+
+  return {
+    value: context.errors.length === 0 ? value : null,
+    errors: context.errors,
+    repairs: context.repairs,
+  };
+}
+
+/**
+ * Validate a payload, throwing PayloadValidationError with every failing field path
+ */
+export function parsePayload<K extends PayloadKind>(
+  kind: K,
+  entity: string,
+  data: unknown,
+  mode: ValidationMode = 'strict'
+): IPayloadTypes[K] {
+  const result = validatePayload(kind, data, mode);
+  if (result.value === null) {
+    throw new PayloadValidationError(
+      entity,
+      result.errors.length > 0 ? result.errors : [{ path: '', message: 'is invalid' }]
+    );
+  }
+  return result.value;
+}
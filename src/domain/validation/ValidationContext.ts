@@ -0,0 +1,213 @@
+/**
+ * strict: any problem is an error.
+ * lenient: clamp out-of-range values, drop unknown enum members and fill
+ * defaults; only structurally unusable data is an error.
+ */
+export type ValidationMode = 'strict' | 'lenient';
+
+/**
+ * A problem found at a field path, e.g. "items[2].item.quantity"
+ */
+export interface IValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Raised when a payload fails validation
+ */
+export class PayloadValidationError extends Error {
+  constructor(
+    public readonly entity: string,
+    public readonly issues: IValidationIssue[]
+  ) {
+    super(
+      `Invalid ${entity} data: ${issues.map((issue) => `${issue.path || '(root)'} ${issue.message}`).join('; ')}`
+    );
+    this.name = 'PayloadValidationError';
+  }
+}
+
+/**
+ * Constraints for a field. Missing optional fields take the fallback silently;
+ * in lenient mode invalid fields are repaired to the fallback.
+ */
+interface IFieldOptions<T> {
+  optional?: boolean;
+  fallback?: T;
+}
+
+interface INumberOptions extends IFieldOptions<number> {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+/**
+ * Join a field path with a key or array index
+ */
+export function fieldPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * True if any field failed validation (validators return null for those)
+ */
+export function anyMissing(...fields: unknown[]): boolean {
+  return fields.some((field) => field === null);
+}
+
+/**
+ * Collects errors and repairs while walking a payload
+ */
+export class ValidationContext {
+  readonly errors: IValidationIssue[] = [];
+  readonly repairs: IValidationIssue[] = [];
+
+  constructor(public readonly mode: ValidationMode) {}
+
+  get isLenient(): boolean {
+    return this.mode === 'lenient';
+  }
+
+  error(path: string, message: string): void {
+    this.errors.push({ path, message });
+  }
+
+  /**
+   * Record a fixable problem. Returns true if it was repaired (lenient mode).
+   */
+  repair(path: string, problem: string, action: string): boolean {
+    if (this.isLenient) {
+      this.repairs.push({ path, message: `${problem}, ${action}` });
+      return true;
+    }
+    this.error(path, problem);
+    return false;
+  }
+
+  /**
+   * Validate a collection element in isolation. In lenient mode an element that
+   * cannot be repaired is dropped instead of failing the whole payload.
+   */
+  element<T>(path: string, validate: (context: ValidationContext) => T | null): T | null {
+    const child = new ValidationContext(this.mode);
+    const result = validate(child);
+    this.repairs.push(...child.repairs);
+
+    if (child.errors.length === 0 && result !== null) {
+      return result;
+    }
+    if (this.isLenient) {
+      const reasons = child.errors.map((issue) => `${issue.path} ${issue.message}`);
+      this.repairs.push({
+        path,
+        message: `dropped${reasons.length ? `: ${reasons.join(', ')}` : ''}`,
+      });
+    } else {
+      this.errors.push(...child.errors);
+    }
+    return null;
+  }
+
+  object(path: string, value: unknown): Record<string, unknown> | null {
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      return value as Record<string, unknown>;
+    }
+    this.error(path, 'must be an object');
+    return null;
+  }
+
+  array(path: string, value: unknown, options: IFieldOptions<unknown[]> = {}): unknown[] | null {
+    if (Array.isArray(value)) {
+      return value as unknown[];
+    }
+    return this.invalid(path, value, 'must be an array', options);
+  }
+
+  number(path: string, value: unknown, options: INumberOptions = {}): number | null {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return this.invalid(path, value, 'must be a finite number', options);
+    }
+
+    let result: number | null = value;
+    if (options.integer && !Number.isInteger(result)) {
+      if (!this.repair(path, 'must be an integer', `rounded ${result}`)) return null;
+      result = Math.round(result);
+    }
+    return this.clamp(path, result, options);
+  }
+
+  string(path: string, value: unknown, options: IFieldOptions<string> = {}): string | null {
+    if (typeof value === 'string') {
+      return value;
+    }
+    return this.invalid(path, value, 'must be a string', options);
+  }
+
+  boolean(path: string, value: unknown, options: IFieldOptions<boolean> = {}): boolean | null {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    return this.invalid(path, value, 'must be a boolean', options);
+  }
+
+  /**
+   * Check an enum member. Unknown members are dropped in lenient mode: the
+   * fallback is used if given, otherwise null is returned for the caller to drop.
+   */
+  enumMember<T extends string>(
+    path: string,
+    value: unknown,
+    members: readonly T[],
+    options: IFieldOptions<T> = {}
+  ): T | null {
+    if (members.includes(value as T)) {
+      return value as T;
+    }
+    if (value === undefined || value === null) {
+      return this.invalid(path, value, 'is required', options);
+    }
+
+    const problem = `has unknown value ${JSON.stringify(value)}`;
+    if (options.fallback !== undefined) {
+      return this.repair(path, problem, `using "${options.fallback}"`) ? options.fallback : null;
+    }
+    this.repair(path, problem, 'dropped');
+    return null;
+  }
+
+  private clamp(path: string, value: number, options: INumberOptions): number | null {
+    if (options.min !== undefined && value < options.min) {
+      return this.repair(path, `must be at least ${options.min}`, `clamped ${value}`)
+        ? options.min
+        : null;
+    }
+    if (options.max !== undefined && value > options.max) {
+      return this.repair(path, `must be at most ${options.max}`, `clamped ${value}`)
+        ? options.max
+        : null;
+    }
+    return value;
+  }
+
+  private invalid<T>(
+    path: string,
+    value: unknown,
+    message: string,
+    options: IFieldOptions<T>
+  ): T | null {
+    const { fallback } = options;
+    if ((value === undefined || value === null) && options.optional && fallback !== undefined) {
+      return fallback;
+    }
+    if (fallback !== undefined) {
+      return this.repair(path, message, `using ${JSON.stringify(fallback)}`) ? fallback : null;
+    }
+    this.error(path, value === undefined ? 'is required' : message);
+    return null;
+  }
+}
@@ -0,0 +1,262 @@
+import { WeatherType } from '@shared/constants/GameConstants';
+import { HEAT_SOURCE_DEFINITIONS } from '../entities/HeatSource';
+import { DamageCause } from '../events/CharacterEvents';
+import { IPositionPayload, validatePosition } from './CharacterPayloads';
+import { IInventoryPayload, validateInventory } from './ItemPayloads';
+import { ValidationContext, anyMissing, fieldPath } from './ValidationContext';
+
+/**
+ * Validated shapes of the world state sections of a save
+ */
+export interface ITimePayload {
+  normalizedTime: number; // 0 = midnight, up to but not including 1
+  day: number;
+}
+
+export interface IWeatherPayload {
+  currentWeather: WeatherType;
+  targetWeather: WeatherType;
+  intensity: number; // 0-1
+  transitionProgress: number; // 0-1
+  timeUntilChange?: number; // Seconds; missing means roll a new duration
+}
+
+export interface IResourceStatePayload {
+  id: string;
+  health?: number; // Missing means full health
+  isDepleted: boolean;
+  respawnTimer: number; // Seconds
+}
+
+export interface IHeatSourcePayload {
+  id: string;
+  itemId: string; // Key of HEAT_SOURCE_DEFINITIONS
+  position: IPositionPayload;
+}
+
+export interface ICorpsePayload {
+  id: string;
+  characterName: string;
+  cause: DamageCause;
+  position: IPositionPayload;
+  inventory: IInventoryPayload; // Already migrated to the current inventory schema
+}
+
+export interface IWorldPayload {
+  resources: IResourceStatePayload[];
+  heatSources: IHeatSourcePayload[];
+  corpses: ICorpsePayload[];
+}
+
+const DEFAULT_TIME = 0.333; // Morning (8 AM)
+
+export function validateTime(
+  context: ValidationContext,
+  path: string,
+  value: unknown
+): ITimePayload | null {
+  const data = context.object(path, value);
+  if (!data) return null;
+
+  const normalizedTime = context.number(fieldPath(path, 'normalizedTime'), data['normalizedTime'], {
+    optional: true,
+    fallback: DEFAULT_TIME,
+    min: 0,
+    max: 1,
+  });
+  const day = context.number(fieldPath(path, 'day'), data['day'], {
+    optional: true,
+    fallback: 1,
+    min: 1,
+    integer: true,
+  });
+  if (normalizedTime === null || day === null) return null;
+
+  // 1 is the next midnight
+  return { normalizedTime: normalizedTime % 1, day };
+}
+
+export function validateWeather(
+  context: ValidationContext,
+  path: string,
+  value: unknown
+): IWeatherPayload | null {
+  const data = context.object(path, value);
+  if (!data) return null;
+
+  const weatherTypes = Object.values(WeatherType);
+  const currentWeather = context.enumMember(
+    fieldPath(path, 'currentWeather'),
+    data['currentWeather'],
+    weatherTypes,
+    { optional: true, fallback: WeatherType.CLEAR }
+  );
+  const targetWeather = context.enumMember(
+    fieldPath(path, 'targetWeather'),
+    data['targetWeather'],
+    weatherTypes,
+    { optional: true, fallback: currentWeather ?? WeatherType.CLEAR }
+  );
+  const fraction = { min: 0, max: 1 };
+  const intensity = context.number(fieldPath(path, 'intensity'), data['intensity'], {
+    ...fraction,
+    optional: true,
+    fallback: 0,
+  });
+  const transitionProgress = context.number(
+    fieldPath(path, 'transitionProgress'),
+    data['transitionProgress'],
+    { ...fraction, optional: true, fallback: 1 }
+  );
+  const timeUntilChange =
+    data['timeUntilChange'] === undefined
+      ? undefined
+      : context.number(fieldPath(path, 'timeUntilChange'), data['timeUntilChange'], {
+          fallback: 0,
+          min: 0,
+        });
+
+  if (anyMissing(currentWeather, targetWeather, intensity, transitionProgress, timeUntilChange)) {
+    return null;
+  }
+  return {
+    currentWeather,
+    targetWeather,
+    intensity,
+    transitionProgress,
+    timeUntilChange,
+  } as IWeatherPayload;
+}
+
+export function validateResourceState(
+  context: ValidationContext,
+  path: string,
+  value: unknown
+): IResourceStatePayload | null {
+  const data = context.object(path, value);
+  if (!data) return null;
+
+  const id = context.string(fieldPath(path, 'id'), data['id']);
+  const health =
+    data['health'] === undefined
+      ? undefined
+      : context.number(fieldPath(path, 'health'), data['health'], { min: 0 });
+  const isDepleted = context.boolean(fieldPath(path, 'isDepleted'), data['isDepleted'], {
+    optional: true,
+    fallback: false,
+  });
+  const respawnTimer = context.number(fieldPath(path, 'respawnTimer'), data['respawnTimer'], {
+    optional: true,
+    fallback: 0,
+    min: 0,
+  });
+
+  if (anyMissing(id, health, isDepleted, respawnTimer)) {
+    return null;
+  }
+  return { id, health, isDepleted, respawnTimer } as IResourceStatePayload;
+}
+
+export function validateHeatSource(
+  context: ValidationContext,
+  path: string,
+  value: unknown
+): IHeatSourcePayload | null {
+  const data = context.object(path, value);
+  if (!data) return null;
+
+  const id = context.string(fieldPath(path, 'id'), data['id']);
+  const itemId = context.enumMember(
+    fieldPath(path, 'itemId'),
+    data['itemId'],
+    Object.keys(HEAT_SOURCE_DEFINITIONS)
+  );
+  const position = validatePosition(context, fieldPath(path, 'position'), data['position']);
+
+  if (anyMissing(id, itemId, position)) {
+    return null;
+  }
+  return { id, itemId, position } as IHeatSourcePayload;
+}
+
+export function validateCorpse(
+  context: ValidationContext,
+  path: string,
+  value: unknown
+): ICorpsePayload | null {
+  const data = context.object(path, value);
+  if (!data) return null;
+
+  const id = context.string(fieldPath(path, 'id'), data['id']);
+  const characterName = context.string(fieldPath(path, 'characterName'), data['characterName']);
+  const cause = context.enumMember(
+    fieldPath(path, 'cause'),
+    data['cause'],
+    Object.values(DamageCause),
+    { fallback: DamageCause.OTHER }
+  );
+  const position = validatePosition(context, fieldPath(path, 'position'), data['position']);
+  const inventory = validateInventory(context, fieldPath(path, 'inventory'), data['inventory']);
+
+  if (anyMissing(id, characterName, cause, position, inventory)) {
+    return null;
+  }
+  return { id, characterName, cause, position, inventory } as ICorpsePayload;
+}
+
+/**
+ * In lenient mode a resource entry that cannot be repaired is dropped, leaving
+ * that resource in its current state; a broken heat source or corpse is dropped from the world.
+ */
+export function validateWorld(
+  context: ValidationContext,
+  path: string,
+  value: unknown
+): IWorldPayload | null {
+  const data = context.object(path, value);
+  if (!data) return null;
+
+  const entries = context.array(fieldPath(path, 'resources'), data['resources'], {
+    fallback: [],
+  });
+  const heatSourceEntries = context.array(fieldPath(path, 'heatSources'), data['heatSources'], {
+    fallback: [],
+  });
+  const corpseEntries = context.array(fieldPath(path, 'corpses'), data['corpses'], {
+    fallback: [],
+  });
+  if (!entries || !heatSourceEntries || !corpseEntries) return null;
+
+  const resources: IResourceStatePayload[] = [];
+  entries.forEach((entry, index) => {
+    const entryPath = fieldPath(fieldPath(path, 'resources'), index);
+    const resource = context.element(entryPath, (child) =>
+      validateResourceState(child, entryPath, entry)
+    );
+    if (resource) {
+      resources.push(resource);
+    }
+  });
+
+  const heatSources: IHeatSourcePayload[] = [];
+  heatSourceEntries.forEach((entry, index) => {
+    const entryPath = fieldPath(fieldPath(path, 'heatSources'), index);
+    const heatSource = context.element(entryPath, (child) =>
+      validateHeatSource(child, entryPath, entry)
+    );
+    if (heatSource) {
+      heatSources.push(heatSource);
+    }
+  });
+
+  const corpses: ICorpsePayload[] = [];
+  corpseEntries.forEach((entry, index) => {
+    const entryPath = fieldPath(fieldPath(path, 'corpses'), index);
+    const corpse = context.element(entryPath, (child) => validateCorpse(child, entryPath, entry));
+    if (corpse) {
+      corpses.push(corpse);
+    }
+  });
+
+  return { resources, heatSources, corpses };
+}
@@ -68,4 +68,63 @@ export const RESOURCE_DEFINITIONS: Record<string, IResourceConfig> = {
     staminaCost: 2,
     respawnTime: 300,
   },
+
+  snow_drift: {
+    type: ResourceType.SNOW,
+    name: 'Snow Drift',
+    health: 2,
+    drops: [
+      {
+        itemId: 'snow',
+        itemName: 'Snow',
+        minQuantity: 2,
+        maxQuantity: 4,
+        dropChance: 1.0,
+      },
+    ],
+    requiredTool: null,
+    gatherTime: 1,
+    staminaCost: 2,
+    respawnTime: 90, // Fresh snow piles up quickly
+  },
+
+  ice_formation: {
+    type: ResourceType.ICE,
+    name: 'Ice Formation',
+    health: 3,
+    drops: [
+      {
+        itemId: 'ice',
+        itemName: 'Ice',
+        minQuantity: 1,
+        maxQuantity: 2,
+        dropChance: 1.0,
+      },
+    ],
+    requiredTool: null,
+    gatherTime: 2,
+    staminaCost: 6,
+    respawnTime: 240,
+  },
 };
+
+/**
+ * One ring of the world layout: `count` resources placed between two radii around the origin
+ */
+export interface IResourceSpawnRing {
+  definitionId: string;
+  count: number;
+  minRadius: number;
+  maxRadius: number;
+}
+
+/**
+ * World layout, in spawn order. Resource ids are `${definitionId}_${index}`.
+ */
+export const RESOURCE_SPAWN_TABLE: readonly IResourceSpawnRing[] = [
+  { definitionId: 'pine_tree', count: 12, minRadius: 20, maxRadius: 35 }, // Outer ring
+  { definitionId: 'rock_formation', count: 8, minRadius: 10, maxRadius: 25 }, // Middle ring
+  { definitionId: 'berry_bush', count: 6, minRadius: 8, maxRadius: 30 }, // Scattered
+  { definitionId: 'snow_drift', count: 8, minRadius: 6, maxRadius: 30 }, // Scattered
+  { definitionId: 'ice_formation', count: 4, minRadius: 25, maxRadius: 38 }, // Far out
+];
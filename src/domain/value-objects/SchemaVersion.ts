@@ -0,0 +1,29 @@
+/**
+ * Schema version assumed for serialized data written before versions were stamped
+ */
+export const LEGACY_SCHEMA_VERSION = 1;
+
+/**
+ * Read the schema version stamped on serialized entity data
+ */
+export function getSchemaVersion(data: Record<string, unknown>): number {
+  const version = data['schemaVersion'];
+  return typeof version === 'number' ? version : LEGACY_SCHEMA_VERSION;
+}
+
+/**
+ * Guard for fromJSON: refuse data that hasn't been migrated to the expected version,
+ * instead of silently filling gaps with defaults.
+ */
+export function assertSchemaVersion(
+  entityName: string,
+  data: Record<string, unknown>,
+  expectedVersion: number
+): void {
+  const version = getSchemaVersion(data);
+  if (version !== expectedVersion) {
+    throw new Error(
+      `${entityName} data is schema v${version}, expected v${expectedVersion}. Run save migrations first.`
+    );
+  }
+}
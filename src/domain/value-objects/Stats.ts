@@ -2,6 +2,9 @@
  * Immutable value object representing survival statistics
  */
 export class Stats {
+  static readonly MAX_WETNESS = 100;
+  static readonly MAX_ENERGY = 100;
+
   private constructor(
     public readonly health: number,
     public readonly maxHealth: number,
@@ -11,7 +14,9 @@ export class Stats {
     public readonly maxThirst: number,
     public readonly temperature: number,
     public readonly stamina: number,
-    public readonly maxStamina: number
+    public readonly maxStamina: number,
+    public readonly wetness: number, // 0 = dry, MAX_WETNESS = soaked through
+    public readonly energy: number // 0 = worn out, MAX_ENERGY = fully rested
   ) {
     this.validateStats();
   }
@@ -29,6 +34,12 @@ export class Stats {
     if (this.stamina < 0 || this.stamina > this.maxStamina) {
       throw new Error('Stamina must be between 0 and maxStamina');
     }
+    if (this.wetness < 0 || this.wetness > Stats.MAX_WETNESS) {
+      throw new Error('Wetness must be between 0 and MAX_WETNESS');
+    }
+    if (this.energy < 0 || this.energy > Stats.MAX_ENERGY) {
+      throw new Error('Energy must be between 0 and MAX_ENERGY');
+    }
   }
 
   static create(
@@ -40,7 +51,9 @@ export class Stats {
     maxThirst: number = 100,
     temperature: number = 37,
     stamina: number = 100,
-    maxStamina: number = 100
+    maxStamina: number = 100,
+    wetness: number = 0,
+    energy: number = Stats.MAX_ENERGY
   ): Stats {
     return new Stats(
       health,
@@ -51,7 +64,9 @@ export class Stats {
       maxThirst,
       temperature,
       stamina,
-      maxStamina
+      maxStamina,
+      wetness,
+      energy
     );
   }
 
@@ -68,7 +83,9 @@ export class Stats {
       this.maxThirst,
       this.temperature,
       this.stamina,
-      this.maxStamina
+      this.maxStamina,
+      this.wetness,
+      this.energy
     );
   }
 
@@ -85,7 +102,9 @@ export class Stats {
       this.maxThirst,
       this.temperature,
       this.stamina,
-      this.maxStamina
+      this.maxStamina,
+      this.wetness,
+      this.energy
     );
   }
 
@@ -102,7 +121,9 @@ export class Stats {
       this.maxThirst,
       this.temperature,
       this.stamina,
-      this.maxStamina
+      this.maxStamina,
+      this.wetness,
+      this.energy
     );
   }
 
@@ -119,7 +140,9 @@ export class Stats {
       this.maxThirst,
       temperature,
       this.stamina,
-      this.maxStamina
+      this.maxStamina,
+      this.wetness,
+      this.energy
     );
   }
 
@@ -136,7 +159,47 @@ export class Stats {
       this.maxThirst,
       this.temperature,
       Math.max(0, Math.min(stamina, this.maxStamina)),
-      this.maxStamina
+      this.maxStamina,
+      this.wetness,
+      this.energy
+    );
+  }
+
+  /**
+   * Returns a new Stats instance with updated wetness
+   */
+  withWetness(wetness: number): Stats {
+    return new Stats(
+      this.health,
+      this.maxHealth,
+      this.hunger,
+      this.maxHunger,
+      this.thirst,
+      this.maxThirst,
+      this.temperature,
+      this.stamina,
+      this.maxStamina,
+      Math.max(0, Math.min(wetness, Stats.MAX_WETNESS)),
+      this.energy
+    );
+  }
+
+  /**
+   * Returns a new Stats instance with updated energy
+   */
+  withEnergy(energy: number): Stats {
+    return new Stats(
+      this.health,
+      this.maxHealth,
+      this.hunger,
+      this.maxHunger,
+      this.thirst,
+      this.maxThirst,
+      this.temperature,
+      this.stamina,
+      this.maxStamina,
+      this.wetness,
+      Math.max(0, Math.min(energy, Stats.MAX_ENERGY))
     );
   }
 
@@ -0,0 +1,119 @@
+import {
+  IStatusEffectDefinition,
+  STATUS_EFFECT_DEFINITIONS,
+  StatusEffectStacking,
+  StatusEffectType,
+  StatusModifier,
+} from './StatusEffectDefinitions';
+
+/**
+ * Result of advancing an effect in time
+ */
+export interface IStatusEffectAdvance {
+  effect: StatusEffect;
+  ticks: number; // Periodic ticks that fell due during the step
+}
+
+/**
+ * An active status effect on a character.
+ * Immutable value object - re-applying or advancing returns a new instance
+ */
+export class StatusEffect {
+  private constructor(
+    public readonly type: StatusEffectType,
+    public readonly stacks: number,
+    public readonly remaining: number, // Seconds left
+    public readonly sinceTick: number // Seconds since the last periodic tick
+  ) {}
+
+  /**
+   * A fresh single-stack effect
+   */
+  static create(type: StatusEffectType, duration?: number): StatusEffect {
+    return new StatusEffect(type, 1, duration ?? STATUS_EFFECT_DEFINITIONS[type].duration, 0);
+  }
+
+  /**
+   * Rebuild a saved effect, clamping stacks to the definition
+   */
+  static restore(
+    type: StatusEffectType,
+    stacks: number,
+    remaining: number,
+    sinceTick: number = 0
+  ): StatusEffect {
+    const maxStacks = STATUS_EFFECT_DEFINITIONS[type].maxStacks;
+    return new StatusEffect(
+      type,
+      Math.max(1, Math.min(Math.floor(stacks), maxStacks)),
+      Math.max(0, remaining),
+      Math.max(0, sinceTick)
+    );
+  }
+
+  get definition(): IStatusEffectDefinition {
+    return STATUS_EFFECT_DEFINITIONS[this.type];
+  }
+
+  get isExpired(): boolean {
+    return this.remaining <= 0;
+  }
+
+  /**
+   * Apply the effect again, following its stacking rule
+   */
+  reapply(duration?: number): StatusEffect {
+    const { stacking, maxStacks } = this.definition;
+    const added = duration ?? this.definition.duration;
+
+    switch (stacking) {
+      case StatusEffectStacking.REFRESH:
+        return new StatusEffect(
+          this.type,
+          this.stacks,
+          Math.max(this.remaining, added),
+          this.sinceTick
+        );
+      case StatusEffectStacking.STACK:
+        return new StatusEffect(
+          this.type,
+          Math.min(this.stacks + 1, maxStacks),
+          Math.max(this.remaining, added),
+          this.sinceTick
+        );
+      case StatusEffectStacking.EXTEND:
+        return new StatusEffect(
+          this.type,
+          this.stacks,
+          Math.min(this.remaining + added, this.definition.duration * maxStacks),
+          this.sinceTick
+        );
+    }
+  }
+
+  /**
+   * Count down the duration and count the periodic ticks that fell due
+   */
+  advance(deltaTime: number): IStatusEffectAdvance {
+    const elapsed = Math.min(deltaTime, this.remaining);
+    const interval = this.definition.tickInterval;
+    let sinceTick = this.sinceTick + elapsed;
+    let ticks = 0;
+    if (interval && interval > 0) {
+      ticks = Math.floor(sinceTick / interval);
+      sinceTick -= ticks * interval;
+    }
+
+    return {
+      effect: new StatusEffect(this.type, this.stacks, this.remaining - elapsed, sinceTick),
+      ticks,
+    };
+  }
+
+  /**
+   * The effect's multiplier for a modifier, compounded per stack
+   */
+  getModifier(modifier: StatusModifier): number {
+    return (this.definition.modifiers[modifier] ?? 1) ** this.stacks;
+  }
+}
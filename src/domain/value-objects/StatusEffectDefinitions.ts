@@ -0,0 +1,135 @@
+import { DamageCause } from '../events/CharacterEvents';
+
+/**
+ * Conditions a character can be under
+ */
+export enum StatusEffectType {
+  HYPOTHERMIA = 'hypothermia',
+  FROSTBITE = 'frostbite',
+  FOOD_POISONING = 'food_poisoning',
+  WELL_FED = 'well_fed',
+  WARMED_UP = 'warmed_up',
+  EXHAUSTED = 'exhausted',
+}
+
+/**
+ * What re-applying an active effect does
+ */
+export enum StatusEffectStacking {
+  REFRESH = 'refresh', // Reset the duration
+  STACK = 'stack', // Add a stack (up to maxStacks) and reset the duration
+  EXTEND = 'extend', // Add the duration, up to duration * maxStacks
+}
+
+/**
+ * Multipliers an effect applies to survival rates and stat maxima (1 = unchanged).
+ * Stacks multiply: two stacks of 0.9 give 0.81.
+ */
+export interface IStatusModifiers {
+  staminaRegen?: number;
+  hungerDepletion?: number;
+  thirstDepletion?: number;
+  cooling?: number; // Body heat lost toward colder air
+  maxHealth?: number;
+  maxStamina?: number;
+}
+
+export type StatusModifier = keyof IStatusModifiers;
+
+/**
+ * Stat changes applied every tickInterval seconds, per stack
+ */
+export interface IStatusEffectTick {
+  health?: number;
+  hunger?: number;
+  thirst?: number;
+  stamina?: number;
+  temperature?: number;
+}
+
+export interface IStatusEffectDefinition {
+  name: string;
+  icon: string;
+  description: string;
+  harmful: boolean;
+  duration: number; // Seconds per application
+  stacking: StatusEffectStacking;
+  maxStacks: number;
+  modifiers: IStatusModifiers;
+  tickInterval?: number; // Seconds between periodic ticks
+  tick?: IStatusEffectTick;
+  damageCause?: DamageCause; // Reported for health lost to ticks
+}
+
+/**
+ * Every status effect in the game.
+ * Threshold-driven effects (hypothermia, exhaustion) are re-applied while their
+ * condition holds, so their duration is how long they linger afterwards.
+ */
+export const STATUS_EFFECT_DEFINITIONS: Record<StatusEffectType, IStatusEffectDefinition> = {
+  [StatusEffectType.HYPOTHERMIA]: {
+    name: 'Hypothermia',
+    icon: '🥶',
+    description: 'Body temperature is dangerously low. Stamina recovers slowly.',
+    harmful: true,
+    duration: 5,
+    stacking: StatusEffectStacking.REFRESH,
+    maxStacks: 1,
+    modifiers: { staminaRegen: 0.75, maxStamina: 0.8 },
+  },
+  [StatusEffectType.FROSTBITE]: {
+    name: 'Frostbite',
+    icon: '🧊',
+    description: 'Prolonged hypothermia. Each stack lowers maximum health by 10%.',
+    harmful: true,
+    duration: 300,
+    stacking: StatusEffectStacking.STACK,
+    maxStacks: 3,
+    modifiers: { maxHealth: 0.9 },
+  },
+  [StatusEffectType.FOOD_POISONING]: {
+    name: 'Food Poisoning',
+    icon: '🤢',
+    description: 'Losing health and water, and hungry sooner.',
+    harmful: true,
+    duration: 60,
+    stacking: StatusEffectStacking.STACK,
+    maxStacks: 3,
+    modifiers: { hungerDepletion: 1.5 },
+    tickInterval: 5,
+    tick: { health: -1, thirst: -2 },
+    damageCause: DamageCause.FOOD_POISONING,
+  },
+  [StatusEffectType.WELL_FED]: {
+    name: 'Well Fed',
+    icon: '🍖',
+    description: 'Slowly regaining health. Stamina recovers faster.',
+    harmful: false,
+    duration: 180,
+    stacking: StatusEffectStacking.REFRESH,
+    maxStacks: 1,
+    modifiers: { staminaRegen: 1.25 },
+    tickInterval: 10,
+    tick: { health: 1 },
+  },
+  [StatusEffectType.WARMED_UP]: {
+    name: 'Warmed Up',
+    icon: '🔥',
+    description: 'Losing body heat at half the usual rate.',
+    harmful: false,
+    duration: 120,
+    stacking: StatusEffectStacking.EXTEND,
+    maxStacks: 3,
+    modifiers: { cooling: 0.5 },
+  },
+  [StatusEffectType.EXHAUSTED]: {
+    name: 'Exhausted',
+    icon: '😫',
+    description: 'Out of breath. Stamina recovers at half the usual rate.',
+    harmful: true,
+    duration: 20,
+    stacking: StatusEffectStacking.REFRESH,
+    maxStacks: 1,
+    modifiers: { staminaRegen: 0.5 },
+  },
+};
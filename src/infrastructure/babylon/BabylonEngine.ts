@@ -85,6 +85,23 @@ export class BabylonEngine {
     });
   }
 
+  /**
+   * Capture a downscaled JPEG of the last rendered frame as a data URL.
+   * Relies on preserveDrawingBuffer so the canvas still holds the frame.
+   */
+  captureThumbnail(width: number, height: number): string | null {
+    if (!this.canvas) return null;
+
+    const thumbnail = document.createElement('canvas');
+    thumbnail.width = width;
+    thumbnail.height = height;
+    const context = thumbnail.getContext('2d');
+    if (!context) return null;
+
+    context.drawImage(this.canvas, 0, 0, width, height);
+    return thumbnail.toDataURL('image/jpeg', 0.7);
+  }
+
   /**
    * Get the current engine instance
    */
@@ -0,0 +1,98 @@
+import {
+  Scene,
+  MeshBuilder,
+  StandardMaterial,
+  Color3,
+  Vector3,
+  AbstractMesh,
+} from '@babylonjs/core';
+import {
+  CorpseCreatedEvent,
+  CorpseLootedEvent,
+  EventBus,
+  GameEventType,
+} from '@application/events/EventBus';
+import { Corpse } from '@domain/entities/Corpse';
+
+const MARKER_HEIGHT = 30;
+
+/**
+ * Draws corpses: a body on the ground under a tall translucent marker beam that can be
+ * seen from across the map. Adds a visual on CORPSE_CREATED, removes it once looted empty.
+ */
+export class CorpseRenderer {
+  private scene: Scene;
+  private visuals = new Map<string, AbstractMesh[]>();
+  private bodyMaterial: StandardMaterial;
+  private markerMaterial: StandardMaterial;
+
+  constructor(scene: Scene, eventBus: EventBus) {
+    this.scene = scene;
+
+    this.bodyMaterial = new StandardMaterial('corpseBodyMat', scene);
+    this.bodyMaterial.diffuseColor = new Color3(0.25, 0.22, 0.2);
+    this.markerMaterial = new StandardMaterial('corpseMarkerMat', scene);
+    this.markerMaterial.emissiveColor = new Color3(1, 0.2, 0.2);
+    this.markerMaterial.disableLighting = true;
+    this.markerMaterial.alpha = 0.35;
+
+    eventBus.subscribe<CorpseCreatedEvent>(GameEventType.CORPSE_CREATED, (event) => {
+      const { x, z } = event.position;
+      this.add(event.corpseId, new Vector3(x, 0, z));
+    });
+    eventBus.subscribe<CorpseLootedEvent>(GameEventType.CORPSE_LOOTED, (event) => {
+      if (event.isEmpty) this.remove(event.corpseId);
+    });
+  }
+
+  /**
+   * Match the drawn corpses to a list, e.g. after loading a save
+   */
+  sync(corpses: readonly Corpse[]): void {
+    this.clear();
+    for (const corpse of corpses) {
+      const { x, z } = corpse.position;
+      this.add(corpse.id, new Vector3(x, 0, z));
+    }
+  }
+
+  private add(id: string, position: Vector3): void {
+    if (this.visuals.has(id)) return;
+
+    const body = MeshBuilder.CreateBox(
+      `${id}_body`,
+      { width: 0.6, height: 0.3, depth: 1.6 },
+      this.scene
+    );
+    body.position = position.add(new Vector3(0, 0.15, 0));
+    body.material = this.bodyMaterial;
+
+    const marker = MeshBuilder.CreateCylinder(
+      `${id}_marker`,
+      { height: MARKER_HEIGHT, diameter: 0.3, tessellation: 8 },
+      this.scene
+    );
+    marker.position = position.add(new Vector3(0, MARKER_HEIGHT / 2, 0));
+    marker.material = this.markerMaterial;
+    marker.isPickable = false;
+
+    this.visuals.set(id, [body, marker]);
+  }
+
+  private remove(id: string): void {
+    this.visuals.get(id)?.forEach((mesh) => mesh.dispose());
+    this.visuals.delete(id);
+  }
+
+  private clear(): void {
+    for (const id of [...this.visuals.keys()]) {
+      this.remove(id);
+    }
+  }
+
+  dispose(): void {
+    this.clear();
+    this.bodyMaterial.dispose();
+    this.markerMaterial.dispose();
+  }
+}
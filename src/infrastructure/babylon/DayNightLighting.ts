@@ -1,5 +1,4 @@
 import { Scene, DirectionalLight, HemisphericLight, Color3, Vector3 } from '@babylonjs/core';
-import { EventBus, GameEventType, TimeChangedEvent } from '@application/events/EventBus';
 
 interface ColorSet {
   sky: Color3;
@@ -36,16 +35,25 @@ const DUSK: ColorSet = {
   ambientIntensity: 0.4,
 };
 
+interface IBlend {
+  fromColors: ColorSet;
+  toColors: ColorSet;
+  blend: number;
+}
+
 /**
  * Manages Babylon.js scene lighting to reflect the day/night cycle.
- * Subscribes to TIME_CHANGED events from EventBus.
+ * Pulls the time each frame through update() and writes into the existing
+ * light colours and direction, so a frame allocates nothing.
  */
 export class DayNightLighting {
   private scene: Scene;
   private sunLight: DirectionalLight;
   private ambientLight: HemisphericLight;
+  private blended: IBlend = { fromColors: NIGHT, toColors: NIGHT, blend: 0 };
+  private litTime: number = -1; // Normalized time the lights were last computed for
 
-  constructor(scene: Scene, sunLight: DirectionalLight, eventBus: EventBus) {
+  constructor(scene: Scene, sunLight: DirectionalLight) {
     this.scene = scene;
     this.sunLight = sunLight;
 
@@ -56,23 +64,25 @@ export class DayNightLighting {
       this.ambientLight = new HemisphericLight('ambientLight', new Vector3(0, 1, 0), scene);
       this.ambientLight.intensity = 0.7;
     }
-
-    eventBus.subscribe<TimeChangedEvent>(GameEventType.TIME_CHANGED, (event) => {
-      this.updateLighting(event.normalizedTime);
-    });
   }
 
-  private updateLighting(normalizedTime: number): void {
+  /**
+   * Light the scene for a normalized time (call each frame). Skipped while the time stands still.
+   */
+  update(normalizedTime: number): void {
+    if (normalizedTime === this.litTime) return;
+    this.litTime = normalizedTime;
+
     const { fromColors, toColors, blend } = this.getBlendedColors(normalizedTime);
 
-    // Interpolate sky color
-    const skyColor = Color3.Lerp(fromColors.sky, toColors.sky, blend);
-    this.scene.clearColor.r = skyColor.r;
-    this.scene.clearColor.g = skyColor.g;
-    this.scene.clearColor.b = skyColor.b;
+    // Interpolate sky color (clearColor is a Color4, so copy channel by channel)
+    const clearColor = this.scene.clearColor;
+    clearColor.r = fromColors.sky.r + (toColors.sky.r - fromColors.sky.r) * blend;
+    clearColor.g = fromColors.sky.g + (toColors.sky.g - fromColors.sky.g) * blend;
+    clearColor.b = fromColors.sky.b + (toColors.sky.b - fromColors.sky.b) * blend;
 
     // Interpolate ambient color
-    this.ambientLight.diffuse = Color3.Lerp(fromColors.ambient, toColors.ambient, blend);
+    Color3.LerpToRef(fromColors.ambient, toColors.ambient, blend, this.ambientLight.diffuse);
     this.ambientLight.intensity =
       fromColors.ambientIntensity + (toColors.ambientIntensity - fromColors.ambientIntensity) * blend;
 
@@ -82,39 +92,45 @@ export class DayNightLighting {
 
     // Rotate sun direction based on time
     const sunAngle = normalizedTime * Math.PI * 2;
-    this.sunLight.direction = new Vector3(
+    this.sunLight.direction.set(
       Math.cos(sunAngle),
       -Math.abs(Math.sin(sunAngle)) - 0.3,
       Math.sin(sunAngle) * 0.5
     );
 
     // Sun color
-    this.sunLight.diffuse = Color3.Lerp(fromColors.ambient, toColors.ambient, blend);
+    this.sunLight.diffuse.copyFrom(this.ambientLight.diffuse);
   }
 
-  private getBlendedColors(t: number): {
-    fromColors: ColorSet;
-    toColors: ColorSet;
-    blend: number;
-  } {
+  /**
+   * Fill the shared blend for a normalized time
+   */
+  private getBlendedColors(t: number): IBlend {
     if (t < 0.25) {
-      return { fromColors: NIGHT, toColors: NIGHT, blend: 0 };
+      return this.setBlend(NIGHT, NIGHT, 0);
     } else if (t < 0.333) {
       const blend = (t - 0.25) / (0.333 - 0.25);
       if (blend < 0.5) {
-        return { fromColors: NIGHT, toColors: DAWN, blend: blend * 2 };
+        return this.setBlend(NIGHT, DAWN, blend * 2);
       }
-      return { fromColors: DAWN, toColors: DAY, blend: (blend - 0.5) * 2 };
+      return this.setBlend(DAWN, DAY, (blend - 0.5) * 2);
     } else if (t < 0.75) {
-      return { fromColors: DAY, toColors: DAY, blend: 0 };
+      return this.setBlend(DAY, DAY, 0);
     } else if (t < 0.833) {
       const blend = (t - 0.75) / (0.833 - 0.75);
       if (blend < 0.5) {
-        return { fromColors: DAY, toColors: DUSK, blend: blend * 2 };
+        return this.setBlend(DAY, DUSK, blend * 2);
       }
-      return { fromColors: DUSK, toColors: NIGHT, blend: (blend - 0.5) * 2 };
+      return this.setBlend(DUSK, NIGHT, (blend - 0.5) * 2);
     } else {
-      return { fromColors: NIGHT, toColors: NIGHT, blend: 0 };
+      return this.setBlend(NIGHT, NIGHT, 0);
     }
   }
+
+  private setBlend(fromColors: ColorSet, toColors: ColorSet, blend: number): IBlend {
+    this.blended.fromColors = fromColors;
+    this.blended.toColors = toColors;
+    this.blended.blend = blend;
+    return this.blended;
+  }
 }
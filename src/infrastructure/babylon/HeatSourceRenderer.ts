@@ -0,0 +1,100 @@
+import {
+  Scene,
+  MeshBuilder,
+  StandardMaterial,
+  Color3,
+  Vector3,
+  AbstractMesh,
+  PointLight,
+} from '@babylonjs/core';
+import { EventBus, GameEventType, HeatSourcePlacedEvent } from '@application/events/EventBus';
+import { HeatSource } from '@domain/entities/HeatSource';
+
+interface IHeatSourceVisual {
+  meshes: AbstractMesh[];
+  light: PointLight;
+}
+
+/**
+ * Draws placed heat sources: a log pile with a flame and a warm point light
+ * reaching as far as the source's warmth. Adds a visual on HEAT_SOURCE_PLACED.
+ */
+export class HeatSourceRenderer {
+  private scene: Scene;
+  private visuals = new Map<string, IHeatSourceVisual>();
+  private logMaterial: StandardMaterial;
+  private flameMaterial: StandardMaterial;
+
+  constructor(scene: Scene, eventBus: EventBus) {
+    this.scene = scene;
+
+    this.logMaterial = new StandardMaterial('heatSourceLogMat', scene);
+    this.logMaterial.diffuseColor = new Color3(0.35, 0.2, 0.1);
+    this.flameMaterial = new StandardMaterial('heatSourceFlameMat', scene);
+    this.flameMaterial.emissiveColor = new Color3(1, 0.5, 0.1);
+    this.flameMaterial.disableLighting = true;
+
+    eventBus.subscribe<HeatSourcePlacedEvent>(GameEventType.HEAT_SOURCE_PLACED, (event) => {
+      const { x, z } = event.position;
+      this.add(event.sourceId, new Vector3(x, 0, z), event.radius);
+    });
+  }
+
+  /**
+   * Match the drawn sources to a list, e.g. after loading a save
+   */
+  sync(sources: readonly HeatSource[]): void {
+    this.clear();
+    for (const source of sources) {
+      const { x, z } = source.position;
+      this.add(source.id, new Vector3(x, 0, z), source.config.radius);
+    }
+  }
+
+  private add(id: string, position: Vector3, radius: number): void {
+    if (this.visuals.has(id)) return;
+
+    const meshes: AbstractMesh[] = [];
+    for (let i = 0; i < 2; i++) {
+      const log = MeshBuilder.CreateCylinder(
+        `${id}_log${i}`,
+        { height: 1.2, diameter: 0.2 },
+        this.scene
+      );
+      log.position = position.add(new Vector3(0, 0.1, 0));
+      log.rotation.set(Math.PI / 2, (i * Math.PI) / 2, 0);
+      log.material = this.logMaterial;
+      meshes.push(log);
+    }
+
+    const flame = MeshBuilder.CreateCylinder(
+      `${id}_flame`,
+      { height: 0.8, diameterTop: 0, diameterBottom: 0.5, tessellation: 8 },
+      this.scene
+    );
+    flame.position = position.add(new Vector3(0, 0.5, 0));
+    flame.material = this.flameMaterial;
+    meshes.push(flame);
+
+    const light = new PointLight(`${id}_light`, position.add(new Vector3(0, 1, 0)), this.scene);
+    light.diffuse = new Color3(1, 0.6, 0.3);
+    light.range = radius;
+    light.intensity = 0.8;
+
+    this.visuals.set(id, { meshes, light });
+  }
+
+  private clear(): void {
+    for (const visual of this.visuals.values()) {
+      visual.meshes.forEach((mesh) => mesh.dispose());
+      visual.light.dispose();
+    }
+    this.visuals.clear();
+  }
+
+  dispose(): void {
+    this.clear();
+    this.logMaterial.dispose();
+    this.flameMaterial.dispose();
+  }
+}
@@ -1,54 +1,26 @@
 import { Scene } from '@babylonjs/core';
+import { IInputState, createIdleInput } from '@application/simulation/PlayerInput';
 
-/**
- * Input state for keyboard and mouse
- */
-export interface IInputState {
-  // Movement keys
-  forward: boolean;
-  backward: boolean;
-  left: boolean;
-  right: boolean;
-
-  // Actions
-  jump: boolean;
-  sprint: boolean;
-  interact: boolean;
-
-  // Mouse
-  mouseX: number;
-  mouseY: number;
-  mouseLeftClick: boolean;
-  mouseRightClick: boolean;
-}
+export type { IInputState };
 
 /**
  * Manages keyboard and mouse input with edge detection.
  * Provides wasKeyJustPressed() for toggle-style keys (C, I, Tab).
+ * During a replay a recorded playback state stands in for the live gameplay input.
  */
 export class InputManager {
   private inputState: IInputState;
+  private playbackState: IInputState | null = null;
   private scene: Scene;
   private keyMap: Map<string, boolean>;
   private previousKeyMap: Map<string, boolean>;
+  private capturedKeys: Set<string> = new Set();
 
   constructor(scene: Scene) {
     this.scene = scene;
     this.keyMap = new Map();
     this.previousKeyMap = new Map();
-    this.inputState = {
-      forward: false,
-      backward: false,
-      left: false,
-      right: false,
-      jump: false,
-      sprint: false,
-      interact: false,
-      mouseX: 0,
-      mouseY: 0,
-      mouseLeftClick: false,
-      mouseRightClick: false,
-    };
+    this.inputState = createIdleInput();
 
     this.initializeListeners();
   }
@@ -62,6 +34,10 @@ export class InputManager {
       const key = kbInfo.event.key.toLowerCase();
       const isPressed = kbInfo.type === 1; // 1 = KEYDOWN, 2 = KEYUP
 
+      if (this.capturedKeys.has(key)) {
+        kbInfo.event.preventDefault();
+      }
+
       this.keyMap.set(key, isPressed);
       this.updateInputState();
     });
@@ -91,6 +67,15 @@ export class InputManager {
     });
   }
 
+  /**
+   * Stop the browser's default action for game hotkeys (e.g. F5 reload)
+   */
+  captureKeys(...keys: string[]): void {
+    for (const key of keys) {
+      this.capturedKeys.add(key.toLowerCase());
+    }
+  }
+
   /**
    * Update input state based on key map
    */
@@ -134,72 +119,68 @@ export class InputManager {
   }
 
   /**
-   * Get current input state
+   * Get current input state (the playback state while a replay is running)
    */
   getInputState(): Readonly<IInputState> {
-    return { ...this.inputState };
+    return { ...this.activeState() };
+  }
+
+  /**
+   * Drive gameplay input from a recording; null returns control to the keyboard and mouse
+   */
+  setPlaybackState(state: IInputState | null): void {
+    this.playbackState = state ? { ...state } : null;
   }
 
   isMovingForward(): boolean {
-    return this.inputState.forward;
+    return this.activeState().forward;
   }
 
   isMovingBackward(): boolean {
-    return this.inputState.backward;
+    return this.activeState().backward;
   }
 
   isMovingLeft(): boolean {
-    return this.inputState.left;
+    return this.activeState().left;
   }
 
   isMovingRight(): boolean {
-    return this.inputState.right;
+    return this.activeState().right;
   }
 
   isJumping(): boolean {
-    return this.inputState.jump;
+    return this.activeState().jump;
   }
 
   isSprinting(): boolean {
-    return this.inputState.sprint;
+    return this.activeState().sprint;
   }
 
   isInteracting(): boolean {
-    return this.inputState.interact;
+    return this.activeState().interact;
   }
 
   isMoving(): boolean {
-    return (
-      this.inputState.forward ||
-      this.inputState.backward ||
-      this.inputState.left ||
-      this.inputState.right
-    );
+    const state = this.activeState();
+    return state.forward || state.backward || state.left || state.right;
   }
 
   getMousePosition(): { x: number; y: number } {
+    const state = this.activeState();
     return {
-      x: this.inputState.mouseX,
-      y: this.inputState.mouseY,
+      x: state.mouseX,
+      y: state.mouseY,
     };
   }
 
   reset(): void {
     this.keyMap.clear();
     this.previousKeyMap.clear();
-    this.inputState = {
-      forward: false,
-      backward: false,
-      left: false,
-      right: false,
-      jump: false,
-      sprint: false,
-      interact: false,
-      mouseX: 0,
-      mouseY: 0,
-      mouseLeftClick: false,
-      mouseRightClick: false,
-    };
+    this.inputState = createIdleInput();
+  }
+
+  private activeState(): IInputState {
+    return this.playbackState ?? this.inputState;
   }
 
   dispose(): void {
@@ -9,7 +9,12 @@ import {
   Mesh,
 } from '@babylonjs/core';
 import { Resource, ResourceType } from '@domain/entities/Resource';
-import { RESOURCE_DEFINITIONS } from '@domain/value-objects/ResourceDefinitions';
+import {
+  RESOURCE_DEFINITIONS,
+  RESOURCE_SPAWN_TABLE,
+} from '@domain/value-objects/ResourceDefinitions';
+import { IResourceRegistry } from '@application/simulation/ResourceRegistry';
+import { IRandomSource, MATH_RANDOM } from '@shared/random/SeededRandom';
 
 interface ResourceInstance {
   resource: Resource;
@@ -19,29 +24,35 @@ interface ResourceInstance {
 
 /**
  * Manages resource meshes in the 3D scene.
- * Spawns trees, rocks, and bushes; handles depletion visibility and respawning.
+ * Spawns trees, rocks, bushes, snow drifts and ice; handles depletion visibility and respawning.
+ * Serves as the simulation's resource registry in the browser build.
  */
-export class ResourceManager {
+export class ResourceManager implements IResourceRegistry {
   private scene: Scene;
   private resources: ResourceInstance[] = [];
   private shadowGenerator: ShadowGenerator | null = null;
+  private worldRandom: IRandomSource = MATH_RANDOM;
+  private lootRandom: IRandomSource;
 
-  constructor(scene: Scene) {
+  /**
+   * lootRandom is shared by every spawned resource for its drop rolls
+   */
+  constructor(scene: Scene, lootRandom: IRandomSource = MATH_RANDOM) {
     this.scene = scene;
+    this.lootRandom = lootRandom;
     // Try to get shadow generator
     this.shadowGenerator = (scene as Scene & { shadowGenerator?: ShadowGenerator }).shadowGenerator ?? null;
   }
 
   /**
-   * Spawn resources in circular patterns around origin
+   * Spawn resources in circular patterns around origin.
+   * worldRandom drives placement and mesh variety, so the same seed gives the same layout.
    */
-  spawnResources(): void {
-    // Spawn trees in outer ring
-    this.spawnInCircle('pine_tree', 12, 20, 35);
-    // Spawn rocks in middle ring
-    this.spawnInCircle('rock_formation', 8, 10, 25);
-    // Spawn bushes scattered
-    this.spawnInCircle('berry_bush', 6, 8, 30);
+  spawnResources(worldRandom: IRandomSource = MATH_RANDOM): void {
+    this.worldRandom = worldRandom;
+    for (const ring of RESOURCE_SPAWN_TABLE) {
+      this.spawnInCircle(ring.definitionId, ring.count, ring.minRadius, ring.maxRadius);
+    }
   }
 
   private spawnInCircle(definitionId: string, count: number, minRadius: number, maxRadius: number): void {
@@ -49,14 +60,14 @@ export class ResourceManager {
     if (!config) return;
 
     for (let i = 0; i < count; i++) {
-      const angle = (i / count) * Math.PI * 2 + (Math.random() - 0.5) * 0.5;
-      const radius = minRadius + Math.random() * (maxRadius - minRadius);
+      const angle = (i / count) * Math.PI * 2 + (this.worldRandom.next() - 0.5) * 0.5;
+      const radius = minRadius + this.worldRandom.next() * (maxRadius - minRadius);
       const x = Math.cos(angle) * radius;
       const z = Math.sin(angle) * radius;
       const position = new Vector3(x, 0, z);
 
       const id = `${definitionId}_${i}`;
-      const resource = new Resource(id, config);
+      const resource = new Resource(id, config, this.lootRandom);
       const meshes = this.createResourceMesh(config.type, id, position);
 
       this.resources.push({ resource, meshes, position });
@@ -104,11 +115,11 @@ export class ResourceManager {
         rock.position = position.clone();
         rock.position.y = 0.8;
         // Random slight rotation for variety
-        rock.rotation.y = Math.random() * Math.PI;
+        rock.rotation.y = this.worldRandom.next() * Math.PI;
         rock.scaling = new Vector3(
-          0.8 + Math.random() * 0.4,
-          0.6 + Math.random() * 0.3,
-          0.8 + Math.random() * 0.4
+          0.8 + this.worldRandom.next() * 0.4,
+          0.6 + this.worldRandom.next() * 0.3,
+          0.8 + this.worldRandom.next() * 0.4
         );
         const rockMat = new StandardMaterial(`${id}_rockMat`, this.scene);
         rockMat.diffuseColor = new Color3(0.5, 0.5, 0.5);
@@ -132,6 +143,37 @@ export class ResourceManager {
         meshes.push(bush);
         break;
       }
+      case ResourceType.SNOW: {
+        const drift = MeshBuilder.CreateSphere(
+          `${id}_drift`,
+          { diameter: 2, segments: 8 },
+          this.scene
+        );
+        drift.position = position.clone();
+        drift.position.y = 0.1;
+        drift.scaling = new Vector3(1.4, 0.35, 1);
+        drift.rotation.y = this.worldRandom.next() * Math.PI;
+        const driftMat = new StandardMaterial(`${id}_driftMat`, this.scene);
+        driftMat.diffuseColor = new Color3(0.95, 0.97, 1);
+        drift.material = driftMat;
+
+        meshes.push(drift);
+        break;
+      }
+      case ResourceType.ICE: {
+        const ice = MeshBuilder.CreatePolyhedron(`${id}_ice`, { type: 3, size: 0.9 }, this.scene);
+        ice.position = position.clone();
+        ice.position.y = 0.9;
+        ice.scaling = new Vector3(0.7, 1.2 + this.worldRandom.next() * 0.4, 0.7);
+        const iceMat = new StandardMaterial(`${id}_iceMat`, this.scene);
+        iceMat.diffuseColor = new Color3(0.6, 0.8, 0.95);
+        iceMat.specularColor = new Color3(0.9, 0.95, 1);
+        iceMat.alpha = 0.85;
+        ice.material = iceMat;
+
+        meshes.push(ice);
+        break;
+      }
     }
 
     // Add shadows
@@ -178,14 +220,54 @@ export class ResourceManager {
     return instance.position;
   }
 
+  /**
+   * Get all Resource entities in the world (for persistence)
+   */
+  getResources(): Resource[] {
+    return this.resources.map((instance) => instance.resource);
+  }
+
+  /**
+   * Find a Resource entity by id
+   */
+  getResourceById(id: string): Resource | undefined {
+    return this.resources.find((instance) => instance.resource.id === id)?.resource;
+  }
+
+  /**
+   * Replace the current layout with a freshly generated one (e.g. loading a save from another world)
+   */
+  regenerate(worldRandom: IRandomSource): void {
+    for (const instance of this.resources) {
+      for (const mesh of instance.meshes) {
+        mesh.dispose(false, true);
+      }
+    }
+    this.resources = [];
+    this.spawnResources(worldRandom);
+  }
+
+  /**
+   * Match mesh visibility to resource depletion state (e.g. after loading a save)
+   */
+  syncMeshVisibility(): void {
+    for (const instance of this.resources) {
+      for (const mesh of instance.meshes) {
+        mesh.setEnabled(!instance.resource.isDepleted);
+      }
+    }
+  }
+
   /**
    * Update all resources (respawn timers, mesh visibility)
    */
-  update(deltaTime: number): void {
+  update(deltaTime: number): Resource[] {
+    const respawnedResources: Resource[] = [];
     for (const instance of this.resources) {
       if (instance.resource.isDepleted) {
         const respawned = instance.resource.updateRespawn(deltaTime);
         if (respawned) {
+          respawnedResources.push(instance.resource);
           // Show meshes again
           for (const mesh of instance.meshes) {
             mesh.setEnabled(true);
@@ -198,5 +280,6 @@ export class ResourceManager {
         }
       }
     }
+    return respawnedResources;
   }
 }
@@ -11,12 +11,13 @@ import { WeatherType } from '@shared/constants/GameConstants';
 
 /**
  * Manages visual weather effects: snow particles and fog.
- * Subscribes to WEATHER_CHANGED events.
+ * Subscribes to WEATHER_CHANGED events, which arrive only when the weather moves.
  */
 export class WeatherEffects {
   private scene: Scene;
   private snowSystem: ParticleSystem | null = null;
   private playerRef: AbstractMesh | null = null;
+  private emitterPosition = new Vector3(0, 30, 0);
 
   constructor(scene: Scene, eventBus: EventBus) {
     this.scene = scene;
@@ -41,7 +42,7 @@ export class WeatherEffects {
   update(): void {
     if (this.snowSystem && this.playerRef) {
       const pos = this.playerRef.position;
-      this.snowSystem.emitter = new Vector3(pos.x, pos.y + 30, pos.z);
+      this.emitterPosition.set(pos.x, pos.y + 30, pos.z);
     }
   }
 
@@ -74,8 +75,8 @@ export class WeatherEffects {
     this.snowSystem.minEmitPower = 0.5;
     this.snowSystem.maxEmitPower = 1.5;
 
-    // Emitter position (will be updated to follow player)
-    this.snowSystem.emitter = new Vector3(0, 30, 0);
+    // Emitter position (moved in place to follow player)
+    this.snowSystem.emitter = this.emitterPosition;
 
     // Try to create a default particle texture
     try {
@@ -0,0 +1,148 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { basename, extname } from 'node:path';
+import { BalanceRunner, IBalanceVariant } from '@application/balancing/BalanceRunner';
+import {
+  BalanceReportFormat,
+  createBalanceReport,
+  formatBalanceReport,
+} from '@application/balancing/BalanceReport';
+import {
+  BEHAVIOUR_PROFILE_IDS,
+  BehaviourProfileId,
+} from '@application/balancing/BehaviourProfiles';
+import {
+  DEFAULT_SURVIVAL_BALANCE,
+  ISurvivalBalanceOverrides,
+  createSurvivalBalance,
+} from '@application/balancing/SurvivalBalance';
+import { MetabolismModel } from '@application/survival/Metabolism';
+
+/**
+ * Headless balancing report.
+ *
+ *   npm run balance -- --days 5 --seeds 1-20 --variant tuning/harsh-nights.json --out report.csv
+ *
+ * Options:
+ *   --days N            In-game days per run (default 3)
+ *   --seeds A-B|A,B,C   World seeds (default 1-10)
+ *   --profiles a,b      Behaviour profiles: idle, gathering, crafting (default all)
+ *   --variant FILE      JSON balance overrides to compare against the defaults; repeatable.
+ *                       Named by its "name" field or the file name. Set "metabolism" to
+ *                       "activity" to compare the activity-based metabolism with the flat one.
+ *   --format csv|json   Output format (default csv; json adds per-profile averages)
+ *   --out FILE          Write to a file instead of stdout
+ */
+
+interface ICliOptions {
+  days: number;
+  seeds: number[];
+  profiles: BehaviourProfileId[];
+  variants: IBalanceVariant[];
+  format: BalanceReportFormat;
+  out: string | null;
+}
+
+function parseSeeds(value: string): number[] {
+  const range = /^(\d+)-(\d+)$/.exec(value);
+  if (range) {
+    const from = Number(range[1]);
+    const to = Number(range[2]);
+    return Array.from({ length: Math.max(to - from + 1, 0) }, (_, i) => from + i);
+  }
+  const seeds = value.split(',').map(Number);
+  if (seeds.some((seed) => !Number.isInteger(seed))) {
+    throw new Error(`Invalid seeds: ${value}`);
+  }
+  return seeds;
+}
+
+function parseProfiles(value: string): BehaviourProfileId[] {
+  return value.split(',').map((id) => {
+    const profile = BEHAVIOUR_PROFILE_IDS.find((known) => known === id);
+    if (!profile) {
+      throw new Error(`Unknown profile: ${id} (expected ${BEHAVIOUR_PROFILE_IDS.join(', ')})`);
+    }
+    return profile;
+  });
+}
+
+function loadVariant(path: string): IBalanceVariant {
+  const data: unknown = JSON.parse(readFileSync(path, 'utf8'));
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`Variant file must contain a JSON object: ${path}`);
+  }
+  const { name, ...overrides } = data as ISurvivalBalanceOverrides & { name?: unknown };
+  const models: unknown[] = Object.values(MetabolismModel);
+  if (overrides.metabolism !== undefined && !models.includes(overrides.metabolism)) {
+    throw new Error(`Unknown metabolism in ${path}: ${String(overrides.metabolism)}`);
+  }
+  return {
+    name: typeof name === 'string' ? name : basename(path, extname(path)),
+    balance: createSurvivalBalance(overrides),
+  };
+}
+
+function parseArgs(args: string[]): ICliOptions {
+  const options: ICliOptions = {
+    days: 3,
+    seeds: parseSeeds('1-10'),
+    profiles: [...BEHAVIOUR_PROFILE_IDS],
+    variants: [{ name: 'default', balance: DEFAULT_SURVIVAL_BALANCE }],
+    format: 'csv',
+    out: null,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    const value = args[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+
+    switch (flag) {
+      case '--days':
+        options.days = Number(value);
+        if (!(options.days > 0)) throw new Error(`Invalid days: ${value}`);
+        break;
+      case '--seeds':
+        options.seeds = parseSeeds(value);
+        break;
+      case '--profiles':
+        options.profiles = parseProfiles(value);
+        break;
+      case '--variant':
+        options.variants.push(loadVariant(value));
+        break;
+      case '--format':
+        if (value !== 'csv' && value !== 'json') throw new Error(`Invalid format: ${value}`);
+        options.format = value;
+        break;
+      case '--out':
+        options.out = value;
+        break;
+      default:
+        throw new Error(`Unknown option: ${flag}`);
+    }
+  }
+  return options;
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2).filter((arg) => arg !== '--'));
+  const runs = new BalanceRunner().run(options);
+  const output = formatBalanceReport(createBalanceReport(runs, options.days), options.format);
+
+  if (options.out) {
+    writeFileSync(options.out, output);
+    console.error(`Wrote ${runs.length} runs to ${options.out}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+}
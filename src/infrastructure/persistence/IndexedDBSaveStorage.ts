@@ -0,0 +1,67 @@
+import { ISaveStorage } from '@application/services/SaveGameService';
+import { ISaveGameSnapshot } from '@application/persistence/SaveSnapshot';
+
+const DB_NAME = 'wild-survival';
+const DB_VERSION = 1;
+const STORE_NAME = 'saves';
+
+/**
+ * Save storage backed by IndexedDB.
+ * Preferred over localStorage: no 5MB quota and no main-thread JSON stringify of large saves.
+ */
+export class IndexedDBSaveStorage implements ISaveStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Check whether IndexedDB is available in this environment
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async save(key: string, snapshot: ISaveGameSnapshot): Promise<void> {
+    const db = await this.openDatabase();
+    await this.request(
+      db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(snapshot, key)
+    );
+  }
+
+  async load(key: string): Promise<ISaveGameSnapshot | null> {
+    const db = await this.openDatabase();
+    const result = await this.request<ISaveGameSnapshot | undefined>(
+      db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key) as IDBRequest<
+        ISaveGameSnapshot | undefined
+      >
+    );
+    return result ?? null;
+  }
+
+  async delete(key: string): Promise<void> {
+    const db = await this.openDatabase();
+    await this.request(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(key));
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const openRequest = indexedDB.open(DB_NAME, DB_VERSION);
+        openRequest.onupgradeneeded = (): void => {
+          if (!openRequest.result.objectStoreNames.contains(STORE_NAME)) {
+            openRequest.result.createObjectStore(STORE_NAME);
+          }
+        };
+        openRequest.onsuccess = (): void => resolve(openRequest.result);
+        openRequest.onerror = (): void =>
+          reject(openRequest.error ?? new Error('Failed to open IndexedDB'));
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = (): void => resolve(request.result);
+      request.onerror = (): void => reject(request.error ?? new Error('IndexedDB request failed'));
+    });
+  }
+}
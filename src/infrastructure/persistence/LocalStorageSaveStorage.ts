@@ -0,0 +1,41 @@
+import { ISaveStorage } from '@application/services/SaveGameService';
+import { ISaveGameSnapshot } from '@application/persistence/SaveSnapshot';
+
+const KEY_PREFIX = 'wild-survival:save:';
+
+/**
+ * Save storage backed by window.localStorage.
+ * Synchronous under the hood; suitable for small snapshots and as a fallback.
+ * Quota, serialization and parse errors reject the returned promise rather than throwing.
+ */
+export class LocalStorageSaveStorage implements ISaveStorage {
+  constructor(private storage: Storage = window.localStorage) {}
+
+  save(key: string, snapshot: ISaveGameSnapshot): Promise<void> {
+    return attempt(() => {
+      this.storage.setItem(KEY_PREFIX + key, JSON.stringify(snapshot));
+    });
+  }
+
+  load(key: string): Promise<ISaveGameSnapshot | null> {
+    return attempt(() => {
+      const raw = this.storage.getItem(KEY_PREFIX + key);
+      return raw === null ? null : (JSON.parse(raw) as ISaveGameSnapshot);
+    });
+  }
+
+  delete(key: string): Promise<void> {
+    return attempt(() => this.storage.removeItem(KEY_PREFIX + key));
+  }
+}
+
+/**
+ * Run a synchronous storage call, settling the promise with its result or error
+ */
+function attempt<T>(operation: () => T): Promise<T> {
+  try {
+    return Promise.resolve(operation());
+  } catch (error) {
+    return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+}
@@ -0,0 +1,93 @@
+import { ISaveGameSnapshot } from '@application/persistence/SaveSnapshot';
+
+/**
+ * File layout: "WSAV" magic | format version (1 byte) | SHA-256 of body (32 bytes) | gzip(JSON)
+ */
+const MAGIC = [0x57, 0x53, 0x41, 0x56]; // "WSAV"
+const FORMAT_VERSION = 1;
+const CHECKSUM_LENGTH = 32;
+const HEADER_LENGTH = MAGIC.length + 1 + CHECKSUM_LENGTH;
+
+export const SAVE_FILE_EXTENSION = '.wsave';
+
+/**
+ * Raised when a save file is not a valid, intact export
+ */
+export class SaveFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaveFileError';
+  }
+}
+
+/**
+ * Encodes save snapshots as compressed, checksummed files for sharing,
+ * and decodes them back, rejecting foreign, truncated or tampered files.
+ */
+export class SaveFileCodec {
+  /**
+   * Encode a snapshot into a downloadable file
+   */
+  async encode(snapshot: ISaveGameSnapshot): Promise<Blob> {
+    const json = new TextEncoder().encode(JSON.stringify(snapshot));
+    const body = await this.transform(json, new CompressionStream('gzip'));
+    const checksum = await this.checksum(body);
+
+    const file = new Uint8Array(HEADER_LENGTH + body.length);
+    file.set(MAGIC, 0);
+    file[MAGIC.length] = FORMAT_VERSION;
+    file.set(checksum, MAGIC.length + 1);
+    file.set(body, HEADER_LENGTH);
+    return new Blob([file], { type: 'application/octet-stream' });
+  }
+
+  /**
+   * Decode file contents into a raw snapshot (not yet migrated or validated)
+   */
+  async decode(buffer: ArrayBuffer): Promise<ISaveGameSnapshot> {
+    const file = new Uint8Array(buffer);
+    if (file.length <= HEADER_LENGTH) {
+      throw new SaveFileError('File is too short to be a save (truncated?)');
+    }
+    if (!MAGIC.every((byte, i) => file[i] === byte)) {
+      throw new SaveFileError('Not a save file');
+    }
+
+    const version = file[MAGIC.length];
+    if (version !== FORMAT_VERSION) {
+      throw new SaveFileError(`Unsupported save file format v${version}`);
+    }
+
+    const expected = file.subarray(MAGIC.length + 1, HEADER_LENGTH);
+    const body = file.subarray(HEADER_LENGTH);
+    const actual = await this.checksum(body);
+    if (!actual.every((byte, i) => byte === expected[i])) {
+      throw new SaveFileError('Checksum mismatch: file is truncated or has been modified');
+    }
+
+    let json: string;
+    try {
+      json = new TextDecoder().decode(await this.transform(body, new DecompressionStream('gzip')));
+    } catch {
+      throw new SaveFileError('Save data could not be decompressed');
+    }
+
+    try {
+      return JSON.parse(json) as ISaveGameSnapshot;
+    } catch {
+      throw new SaveFileError('Save data is not valid JSON');
+    }
+  }
+
+  private async checksum(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+    return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  }
+
+  private async transform(
+    data: Uint8Array<ArrayBuffer>,
+    stream: CompressionStream | DecompressionStream
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    const output = new Blob([data]).stream().pipeThrough(stream);
+    return new Uint8Array(await new Response(output).arrayBuffer());
+  }
+}
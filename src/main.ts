@@ -1,17 +1,52 @@
 import { BabylonEngine } from '@infrastructure/babylon/BabylonEngine';
 import { GameScene } from '@presentation/scenes/GameScene';
-import { Character } from '@domain/entities/Character';
-import { Inventory } from '@domain/entities/Inventory';
+import { Resource } from '@domain/entities/Resource';
+import { DamageCause } from '@domain/events/CharacterEvents';
+import { Position } from '@domain/value-objects/Position';
 import { Stats } from '@domain/value-objects/Stats';
-import { CharacterClass, CHARACTER_STATS, GAME_CONFIG } from '@shared/constants/GameConstants';
-import { EventBus } from '@application/events/EventBus';
-import { TimeService } from '@application/services/TimeService';
-import { WeatherService } from '@application/services/WeatherService';
-import { GatherResourceUseCase } from '@application/use-cases/GatherResourceUseCase';
-import { CraftItemUseCase } from '@application/use-cases/CraftItemUseCase';
+import {
+  DEBUG_CONFIG,
+  FATIGUE_CONFIG,
+  GAME_CONFIG,
+  REPLAY_CONFIG,
+  SAVE_CONFIG,
+} from '@shared/constants/GameConstants';
+import {
+  CharacterRespawnedEvent,
+  GameEventType,
+  InventoryChangedEvent,
+  SleepEndedEvent,
+} from '@application/events/EventBus';
+import { RandomService } from '@application/services/RandomService';
+import { GameSimulation, StaminaState } from '@application/simulation/GameSimulation';
+import { activityFromInput } from '@application/simulation/PlayerInput';
+import { EventJournal } from '@application/events/EventJournal';
+import { ISaveGameSnapshot } from '@application/persistence/SaveSnapshot';
+import {
+  SaveGameService,
+  ILoadedGame,
+  ISaveGameState,
+} from '@application/services/SaveGameService';
+import {
+  SaveSlotService,
+  AUTOSAVE_SLOT,
+  QUICKSAVE_SLOT,
+} from '@application/services/SaveSlotService';
+import { AutosaveScheduler } from '@application/services/AutosaveScheduler';
 import { InteractionController } from '@presentation/controllers/InteractionController';
 import { InventoryPanel } from '@presentation/ui/InventoryPanel';
 import { CraftingPanel } from '@presentation/ui/CraftingPanel';
+import { SaveSlotPanel } from '@presentation/ui/SaveSlotPanel';
+import { SaveFileDropController } from '@presentation/controllers/SaveFileDropController';
+import { ReplayController } from '@presentation/controllers/ReplayController';
+import { ReplayPanel } from '@presentation/ui/ReplayPanel';
+import { EventInspectorPanel } from '@presentation/ui/EventInspectorPanel';
+import { StatusEffectsHud } from '@presentation/ui/StatusEffectsHud';
+import { DeathScreen } from '@presentation/ui/DeathScreen';
+import { NewGameScreen } from '@presentation/ui/NewGameScreen';
+import { IndexedDBSaveStorage } from '@infrastructure/persistence/IndexedDBSaveStorage';
+import { LocalStorageSaveStorage } from '@infrastructure/persistence/LocalStorageSaveStorage';
+import { SaveFileCodec, SAVE_FILE_EXTENSION } from '@infrastructure/persistence/SaveFileCodec';
 
 /**
  * Main application entry point
@@ -19,30 +54,66 @@ import { CraftingPanel } from '@presentation/ui/CraftingPanel';
 class Application {
   private engine: BabylonEngine;
   private gameScene: GameScene | null = null;
-  private character: Character | null = null;
-  private inventory: Inventory | null = null;
-  private updateInterval: number | null = null;
+  private lastNeedsWarning: string = '';
 
   // Phase 2 systems
-  private eventBus: EventBus;
-  private timeService: TimeService;
-  private weatherService: WeatherService;
-  private gatherUseCase: GatherResourceUseCase | null = null;
-  private craftUseCase: CraftItemUseCase | null = null;
+  private simulation: GameSimulation;
+  private saveGameService: SaveGameService;
+  private saveSlotService: SaveSlotService;
+  private autosaveScheduler: AutosaveScheduler;
+  private saveFileCodec: SaveFileCodec = new SaveFileCodec();
   private interactionController: InteractionController | null = null;
   private inventoryPanel: InventoryPanel | null = null;
   private craftingPanel: CraftingPanel | null = null;
+  private saveSlotPanel: SaveSlotPanel | null = null;
+  private saveFileDropController: SaveFileDropController | null = null;
+  private replayController: ReplayController | null = null;
+  private replayPanel: ReplayPanel | null = null;
+  private eventJournal: EventJournal | null = null;
+  private eventInspectorPanel: EventInspectorPanel | null = null;
+  private statusEffectsHud: StatusEffectsHud | null = null;
+  private deathScreen: DeathScreen | null = null;
+  private choosingRules: boolean = false; // The new-game screen is open; the world waits for it
 
   // HUD elements
   private timeDisplayEl: HTMLElement | null = null;
   private tempDisplayEl: HTMLElement | null = null;
+  private wetnessDisplayEl: HTMLElement | null = null;
   private weatherDisplayEl: HTMLElement | null = null;
+  private saveIndicatorEl: HTMLElement | null = null;
+  private warmingIndicatorEl: HTMLElement | null = null;
+  private isWarmingShown: boolean = false;
+  private sleepOverlayEl: HTMLElement | null = null;
+  private staminaStateEl: HTMLElement | null = null;
+  private staminaStateShown: StaminaState = 'normal';
+  private jumpRequested: boolean = false;
+  private corpseMarkerEl: HTMLElement | null = null;
+  private corpseDisplayEl: HTMLElement | null = null;
+  private saveIndicatorTimeout: number | null = null;
 
   constructor() {
     this.engine = new BabylonEngine();
-    this.eventBus = new EventBus();
-    this.timeService = new TimeService(this.eventBus);
-    this.weatherService = new WeatherService(this.eventBus);
+    this.simulation = new GameSimulation({
+      seed: readSeedFromUrl() ?? RandomService.createSeed(),
+    });
+    this.saveGameService = new SaveGameService(
+      IndexedDBSaveStorage.isSupported()
+        ? new IndexedDBSaveStorage()
+        : new LocalStorageSaveStorage(),
+      this.simulation.time,
+      this.simulation.weather,
+      this.simulation.random
+    );
+    this.saveSlotService = new SaveSlotService(this.saveGameService, () => this.captureSaveState());
+    this.autosaveScheduler = new AutosaveScheduler(
+      this.simulation.eventBus,
+      SAVE_CONFIG.AUTOSAVE_INTERVAL,
+      () => {
+        this.saveToSlot(AUTOSAVE_SLOT, 'Autosaved').catch((error) => {
+          console.error('Autosave failed:', error);
+        });
+      }
+    );
   }
 
   async initialize(): Promise<void> {
@@ -61,98 +132,480 @@ class Application {
     const scene = this.engine.createScene();
     console.log('Scene created');
 
-    // Initialize game scene with EventBus
-    this.gameScene = new GameScene(scene, this.eventBus);
-    console.log('Game scene initialized');
-
-    // Create player character
-    this.character = Character.create(
-      'player_1',
-      CharacterClass.SURVIVOR,
-      'Player',
-      Stats.create(
-        CHARACTER_STATS.BASE_HEALTH,
-        CHARACTER_STATS.BASE_HEALTH,
-        CHARACTER_STATS.BASE_HUNGER,
-        CHARACTER_STATS.BASE_HUNGER,
-        CHARACTER_STATS.BASE_THIRST,
-        CHARACTER_STATS.BASE_THIRST,
-        37,
-        CHARACTER_STATS.BASE_STAMINA,
-        CHARACTER_STATS.BASE_STAMINA
-      )
-    );
-
-    // Create inventory
-    this.inventory = Inventory.create('player_inventory', 20, 100);
+    // Initialize game scene with EventBus; its ResourceManager backs the simulation's resources
+    const { eventBus, random } = this.simulation;
+    this.gameScene = new GameScene(scene, eventBus, random);
+    const resourceManager = this.gameScene.getResourceManager();
+    this.simulation.setResources(resourceManager);
+    console.log(`Game scene initialized (world seed ${random.getSeed()})`);
 
-    // Initialize use cases
-    this.gatherUseCase = new GatherResourceUseCase(this.character, this.inventory, this.eventBus);
-    this.craftUseCase = new CraftItemUseCase(this.character, this.inventory, this.eventBus);
+    // Restore the most recent session, or start a fresh one
+    const loaded = await this.loadLatestSave();
+    const character = this.simulation.getCharacter();
+    const inventory = this.simulation.getInventory();
 
     // Initialize controllers
     this.interactionController = new InteractionController(
       this.gameScene.getInputManager(),
-      this.gameScene.getResourceManager(),
-      this.gatherUseCase
+      resourceManager,
+      this.simulation
     );
 
     // Initialize UI panels
-    this.inventoryPanel = new InventoryPanel(this.inventory, this.character, this.eventBus);
-    this.craftingPanel = new CraftingPanel(
-      this.inventory,
-      this.character,
-      this.craftUseCase,
-      this.eventBus
+    this.inventoryPanel = new InventoryPanel(
+      inventory,
+      eventBus,
+      (slotIndex) => this.useItem(slotIndex),
+      (itemId) => this.placeItem(itemId)
+    );
+    this.craftingPanel = new CraftingPanel(inventory, character, this.simulation, eventBus);
+    this.saveSlotPanel = new SaveSlotPanel(
+      this.saveSlotService,
+      (slotId) => this.loadSlot(slotId),
+      () => this.exportSave(),
+      (file) => this.importSaveFile(file)
+    );
+    this.saveFileDropController = new SaveFileDropController(canvas, (file) =>
+      this.saveSlotPanel ? this.saveSlotPanel.importSave(file) : this.importSaveFile(file)
+    );
+    this.gameScene
+      .getInputManager()
+      .captureKeys(
+        SAVE_CONFIG.QUICKSAVE_KEY,
+        SAVE_CONFIG.QUICKLOAD_KEY,
+        DEBUG_CONFIG.EVENT_INSPECTOR_KEY
+      );
+    this.replayController = new ReplayController(
+      this.simulation,
+      this.gameScene.getInputManager(),
+      {
+        captureSnapshot: (): ISaveGameSnapshot | null => this.saveSlotService.exportSnapshot(),
+        restoreSnapshot: (snapshot): void => this.restoreReplaySnapshot(snapshot),
+        placePlayer: (x, y, z): void => this.gameScene?.setSimulatedPlayerPosition(x, y, z),
+      }
+    );
+    this.replayPanel = new ReplayPanel(this.replayController, this.simulation);
+    this.eventJournal = new EventJournal(
+      eventBus,
+      () => this.simulation.clock.getTick(),
+      DEBUG_CONFIG.EVENT_JOURNAL_CAPACITY
+    );
+    this.eventInspectorPanel = new EventInspectorPanel(this.eventJournal);
+
+    // Death screen until the player picks where to respawn (built first: a save may hold the dead)
+    this.deathScreen = new DeathScreen(this.simulation, eventBus, (pointId) =>
+      this.simulation.respawn(pointId)
     );
+    eventBus.subscribe<CharacterRespawnedEvent>(GameEventType.CHARACTER_RESPAWNED, (event) => {
+      const { x, y, z } = event.position;
+      this.gameScene?.setPlayerPosition(x, y, z);
+    });
+
+    // Place the player and world to match the restored session
+    if (loaded) {
+      this.applyLoadedGame(loaded);
+      console.log('Saved game restored');
+    }
 
     // Cache HUD elements
     this.timeDisplayEl = document.getElementById('time-display');
     this.tempDisplayEl = document.getElementById('temp-display');
+    this.wetnessDisplayEl = document.getElementById('wetness-display');
     this.weatherDisplayEl = document.getElementById('weather-display');
+    this.saveIndicatorEl = document.getElementById('save-indicator');
+    this.warmingIndicatorEl = document.getElementById('warming-indicator');
+    this.sleepOverlayEl = document.getElementById('sleep-overlay');
+    this.staminaStateEl = document.getElementById('stamina-state');
+    this.corpseMarkerEl = document.getElementById('corpse-marker');
+    this.corpseDisplayEl = document.getElementById('corpse-display');
+    this.statusEffectsHud = new StatusEffectsHud();
+
+    // Dim the screen while the player sleeps
+    eventBus.subscribe(GameEventType.SLEEP_STARTED, () => {
+      if (this.sleepOverlayEl) this.sleepOverlayEl.style.display = 'flex';
+    });
+    eventBus.subscribe<SleepEndedEvent>(GameEventType.SLEEP_ENDED, (event) => {
+      if (this.sleepOverlayEl) this.sleepOverlayEl.style.display = 'none';
+      console.log(`Woke up (${event.reason}), energy ${Math.round(event.energy)}`);
+    });
 
-    console.log('Character created:', this.character.name);
+    // The scene runs the jumps the simulation paid stamina for (live or replayed)
+    this.simulation.onCommand((command, result) => {
+      if (command.type === 'jump' && result.success) this.gameScene?.jump();
+    });
+
+    console.log('Character created:', this.simulation.getCharacter().name);
 
-    // Start render loop
+    // Every simulation system ticks from the fixed-step clock; rendering follows the frame rate
+    this.simulation.onTick((deltaTime) => this.fixedUpdate(deltaTime));
     this.engine.startRenderLoop(scene, (deltaTime) => {
       this.update(deltaTime);
     });
 
-    // Start survival mechanics update (every second)
-    this.updateInterval = window.setInterval(() => {
-      this.updateSurvivalMechanics();
-    }, 1000);
-
     // Hide loading screen
     this.hideLoadingScreen();
 
+    // A fresh game waits for the player to choose its rules
+    if (!loaded) {
+      this.choosingRules = true;
+      this.simulation.clock.pause();
+      const rules = await new NewGameScreen().choose();
+      this.simulation.setRules(rules);
+      this.choosingRules = false;
+      this.simulation.clock.resume();
+      console.log(`New game started on ${rules.difficulty}`);
+    }
+
     console.log('Application initialized successfully');
   }
 
-  private update(deltaTime: number): void {
-    // Update time and weather services
-    this.timeService.update(deltaTime);
-    this.weatherService.setNight(this.timeService.isNight());
-    this.weatherService.update(deltaTime);
+  private async loadLatestSave(): Promise<ILoadedGame | null> {
+    if (!this.gameScene) return null;
+
+    try {
+      const slotId = await this.saveSlotService.findLatestSlot();
+      if (!slotId) return null;
+      return await this.saveSlotService.loadSlot(slotId, (seed) =>
+        this.resolveWorldResources(seed)
+      );
+    } catch (error) {
+      console.error('Failed to load saved game, starting a new one:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Resources a save restores into; regenerates the world if the save has another seed
+   */
+  private resolveWorldResources(seed: number): Resource[] {
+    return this.gameScene?.ensureWorldSeed(seed) ?? [];
+  }
+
+  /**
+   * Gather the live session for the save slot service
+   */
+  private captureSaveState(): Omit<ISaveGameState, 'playtime'> | null {
+    if (!this.gameScene) return null;
+
+    const playerPos = this.gameScene.getPlayerPosition();
+    const character = this.simulation
+      .getCharacter()
+      .moveTo(Position.create(playerPos.x, playerPos.y, playerPos.z));
+    this.simulation.setCharacter(character);
+
+    return {
+      character,
+      inventory: this.simulation.getInventory(),
+      resources: this.gameScene.getResourceManager().getResources(),
+      heatSources: this.simulation.heatSources.getHeatSources(),
+      corpses: this.simulation.corpses.getCorpses(),
+      rules: this.simulation.getRules(),
+      thumbnail: this.engine.captureThumbnail(
+        SAVE_CONFIG.THUMBNAIL_WIDTH,
+        SAVE_CONFIG.THUMBNAIL_HEIGHT
+      ),
+    };
+  }
+
+  /**
+   * Swap the running session for a loaded one
+   */
+  private applyLoadedGame(loaded: ILoadedGame): void {
+    if (loaded.repairs.length > 0) {
+      console.warn('Save data was repaired while loading:', loaded.repairs);
+    }
+
+    const { character, inventory, heatSources, corpses, rules } = loaded;
+    this.simulation.interruptSleep('woken');
+    this.simulation.setRules(rules);
+    this.simulation.setCharacter(character);
+    this.simulation.setInventory(inventory);
+    this.simulation.heatSources.restore(heatSources);
+    this.gameScene?.getHeatSourceRenderer()?.sync(heatSources);
+    this.simulation.corpses.restore(corpses);
+    this.gameScene?.getCorpseRenderer()?.sync(corpses);
+    if (character.isAlive) {
+      this.deathScreen?.hide();
+    } else {
+      // The newest corpse is the one this character left when they died
+      const corpses = this.simulation.corpses.getCorpses();
+      this.deathScreen?.show(corpses[corpses.length - 1]?.cause ?? DamageCause.OTHER);
+    }
 
-    // Apply weather movement modifier to game scene
     if (this.gameScene) {
-      this.gameScene.setMovementModifier(this.weatherService.getMovementModifier());
-      this.gameScene.update(deltaTime);
+      const { x, y, z } = character.position;
+      this.gameScene.setPlayerPosition(x, y, z);
+      this.gameScene.getResourceManager().syncMeshVisibility();
+    }
+
+    this.inventoryPanel?.setInventory(inventory);
+    this.craftingPanel?.setInventory(inventory);
+
+    this.simulation.eventBus.enqueueLatest<InventoryChangedEvent>({
+      type: GameEventType.INVENTORY_CHANGED,
+    });
+  }
+
+  /**
+   * Eat or drink one item from an inventory slot
+   */
+  private useItem(slotIndex: number): void {
+    const result = this.simulation.consume(slotIndex);
+    if (!result.success) {
+      console.warn(`Cannot use item: ${result.message}`);
+    }
+  }
+
+  /**
+   * Place a heat-source item from the inventory where the player stands
+   */
+  private placeItem(itemId: string): void {
+    const result = this.simulation.place(itemId);
+    if (result.success) {
+      console.log(result.message);
+    } else {
+      console.warn(`Cannot place ${itemId}: ${result.message}`);
+    }
+  }
+
+  /**
+   * Lie down to sleep, or get up if already asleep
+   */
+  private toggleSleep(): void {
+    if (this.simulation.isSleeping()) {
+      this.simulation.wake();
+      return;
+    }
+    const result = this.simulation.sleep();
+    if (!result.success) {
+      console.warn(`Cannot sleep: ${result.message}`);
+    }
+  }
+
+  /**
+   * Put the session back in the state a replay starts from
+   */
+  private restoreReplaySnapshot(snapshot: ISaveGameSnapshot): void {
+    const loaded = this.saveGameService.restoreSnapshot(
+      snapshot,
+      (seed) => this.resolveWorldResources(seed),
+      'strict'
+    );
+    this.applyLoadedGame(loaded);
+    this.interactionController?.suspend();
+  }
+
+  private async loadSlot(slotId: string): Promise<void> {
+    if (!this.gameScene) return;
+    if (this.choosingRules) {
+      throw new Error('Choose the rules for the new game first');
+    }
+
+    const loaded = await this.saveSlotService.loadSlot(slotId, (seed) =>
+      this.resolveWorldResources(seed)
+    );
+    if (!loaded) {
+      throw new Error(`Save slot ${slotId} is empty`);
+    }
+    this.applyLoadedGame(loaded);
+    this.autosaveScheduler.reset();
+  }
+
+  /**
+   * Download the current session as a save file
+   */
+  private async exportSave(): Promise<void> {
+    const snapshot = this.saveSlotService.exportSnapshot();
+    if (!snapshot) {
+      throw new Error('No game in progress to export');
+    }
+
+    const blob = await this.saveFileCodec.encode(snapshot);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${snapshot.metadata.characterName}-day${snapshot.metadata.day}${SAVE_FILE_EXTENSION}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Replace the running session with an exported save file.
+   * Rejected files leave the current session untouched.
+   */
+  private async importSaveFile(file: File): Promise<void> {
+    if (!this.gameScene) return;
+    if (this.choosingRules) {
+      throw new Error('Choose the rules for the new game first');
+    }
+
+    const snapshot = await this.saveFileCodec.decode(await file.arrayBuffer());
+    const loaded = this.saveSlotService.importSnapshot(snapshot, (seed) =>
+      this.resolveWorldResources(seed)
+    );
+    this.applyLoadedGame(loaded);
+    this.autosaveScheduler.reset();
+    this.showSaveIndicator('Save imported');
+  }
+
+  private async saveToSlot(slotId: string, message: string): Promise<void> {
+    await this.saveSlotService.saveToSlot(slotId);
+    this.showSaveIndicator(message);
+  }
+
+  /**
+   * Persist the current session to the autosave slot (skipped while the character is dead
+   * or a new game's rules are being chosen)
+   */
+  async saveGame(): Promise<void> {
+    if (!this.canAutosave()) return;
+    await this.saveSlotService.saveToSlot(AUTOSAVE_SLOT);
+  }
+
+  /**
+   * Autosaves wait for a respawn, so a death never overwrites the last save of the living,
+   * and for a new game to start
+   */
+  private canAutosave(): boolean {
+    return this.simulation.getCharacter().isAlive && !this.choosingRules;
+  }
+
+  private handleSaveHotkeys(): void {
+    // Nothing to save or replace until the new game's rules are chosen
+    if (!this.gameScene || this.choosingRules) return;
+    const input = this.gameScene.getInputManager();
+
+    if (input.wasKeyJustPressed(SAVE_CONFIG.QUICKSAVE_KEY)) {
+      this.saveToSlot(QUICKSAVE_SLOT, 'Quicksaved').catch((error) => {
+        console.error('Quicksave failed:', error);
+        this.showSaveIndicator('Quicksave failed');
+      });
+    }
+
+    if (input.wasKeyJustPressed(SAVE_CONFIG.QUICKLOAD_KEY)) {
+      this.loadSlot(QUICKSAVE_SLOT)
+        .then(() => this.showSaveIndicator('Quickloaded'))
+        .catch((error) => {
+          console.error('Quickload failed:', error);
+          this.showSaveIndicator('No quicksave to load');
+        });
+    }
+
+    // Toggle save/load menu (P)
+    if (input.wasKeyJustPressed('p')) {
+      this.saveSlotPanel?.toggle();
     }
+  }
+
+  private showSaveIndicator(text: string): void {
+    if (!this.saveIndicatorEl) return;
+
+    this.saveIndicatorEl.textContent = text;
+    this.saveIndicatorEl.style.display = 'block';
+    if (this.saveIndicatorTimeout !== null) {
+      clearTimeout(this.saveIndicatorTimeout);
+    }
+    this.saveIndicatorTimeout = window.setTimeout(() => {
+      if (this.saveIndicatorEl) {
+        this.saveIndicatorEl.style.display = 'none';
+      }
+    }, 2000);
+  }
+
+  /**
+   * Pause or resume the simulation (e.g. while the tab is hidden). The world stays
+   * paused until a new game's rules are chosen.
+   */
+  setPaused(paused: boolean): void {
+    if (paused) {
+      this.simulation.clock.pause();
+    } else if (!this.choosingRules) {
+      this.simulation.clock.resume();
+    }
+  }
+
+  /**
+   * Browser-side work after each simulation step
+   */
+  private fixedUpdate(deltaTime: number): void {
+    // A jump pressed this frame takes off on the tick; a replay re-runs the recorded jumps itself
+    if (this.jumpRequested) {
+      this.jumpRequested = false;
+      if (
+        this.gameScene?.isGrounded() &&
+        !this.simulation.isSleeping() &&
+        !this.replayController?.isReplaying()
+      ) {
+        this.simulation.jump();
+      }
+    }
+
+    // Apply weather movement modifier and the sprint lockout before the player moves this tick;
+    // the dead stay where they fell
+    const alive = this.simulation.getCharacter().isAlive;
+    this.gameScene?.setMovementModifier(alive ? this.simulation.weather.getMovementModifier() : 0);
+    this.gameScene?.setSprintAllowed(this.simulation.canSprint());
+    this.gameScene?.fixedUpdate(deltaTime);
+    const playerPos = this.gameScene?.getPlayerPosition();
+    if (playerPos) {
+      this.simulation.setPlayerPosition(playerPos.x, playerPos.y, playerPos.z);
+    }
+    // A replay re-runs the recorded gathers itself
+    if (!this.replayController?.isReplaying()) {
+      this.interactionController?.tick(deltaTime);
+    }
+    this.syncCharacter();
+  }
+
+  private update(deltaTime: number): void {
+    const input = this.gameScene?.getInputManager();
+    if (input) {
+      const activity = activityFromInput(input.getInputState());
+      this.simulation.setActivity(activity);
+      // Walking off wakes the player up
+      if (
+        activity.isMoving &&
+        this.simulation.isSleeping() &&
+        !this.replayController?.isReplaying()
+      ) {
+        this.simulation.wake();
+      }
+      if (input.wasKeyJustPressed(' ')) {
+        this.jumpRequested = true;
+      }
+    }
+    this.simulation.clock.advance(deltaTime);
+
+    // Draw the player between the last two ticks and light the scene for the current time
+    this.gameScene?.setTimeOfDay(this.simulation.time.getNormalizedTime());
+    this.gameScene?.update(this.simulation.clock.getAlpha());
 
     // Update interaction controller
-    if (this.interactionController && this.gameScene) {
-      const playerPos = this.gameScene.getPlayer().position;
-      this.interactionController.update(deltaTime, playerPos);
+    if (this.interactionController && this.gameScene && !this.replayController?.isReplaying()) {
+      const playerPos = this.gameScene.getPlayerPosition();
+      this.interactionController.update(playerPos);
     }
 
     // Handle UI toggle keys
     this.handleUIToggles();
+    this.handleSaveHotkeys();
+
+    // Track playtime and autosave
+    if (!this.choosingRules) {
+      this.saveSlotService.addPlaytime(deltaTime);
+    }
+    if (this.canAutosave()) {
+      this.autosaveScheduler.update(deltaTime);
+    }
 
     // Update HUD
     this.updateUI();
     this.updateHUD();
+    this.replayPanel?.update();
+    this.eventInspectorPanel?.update(deltaTime);
+
+    // Deliver events queued during the frame
+    this.simulation.eventBus.flush();
 
     // Update previous input state (for edge detection)
     this.gameScene?.getInputManager().updatePreviousState();
@@ -172,95 +625,69 @@ class Application {
       this.craftingPanel?.toggle();
     }
 
-    // Escape closes panels
-    if (input.wasKeyJustPressed('escape')) {
-      if (this.inventoryPanel?.isVisible()) this.inventoryPanel.close();
-      if (this.craftingPanel?.isVisible()) this.craftingPanel.close();
-    }
-  }
-
-  private updateSurvivalMechanics(): void {
-    if (!this.character || !this.character.isAlive) {
-      return;
+    // Toggle record/replay timeline (R)
+    if (input.wasKeyJustPressed(REPLAY_CONFIG.PANEL_KEY)) {
+      this.replayPanel?.toggle();
     }
 
-    // Deplete hunger
-    const newHunger = this.character.stats.hunger - GAME_CONFIG.HUNGER_DEPLETION_RATE / 60;
-    this.character = this.character.updateStats(this.character.stats.withHunger(newHunger));
-
-    // Deplete thirst
-    const newThirst = this.character.stats.thirst - GAME_CONFIG.THIRST_DEPLETION_RATE / 60;
-    this.character = this.character.updateStats(this.character.stats.withThirst(newThirst));
-
-    // Regenerate stamina if not moving
-    const inputManager = this.gameScene?.getInputManager();
-    if (inputManager && !inputManager.isMoving() && !inputManager.isSprinting()) {
-      const newStamina = Math.min(
-        this.character.stats.stamina + GAME_CONFIG.STAMINA_REGEN_RATE / 60,
-        this.character.stats.maxStamina
-      );
-      this.character = this.character.updateStats(this.character.stats.withStamina(newStamina));
+    // Sleep or wake up (Z)
+    if (input.wasKeyJustPressed(FATIGUE_CONFIG.SLEEP_KEY)) {
+      this.toggleSleep();
     }
 
-    // Temperature: body temp drifts toward effective environment temp
-    const envTemp = this.timeService.getEnvironmentTemperature() + this.weatherService.getTemperatureModifier();
-    const bodyTemp = this.character.stats.temperature;
-    const tempDiff = envTemp - bodyTemp;
-    // Drift rate: move 0.5 degree per second toward environment temp
-    const drift = Math.sign(tempDiff) * Math.min(Math.abs(tempDiff), GAME_CONFIG.BASE_COOLING_RATE / 60);
-    const newTemp = bodyTemp + drift;
-    this.character = this.character.updateTemperature(newTemp);
-
-    // Hypothermia damage
-    if (this.character.stats.temperature < GAME_CONFIG.HYPOTHERMIA_THRESHOLD) {
-      this.character = this.character.takeDamage(1);
+    // Toggle event inspector (F3)
+    if (input.wasKeyJustPressed(DEBUG_CONFIG.EVENT_INSPECTOR_KEY)) {
+      this.eventInspectorPanel?.toggle();
     }
 
-    // Starvation / dehydration damage
-    if (this.character.stats.isStarving()) {
-      this.character = this.character.takeDamage(0.5);
-    }
-    if (this.character.stats.isDehydrated()) {
-      this.character = this.character.takeDamage(0.5);
+    // Escape closes panels
+    if (input.wasKeyJustPressed('escape')) {
+      if (this.inventoryPanel?.isVisible()) this.inventoryPanel.close();
+      if (this.craftingPanel?.isVisible()) this.craftingPanel.close();
+      if (this.saveSlotPanel?.isVisible()) this.saveSlotPanel.close();
+      if (this.replayPanel?.isVisible()) this.replayPanel.close();
+      if (this.eventInspectorPanel?.isVisible()) this.eventInspectorPanel.close();
     }
+  }
 
-    // Update character references in use cases and panels
-    this.gatherUseCase?.setCharacter(this.character);
-    this.craftUseCase?.setCharacter(this.character);
-    this.inventoryPanel?.setCharacter(this.character);
-    this.craftingPanel?.setCharacter(this.character);
-
-    // Log status changes
-    const status = this.character.getStatusSummary();
-    if (status.needsFood || status.needsWater || status.needsWarmth) {
-      console.warn('Character needs:', {
-        food: status.needsFood,
-        water: status.needsWater,
-        warmth: status.needsWarmth,
-      });
+  /**
+   * Report when the simulation's character starts or stops needing food, water or warmth
+   */
+  private syncCharacter(): void {
+    const character = this.simulation.getCharacter();
+
+    // Log status changes (only when they change; this runs every tick)
+    const status = character.getStatusSummary();
+    const needs = { food: status.needsFood, water: status.needsWater, warmth: status.needsWarmth };
+    const needsKey = JSON.stringify(needs);
+    if (needsKey !== this.lastNeedsWarning) {
+      this.lastNeedsWarning = needsKey;
+      if (status.needsFood || status.needsWater || status.needsWarmth) {
+        console.warn('Character needs:', needs);
+      }
     }
   }
 
   private updateUI(): void {
-    if (!this.character) return;
-
-    const stats = this.character.stats;
+    const stats = this.simulation.getCharacter().stats;
     this.updateStatBar('health', stats.health, stats.maxHealth);
     this.updateStatBar('hunger', stats.hunger, stats.maxHunger);
     this.updateStatBar('thirst', stats.thirst, stats.maxThirst);
     this.updateStatBar('stamina', stats.stamina, stats.maxStamina);
+    this.updateStatBar('energy', stats.energy, Stats.MAX_ENERGY);
   }
 
   private updateHUD(): void {
     // Time display
     if (this.timeDisplayEl) {
-      this.timeDisplayEl.textContent = `${this.timeService.getFormattedTime()} (${this.timeService.getTimeOfDay()})`;
+      const { time } = this.simulation;
+      this.timeDisplayEl.textContent = `${time.getFormattedTime()} (${time.getTimeOfDay()})`;
     }
 
     // Temperature display
     if (this.tempDisplayEl) {
-      const bodyTemp = this.character?.stats.temperature ?? 37;
-      const envTemp = this.timeService.getEnvironmentTemperature() + this.weatherService.getTemperatureModifier();
+      const bodyTemp = this.simulation.getCharacter().stats.temperature;
+      const envTemp = this.simulation.getEnvironmentTemperature();
       this.tempDisplayEl.textContent = `Body: ${bodyTemp.toFixed(1)}°C | Env: ${envTemp.toFixed(0)}°C`;
 
       // Color coding for danger
@@ -273,9 +700,16 @@ class Application {
       }
     }
 
+    // Wetness display (wet clothes lose heat faster)
+    if (this.wetnessDisplayEl) {
+      const wetness = Math.round(this.simulation.getCharacter().stats.wetness);
+      this.wetnessDisplayEl.textContent = wetness > 0 ? `${wetness}%` : 'Dry';
+      this.wetnessDisplayEl.style.color = wetness >= 50 ? '#66bbff' : '#ffffff';
+    }
+
     // Weather display
     if (this.weatherDisplayEl) {
-      const weather = this.weatherService.getWeather();
+      const weather = this.simulation.weather.getWeather();
       const weatherIcons: Record<string, string> = {
         clear: 'Clear',
         cloudy: 'Cloudy',
@@ -284,6 +718,51 @@ class Application {
       };
       this.weatherDisplayEl.textContent = weatherIcons[weather] ?? weather;
     }
+
+    // Warming indicator (only touch the DOM when it flips)
+    const isWarming = this.simulation.isWarmingUp();
+    if (this.warmingIndicatorEl && isWarming !== this.isWarmingShown) {
+      this.isWarmingShown = isWarming;
+      this.warmingIndicatorEl.style.display = isWarming ? 'block' : 'none';
+    }
+
+    // Stamina state (only touch the DOM when it changes)
+    const staminaState = this.simulation.getStaminaState();
+    if (this.staminaStateEl && staminaState !== this.staminaStateShown) {
+      this.staminaStateShown = staminaState;
+      const labels: Record<StaminaState, string> = {
+        normal: '',
+        sprinting: 'Sprinting',
+        exhausted: 'Exhausted',
+      };
+      this.staminaStateEl.textContent = labels[staminaState];
+      this.staminaStateEl.className = `stamina-state ${staminaState}`;
+      document
+        .getElementById('stamina-bar')
+        ?.classList.toggle('exhausted', staminaState === 'exhausted');
+    }
+
+    this.updateCorpseMarker();
+
+    // Status effect icons
+    this.statusEffectsHud?.update(this.simulation.getCharacter().statusEffects);
+  }
+
+  /**
+   * Distance and compass direction to the nearest corpse (+z is north)
+   */
+  private updateCorpseMarker(): void {
+    if (!this.corpseMarkerEl || !this.corpseDisplayEl) return;
+
+    const { position } = this.simulation.getCharacter();
+    const corpse = this.simulation.corpses.findNearest(position, Infinity);
+    this.corpseMarkerEl.style.display = corpse ? '' : 'none';
+    if (!corpse) return;
+
+    const angle = Math.atan2(corpse.position.x - position.x, corpse.position.z - position.z);
+    const directions = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+    const index = (Math.round(angle / (Math.PI / 4)) + directions.length) % directions.length;
+    this.corpseDisplayEl.textContent = `${Math.round(corpse.distanceTo(position))} m ${directions[index]}`;
   }
 
   private updateStatBar(statName: string, current: number, max: number): void {
@@ -311,17 +790,29 @@ class Application {
   }
 
   dispose(): void {
-    if (this.updateInterval !== null) {
-      clearInterval(this.updateInterval);
-    }
+    this.simulation.clock.pause();
     this.inventoryPanel?.dispose();
     this.craftingPanel?.dispose();
+    this.saveSlotPanel?.dispose();
+    this.saveFileDropController?.dispose();
+    this.replayController?.dispose();
+    this.eventJournal?.stop();
+    this.autosaveScheduler.dispose();
     this.gameScene?.dispose();
-    this.eventBus.clear();
+    this.simulation.eventBus.clear();
     this.engine.dispose();
   }
 }
 
+/**
+ * Optional world seed from the page URL (?seed=123), for sharing worlds
+ */
+function readSeedFromUrl(): number | null {
+  const param = new URLSearchParams(window.location.search).get('seed');
+  const seed = param === null ? NaN : Number(param);
+  return Number.isInteger(seed) ? seed : null;
+}
+
 // Initialize application when DOM is ready
 window.addEventListener('DOMContentLoaded', () => {
   const app = new Application();
@@ -331,6 +822,17 @@ window.addEventListener('DOMContentLoaded', () => {
       console.error('Failed to initialize application:', error);
     });
 
+  // Pause and save when the tab is hidden: unload handlers can't await IndexedDB writes
+  document.addEventListener('visibilitychange', () => {
+    const hidden = document.visibilityState === 'hidden';
+    app.setPaused(hidden);
+    if (hidden) {
+      app.saveGame().catch((error) => {
+        console.error('Failed to save game:', error);
+      });
+    }
+  });
+
   window.addEventListener('beforeunload', () => {
     app.dispose();
   });
@@ -1,19 +1,22 @@
 import { Vector3 } from '@babylonjs/core';
 import { InputManager } from '@infrastructure/babylon/InputManager';
 import { ResourceManager } from '@infrastructure/babylon/ResourceManager';
-import { GatherResourceUseCase, IGatherResult } from '@application/use-cases/GatherResourceUseCase';
+import { IGatherResult } from '@application/use-cases/GatherResourceUseCase';
+import { GameSimulation } from '@application/simulation/GameSimulation';
 import { Resource } from '@domain/entities/Resource';
+import { Position } from '@domain/value-objects/Position';
+import { DEATH_CONFIG } from '@shared/constants/GameConstants';
 
 const INTERACTION_DISTANCE = 5;
 
 /**
- * Handles player interaction with world resources.
+ * Handles player interaction with world resources and corpses.
  * Shows interaction prompts, manages gather progress bar, and floating feedback text.
  */
 export class InteractionController {
   private inputManager: InputManager;
   private resourceManager: ResourceManager;
-  private gatherUseCase: GatherResourceUseCase;
+  private simulation: GameSimulation;
 
   private nearbyResource: { resource: Resource; name: string } | null = null;
   private isGathering: boolean = false;
@@ -30,11 +33,11 @@ export class InteractionController {
   constructor(
     inputManager: InputManager,
     resourceManager: ResourceManager,
-    gatherUseCase: GatherResourceUseCase
+    simulation: GameSimulation
   ) {
     this.inputManager = inputManager;
     this.resourceManager = resourceManager;
-    this.gatherUseCase = gatherUseCase;
+    this.simulation = simulation;
 
     this.promptEl = document.getElementById('interaction-prompt');
     this.progressBarEl = document.getElementById('gather-progress');
@@ -43,16 +46,19 @@ export class InteractionController {
   }
 
   /**
-   * Update interaction state each frame
+   * Update prompts and gather input each frame
    */
-  update(deltaTime: number, playerPosition: Vector3): void {
+  update(playerPosition: Vector3): void {
+    // A corpse in reach takes priority over resources
+    if (this.updateCorpse(playerPosition)) return;
+
     // Find nearest resource
     const nearest = this.resourceManager.findNearestResource(playerPosition, INTERACTION_DISTANCE);
 
     if (nearest) {
       const resource = this.resourceManager.getResource(nearest);
       this.nearbyResource = { resource, name: resource.config.name };
-      this.showPrompt(resource.config.name);
+      this.showPrompt(`Press E to gather ${resource.config.name}`);
     } else {
       this.nearbyResource = null;
       this.hidePrompt();
@@ -68,12 +74,49 @@ export class InteractionController {
       if (!this.isGathering) {
         this.startGather(this.nearbyResource.resource);
       }
-      this.updateGather(deltaTime);
     } else if (this.isGathering) {
       this.cancelGather();
     }
   }
 
+  /**
+   * Show the loot prompt near a corpse and loot it on E/F. Returns whether a corpse is in reach.
+   */
+  private updateCorpse(playerPosition: Vector3): boolean {
+    const { x, y, z } = playerPosition;
+    const corpse = this.simulation.corpses.findNearest(
+      Position.create(x, y, z),
+      DEATH_CONFIG.LOOT_RANGE
+    );
+    if (!corpse || !this.simulation.getCharacter().isAlive) return false;
+
+    this.nearbyResource = null;
+    this.cancelGather();
+    this.showPrompt(`Press E to loot ${corpse.characterName}'s body`);
+    if (this.inputManager.wasKeyJustPressed('e') || this.inputManager.wasKeyJustPressed('f')) {
+      this.showFeedback(this.simulation.loot(corpse.id).message);
+    }
+    return true;
+  }
+
+  /**
+   * Advance gather progress by one simulation tick
+   */
+  tick(deltaTime: number): void {
+    if (this.isGathering) {
+      this.updateGather(deltaTime);
+    }
+  }
+
+  /**
+   * Hide the prompt and drop any gather in progress (e.g. while a replay drives the player)
+   */
+  suspend(): void {
+    this.nearbyResource = null;
+    this.hidePrompt();
+    this.cancelGather();
+  }
+
   private startGather(resource: Resource): void {
     this.isGathering = true;
     this.gatherProgress = 0;
@@ -91,7 +134,7 @@ export class InteractionController {
 
     if (this.gatherProgress >= this.gatherTime) {
       // Execute gather
-      const result = this.gatherUseCase.execute(this.currentGatherResource);
+      const result = this.simulation.gather(this.currentGatherResource.id);
       this.onGatherComplete(result);
 
       // Reset progress for next hit (if resource still alive)
@@ -118,9 +161,9 @@ export class InteractionController {
   }
 
   // UI helpers
-  private showPrompt(name: string): void {
+  private showPrompt(text: string): void {
     if (this.promptEl) {
-      this.promptEl.textContent = `Press E to gather ${name}`;
+      this.promptEl.textContent = text;
       this.promptEl.style.display = 'block';
     }
   }
@@ -0,0 +1,124 @@
+import { InputManager } from '@infrastructure/babylon/InputManager';
+import { GameSimulation } from '@application/simulation/GameSimulation';
+import { ISaveGameSnapshot } from '@application/persistence/SaveSnapshot';
+import { InputRecorder } from '@application/replay/InputRecorder';
+import { ReplayPlayer } from '@application/replay/ReplayPlayer';
+import {
+  IInputRecording,
+  REPLAY_FILE_EXTENSION,
+  parseRecording,
+} from '@application/replay/InputRecording';
+
+/**
+ * Session hooks the controller needs from the application
+ */
+export interface IReplaySession {
+  captureSnapshot(): ISaveGameSnapshot | null;
+  restoreSnapshot(snapshot: ISaveGameSnapshot): void;
+  placePlayer(x: number, y: number, z: number): void;
+}
+
+/**
+ * Records the live session to a file and plays recordings back.
+ * During playback the recorded input drives the InputManager and the recorded
+ * position places the player.
+ */
+export class ReplayController {
+  private recorder: InputRecorder;
+  private player: ReplayPlayer | null = null;
+
+  constructor(
+    private simulation: GameSimulation,
+    private inputManager: InputManager,
+    private session: IReplaySession
+  ) {
+    this.recorder = new InputRecorder(simulation, () => inputManager.getInputState());
+  }
+
+  isRecording(): boolean {
+    return this.recorder.isRecording();
+  }
+
+  getRecordedTicks(): number {
+    return this.recorder.getLength();
+  }
+
+  /**
+   * The active or last finished replay
+   */
+  getPlayer(): ReplayPlayer | null {
+    return this.player;
+  }
+
+  isReplaying(): boolean {
+    return this.player?.isPlaying() ?? false;
+  }
+
+  startRecording(): void {
+    if (this.isReplaying()) {
+      throw new Error('Stop the replay before recording');
+    }
+    const snapshot = this.session.captureSnapshot();
+    if (!snapshot) {
+      throw new Error('No game in progress to record');
+    }
+    this.recorder.start(snapshot);
+  }
+
+  /**
+   * Stop recording and download the recording
+   */
+  stopRecording(): IInputRecording {
+    const recording = this.recorder.stop();
+    const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${recording.initialSave.metadata.characterName}-${recording.recordedAt}${REPLAY_FILE_EXTENSION}`;
+    link.click();
+    URL.revokeObjectURL(url);
+    return recording;
+  }
+
+  /**
+   * Load a recording from a file and play it from its initial save
+   */
+  async loadReplay(file: File): Promise<void> {
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      throw new Error('Replay file is not valid JSON');
+    }
+    this.startReplay(parseRecording(data));
+  }
+
+  startReplay(recording: IInputRecording): void {
+    if (this.isRecording()) {
+      this.recorder.stop();
+    }
+    this.stopReplay();
+
+    this.session.restoreSnapshot(recording.initialSave);
+    this.player = new ReplayPlayer(this.simulation, recording, (state) =>
+      this.inputManager.setPlaybackState(state)
+    );
+    this.player.onPosition(({ x, y, z }) => this.session.placePlayer(x, y, z));
+    this.simulation.clock.resume();
+    this.player.start();
+  }
+
+  /**
+   * Stop playback; the session continues live from the replayed state
+   */
+  stopReplay(): void {
+    this.player?.stop();
+  }
+
+  dispose(): void {
+    this.stopReplay();
+    if (this.isRecording()) {
+      this.recorder.stop();
+    }
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Accepts save files dropped onto the game canvas.
+ * Highlights the canvas while a file is dragged over it.
+ */
+export class SaveFileDropController {
+  private handleDragOver = (event: DragEvent): void => {
+    if (!event.dataTransfer?.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    this.canvas.classList.add('drop-target');
+  };
+
+  private handleDragLeave = (): void => {
+    this.canvas.classList.remove('drop-target');
+  };
+
+  private handleDrop = (event: DragEvent): void => {
+    event.preventDefault();
+    this.canvas.classList.remove('drop-target');
+
+    const file = event.dataTransfer?.files[0];
+    if (file) {
+      void this.onFileDropped(file);
+    }
+  };
+
+  constructor(
+    private canvas: HTMLCanvasElement,
+    private onFileDropped: (file: File) => Promise<void>
+  ) {
+    canvas.addEventListener('dragover', this.handleDragOver);
+    canvas.addEventListener('dragleave', this.handleDragLeave);
+    canvas.addEventListener('drop', this.handleDrop);
+  }
+
+  dispose(): void {
+    this.canvas.removeEventListener('dragover', this.handleDragOver);
+    this.canvas.removeEventListener('dragleave', this.handleDragLeave);
+    this.canvas.removeEventListener('drop', this.handleDrop);
+  }
+}
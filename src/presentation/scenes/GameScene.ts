@@ -7,12 +7,18 @@ import {
   DirectionalLight,
   ShadowGenerator,
   AbstractMesh,
+  Scalar,
 } from '@babylonjs/core';
 import { InputManager } from '@infrastructure/babylon/InputManager';
 import { EventBus } from '@application/events/EventBus';
 import { DayNightLighting } from '@infrastructure/babylon/DayNightLighting';
 import { WeatherEffects } from '@infrastructure/babylon/WeatherEffects';
 import { ResourceManager } from '@infrastructure/babylon/ResourceManager';
+import { HeatSourceRenderer } from '@infrastructure/babylon/HeatSourceRenderer';
+import { CorpseRenderer } from '@infrastructure/babylon/CorpseRenderer';
+import { RandomService, RandomStream } from '@application/services/RandomService';
+import { Resource } from '@domain/entities/Resource';
+import { MOVEMENT_CONFIG, MOVEMENT_SPEEDS } from '@shared/constants/GameConstants';
 
 /**
  * Main game scene that sets up the 3D environment
@@ -23,26 +29,48 @@ export class GameScene {
   private sunLight!: DirectionalLight;
   private shadowGenerator!: ShadowGenerator;
   private player!: AbstractMesh;
+  private dayNightLighting!: DayNightLighting;
   private weatherEffects: WeatherEffects | null = null;
+  private heatSourceRenderer: HeatSourceRenderer | null = null;
+  private corpseRenderer: CorpseRenderer | null = null;
   private resourceManager: ResourceManager;
   private movementModifier: number = 1.0;
+  // Simulated player transform at the last two ticks; the mesh is drawn between them
+  private playerPosition = new Vector3(0, 1, 0);
+  private previousPlayerPosition = new Vector3(0, 1, 0);
+  private playerYaw: number = 0;
+  private previousPlayerYaw: number = 0;
+  private isPlayerMoving: boolean = false;
+  private sprintAllowed: boolean = true;
+  private verticalVelocity: number = 0;
+  private airborne: boolean = false;
+  private normalizedTime: number = 0.333;
+  private randomService: RandomService | null;
+  private worldSeed: number | null = null;
 
-  constructor(scene: Scene, eventBus?: EventBus) {
+  constructor(scene: Scene, eventBus?: EventBus, randomService?: RandomService) {
     this.scene = scene;
+    this.randomService = randomService ?? null;
     this.inputManager = new InputManager(scene);
-    this.resourceManager = new ResourceManager(scene);
+    this.resourceManager = new ResourceManager(scene, randomService?.stream(RandomStream.LOOT));
 
     this.setupEnvironment();
+    this.dayNightLighting = new DayNightLighting(scene, this.sunLight);
 
     if (eventBus) {
-      // DayNightLighting stays alive via EventBus subscription
-      new DayNightLighting(scene, this.sunLight, eventBus);
       this.weatherEffects = new WeatherEffects(scene, eventBus);
       this.weatherEffects.setPlayerRef(this.player);
+      this.heatSourceRenderer = new HeatSourceRenderer(scene, eventBus);
+      this.corpseRenderer = new CorpseRenderer(scene, eventBus);
     }
 
-    // Spawn world resources
-    this.resourceManager.spawnResources();
+    // Spawn world resources (layout derives from the world seed when one is provided)
+    if (this.randomService) {
+      this.worldSeed = this.randomService.getSeed();
+      this.resourceManager.spawnResources(this.randomService.fork(RandomStream.WORLD_GEN));
+    } else {
+      this.resourceManager.spawnResources();
+    }
   }
 
   private setupEnvironment(): void {
@@ -93,6 +121,41 @@ export class GameScene {
     (this.scene as Scene & { player?: AbstractMesh }).player = this.player;
   }
 
+  /**
+   * Teleport the player mesh (e.g. when restoring a saved game)
+   */
+  setPlayerPosition(x: number, y: number, z: number): void {
+    this.playerPosition.set(x, y, z);
+    this.previousPlayerPosition.set(x, y, z);
+    this.player.position.set(x, y, z);
+  }
+
+  /**
+   * Override where the player ended up this tick (replays), still drawn moving from the last tick
+   */
+  setSimulatedPlayerPosition(x: number, y: number, z: number): void {
+    this.playerPosition.set(x, y, z);
+  }
+
+  /**
+   * Simulated player position as of the last tick (the mesh is interpolated behind it)
+   */
+  getPlayerPosition(): Vector3 {
+    return this.playerPosition;
+  }
+
+  /**
+   * Make sure the world layout matches a seed, regenerating it if needed. Returns the resources.
+   */
+  ensureWorldSeed(seed: number): Resource[] {
+    if (this.randomService && this.worldSeed !== seed) {
+      this.randomService.reseed(seed);
+      this.worldSeed = seed;
+      this.resourceManager.regenerate(this.randomService.fork(RandomStream.WORLD_GEN));
+    }
+    return this.resourceManager.getResources();
+  }
+
   /**
    * Set weather movement speed modifier
    */
@@ -100,16 +163,57 @@ export class GameScene {
     this.movementModifier = modifier;
   }
 
-  update(deltaTime: number): void {
-    this.handlePlayerMovement(deltaTime);
+  /**
+   * Whether holding sprint runs (false while the character is exhausted)
+   */
+  setSprintAllowed(allowed: boolean): void {
+    this.sprintAllowed = allowed;
+  }
+
+  /**
+   * Launch the player upward from the next tick; ignored while already in the air
+   */
+  jump(): void {
+    if (this.airborne) return;
+    this.airborne = true;
+    this.verticalVelocity = MOVEMENT_CONFIG.JUMP_VELOCITY;
+  }
+
+  isGrounded(): boolean {
+    return !this.airborne;
+  }
+
+  /**
+   * Set the normalized time of day (0-1) the lighting shows
+   */
+  setTimeOfDay(normalizedTime: number): void {
+    this.normalizedTime = normalizedTime;
+  }
+
+  /**
+   * Per-frame update: draw the player between the last two ticks, lighting, camera and visual
+   * effects. alpha is the fraction of the next tick already accumulated (SimulationClock.getAlpha).
+   */
+  update(alpha: number): void {
+    this.interpolatePlayer(alpha);
+    this.followPlayer();
+    this.dayNightLighting.update(this.normalizedTime);
     this.weatherEffects?.update();
-    this.resourceManager.update(deltaTime);
+  }
+
+  /**
+   * Per-tick update: player movement and jumps (resource respawns tick in the simulation)
+   */
+  fixedUpdate(deltaTime: number): void {
+    this.handlePlayerMovement(deltaTime);
   }
 
   private handlePlayerMovement(deltaTime: number): void {
-    if (!this.player) return;
+    this.previousPlayerPosition.copyFrom(this.playerPosition);
+    this.previousPlayerYaw = this.playerYaw;
 
-    const baseSpeed = this.inputManager.isSprinting() ? 6 : 3;
+    const sprinting = this.sprintAllowed && this.inputManager.isSprinting();
+    const baseSpeed = sprinting ? MOVEMENT_SPEEDS.RUN : MOVEMENT_SPEEDS.WALK;
     const speed = baseSpeed * this.movementModifier;
     const moveDistance = speed * deltaTime;
 
@@ -120,19 +224,33 @@ export class GameScene {
     if (this.inputManager.isMovingLeft()) direction.x -= 1;
     if (this.inputManager.isMovingRight()) direction.x += 1;
 
-    if (direction.length() > 0) {
+    this.isPlayerMoving = direction.length() > 0;
+    if (this.isPlayerMoving) {
       direction.normalize();
-      this.player.position.addInPlace(direction.scaleInPlace(moveDistance));
+      this.playerYaw = Math.atan2(direction.x, direction.z);
+      this.playerPosition.addInPlace(direction.scaleInPlace(moveDistance));
+    }
+    this.applyGravity(deltaTime);
+  }
 
-      if (this.player.rotation) {
-        this.player.rotation.y = Math.atan2(direction.x, direction.z);
-      }
+  private interpolatePlayer(alpha: number): void {
+    if (!this.player) return;
 
-      const bounceAmount = Math.sin(Date.now() * 0.01) * 0.1;
-      this.player.position.y = 1 + Math.abs(bounceAmount);
+    Vector3.LerpToRef(
+      this.previousPlayerPosition,
+      this.playerPosition,
+      alpha,
+      this.player.position
+    );
+    this.player.rotation.y = Scalar.LerpAngle(this.previousPlayerYaw, this.playerYaw, alpha);
+
+    // Walking bounce is purely visual, so it follows the frame clock
+    if (this.isPlayerMoving && !this.airborne) {
+      this.player.position.y += Math.abs(Math.sin(Date.now() * 0.01) * 0.1);
     }
+  }
 
-    // Smooth camera follow
+  private followPlayer(): void {
     if (this.scene.activeCamera) {
       const camera = this.scene.activeCamera as { target?: Vector3 };
       if (camera.target) {
@@ -141,6 +259,20 @@ export class GameScene {
     }
   }
 
+  private applyGravity(deltaTime: number): void {
+    if (!this.airborne) return;
+
+    this.verticalVelocity -= MOVEMENT_CONFIG.GRAVITY * deltaTime;
+    const y = this.playerPosition.y + this.verticalVelocity * deltaTime;
+    if (y <= MOVEMENT_CONFIG.GROUND_HEIGHT) {
+      this.playerPosition.y = MOVEMENT_CONFIG.GROUND_HEIGHT;
+      this.verticalVelocity = 0;
+      this.airborne = false;
+    } else {
+      this.playerPosition.y = y;
+    }
+  }
+
   getInputManager(): InputManager {
     return this.inputManager;
   }
@@ -157,8 +289,18 @@ export class GameScene {
     return this.resourceManager;
   }
 
+  getHeatSourceRenderer(): HeatSourceRenderer | null {
+    return this.heatSourceRenderer;
+  }
+
+  getCorpseRenderer(): CorpseRenderer | null {
+    return this.corpseRenderer;
+  }
+
   dispose(): void {
     this.weatherEffects?.dispose();
+    this.heatSourceRenderer?.dispose();
+    this.corpseRenderer?.dispose();
     this.inputManager.dispose();
   }
 }
@@ -1,6 +1,7 @@
 import { Inventory } from '@domain/entities/Inventory';
 import { Character } from '@domain/entities/Character';
-import { CraftItemUseCase, CraftingRecipes, ICraftingRecipe } from '@application/use-cases/CraftItemUseCase';
+import { CraftingRecipes, ICraftingRecipe } from '@application/use-cases/CraftItemUseCase';
+import { GameSimulation } from '@application/simulation/GameSimulation';
 import { EventBus, GameEventType, InventoryChangedEvent, ItemCraftedEvent } from '@application/events/EventBus';
 
 /**
@@ -9,7 +10,7 @@ import { EventBus, GameEventType, InventoryChangedEvent, ItemCraftedEvent } from
  */
 export class CraftingPanel {
   private inventory: Inventory;
-  private craftUseCase: CraftItemUseCase;
+  private simulation: GameSimulation;
   private eventBus: EventBus;
 
   private panelEl: HTMLElement | null;
@@ -20,28 +21,36 @@ export class CraftingPanel {
   constructor(
     inventory: Inventory,
     _character: Character,
-    craftUseCase: CraftItemUseCase,
+    simulation: GameSimulation,
     eventBus: EventBus
   ) {
     this.inventory = inventory;
-    this.craftUseCase = craftUseCase;
+    this.simulation = simulation;
     this.eventBus = eventBus;
 
     this.panelEl = document.getElementById('crafting-panel');
     this.recipeListEl = document.getElementById('crafting-recipes');
     this.statusEl = document.getElementById('crafting-status');
 
-    // Refresh when inventory changes
+    // Refresh when inventory changes, or a new fire makes cooking recipes available
     eventBus.subscribe<InventoryChangedEvent>(GameEventType.INVENTORY_CHANGED, () => {
       if (this.isOpen) {
         this.render();
       }
     });
+    eventBus.subscribe(GameEventType.HEAT_SOURCE_PLACED, () => {
+      if (this.isOpen) {
+        this.render();
+      }
+    });
   }
 
-  setCharacter(character: Character): void {
-    // Character is updated on the CraftItemUseCase directly
-    this.craftUseCase.setCharacter(character);
+  setInventory(inventory: Inventory): void {
+    // Crafting itself reads from the simulation's inventory
+    this.inventory = inventory;
+    if (this.isOpen) {
+      this.render();
+    }
   }
 
   toggle(): void {
@@ -81,7 +90,7 @@ export class CraftingPanel {
     const el = document.createElement('div');
     el.className = 'crafting-recipe';
 
-    const preview = this.craftUseCase.preview(recipe);
+    const preview = this.simulation.craftUseCase.preview(recipe);
 
     // Materials list
     let materialsHtml = '';
@@ -94,7 +103,7 @@ export class CraftingPanel {
     el.innerHTML = `
       <div class="recipe-header">
         <span class="recipe-name">${recipe.name}</span>
-        <span class="recipe-time">${recipe.craftingTime}s</span>
+        <span class="recipe-time">${recipe.requiresHeat ? '🔥 ' : ''}${recipe.craftingTime}s</span>
       </div>
       <div class="recipe-desc">${recipe.description}</div>
       <div class="recipe-materials">${materialsHtml}</div>
@@ -113,7 +122,8 @@ export class CraftingPanel {
   }
 
   private craft(recipe: ICraftingRecipe): void {
-    const result = this.craftUseCase.execute(recipe);
+    // Through the simulation so the craft is recorded for replays
+    const result = this.simulation.craft(recipe.id);
 
     if (result.success) {
       // Publish events
@@ -122,7 +132,7 @@ export class CraftingPanel {
         itemId: recipe.resultItem.id,
         itemName: recipe.name,
       });
-      this.eventBus.publish<InventoryChangedEvent>({
+      this.eventBus.enqueueLatest<InventoryChangedEvent>({
         type: GameEventType.INVENTORY_CHANGED,
       });
 
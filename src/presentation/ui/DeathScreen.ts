@@ -0,0 +1,61 @@
+import { CharacterDiedEvent, EventBus, GameEventType } from '@application/events/EventBus';
+import { GameSimulation } from '@application/simulation/GameSimulation';
+import { DamageCause } from '@domain/events/CharacterEvents';
+
+const CAUSE_MESSAGES: Record<DamageCause, string> = {
+  [DamageCause.HYPOTHERMIA]: 'You froze to death',
+  [DamageCause.STARVATION]: 'You starved to death',
+  [DamageCause.DEHYDRATION]: 'You died of thirst',
+  [DamageCause.FOOD_POISONING]: 'Food poisoning killed you',
+  [DamageCause.OTHER]: 'You died',
+};
+
+/**
+ * Full-screen overlay shown on CHARACTER_DIED with the cause of death and a button
+ * per respawn point (the spawn point and every camp). Hidden on CHARACTER_RESPAWNED.
+ */
+export class DeathScreen {
+  private screenEl: HTMLElement | null;
+  private causeEl: HTMLElement | null;
+  private pointsEl: HTMLElement | null;
+
+  constructor(
+    private simulation: GameSimulation,
+    eventBus: EventBus,
+    private onRespawn: (pointId: string) => void
+  ) {
+    this.screenEl = document.getElementById('death-screen');
+    this.causeEl = document.getElementById('death-cause');
+    this.pointsEl = document.getElementById('respawn-points');
+
+    eventBus.subscribe<CharacterDiedEvent>(GameEventType.CHARACTER_DIED, (event) => {
+      this.show(event.cause);
+    });
+    eventBus.subscribe(GameEventType.CHARACTER_RESPAWNED, () => this.hide());
+  }
+
+  show(cause: DamageCause): void {
+    if (this.causeEl) {
+      this.causeEl.textContent = CAUSE_MESSAGES[cause];
+    }
+    if (this.pointsEl) {
+      this.pointsEl.innerHTML = '';
+      for (const point of this.simulation.getRespawnPoints()) {
+        const button = document.createElement('button');
+        button.className = 'respawn-button';
+        button.textContent = `Respawn at the ${point.name.toLowerCase()}`;
+        button.addEventListener('click', () => this.onRespawn(point.id));
+        this.pointsEl.appendChild(button);
+      }
+    }
+    if (this.screenEl) {
+      this.screenEl.style.display = 'flex';
+    }
+  }
+
+  hide(): void {
+    if (this.screenEl) {
+      this.screenEl.style.display = 'none';
+    }
+  }
+}
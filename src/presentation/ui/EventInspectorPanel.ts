@@ -0,0 +1,177 @@
+import { GameEventType } from '@application/events/EventBus';
+import { EventJournal, IJournalEntry } from '@application/events/EventJournal';
+import { DEBUG_CONFIG } from '@shared/constants/GameConstants';
+
+/**
+ * Wall-clock time as HH:MM:SS.mmm
+ */
+function formatClockTime(time: number): string {
+  return new Date(time).toISOString().slice(11, 23);
+}
+
+/**
+ * Dev overlay over the event journal, toggled with F3.
+ * Opening it the first time starts the journal; capture then continues until paused.
+ */
+export class EventInspectorPanel {
+  private panelEl: HTMLElement | null;
+  private listEl: HTMLElement | null;
+  private summaryEl: HTMLElement | null;
+  private pauseButton: HTMLButtonElement | null;
+  private payloadToggleEl: HTMLInputElement | null;
+  private activeTypes = new Set<GameEventType>(Object.values(GameEventType));
+  private renderedCount: number = -1;
+  private sinceRender: number = 0;
+  private isOpen: boolean = false;
+
+  constructor(private journal: EventJournal) {
+    this.panelEl = document.getElementById('event-inspector');
+    this.listEl = document.getElementById('event-list');
+    this.summaryEl = document.getElementById('event-summary');
+    this.pauseButton = document.getElementById('event-pause-button') as HTMLButtonElement | null;
+    this.payloadToggleEl = document.getElementById(
+      'event-payload-toggle'
+    ) as HTMLInputElement | null;
+
+    this.createFilters();
+    this.pauseButton?.addEventListener('click', () => this.togglePause());
+    this.payloadToggleEl?.addEventListener('change', () => this.invalidate());
+    document.getElementById('event-clear-button')?.addEventListener('click', () => {
+      this.journal.clear();
+      this.invalidate();
+    });
+    document.getElementById('event-export-button')?.addEventListener('click', () => this.export());
+  }
+
+  toggle(): void {
+    this.isOpen = !this.isOpen;
+    if (this.panelEl) {
+      this.panelEl.style.display = this.isOpen ? 'block' : 'none';
+    }
+    if (this.isOpen) {
+      this.journal.start();
+      this.invalidate();
+    }
+  }
+
+  isVisible(): boolean {
+    return this.isOpen;
+  }
+
+  close(): void {
+    this.isOpen = false;
+    if (this.panelEl) {
+      this.panelEl.style.display = 'none';
+    }
+  }
+
+  /**
+   * Re-render when new events arrived, at most every DEBUG_CONFIG.EVENT_INSPECTOR_REFRESH seconds
+   */
+  update(deltaTime: number): void {
+    if (!this.isOpen) return;
+
+    this.sinceRender += deltaTime;
+    if (
+      this.sinceRender < DEBUG_CONFIG.EVENT_INSPECTOR_REFRESH ||
+      this.journal.getRecordedCount() === this.renderedCount
+    ) {
+      return;
+    }
+    this.render();
+  }
+
+  private invalidate(): void {
+    this.renderedCount = -1;
+    this.sinceRender = DEBUG_CONFIG.EVENT_INSPECTOR_REFRESH;
+  }
+
+  private createFilters(): void {
+    const filtersEl = document.getElementById('event-filters');
+    if (!filtersEl) return;
+
+    for (const type of Object.values(GameEventType)) {
+      const label = document.createElement('label');
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = true;
+      checkbox.addEventListener('change', () => {
+        if (checkbox.checked) {
+          this.activeTypes.add(type);
+        } else {
+          this.activeTypes.delete(type);
+        }
+        this.invalidate();
+      });
+      label.append(checkbox, type);
+      filtersEl.appendChild(label);
+    }
+  }
+
+  private render(): void {
+    this.renderedCount = this.journal.getRecordedCount();
+    this.sinceRender = 0;
+
+    if (this.pauseButton) {
+      this.pauseButton.textContent = this.journal.isPaused() ? 'Resume capture' : 'Pause capture';
+    }
+
+    const entries = this.journal.getEntries(this.activeTypes);
+    if (this.summaryEl) {
+      const dropped = this.journal.getDroppedCount();
+      this.summaryEl.textContent =
+        `${entries.length} shown | ${this.renderedCount} recorded` +
+        (dropped > 0 ? ` | ${dropped} overwritten` : '') +
+        (this.journal.isPaused() ? ' | paused' : '');
+    }
+
+    if (!this.listEl) return;
+    const showPayloads = this.payloadToggleEl?.checked ?? false;
+    const rows = entries.slice(-DEBUG_CONFIG.EVENT_INSPECTOR_ROWS).reverse();
+    this.listEl.replaceChildren(...rows.map((entry) => this.createRow(entry, showPayloads)));
+  }
+
+  private createRow(entry: IJournalEntry, showPayload: boolean): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'event-row';
+
+    const meta = document.createElement('span');
+    meta.className = 'event-meta';
+    meta.textContent = `#${entry.sequence} tick ${entry.tick} ${formatClockTime(entry.time)}`;
+    const type = document.createElement('span');
+    type.className = 'event-type';
+    type.textContent = entry.event.type;
+    row.append(meta, type);
+
+    if (showPayload) {
+      const payloadEl = document.createElement('pre');
+      payloadEl.className = 'event-payload';
+      payloadEl.textContent = JSON.stringify(entry.event, null, 1);
+      row.appendChild(payloadEl);
+    }
+    return row;
+  }
+
+  private togglePause(): void {
+    if (this.journal.isPaused()) {
+      this.journal.resume();
+    } else {
+      this.journal.pause();
+    }
+    this.invalidate();
+  }
+
+  /**
+   * Download the filtered journal as JSON
+   */
+  private export(): void {
+    const data = this.journal.toJSON(this.activeTypes);
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `event-journal-${data.exportedAt}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
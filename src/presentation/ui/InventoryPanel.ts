@@ -1,8 +1,14 @@
 import { Inventory, IInventorySlot } from '@domain/entities/Inventory';
 import { Item, ItemType } from '@domain/entities/Item';
-import { EventBus, GameEventType, InventoryChangedEvent } from '@application/events/EventBus';
+import {
+  EventBus,
+  GameEventType,
+  InventoryChangedEvent,
+  ItemDroppedEvent,
+} from '@application/events/EventBus';
 import { ContextMenu, IContextMenuAction } from './ContextMenu';
-import { Character } from '@domain/entities/Character';
+import { HeatSource } from '@domain/entities/HeatSource';
+import { FRESHNESS_CONFIG } from '@shared/constants/GameConstants';
 
 /** Emoji icons for item types */
 const ITEM_ICONS: Record<string, string> = {
@@ -26,7 +32,6 @@ function getItemIcon(itemId: string, type: ItemType): string {
  */
 export class InventoryPanel {
   private inventory: Inventory;
-  private character: Character;
   private eventBus: EventBus;
   private contextMenu: ContextMenu;
 
@@ -36,11 +41,23 @@ export class InventoryPanel {
   private tooltipEl: HTMLElement | null;
   private isOpen: boolean = false;
   private dragSourceSlot: number = -1;
-
-  constructor(inventory: Inventory, character: Character, eventBus: EventBus) {
+  private onUse: (slotIndex: number) => void;
+  private onPlace: ((itemId: string) => void) | null;
+
+  /**
+   * onUse eats or drinks one item from a slot (through the simulation, so it is recorded);
+   * onPlace places a heat-source item in the world, and without it items cannot be placed
+   */
+  constructor(
+    inventory: Inventory,
+    eventBus: EventBus,
+    onUse: (slotIndex: number) => void,
+    onPlace?: (itemId: string) => void
+  ) {
     this.inventory = inventory;
-    this.character = character;
     this.eventBus = eventBus;
+    this.onUse = onUse;
+    this.onPlace = onPlace ?? null;
     this.contextMenu = new ContextMenu();
 
     this.panelEl = document.getElementById('inventory-panel');
@@ -56,8 +73,11 @@ export class InventoryPanel {
     });
   }
 
-  setCharacter(character: Character): void {
-    this.character = character;
+  setInventory(inventory: Inventory): void {
+    this.inventory = inventory;
+    if (this.isOpen) {
+      this.render();
+    }
   }
 
   toggle(): void {
@@ -157,7 +177,7 @@ export class InventoryPanel {
       el.classList.remove('drag-over');
       if (this.dragSourceSlot >= 0 && this.dragSourceSlot !== slot.slotIndex) {
         this.inventory.moveItem(this.dragSourceSlot, slot.slotIndex);
-        this.eventBus.publish<InventoryChangedEvent>({
+        this.eventBus.enqueueLatest<InventoryChangedEvent>({
           type: GameEventType.INVENTORY_CHANGED,
         });
         this.render();
@@ -170,13 +190,24 @@ export class InventoryPanel {
   private showTooltip(item: Item, x: number, y: number): void {
     if (!this.tooltipEl) return;
 
+    // Perishable food shows what eating it now would do
+    const itemEffects = item.getEffects();
     let effectsHtml = '';
-    if (item.effects) {
+    if (itemEffects) {
       const effects: string[] = [];
-      if (item.effects.healthRestore) effects.push(`Health +${item.effects.healthRestore}`);
-      if (item.effects.hungerRestore) effects.push(`Hunger +${item.effects.hungerRestore}`);
-      if (item.effects.thirstRestore) effects.push(`Thirst +${item.effects.thirstRestore}`);
-      if (item.effects.staminaRestore) effects.push(`Stamina +${item.effects.staminaRestore}`);
+      if (itemEffects.healthRestore) effects.push(`Health +${itemEffects.healthRestore}`);
+      if (itemEffects.hungerRestore) effects.push(`Hunger +${itemEffects.hungerRestore}`);
+      if (itemEffects.calories) effects.push(`${itemEffects.calories} kcal`);
+      if (itemEffects.thirstRestore) effects.push(`Thirst +${itemEffects.thirstRestore}`);
+      if (itemEffects.staminaRestore) effects.push(`Stamina +${itemEffects.staminaRestore}`);
+      if (itemEffects.temperatureChange) {
+        effects.push(
+          `Warmth ${itemEffects.temperatureChange > 0 ? '+' : ''}${itemEffects.temperatureChange}`
+        );
+      }
+      if (itemEffects.poisonChance) {
+        effects.push(`Poison risk ${Math.round(itemEffects.poisonChance * 100)}%`);
+      }
       if (effects.length > 0) {
         effectsHtml = `<div class="tooltip-effects">${effects.join(', ')}</div>`;
       }
@@ -187,6 +218,7 @@ export class InventoryPanel {
       <div class="tooltip-type">${item.type} - ${item.rarity}</div>
       <div class="tooltip-desc">${item.description}</div>
       ${effectsHtml}
+      ${this.freshnessHtml(item)}
       <div class="tooltip-weight">Weight: ${item.weight} (x${item.quantity} = ${item.getTotalWeight()})</div>
     `;
 
@@ -195,6 +227,19 @@ export class InventoryPanel {
     this.tooltipEl.style.display = 'block';
   }
 
+  private freshnessHtml(item: Item): string {
+    if (!item.isPerishable()) return '';
+
+    let state = 'fresh';
+    if (item.isSpoiled()) {
+      state = 'spoiled';
+    } else if (item.freshness <= FRESHNESS_CONFIG.STALE_FRESHNESS) {
+      state = 'stale';
+    }
+    const percent = Math.round(item.freshness * 100);
+    return `<div class="tooltip-freshness ${state}">Freshness ${percent}% (${state})</div>`;
+  }
+
   private hideTooltip(): void {
     if (this.tooltipEl) {
       this.tooltipEl.style.display = 'none';
@@ -216,6 +261,19 @@ export class InventoryPanel {
       });
     }
 
+    // Place heat sources (campfire) in the world
+    const onPlace = this.onPlace;
+    if (onPlace && HeatSource.isHeatSource(slot.item.id)) {
+      const itemId = slot.item.id;
+      actions.push({
+        label: 'Place',
+        callback: () => {
+          onPlace(itemId);
+          this.render();
+        },
+      });
+    }
+
     // Split stack
     if (slot.item.quantity > 1) {
       actions.push({
@@ -238,16 +296,9 @@ export class InventoryPanel {
   }
 
   private useItem(slot: IInventorySlot): void {
-    if (!slot.item || !slot.item.effects) return;
-
-    const effects = slot.item.effects;
-    if (effects.hungerRestore) this.character.eat(effects.hungerRestore);
-    if (effects.thirstRestore) this.character.drink(effects.thirstRestore);
-    if (effects.healthRestore) this.character.heal(effects.healthRestore);
-    if (effects.staminaRestore) this.character.regenStamina(effects.staminaRestore);
+    if (!slot.item) return;
 
-    this.inventory.removeItemAt(slot.slotIndex, 1);
-    this.eventBus.publish<InventoryChangedEvent>({ type: GameEventType.INVENTORY_CHANGED });
+    this.onUse(slot.slotIndex);
     this.render();
   }
 
@@ -258,14 +309,22 @@ export class InventoryPanel {
     const result = slot.item.split(splitAmount);
     if (result) {
       this.inventory.addItem(result.split);
-      this.eventBus.publish<InventoryChangedEvent>({ type: GameEventType.INVENTORY_CHANGED });
+      this.eventBus.enqueueLatest<InventoryChangedEvent>({ type: GameEventType.INVENTORY_CHANGED });
       this.render();
     }
   }
 
   private dropItem(slot: IInventorySlot): void {
-    this.inventory.removeItemAt(slot.slotIndex);
-    this.eventBus.publish<InventoryChangedEvent>({ type: GameEventType.INVENTORY_CHANGED });
+    const dropped = this.inventory.removeItemAt(slot.slotIndex);
+    if (dropped && slot.item) {
+      this.eventBus.publish<ItemDroppedEvent>({
+        type: GameEventType.ITEM_DROPPED,
+        itemId: slot.item.id, // A partial removal gets a new id
+        itemName: slot.item.name,
+        quantity: dropped.quantity,
+      });
+    }
+    this.eventBus.enqueueLatest<InventoryChangedEvent>({ type: GameEventType.INVENTORY_CHANGED });
     this.render();
   }
 
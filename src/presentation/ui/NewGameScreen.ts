@@ -0,0 +1,126 @@
+import {
+  DEFAULT_GAME_RULES,
+  Difficulty,
+  DifficultyPreset,
+  GAME_RULE_LIMITS,
+  GAME_RULE_MULTIPLIERS,
+  GAME_RULE_PRESETS,
+  GameRuleMultiplier,
+  IGameRules,
+  createCustomGameRules,
+} from '@application/balancing/GameRules';
+
+const PRESET_NAMES: Record<DifficultyPreset, string> = {
+  [Difficulty.EASY]: 'Easy',
+  [Difficulty.NORMAL]: 'Normal',
+  [Difficulty.HARD]: 'Hard',
+  [Difficulty.BRUTAL]: 'Brutal',
+};
+
+const RULE_LABELS: Record<GameRuleMultiplier, string> = {
+  depletion: 'Hunger, thirst & tiredness',
+  cooling: 'Cooling',
+  damage: 'Damage',
+  resourceRespawn: 'Resource respawn time',
+  nightLength: 'Night length',
+  blizzardChance: 'Blizzard chance',
+};
+
+/**
+ * Overlay shown when no save exists: pick a difficulty preset, or tune each
+ * multiplier in the custom editor (which turns the rules into Custom), then start.
+ */
+export class NewGameScreen {
+  private screenEl: HTMLElement | null;
+  private presetsEl: HTMLElement | null;
+  private editorEl: HTMLElement | null;
+  private startButtonEl: HTMLElement | null;
+  private rules: IGameRules = DEFAULT_GAME_RULES;
+  private inputs = new Map<GameRuleMultiplier, HTMLInputElement>();
+
+  constructor() {
+    this.screenEl = document.getElementById('new-game-screen');
+    this.presetsEl = document.getElementById('difficulty-presets');
+    this.editorEl = document.getElementById('custom-rules');
+    this.startButtonEl = document.getElementById('start-game-button');
+
+    this.renderPresets();
+    this.renderEditor();
+    this.select(DEFAULT_GAME_RULES);
+  }
+
+  /**
+   * Show the screen until the player starts, resolving with the chosen rules
+   */
+  choose(): Promise<IGameRules> {
+    if (this.screenEl) {
+      this.screenEl.style.display = 'flex';
+    }
+    return new Promise((resolve) => {
+      this.startButtonEl?.addEventListener(
+        'click',
+        () => {
+          if (this.screenEl) {
+            this.screenEl.style.display = 'none';
+          }
+          resolve(this.rules);
+        },
+        { once: true }
+      );
+    });
+  }
+
+  private renderPresets(): void {
+    if (!this.presetsEl) return;
+
+    for (const [preset, name] of Object.entries(PRESET_NAMES) as Array<
+      [DifficultyPreset, string]
+    >) {
+      const button = document.createElement('button');
+      button.className = 'difficulty-button';
+      button.dataset['difficulty'] = preset;
+      button.textContent = name;
+      button.addEventListener('click', () => this.select(GAME_RULE_PRESETS[preset]));
+      this.presetsEl.appendChild(button);
+    }
+  }
+
+  private renderEditor(): void {
+    if (!this.editorEl) return;
+
+    for (const key of GAME_RULE_MULTIPLIERS) {
+      const label = document.createElement('label');
+      label.className = 'custom-rule';
+      label.textContent = RULE_LABELS[key];
+
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.min = String(GAME_RULE_LIMITS.MIN);
+      input.max = String(GAME_RULE_LIMITS.MAX);
+      input.step = '0.05';
+      input.addEventListener('change', () => this.editRule(key, Number(input.value)));
+
+      label.appendChild(input);
+      this.editorEl.appendChild(label);
+      this.inputs.set(key, input);
+    }
+  }
+
+  /**
+   * Changing one multiplier keeps the others from the current rules
+   */
+  private editRule(key: GameRuleMultiplier, value: number): void {
+    this.select(createCustomGameRules({ [key]: value }, this.rules));
+  }
+
+  private select(rules: IGameRules): void {
+    this.rules = rules;
+
+    this.presetsEl?.querySelectorAll<HTMLElement>('.difficulty-button').forEach((button) => {
+      button.classList.toggle('selected', button.dataset['difficulty'] === rules.difficulty);
+    });
+    for (const [key, input] of this.inputs) {
+      input.value = String(rules[key]);
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import { GameSimulation } from '@application/simulation/GameSimulation';
+import { ReplayController } from '@presentation/controllers/ReplayController';
+import { REPLAY_CONFIG } from '@shared/constants/GameConstants';
+
+/**
+ * HTML overlay with the replay timeline and recording controls, toggled with R.
+ * Play/Pause and Step act on the simulation clock, so they also freeze live play.
+ */
+export class ReplayPanel {
+  private panelEl: HTMLElement | null;
+  private recordButton: HTMLButtonElement | null;
+  private playButton: HTMLButtonElement | null;
+  private stepButton: HTMLButtonElement | null;
+  private speedButton: HTMLButtonElement | null;
+  private stopButton: HTMLButtonElement | null;
+  private fileInputEl: HTMLInputElement | null;
+  private timelineFillEl: HTMLElement | null;
+  private statusEl: HTMLElement | null;
+  private errorMessage: string | null = null;
+  private isOpen: boolean = false;
+
+  constructor(
+    private controller: ReplayController,
+    private simulation: GameSimulation
+  ) {
+    this.panelEl = document.getElementById('replay-panel');
+    this.recordButton = document.getElementById('replay-record-button') as HTMLButtonElement | null;
+    this.playButton = document.getElementById('replay-play-button') as HTMLButtonElement | null;
+    this.stepButton = document.getElementById('replay-step-button') as HTMLButtonElement | null;
+    this.speedButton = document.getElementById('replay-speed-button') as HTMLButtonElement | null;
+    this.stopButton = document.getElementById('replay-stop-button') as HTMLButtonElement | null;
+    this.fileInputEl = document.getElementById('replay-file-input') as HTMLInputElement | null;
+    this.timelineFillEl = document.getElementById('replay-timeline-fill');
+    this.statusEl = document.getElementById('replay-status');
+
+    this.recordButton?.addEventListener('click', () => this.toggleRecording());
+    document.getElementById('replay-load-button')?.addEventListener('click', () => {
+      this.fileInputEl?.click();
+    });
+    this.fileInputEl?.addEventListener('change', () => {
+      const file = this.fileInputEl?.files?.[0];
+      if (file) {
+        void this.loadReplay(file);
+      }
+    });
+    this.playButton?.addEventListener('click', () => this.togglePause());
+    this.stepButton?.addEventListener('click', () => this.controller.getPlayer()?.step());
+    this.speedButton?.addEventListener('click', () => this.cycleSpeed());
+    this.stopButton?.addEventListener('click', () => this.controller.stopReplay());
+  }
+
+  toggle(): void {
+    this.isOpen = !this.isOpen;
+    if (this.panelEl) {
+      this.panelEl.style.display = this.isOpen ? 'block' : 'none';
+    }
+  }
+
+  isVisible(): boolean {
+    return this.isOpen;
+  }
+
+  close(): void {
+    this.isOpen = false;
+    if (this.panelEl) {
+      this.panelEl.style.display = 'none';
+    }
+  }
+
+  /**
+   * Refresh buttons, timeline and status (called every frame while open)
+   */
+  update(): void {
+    if (!this.isOpen) return;
+
+    const replaying = this.controller.isReplaying();
+    const paused = this.simulation.clock.isPaused();
+    const player = this.controller.getPlayer();
+
+    if (this.recordButton) {
+      this.recordButton.textContent = this.controller.isRecording() ? 'Stop & save' : 'Record';
+      this.recordButton.disabled = replaying;
+    }
+    if (this.playButton) {
+      this.playButton.textContent = paused ? 'Play' : 'Pause';
+    }
+    if (this.stepButton) {
+      this.stepButton.disabled = !replaying || !paused;
+    }
+    if (this.speedButton && player) {
+      this.speedButton.textContent = `${player.getSpeed()}x`;
+      this.speedButton.disabled = !replaying;
+    }
+    if (this.stopButton) {
+      this.stopButton.disabled = !replaying;
+    }
+    if (this.timelineFillEl) {
+      const progress = player ? player.getTick() / Math.max(player.getLength(), 1) : 0;
+      this.timelineFillEl.style.width = `${progress * 100}%`;
+    }
+    this.renderStatus();
+  }
+
+  private renderStatus(): void {
+    if (!this.statusEl) return;
+
+    this.statusEl.className = this.errorMessage ? 'error' : '';
+    if (this.errorMessage) {
+      this.statusEl.textContent = this.errorMessage;
+      return;
+    }
+
+    const player = this.controller.getPlayer();
+    const seconds = (ticks: number): string =>
+      (ticks * this.simulation.clock.getFixedDelta()).toFixed(1);
+    if (this.controller.isRecording()) {
+      this.statusEl.textContent = `Recording ${seconds(this.controller.getRecordedTicks())}s`;
+    } else if (player) {
+      const mismatches = player.getDivergences().length;
+      const state = player.isFinished()
+        ? 'finished'
+        : this.controller.isReplaying()
+          ? ''
+          : 'stopped';
+      this.statusEl.textContent =
+        `Replay ${seconds(player.getTick())}s / ${seconds(player.getLength())}s ${state}` +
+        ` | ${mismatches} mismatched result${mismatches === 1 ? '' : 's'}`;
+    } else {
+      this.statusEl.textContent = 'Not recording';
+    }
+  }
+
+  private toggleRecording(): void {
+    this.errorMessage = null;
+    try {
+      if (this.controller.isRecording()) {
+        this.controller.stopRecording();
+      } else {
+        this.controller.startRecording();
+      }
+    } catch (error) {
+      console.error('Recording failed:', error);
+      this.errorMessage = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  private togglePause(): void {
+    const clock = this.simulation.clock;
+    if (clock.isPaused()) {
+      clock.resume();
+    } else {
+      clock.pause();
+    }
+  }
+
+  private cycleSpeed(): void {
+    const player = this.controller.getPlayer();
+    if (!player) return;
+
+    const speeds: readonly number[] = REPLAY_CONFIG.SPEEDS;
+    const next = speeds[(speeds.indexOf(player.getSpeed()) + 1) % speeds.length] ?? 1;
+    player.setSpeed(next);
+  }
+
+  private async loadReplay(file: File): Promise<void> {
+    this.errorMessage = null;
+    try {
+      await this.controller.loadReplay(file);
+    } catch (error) {
+      console.error('Replay failed to load:', error);
+      const reason = error instanceof Error ? error.message : String(error);
+      this.errorMessage = `Replay failed: ${reason}`;
+    } finally {
+      if (this.fileInputEl) {
+        this.fileInputEl.value = '';
+      }
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import {
+  SaveSlotService,
+  ISaveSlotInfo,
+  AUTOSAVE_SLOT,
+} from '@application/services/SaveSlotService';
+
+/**
+ * Format seconds as H:MM:SS
+ */
+function formatPlaytime(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+}
+
+/**
+ * HTML overlay listing save slots with thumbnails and metadata.
+ * Toggled with P key; each slot offers Save and Load, and the current
+ * session can be exported to or imported from a file.
+ */
+export class SaveSlotPanel {
+  private panelEl: HTMLElement | null;
+  private slotListEl: HTMLElement | null;
+  private statusEl: HTMLElement | null;
+  private importInputEl: HTMLInputElement | null;
+  private isOpen: boolean = false;
+
+  constructor(
+    private saveSlotService: SaveSlotService,
+    private onLoadSlot: (slotId: string) => Promise<void>,
+    private onExport: () => Promise<void>,
+    private onImportFile: (file: File) => Promise<void>
+  ) {
+    this.panelEl = document.getElementById('save-panel');
+    this.slotListEl = document.getElementById('save-slots');
+    this.statusEl = document.getElementById('save-status');
+    this.importInputEl = document.getElementById('save-import-input') as HTMLInputElement | null;
+
+    document.getElementById('save-export-button')?.addEventListener('click', () => {
+      void this.exportSave();
+    });
+    document.getElementById('save-import-button')?.addEventListener('click', () => {
+      this.importInputEl?.click();
+    });
+    this.importInputEl?.addEventListener('change', () => {
+      const file = this.importInputEl?.files?.[0];
+      if (file) {
+        void this.importSave(file);
+      }
+    });
+  }
+
+  toggle(): void {
+    this.isOpen = !this.isOpen;
+    if (this.panelEl) {
+      this.panelEl.style.display = this.isOpen ? 'block' : 'none';
+    }
+    if (this.isOpen) {
+      void this.render();
+    }
+  }
+
+  isVisible(): boolean {
+    return this.isOpen;
+  }
+
+  close(): void {
+    this.isOpen = false;
+    if (this.panelEl) {
+      this.panelEl.style.display = 'none';
+    }
+  }
+
+  /**
+   * Show a transient status message (also used for quicksave/quickload feedback)
+   */
+  showStatus(message: string, isError: boolean = false): void {
+    if (this.statusEl) {
+      this.statusEl.textContent = message;
+      this.statusEl.className = `craft-status ${isError ? 'error' : 'success'}`;
+    }
+  }
+
+  private async render(): Promise<void> {
+    if (!this.slotListEl) return;
+
+    const slots = await this.saveSlotService.listSlots();
+    this.slotListEl.innerHTML = '';
+    for (const slot of slots) {
+      this.slotListEl.appendChild(this.createSlotElement(slot));
+    }
+  }
+
+  private createSlotElement(slot: ISaveSlotInfo): HTMLElement {
+    const el = document.createElement('div');
+    el.className = 'save-slot';
+
+    const meta = slot.metadata;
+    const thumbnail = meta?.thumbnail
+      ? `<img class="save-thumbnail" src="${meta.thumbnail}" alt="">`
+      : '<div class="save-thumbnail empty"></div>';
+    const details = meta
+      ? `<div class="save-character">${meta.characterName} (${meta.characterClass})</div>
+         <div class="save-details">Day ${meta.day} - ${meta.timeOfDay} - ${meta.weather}</div>
+         <div class="save-details">Played ${formatPlaytime(meta.playtime)} | ${new Date(slot.savedAt ?? 0).toLocaleString()}</div>
+         <div class="save-details">World seed ${meta.worldSeed}</div>`
+      : `<div class="save-details">${slot.corrupt ? 'Corrupt save' : 'Empty'}</div>`;
+    const canSave = slot.slotId !== AUTOSAVE_SLOT;
+
+    el.innerHTML = `
+      ${thumbnail}
+      <div class="save-info">
+        <div class="recipe-name">${slot.label}</div>
+        ${details}
+      </div>
+      <div class="save-actions">
+        ${canSave ? '<button class="craft-button save-button">Save</button>' : ''}
+        <button class="craft-button load-button" ${meta ? '' : 'disabled'}>Load</button>
+      </div>
+    `;
+
+    el.querySelector('.save-button')?.addEventListener('click', () => {
+      void this.save(slot);
+    });
+    if (meta) {
+      el.querySelector('.load-button')?.addEventListener('click', () => {
+        void this.load(slot);
+      });
+    }
+
+    return el;
+  }
+
+  private async save(slot: ISaveSlotInfo): Promise<void> {
+    try {
+      await this.saveSlotService.saveToSlot(slot.slotId);
+      this.showStatus(`Saved to ${slot.label}`);
+    } catch (error) {
+      console.error('Save failed:', error);
+      this.showStatus(`Failed to save to ${slot.label}`, true);
+    }
+    await this.render();
+  }
+
+  private async load(slot: ISaveSlotInfo): Promise<void> {
+    try {
+      await this.onLoadSlot(slot.slotId);
+      this.showStatus(`Loaded ${slot.label}`);
+      this.close();
+    } catch (error) {
+      console.error('Load failed:', error);
+      this.showStatus(`Failed to load ${slot.label}`, true);
+    }
+  }
+
+  private async exportSave(): Promise<void> {
+    try {
+      await this.onExport();
+      this.showStatus('Save exported');
+    } catch (error) {
+      console.error('Export failed:', error);
+      this.showStatus('Failed to export save', true);
+    }
+  }
+
+  /**
+   * Import a save file; errors name the part of the save that was rejected
+   */
+  async importSave(file: File): Promise<void> {
+    try {
+      await this.onImportFile(file);
+      this.showStatus(`Imported ${file.name}`);
+      this.close();
+    } catch (error) {
+      console.error('Import failed:', error);
+      const reason = error instanceof Error ? error.message : String(error);
+      this.showStatus(`Import failed: ${reason}`, true);
+    } finally {
+      if (this.importInputEl) {
+        this.importInputEl.value = '';
+      }
+    }
+  }
+
+  dispose(): void {
+    // Nothing to clean up
+  }
+}
@@ -0,0 +1,39 @@
+import { StatusEffect } from '@domain/value-objects/StatusEffect';
+
+/**
+ * Row of status effect icons under the stat bars.
+ * Shows stacks and whole seconds left; the tooltip carries the description.
+ */
+export class StatusEffectsHud {
+  private containerEl: HTMLElement | null;
+  private renderedKey: string = '';
+
+  constructor() {
+    this.containerEl = document.getElementById('status-effects');
+  }
+
+  update(effects: readonly StatusEffect[]): void {
+    if (!this.containerEl) return;
+
+    // Only touch the DOM when something visible changed (this runs every frame)
+    const key = effects
+      .map((effect) => `${effect.type}:${effect.stacks}:${Math.ceil(effect.remaining)}`)
+      .join('|');
+    if (key === this.renderedKey) return;
+    this.renderedKey = key;
+
+    this.containerEl.innerHTML = '';
+    for (const effect of effects) {
+      const { name, icon, description, harmful } = effect.definition;
+      const iconEl = document.createElement('div');
+      iconEl.className = `status-effect ${harmful ? 'harmful' : 'beneficial'}`;
+      iconEl.title = `${name}: ${description}`;
+      iconEl.innerHTML = `
+        <span class="status-effect-icon">${icon}</span>
+        ${effect.stacks > 1 ? `<span class="status-effect-stacks">${effect.stacks}</span>` : ''}
+        <span class="status-effect-time">${Math.ceil(effect.remaining)}s</span>
+      `;
+      this.containerEl.appendChild(iconEl);
+    }
+  }
+}
@@ -13,6 +13,9 @@ export const GAME_CONFIG = {
   THIRST_DEPLETION_RATE: 1.5, // Points per minute
   STAMINA_REGEN_RATE: 10, // Points per second when idle
   STAMINA_SPRINT_COST: 20, // Points per second when sprinting
+  HYPOTHERMIA_DAMAGE_RATE: 1, // Health per second below HYPOTHERMIA_THRESHOLD
+  STARVATION_DAMAGE_RATE: 0.5, // Health per second while starving
+  DEHYDRATION_DAMAGE_RATE: 0.5, // Health per second while dehydrated
 
   // Temperature settings
   NORMAL_BODY_TEMP: 37, // Celsius
@@ -20,6 +23,7 @@ export const GAME_CONFIG = {
   HYPERTHERMIA_THRESHOLD: 40,
   BASE_COOLING_RATE: 0.5, // Degrees per minute in cold
   BASE_WARMING_RATE: 1, // Degrees per minute near fire
+  FULL_HEAT_TEMPERATURE: 80, // Celsius right beside a full-strength heat source
 
   // Environment
   DAY_TEMPERATURE: -5, // Celsius during day
@@ -44,6 +48,96 @@ export const TIME_CONFIG = {
     DAY: 0,
     DUSK: -5,
   },
+  EVENT_INTERVAL_MINUTES: 1, // In-game minutes between TIME_CHANGED events
+} as const;
+
+/**
+ * When survival conditions turn into status effects
+ */
+export const STATUS_EFFECT_CONFIG = {
+  WELL_FED_HUNGER: 80, // Eating up to this hunger or more makes the character well fed
+  FROSTBITE_EXPOSURE: 60, // Seconds of hypothermia per frostbite stack
+  EXHAUSTED_STAMINA: 0, // Stamina at or below which the character becomes exhausted
+} as const;
+
+/**
+ * How snow soaks the player's clothes and how they dry (wetness is 0-100)
+ */
+export const WETNESS_CONFIG = {
+  WETTING_RATE: 20, // Points per minute under full snowfall
+  DRYING_RATE: 2, // Points per minute in the open when no snow is falling
+  HEAT_DRYING_RATE: 30, // Points per minute right next to a heat source
+  COOLING_MULTIPLIER: 2, // Body heat loss when soaked through, scaling linearly from 1 when dry
+} as const;
+
+/**
+ * Tiredness and sleep (energy is 0-100, 100 = fully rested)
+ */
+export const FATIGUE_CONFIG = {
+  DRAIN_RATE: 3, // Energy per minute while awake
+  SPRINT_DRAIN_RATE: 6, // Extra energy per minute while sprinting
+  GATHER_COST: 1, // Energy per gathering hit
+  SLEEP_RECOVERY_RATE: 20, // Energy per minute asleep
+  SLEEP_TIME_SCALE: 10, // Game seconds that pass per simulated second while asleep
+  TIRED_ENERGY: 20, // Energy at or below which the character is tired
+  SLEEP_KEY: 'z',
+} as const;
+
+/**
+ * Calorie and water burn of the activity-based metabolism. Burn rates multiply the flat
+ * HUNGER_DEPLETION_RATE and THIRST_DEPLETION_RATE; hunger is measured in CALORIES_PER_HUNGER.
+ */
+export const METABOLISM_CONFIG = {
+  CALORIES_PER_HUNGER: 20, // kcal per hunger point, so a full stomach holds 2000
+  ACTIVITY_BURN: {
+    SLEEPING: { calories: 0.5, water: 0.6 },
+    RESTING: { calories: 0.8, water: 0.8 }, // Standing still
+    WALKING: { calories: 1.2, water: 1.2 },
+    SPRINTING: { calories: 2.5, water: 3 }, // Sweating
+  },
+  COLD_BURN_PER_DEGREE: 0.5, // Extra calorie burn per degree of body temperature below normal (shivering)
+  GATHER_CALORIES_PER_STAMINA: 4, // kcal per point of a resource's staminaCost, per hit
+  CRAFT_CALORIES: 15, // kcal per craft
+  WATER_PER_CALORIE: 0.005, // Thirst points lost per kcal spent on gathering or crafting
+} as const;
+
+/**
+ * Sprinting and jumping (speeds are in MOVEMENT_SPEEDS)
+ */
+export const MOVEMENT_CONFIG = {
+  SPRINT_RECOVERY_STAMINA: 30, // After running out, stamina needed before sprinting again
+  JUMP_STAMINA_COST: 10,
+  JUMP_VELOCITY: 5, // Metres per second upward at take-off
+  GRAVITY: 15, // Metres per second squared
+  GROUND_HEIGHT: 1, // Height of the player mesh standing on the ground
+} as const;
+
+/**
+ * Corpses and respawning
+ */
+export const DEATH_CONFIG = {
+  SPAWN_POINT: { x: 0, y: 1, z: 0 }, // Where a new character starts
+  CAMP_OFFSET: 2, // Metres from a campfire a respawning character stands
+  LOOT_RANGE: 5, // Metres from a corpse the player can loot it
+} as const;
+
+/**
+ * How perishable food spoils (freshness is 0-1, 1 = fresh)
+ */
+export const FRESHNESS_CONFIG = {
+  // Seconds until spoiled at REFERENCE_TEMPERATURE, by item id
+  SHELF_LIFE: {
+    berries: 1200,
+    raw_meat: 900,
+    cooked_meat: 1800,
+  } as Record<string, number>,
+  REFERENCE_TEMPERATURE: 0, // Celsius at which food spoils at its shelf life
+  COLD_SLOWDOWN: 0.04, // Decay rate change per degree away from REFERENCE_TEMPERATURE
+  MIN_DECAY_FACTOR: 0.25, // Slowest decay, however cold it gets
+  STALE_FRESHNESS: 0.5, // At or below: stale
+  SPOILED_FRESHNESS: 0.2, // At or below: spoiled
+  SPOILED_NUTRITION: 0.3, // Share of hungerRestore and calories left at freshness 0
+  SPOILED_POISON_CHANCE: 0.5, // Food poisoning chance when eating spoiled food
 } as const;
 
 /**
@@ -67,6 +161,46 @@ export const WEATHER_CONFIG = {
     BLIZZARD: [0.3, 0.3, 0.4, 0],
   },
   NIGHT_BLIZZARD_BONUS: 0.15, // Extra probability for blizzard at night
+  SNOWFALL: { CLEAR: 0, CLOUDY: 0, SNOWING: 0.5, BLIZZARD: 1 }, // Snow falling at full intensity
+  EVENT_INTENSITY_STEP: 0.05, // Intensity change during a transition that triggers WEATHER_CHANGED
+} as const;
+
+/**
+ * Fixed-timestep simulation settings
+ */
+export const SIMULATION_CONFIG = {
+  TICK_RATE: 20, // Simulation ticks per second
+  MAX_FRAME_DELTA: 0.25, // Longest frame (seconds) fed to the simulation; longer stalls are dropped
+} as const;
+
+/**
+ * Save slot, autosave and quicksave configuration
+ */
+export const SAVE_CONFIG = {
+  MANUAL_SLOT_COUNT: 3,
+  AUTOSAVE_INTERVAL: 300, // Seconds of play between autosaves
+  THUMBNAIL_WIDTH: 160,
+  THUMBNAIL_HEIGHT: 90,
+  QUICKSAVE_KEY: 'f5',
+  QUICKLOAD_KEY: 'f9',
+} as const;
+
+/**
+ * Input recording and replay
+ */
+export const REPLAY_CONFIG = {
+  PANEL_KEY: 'r',
+  SPEEDS: [1, 2, 4, 8], // Fast-forward steps, cycled by the speed button
+} as const;
+
+/**
+ * Developer tools
+ */
+export const DEBUG_CONFIG = {
+  EVENT_INSPECTOR_KEY: 'f3',
+  EVENT_JOURNAL_CAPACITY: 1000, // Events kept before the oldest are overwritten
+  EVENT_INSPECTOR_ROWS: 200, // Newest entries rendered in the overlay
+  EVENT_INSPECTOR_REFRESH: 0.25, // Seconds between overlay re-renders
 } as const;
 
 export const CHARACTER_STATS = {
@@ -0,0 +1,68 @@
+/**
+ * Source of uniformly distributed numbers in [0, 1).
+ * Inject one instead of calling Math.random() so results can be reproduced from a seed.
+ */
+export interface IRandomSource {
+  next(): number;
+}
+
+/**
+ * Unseeded fallback for code paths that do not need reproducibility
+ */
+export const MATH_RANDOM: IRandomSource = {
+  next: () => Math.random(),
+};
+
+/**
+ * Hash a string into a 32-bit unsigned seed (FNV-1a)
+ */
+export function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Small, fast deterministic generator (mulberry32).
+ * The whole state is one 32-bit integer, so it can be saved and restored exactly.
+ */
+export class SeededRandom implements IRandomSource {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [min, max] (inclusive)
+   */
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1));
+  }
+
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
@@ -0,0 +1,56 @@
+import { bench, describe } from 'vitest';
+import { EventBus, GameEventType } from '@application/events/EventBus';
+import { TimeService } from '@application/services/TimeService';
+import { WeatherService } from '@application/services/WeatherService';
+import { SeededRandom } from '@shared/random/SeededRandom';
+import { GAME_CONFIG, SIMULATION_CONFIG } from '@shared/constants/GameConstants';
+
+const TICK = 1 / SIMULATION_CONFIG.TICK_RATE;
+const TICKS_PER_HOUR = Math.round(GAME_CONFIG.DAY_CYCLE_DURATION / 24 / TICK);
+const CHANGES_PER_FRAME = 10; // e.g. a stack split, a drag and an auto-sort in one frame
+
+function runServices(bus: EventBus): void {
+  const time = new TimeService(bus);
+  const weather = new WeatherService(bus, new SeededRandom(1));
+  for (let i = 0; i < TICKS_PER_HOUR; i++) {
+    time.update(TICK);
+    weather.update(TICK);
+  }
+}
+
+function countEvents(run: (bus: EventBus) => void): number {
+  const bus = new EventBus();
+  let count = 0;
+  bus.subscribeAll(() => count++);
+  run(bus);
+  return count;
+}
+
+function createListeningBus(): EventBus {
+  const bus = new EventBus();
+  bus.subscribeAll(() => {});
+  return bus;
+}
+
+describe(`time and weather for one in-game hour (${TICKS_PER_HOUR} ticks, ${countEvents(runServices)} events)`, () => {
+  bench('TimeService + WeatherService', () => {
+    runServices(createListeningBus());
+  });
+});
+
+describe(`${CHANGES_PER_FRAME} inventory changes per frame`, () => {
+  const bus = createListeningBus();
+
+  bench('publish each change', () => {
+    for (let i = 0; i < CHANGES_PER_FRAME; i++) {
+      bus.publish({ type: GameEventType.INVENTORY_CHANGED });
+    }
+  });
+
+  bench('enqueueLatest and flush', () => {
+    for (let i = 0; i < CHANGES_PER_FRAME; i++) {
+      bus.enqueueLatest({ type: GameEventType.INVENTORY_CHANGED });
+    }
+    bus.flush();
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AutosaveScheduler } from '@application/services/AutosaveScheduler';
+import { EventBus } from '@application/events/EventBus';
+import { TimeService } from '@application/services/TimeService';
+import { GAME_CONFIG } from '@shared/constants/GameConstants';
+
+describe('AutosaveScheduler', () => {
+  let eventBus: EventBus;
+  let onAutosave: ReturnType<typeof vi.fn>;
+  let scheduler: AutosaveScheduler;
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    onAutosave = vi.fn();
+    scheduler = new AutosaveScheduler(eventBus, 60, onAutosave);
+  });
+
+  it('should autosave once the interval elapses', () => {
+    scheduler.update(59);
+    expect(onAutosave).not.toHaveBeenCalled();
+
+    scheduler.update(1);
+    expect(onAutosave).toHaveBeenCalledTimes(1);
+
+    scheduler.update(30);
+    expect(onAutosave).toHaveBeenCalledTimes(1);
+  });
+
+  it('should autosave when the clock crosses into a new day', () => {
+    scheduler.setInterval(0);
+    const timeService = new TimeService(eventBus);
+
+    timeService.update(1);
+    scheduler.update(1);
+    expect(onAutosave).not.toHaveBeenCalled();
+
+    timeService.update(GAME_CONFIG.DAY_CYCLE_DURATION);
+    scheduler.update(1);
+    expect(timeService.getDay()).toBe(2);
+    expect(onAutosave).toHaveBeenCalledTimes(1);
+  });
+
+  it('should restart the countdown on reset', () => {
+    scheduler.update(50);
+    scheduler.reset();
+    scheduler.update(50);
+
+    expect(onAutosave).not.toHaveBeenCalled();
+  });
+
+  it('should stop listening after dispose', () => {
+    scheduler.setInterval(0);
+    scheduler.dispose();
+    const timeService = new TimeService(eventBus);
+
+    timeService.update(1);
+    timeService.update(GAME_CONFIG.DAY_CYCLE_DURATION);
+    scheduler.update(1);
+
+    expect(onAutosave).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { BalanceRunner, summarizeBalanceRuns } from '@application/balancing/BalanceRunner';
+import { createBalanceReport, formatBalanceCsv } from '@application/balancing/BalanceReport';
+import {
+  DEFAULT_SURVIVAL_BALANCE,
+  createSurvivalBalance,
+} from '@application/balancing/SurvivalBalance';
+import { GameSimulation } from '@application/simulation/GameSimulation';
+import { GAME_CONFIG, TIME_CONFIG } from '@shared/constants/GameConstants';
+
+const DEFAULT_VARIANT = { name: 'default', balance: DEFAULT_SURVIVAL_BALANCE };
+
+describe('Survival balance', () => {
+  it('should merge overrides onto the defaults', () => {
+    const balance = createSurvivalBalance({
+      hungerDepletionRate: 2,
+      temperatures: { NIGHT: -30 },
+      weatherModifiers: { BLIZZARD: { temperature: -25 } },
+    });
+
+    expect(balance.hungerDepletionRate).toBe(2);
+    expect(balance.thirstDepletionRate).toBe(GAME_CONFIG.THIRST_DEPLETION_RATE);
+    expect(balance.temperatures).toEqual({ ...TIME_CONFIG.TEMPERATURES, NIGHT: -30 });
+    expect(balance.weatherModifiers.BLIZZARD).toEqual({
+      temperature: -25,
+      movement: 0.6,
+      visibility: 0.3,
+    });
+  });
+
+  it('should drive the simulation', () => {
+    const balance = createSurvivalBalance({
+      hungerDepletionRate: 10,
+      temperatures: { DAY: 12 },
+      weatherModifiers: { CLEAR: { temperature: 0 } },
+    });
+    const simulation = new GameSimulation({ seed: 1, balance });
+
+    expect(simulation.getEnvironmentTemperature()).toBe(12);
+    simulation.runFor(60);
+    expect(simulation.getCharacter().stats.hunger).toBeCloseTo(90, 0);
+  });
+});
+
+describe('Balance runner', () => {
+  const runner = new BalanceRunner();
+
+  it('should record when and how an idle survivor freezes', () => {
+    const run = runner.runOne(DEFAULT_VARIANT, 'idle', 1, 1);
+
+    expect(run.survived).toBe(false);
+    // 2 degrees at BASE_COOLING_RATE to hypothermia, then 100 health at 1 per second;
+    // snow on this seed soaks the survivor and brings hypothermia a little sooner
+    expect(run.timeToDeath).toBeCloseTo(334.5, 0);
+    expect(run.hypothermicTime).toBeCloseTo(100, 0);
+    expect(run.resourcesGathered).toBe(0);
+  });
+
+  it('should show a variant without cold as survivable', () => {
+    const noCold = {
+      name: 'no-cold',
+      balance: createSurvivalBalance({ baseCoolingRate: 0 }),
+    };
+    const run = runner.runOne(noCold, 'idle', 1, 1);
+
+    expect(run.survived).toBe(true);
+    expect(run.timeToDeath).toBeNull();
+    expect(run.hypothermicTime).toBe(0);
+    expect(run.resourcesByDay).toEqual([0]);
+  });
+
+  it('should gather resources with the gathering and crafting profiles', () => {
+    const runs = runner.run({
+      variants: [DEFAULT_VARIANT],
+      profiles: ['gathering', 'crafting'],
+      seeds: [1],
+      days: 1,
+    });
+
+    for (const run of runs) {
+      expect(run.resourcesGathered).toBeGreaterThan(0);
+      expect(run.resourcesByDay).toEqual([run.resourcesGathered]);
+    }
+  });
+
+  it('should be deterministic for a seed', () => {
+    const first = runner.runOne(DEFAULT_VARIANT, 'gathering', 3, 1);
+    const second = runner.runOne(DEFAULT_VARIANT, 'gathering', 3, 1);
+
+    expect(second).toEqual(first);
+  });
+
+  it('should summarize and export runs per variant and profile', () => {
+    const runs = runner.run({
+      variants: [DEFAULT_VARIANT],
+      profiles: ['idle'],
+      seeds: [1, 2],
+      days: 1,
+    });
+
+    expect(summarizeBalanceRuns(runs)).toEqual([
+      expect.objectContaining({ variant: 'default', profile: 'idle', runs: 2, deaths: 2 }),
+    ]);
+    expect(createBalanceReport(runs, 1).runs).toHaveLength(2);
+
+    const lines = formatBalanceCsv(runs).trim().split('\n');
+    expect(lines[0]).toBe(
+      'variant,profile,seed,survived,time_to_death,hypothermic_time,resources_gathered,resources_per_day'
+    );
+    expect(lines[1]).toMatch(/^default,idle,1,false,334\.\d,100\.0,0,0\.00$/);
+    expect(lines).toHaveLength(3);
+  });
+});
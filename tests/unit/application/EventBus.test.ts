@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  EventBus,
+  GameEvent,
+  GameEventType,
+  ItemCollectedEvent,
+} from '@application/events/EventBus';
+
+const COLLECTED: ItemCollectedEvent = {
+  type: GameEventType.ITEM_COLLECTED,
+  itemId: 'wood',
+  itemName: 'Wood',
+  quantity: 2,
+};
+
+describe('EventBus', () => {
+  let bus: EventBus;
+  let calls: string[];
+
+  beforeEach(() => {
+    bus = new EventBus();
+    calls = [];
+  });
+
+  it('should keep delivering after a listener throws and report the error', () => {
+    const errors: Array<{ error: unknown; event: GameEvent }> = [];
+    bus.onError((error, event) => errors.push({ error, event }));
+    bus.subscribe(GameEventType.ITEM_COLLECTED, () => {
+      throw new Error('refresh failed');
+    });
+    bus.subscribe(GameEventType.ITEM_COLLECTED, () => calls.push('second'));
+
+    bus.publish(COLLECTED);
+
+    expect(calls).toEqual(['second']);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.event).toBe(COLLECTED);
+    expect((errors[0]?.error as Error).message).toBe('refresh failed');
+  });
+
+  it('should log listener errors when nothing observes the error channel', () => {
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+    bus.subscribe(GameEventType.ITEM_COLLECTED, () => {
+      throw new Error('boom');
+    });
+
+    bus.publish(COLLECTED);
+
+    expect(log).toHaveBeenCalledOnce();
+    log.mockRestore();
+  });
+
+  it('should deliver once() subscriptions a single time', () => {
+    bus.once(GameEventType.ITEM_COLLECTED, () => calls.push('once'));
+
+    bus.publish(COLLECTED);
+    bus.publish(COLLECTED);
+
+    expect(calls).toEqual(['once']);
+  });
+
+  it('should run higher priorities first and keep subscription order otherwise', () => {
+    bus.subscribe(GameEventType.ITEM_COLLECTED, () => calls.push('a'));
+    bus.subscribe(GameEventType.ITEM_COLLECTED, () => calls.push('urgent'), { priority: 10 });
+    bus.subscribe(GameEventType.ITEM_COLLECTED, () => calls.push('b'));
+    bus.subscribeAll(() => calls.push('all'), { priority: 5 });
+
+    bus.publish(COLLECTED);
+
+    expect(calls).toEqual(['urgent', 'all', 'a', 'b']);
+  });
+
+  it('should send every event type to subscribeAll listeners', () => {
+    const seen: GameEventType[] = [];
+    const unsubscribe = bus.subscribeAll((event) => seen.push(event.type));
+
+    bus.publish(COLLECTED);
+    bus.publish({ type: GameEventType.INVENTORY_CHANGED });
+    unsubscribe();
+    bus.publish(COLLECTED);
+
+    expect(seen).toEqual([GameEventType.ITEM_COLLECTED, GameEventType.INVENTORY_CHANGED]);
+  });
+
+  it('should skip listeners unsubscribed earlier in the same publish', () => {
+    let unsubscribeSecond = (): void => {};
+    bus.subscribe(GameEventType.ITEM_COLLECTED, () => unsubscribeSecond());
+    unsubscribeSecond = bus.subscribe(GameEventType.ITEM_COLLECTED, () => calls.push('second'));
+
+    bus.publish(COLLECTED);
+
+    expect(calls).toEqual([]);
+  });
+
+  it('should hold queued events until flush, including ones queued while flushing', () => {
+    bus.subscribe(GameEventType.ITEM_COLLECTED, () => {
+      calls.push('collected');
+      bus.enqueue({ type: GameEventType.INVENTORY_CHANGED });
+    });
+    bus.subscribe(GameEventType.INVENTORY_CHANGED, () => calls.push('inventory'));
+
+    bus.enqueue(COLLECTED);
+    expect(calls).toEqual([]);
+    expect(bus.getQueuedCount()).toBe(1);
+
+    bus.flush();
+    expect(calls).toEqual(['collected', 'inventory']);
+    expect(bus.getQueuedCount()).toBe(0);
+  });
+
+  it('should batch enqueueLatest events of a type into one delivery per flush', () => {
+    const quantities: number[] = [];
+    bus.subscribe<ItemCollectedEvent>(GameEventType.ITEM_COLLECTED, (event) => {
+      quantities.push(event.quantity);
+    });
+    bus.subscribe(GameEventType.INVENTORY_CHANGED, () => calls.push('inventory'));
+
+    bus.enqueueLatest({ type: GameEventType.INVENTORY_CHANGED });
+    bus.enqueueLatest(COLLECTED);
+    bus.enqueueLatest({ type: GameEventType.INVENTORY_CHANGED });
+    bus.enqueueLatest({ ...COLLECTED, quantity: 5 });
+    expect(bus.getQueuedCount()).toBe(2);
+
+    bus.flush();
+    expect(calls).toEqual(['inventory']);
+    expect(quantities).toEqual([5]);
+  });
+
+  it('should stop flushing events that keep re-queueing themselves', () => {
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+    let deliveries = 0;
+    bus.subscribe(GameEventType.INVENTORY_CHANGED, (event) => {
+      deliveries++;
+      bus.enqueue(event);
+    });
+
+    bus.enqueue({ type: GameEventType.INVENTORY_CHANGED });
+    bus.flush();
+
+    expect(deliveries).toBe(100);
+    expect(bus.getQueuedCount()).toBe(0);
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EventBus, GameEventType } from '@application/events/EventBus';
+import { EventJournal } from '@application/events/EventJournal';
+
+describe('EventJournal', () => {
+  let bus: EventBus;
+  let tick: number;
+  let time: number;
+  let journal: EventJournal;
+
+  const collect = (quantity: number): void =>
+    bus.publish({
+      type: GameEventType.ITEM_COLLECTED,
+      itemId: 'wood',
+      itemName: 'Wood',
+      quantity,
+    });
+
+  beforeEach(() => {
+    bus = new EventBus();
+    tick = 0;
+    time = 1000;
+    journal = new EventJournal(
+      bus,
+      () => tick,
+      3,
+      () => time
+    );
+  });
+
+  it('should record nothing until started', () => {
+    collect(1);
+    expect(journal.getEntries()).toEqual([]);
+
+    journal.start();
+    tick = 7;
+    time = 2500;
+    collect(2);
+
+    expect(journal.getEntries()).toEqual([
+      {
+        sequence: 0,
+        tick: 7,
+        time: 2500,
+        event: {
+          type: GameEventType.ITEM_COLLECTED,
+          itemId: 'wood',
+          itemName: 'Wood',
+          quantity: 2,
+        },
+      },
+    ]);
+  });
+
+  it('should record events before other listeners see them', () => {
+    const seenByListener: number[] = [];
+    bus.subscribe(
+      GameEventType.ITEM_COLLECTED,
+      () => {
+        seenByListener.push(journal.getRecordedCount());
+      },
+      { priority: 100 }
+    );
+    journal.start();
+
+    collect(1);
+
+    expect(seenByListener).toEqual([1]);
+  });
+
+  it('should overwrite the oldest entries once full', () => {
+    journal.start();
+    for (let quantity = 1; quantity <= 5; quantity++) {
+      collect(quantity);
+    }
+
+    expect(journal.getEntries().map((entry) => entry.sequence)).toEqual([2, 3, 4]);
+    expect(journal.getDroppedCount()).toBe(2);
+  });
+
+  it('should filter by event type', () => {
+    journal.start();
+    collect(1);
+    bus.publish({ type: GameEventType.INVENTORY_CHANGED });
+
+    const types = new Set([GameEventType.INVENTORY_CHANGED]);
+    expect(journal.getEntries(types).map((entry) => entry.event.type)).toEqual([
+      GameEventType.INVENTORY_CHANGED,
+    ]);
+  });
+
+  it('should skip events while paused and stop when stopped', () => {
+    journal.start();
+    journal.pause();
+    collect(1);
+    expect(journal.isCapturing()).toBe(false);
+
+    journal.resume();
+    collect(2);
+    journal.stop();
+    collect(3);
+
+    expect(journal.getEntries().map((entry) => entry.sequence)).toEqual([0]);
+    expect(journal.getRecordedCount()).toBe(1);
+  });
+
+  it('should export entries as JSON', () => {
+    journal.start();
+    collect(1);
+    collect(2);
+    journal.clear();
+    collect(3);
+
+    const exported = JSON.parse(JSON.stringify(journal.toJSON()));
+    expect(exported).toMatchObject({ exportedAt: 1000, capacity: 3, dropped: 0 });
+    expect(exported.entries).toHaveLength(1);
+    expect(exported.entries[0].event.quantity).toBe(3);
+  });
+});
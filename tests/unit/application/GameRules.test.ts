@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_GAME_RULES,
+  Difficulty,
+  GAME_RULE_LIMITS,
+  GAME_RULE_PRESETS,
+  createCustomGameRules,
+  gameRulesFromJSON,
+} from '@application/balancing/GameRules';
+import { GameSimulation } from '@application/simulation/GameSimulation';
+import { EventBus } from '@application/events/EventBus';
+import { WeatherService } from '@application/services/WeatherService';
+import { RandomService, RandomStream } from '@application/services/RandomService';
+import { GAME_CONFIG, WeatherType } from '@shared/constants/GameConstants';
+
+/**
+ * Weather changes that ended in a blizzard over a number of simulated seconds
+ */
+function countBlizzards(blizzardChance: number, seconds: number): number {
+  const weather = new WeatherService(
+    new EventBus(),
+    new RandomService(7).stream(RandomStream.WEATHER),
+    undefined,
+    blizzardChance
+  );
+  let blizzards = 0;
+  let previous = weather.getWeather();
+  for (let elapsed = 0; elapsed < seconds; elapsed++) {
+    weather.update(1);
+    const current = weather.getWeather();
+    if (current !== previous && current === WeatherType.BLIZZARD) blizzards++;
+    previous = current;
+  }
+  return blizzards;
+}
+
+describe('GameRules', () => {
+  it('should mark edited rules as custom and clamp them to the limits', () => {
+    const rules = createCustomGameRules(
+      { damage: 10, nightLength: 0, cooling: 1.2 },
+      GAME_RULE_PRESETS[Difficulty.HARD]
+    );
+
+    expect(rules.difficulty).toBe(Difficulty.CUSTOM);
+    expect(rules.damage).toBe(GAME_RULE_LIMITS.MAX);
+    expect(rules.nightLength).toBe(GAME_RULE_LIMITS.MIN);
+    expect(rules.cooling).toBe(1.2);
+    expect(rules.depletion).toBe(GAME_RULE_PRESETS[Difficulty.HARD].depletion);
+  });
+
+  it('should round-trip saved rules and reject unknown difficulties', () => {
+    const brutal = GAME_RULE_PRESETS[Difficulty.BRUTAL];
+
+    expect(gameRulesFromJSON({ ...brutal })).toEqual(brutal);
+    expect(() => gameRulesFromJSON({ ...brutal, difficulty: 'nightmare' })).toThrow(
+      'Unknown difficulty: nightmare'
+    );
+  });
+
+  it('should scale depletion, cooling and damage in the simulation', () => {
+    const normal = new GameSimulation({ seed: 1 });
+    const hard = new GameSimulation({ seed: 1, rules: GAME_RULE_PRESETS[Difficulty.HARD] });
+
+    normal.runFor(120);
+    hard.runFor(120);
+
+    const depletion = GAME_RULE_PRESETS[Difficulty.HARD].depletion;
+    expect(hard.getCharacter().stats.hunger).toBeCloseTo(
+      100 - 2 * GAME_CONFIG.HUNGER_DEPLETION_RATE * depletion
+    );
+    expect(hard.getCharacter().stats.temperature).toBeLessThan(
+      normal.getCharacter().stats.temperature
+    );
+  });
+
+  it('should lengthen the night and with it the day', () => {
+    const simulation = new GameSimulation({
+      seed: 1,
+      rules: createCustomGameRules({ nightLength: 2 }),
+    });
+    const dayLength = simulation.time.getDayLength();
+
+    simulation.runDays(1);
+
+    expect(dayLength).toBeGreaterThan(GAME_CONFIG.DAY_CYCLE_DURATION);
+    expect(simulation.time.getDay()).toBe(2);
+    expect(simulation.time.getNormalizedTime()).toBeCloseTo(0.333, 2);
+  });
+
+  it('should slow resource respawns', () => {
+    const simulation = new GameSimulation({
+      seed: 1,
+      rules: createCustomGameRules({ resourceRespawn: 2 }),
+    });
+    const resource = simulation.getResources().getResources()[0]!;
+    while (!resource.isDepleted) resource.hit(null);
+
+    simulation.runFor(resource.config.respawnTime + 1);
+    expect(resource.isDepleted).toBe(true);
+
+    simulation.runFor(resource.config.respawnTime);
+    expect(resource.isDepleted).toBe(false);
+  });
+
+  it('should make blizzards more likely with a higher blizzard chance', () => {
+    const seconds = 10 * GAME_CONFIG.DAY_CYCLE_DURATION;
+
+    expect(countBlizzards(GAME_RULE_LIMITS.MAX, seconds)).toBeGreaterThan(
+      countBlizzards(GAME_RULE_LIMITS.MIN, seconds)
+    );
+  });
+
+  it('should switch a running simulation to other rules', () => {
+    const simulation = new GameSimulation({ seed: 1 });
+
+    simulation.setRules(GAME_RULE_PRESETS[Difficulty.BRUTAL]);
+    simulation.runFor(60);
+
+    expect(simulation.getRules().difficulty).toBe(Difficulty.BRUTAL);
+    expect(simulation.getCharacter().stats.hunger).toBeCloseTo(
+      100 - GAME_CONFIG.HUNGER_DEPLETION_RATE * GAME_RULE_PRESETS[Difficulty.BRUTAL].depletion
+    );
+    expect(DEFAULT_GAME_RULES.difficulty).toBe(Difficulty.NORMAL);
+  });
+});
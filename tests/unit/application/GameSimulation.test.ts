@@ -0,0 +1,577 @@
+import { describe, it, expect } from 'vitest';
+import { GameSimulation, SimulationCommand } from '@application/simulation/GameSimulation';
+import { GameEvent, GameEventType } from '@application/events/EventBus';
+import { DamageCause } from '@domain/events/CharacterEvents';
+import { Item, ItemType } from '@domain/entities/Item';
+import { StatusEffectType } from '@domain/value-objects/StatusEffectDefinitions';
+import { Stats } from '@domain/value-objects/Stats';
+import {
+  DEATH_CONFIG,
+  FATIGUE_CONFIG,
+  GAME_CONFIG,
+  MOVEMENT_CONFIG,
+  TIME_CONFIG,
+  WEATHER_CONFIG,
+} from '@shared/constants/GameConstants';
+
+/**
+ * Hit a resource until it breaks, resting whenever stamina runs out
+ */
+function gatherUntilDepleted(simulation: GameSimulation, resourceId: string): void {
+  for (let attempts = 0; attempts < 50; attempts++) {
+    const result = simulation.gather(resourceId);
+    if (result.resourceDepleted) return;
+    if (!result.success) {
+      simulation.runFor(10);
+    }
+  }
+  throw new Error(`${resourceId} did not deplete`);
+}
+
+describe('GameSimulation', () => {
+  describe('time', () => {
+    it('should advance whole in-game days', () => {
+      const simulation = new GameSimulation({ seed: 1 });
+
+      simulation.runDays(3);
+
+      expect(simulation.time.getDay()).toBe(4);
+      expect(simulation.clock.getElapsed()).toBeCloseTo(3 * GAME_CONFIG.DAY_CYCLE_DURATION);
+    });
+
+    it('should publish time and weather events through its event bus', () => {
+      const simulation = new GameSimulation({ seed: 1 });
+      const weathers: string[] = [];
+      let timeEvents = 0;
+      simulation.eventBus.subscribe(GameEventType.TIME_CHANGED, () => timeEvents++);
+      simulation.eventBus.subscribe(GameEventType.WEATHER_CHANGED, (event) => {
+        weathers.push(event.weather);
+      });
+
+      simulation.runDays(1);
+
+      // One on the first tick, then one per interval
+      expect(timeEvents).toBe(1 + (24 * 60) / TIME_CONFIG.EVENT_INTERVAL_MINUTES);
+      expect(weathers.length).toBeGreaterThan(0);
+    });
+
+    it('should announce each time-of-day segment and weather transition once', () => {
+      const simulation = new GameSimulation({ seed: 1 });
+      const events: GameEvent[] = [];
+      simulation.eventBus.subscribeAll((event) => events.push(event));
+
+      simulation.runDays(1.1);
+
+      const segments = events
+        .filter((event) => event.type.endsWith('_STARTED') && 'day' in event)
+        .map((event) => event.type);
+      expect(segments).toEqual([
+        GameEventType.DUSK_STARTED,
+        GameEventType.NIGHT_STARTED,
+        GameEventType.DAWN_STARTED,
+        GameEventType.DAY_STARTED,
+      ]);
+
+      const started = events.filter(
+        (event) => event.type === GameEventType.WEATHER_TRANSITION_STARTED
+      );
+      const completed = events.filter(
+        (event) => event.type === GameEventType.WEATHER_TRANSITION_COMPLETED
+      );
+      expect(started.length).toBeGreaterThan(0);
+      expect(completed.length).toBeGreaterThanOrEqual(started.length - 1);
+
+      // Steady weather publishes nothing; transitions publish per intensity step
+      const weatherEvents = events.filter((event) => event.type === GameEventType.WEATHER_CHANGED);
+      const perTransition = 1 / WEATHER_CONFIG.EVENT_INTENSITY_STEP + 1;
+      expect(weatherEvents.length).toBeLessThanOrEqual(1 + started.length * perTransition);
+    });
+  });
+
+  describe('survival scenarios', () => {
+    it('should deplete hunger and thirst at the configured rates', () => {
+      const simulation = new GameSimulation({ seed: 1 });
+
+      simulation.runFor(120);
+
+      const stats = simulation.getCharacter().stats;
+      expect(stats.hunger).toBeCloseTo(100 - 2 * GAME_CONFIG.HUNGER_DEPLETION_RATE);
+      expect(stats.thirst).toBeCloseTo(100 - 2 * GAME_CONFIG.THIRST_DEPLETION_RATE);
+    });
+
+    it('should let an idle survivor with no shelter freeze on the first day', () => {
+      const simulation = new GameSimulation({ seed: 1 });
+
+      simulation.runDays(1);
+
+      const character = simulation.getCharacter();
+      expect(character.isAlive).toBe(false);
+      expect(character.stats.temperature).toBeLessThan(GAME_CONFIG.HYPOTHERMIA_THRESHOLD);
+    });
+
+    it('should announce hypothermia, the damage it deals and the death', () => {
+      const simulation = new GameSimulation({ seed: 1 });
+      const events: GameEvent[] = [];
+      simulation.eventBus.subscribeAll((event) => {
+        if (event.type !== GameEventType.TIME_CHANGED) events.push(event);
+      });
+
+      simulation.runFor(400);
+
+      const types = events.map((event) => event.type);
+      const firstDamage = types.indexOf(GameEventType.CHARACTER_DAMAGED);
+      expect(types.indexOf(GameEventType.STAT_THRESHOLD_CROSSED)).toBeLessThan(firstDamage);
+      expect(events).toContainEqual(
+        expect.objectContaining({
+          type: GameEventType.STAT_THRESHOLD_CROSSED,
+          stat: 'temperature',
+          direction: 'below',
+        })
+      );
+      expect(events[firstDamage]).toMatchObject({ cause: DamageCause.HYPOTHERMIA });
+      expect(events.filter((event) => event.type === GameEventType.CHARACTER_DIED)).toEqual([
+        {
+          type: GameEventType.CHARACTER_DIED,
+          characterId: 'player_1',
+          cause: DamageCause.HYPOTHERMIA,
+        },
+      ]);
+    });
+
+    it('should only regenerate stamina while standing still', () => {
+      const simulation = new GameSimulation({ seed: 1 });
+      simulation.setCharacter(
+        simulation.getCharacter().updateStats(simulation.getCharacter().stats.withStamina(10))
+      );
+
+      simulation.setActivity({ isMoving: true, isSprinting: false });
+      simulation.runFor(60);
+      expect(simulation.getCharacter().stats.stamina).toBe(10);
+
+      simulation.setActivity({ isMoving: false, isSprinting: false });
+      simulation.runFor(1);
+      expect(simulation.getCharacter().stats.stamina).toBeCloseTo(
+        10 + GAME_CONFIG.STAMINA_REGEN_RATE
+      );
+    });
+
+    it('should drain stamina while sprinting and force walking until it recovers', () => {
+      const simulation = new GameSimulation({ seed: 1 });
+
+      const sprinting = { isMoving: true, isSprinting: true };
+      simulation.setActivity(sprinting);
+      simulation.runFor(2);
+      expect(simulation.getStaminaState()).toBe('sprinting');
+      expect(simulation.getCharacter().stats.stamina).toBeCloseTo(
+        100 - 2 * GAME_CONFIG.STAMINA_SPRINT_COST
+      );
+
+      simulation.runFor(4);
+      expect(simulation.getStaminaState()).toBe('exhausted');
+      expect(simulation.canSprint()).toBe(false);
+
+      simulation.setActivity({ isMoving: false, isSprinting: false });
+      simulation.runFor(2);
+      expect(simulation.getCharacter().stats.stamina).toBeLessThan(
+        MOVEMENT_CONFIG.SPRINT_RECOVERY_STAMINA
+      );
+      expect(simulation.canSprint()).toBe(false);
+
+      simulation.runFor(10);
+      simulation.setActivity(sprinting);
+      expect(simulation.canSprint()).toBe(true);
+      expect(simulation.getStaminaState()).toBe('sprinting');
+    });
+
+    it('should charge stamina for a jump', () => {
+      const simulation = new GameSimulation({ seed: 1 });
+
+      expect(simulation.jump().success).toBe(true);
+      expect(simulation.getCharacter().stats.stamina).toBe(100 - MOVEMENT_CONFIG.JUMP_STAMINA_COST);
+
+      simulation.setCharacter(
+        simulation.getCharacter().updateStats(simulation.getCharacter().stats.withStamina(5))
+      );
+      expect(simulation.jump()).toEqual({ success: false, message: 'Too exhausted to jump' });
+      expect(simulation.getCharacter().stats.stamina).toBe(5);
+    });
+  });
+
+  describe('gathering and crafting', () => {
+    it('should gather materials and craft a campfire', () => {
+      const simulation = new GameSimulation({ seed: 4 });
+
+      gatherUntilDepleted(simulation, 'pine_tree_0');
+      gatherUntilDepleted(simulation, 'pine_tree_1');
+      gatherUntilDepleted(simulation, 'rock_formation_0');
+      expect(simulation.craft('campfire').success).toBe(false); // Out of breath
+
+      simulation.runFor(15);
+      const result = simulation.craft('campfire');
+
+      expect(result.success).toBe(true);
+      expect(simulation.getInventory().countItem('campfire')).toBe(1);
+    });
+
+    it('should respawn depleted resources as time passes', () => {
+      const simulation = new GameSimulation({ seed: 42 });
+      gatherUntilDepleted(simulation, 'berry_bush_0');
+      const bush = simulation.getResources().getResourceById('berry_bush_0');
+
+      simulation.runFor(299);
+      expect(bush?.isDepleted).toBe(true);
+
+      simulation.runFor(1);
+      expect(bush?.isDepleted).toBe(false);
+    });
+
+    it('should announce depleted and respawned resources', () => {
+      const simulation = new GameSimulation({ seed: 42 });
+      const events: GameEvent[] = [];
+      simulation.eventBus.subscribe(GameEventType.RESOURCE_DEPLETED, (e) => events.push(e));
+      simulation.eventBus.subscribe(GameEventType.RESOURCE_RESPAWNED, (e) => events.push(e));
+
+      gatherUntilDepleted(simulation, 'berry_bush_0');
+      simulation.runFor(300);
+
+      expect(events).toEqual([
+        {
+          type: GameEventType.RESOURCE_DEPLETED,
+          resourceId: 'berry_bush_0',
+          resourceType: 'bush',
+          respawnTime: 300,
+        },
+        {
+          type: GameEventType.RESOURCE_RESPAWNED,
+          resourceId: 'berry_bush_0',
+          resourceType: 'bush',
+        },
+      ]);
+    });
+
+    it('should reject unknown resources and recipes', () => {
+      const simulation = new GameSimulation({ seed: 42 });
+
+      expect(() => simulation.gather('missing')).toThrow('Unknown resource');
+      expect(() => simulation.craft('missing')).toThrow('Unknown recipe');
+    });
+  });
+
+  describe('using items', () => {
+    function addItem(simulation: GameSimulation, item: Item): number {
+      simulation.getInventory().addItem(item);
+      return simulation
+        .getInventory()
+        .getAllSlots()
+        .find((slot) => slot.item?.id === item.id)!.slotIndex;
+    }
+
+    function dirtyWater(): Item {
+      return Item.create({
+        id: 'dirty_water',
+        name: 'Dirty Water',
+        description: '',
+        type: ItemType.CONSUMABLE,
+        maxStack: 10,
+        quantity: 10,
+        isConsumable: true,
+        effects: { thirstRestore: 5, poisonChance: 0.5 },
+      });
+    }
+
+    it('should record drinking as a command that replays the same poisoning', () => {
+      const played = new GameSimulation({ seed: 3 });
+      const commands: SimulationCommand[] = [];
+      played.onCommand((command) => commands.push(command));
+      const slotIndex = addItem(played, dirtyWater());
+      for (let sip = 0; sip < 10; sip++) {
+        expect(played.consume(slotIndex).success).toBe(true);
+      }
+      expect(played.consume(slotIndex).success).toBe(false);
+
+      const replayed = new GameSimulation({ seed: 3 });
+      addItem(replayed, dirtyWater());
+      for (const command of commands) {
+        replayed.execute(command);
+      }
+
+      expect(commands).toContainEqual({ type: 'consume', slotIndex });
+      expect(played.getCharacter().hasStatusEffect(StatusEffectType.FOOD_POISONING)).toBe(true);
+      expect(replayed.getCharacter().toJSON()).toEqual(played.getCharacter().toJSON());
+    });
+
+    it('should refuse items that are not consumable, even with effects', () => {
+      const simulation = new GameSimulation({ seed: 3 });
+      const slotIndex = addItem(
+        simulation,
+        Item.create({
+          id: 'raw_meat',
+          name: 'Raw Meat',
+          description: '',
+          type: ItemType.FOOD,
+          maxStack: 5,
+          quantity: 1,
+          effects: { hungerRestore: 30 },
+        })
+      );
+      const character = simulation.getCharacter();
+      character.updateStats(character.stats.withHunger(50));
+
+      const result = simulation.consume(slotIndex);
+
+      expect(result).toEqual({ success: false, message: 'Raw Meat cannot be used' });
+      expect(simulation.getInventory().countItem('raw_meat')).toBe(1);
+      expect(character.stats.hunger).toBe(50);
+    });
+
+    it('should eat perishable food at its current freshness', () => {
+      const simulation = new GameSimulation({ seed: 3 });
+      const slotIndex = addItem(
+        simulation,
+        Item.create({
+          id: 'berries',
+          name: 'Berries',
+          type: ItemType.FOOD,
+          maxStack: 20,
+          isConsumable: true,
+          effects: { hungerRestore: 10 },
+          shelfLife: 1000,
+          freshness: 0.6,
+        })
+      );
+      const character = simulation.getCharacter();
+      character.updateStats(character.stats.withHunger(50));
+
+      expect(simulation.consume(slotIndex).success).toBe(true);
+      expect(character.stats.hunger).toBe(57);
+    });
+  });
+
+  describe('heat sources', () => {
+    it('should place a campfire from the inventory and warm the player near it', () => {
+      const simulation = new GameSimulation({ seed: 1 });
+      simulation.getInventory().addItem(
+        Item.create({
+          id: 'campfire',
+          name: 'Campfire',
+          description: '',
+          type: ItemType.MATERIAL,
+        })
+      );
+      simulation.getCharacter().updateTemperature(34);
+
+      expect(simulation.place('wood').success).toBe(false);
+      expect(simulation.place('campfire').message).toBe('Placed Campfire');
+      expect(simulation.getInventory().countItem('campfire')).toBe(0);
+      expect(simulation.getHeat()).toBe(1);
+
+      simulation.runFor(60);
+      expect(simulation.isWarmingUp()).toBe(true);
+      const warmed = simulation.getCharacter().stats.temperature;
+      expect(warmed).toBeGreaterThan(34);
+
+      simulation.setPlayerPosition(20, 1, 0);
+      simulation.runFor(60);
+      expect(simulation.getHeat()).toBe(0);
+      expect(simulation.isWarmingUp()).toBe(false);
+      expect(simulation.getCharacter().stats.temperature).toBeLessThan(warmed);
+    });
+  });
+
+  describe('death', () => {
+    const wood = (quantity: number): Item =>
+      Item.create({ id: 'wood', name: 'Wood', type: ItemType.MATERIAL, maxStack: 20, quantity });
+
+    it('should leave a corpse with the inventory where the character died', () => {
+      const simulation = new GameSimulation({ seed: 1 });
+      const events: GameEvent[] = [];
+      simulation.eventBus.subscribeAll((event) => events.push(event));
+      simulation.getInventory().addItem(wood(5));
+      simulation.setPlayerPosition(10, 1, 4);
+
+      simulation.getCharacter().takeDamage(1000, DamageCause.OTHER);
+      simulation.runFor(0.1);
+
+      const [corpse] = simulation.corpses.getCorpses();
+      expect(corpse?.position).toMatchObject({ x: 10, y: 1, z: 4 });
+      expect(corpse?.inventory.countItem('wood')).toBe(5);
+      expect(simulation.getInventory().getAllItems()).toEqual([]);
+      expect(events).toContainEqual(
+        expect.objectContaining({
+          type: GameEventType.CORPSE_CREATED,
+          corpseId: corpse?.id,
+          cause: DamageCause.OTHER,
+          itemCount: 5,
+        })
+      );
+    });
+
+    it('should respawn with fresh stats at the spawn point or a camp', () => {
+      const simulation = new GameSimulation({ seed: 1 });
+      simulation
+        .getInventory()
+        .addItem(Item.create({ id: 'campfire', name: 'Campfire', type: ItemType.MATERIAL }));
+      simulation.setPlayerPosition(30, 1, 0);
+      simulation.place('campfire');
+
+      expect(simulation.respawn('spawn').message).toBe('Character is alive');
+      simulation.getCharacter().takeDamage(1000, DamageCause.OTHER);
+      simulation.runFor(0.1);
+
+      expect(simulation.getRespawnPoints().map((point) => point.id)).toEqual([
+        'spawn',
+        'campfire_0',
+      ]);
+      const result = simulation.respawn('campfire_0');
+      expect(result.success).toBe(true);
+
+      const character = simulation.getCharacter();
+      expect(character.isAlive).toBe(true);
+      expect(character.stats.health).toBe(character.stats.maxHealth);
+      expect(character.stats.temperature).toBe(GAME_CONFIG.NORMAL_BODY_TEMP);
+      expect(character.position.x).toBe(30 + DEATH_CONFIG.CAMP_OFFSET);
+    });
+
+    it('should loot a corpse in reach and remove it once empty', () => {
+      const simulation = new GameSimulation({ seed: 1 });
+      simulation.getInventory().addItem(wood(5));
+      simulation.getCharacter().takeDamage(1000, DamageCause.OTHER);
+      simulation.runFor(0.1);
+      const corpseId = simulation.corpses.getCorpses()[0]?.id ?? '';
+
+      expect(simulation.loot(corpseId).message).toBe('Character is dead');
+      simulation.respawn('spawn');
+      simulation.setPlayerPosition(20, 1, 0);
+      expect(simulation.loot(corpseId).message).toBe('Too far away');
+
+      simulation.setPlayerPosition(1, 1, 0);
+      expect(simulation.loot(corpseId)).toMatchObject({ success: true, itemCount: 5 });
+      expect(simulation.getInventory().countItem('wood')).toBe(5);
+      expect(simulation.corpses.getCorpses()).toEqual([]);
+    });
+  });
+
+  describe('water', () => {
+    it('should melt gathered snow and ice into water only beside a fire', () => {
+      const simulation = new GameSimulation({ seed: 4 });
+      for (const resourceId of [
+        'snow_drift_0',
+        'snow_drift_1',
+        'ice_formation_0',
+        'ice_formation_1',
+      ]) {
+        gatherUntilDepleted(simulation, resourceId);
+      }
+      expect(simulation.craft('melt_snow').success).toBe(false);
+
+      simulation
+        .getInventory()
+        .addItem(
+          Item.create({
+            id: 'campfire',
+            name: 'Campfire',
+            description: '',
+            type: ItemType.MATERIAL,
+          })
+        );
+      simulation.place('campfire');
+      simulation.runFor(15);
+
+      const dirty = simulation.craft('melt_snow').item;
+      const clean = simulation.craft('melt_ice').item;
+      expect(dirty?.effects).toEqual({ thirstRestore: 20, poisonChance: 0.25 });
+      expect(clean?.effects).toEqual({ thirstRestore: 35 });
+      expect(clean?.isConsumable).toBe(true);
+    });
+  });
+
+  describe('sleep', () => {
+    const tiredSimulation = (): GameSimulation => {
+      const simulation = new GameSimulation({ seed: 1 });
+      simulation.getCharacter().useEnergy(60);
+      return simulation;
+    };
+    const addBedroll = (simulation: GameSimulation): void => {
+      simulation
+        .getInventory()
+        .addItem(
+          Item.create({ id: 'bedroll', name: 'Bedroll', description: '', type: ItemType.TOOL })
+        );
+    };
+
+    it('should need a bedroll', () => {
+      const simulation = tiredSimulation();
+      expect(simulation.sleep().success).toBe(false);
+
+      addBedroll(simulation);
+      expect(simulation.sleep().spot).toBe('bedroll');
+      expect(simulation.sleep().message).toBe('Already asleep');
+    });
+
+    it('should fast-forward the clock until rested, still simulating hunger', () => {
+      const simulation = tiredSimulation();
+      const events: GameEvent[] = [];
+      simulation.eventBus.subscribe(GameEventType.SLEEP_STARTED, (event) => events.push(event));
+      simulation.eventBus.subscribe(GameEventType.SLEEP_ENDED, (event) => events.push(event));
+      addBedroll(simulation);
+
+      expect(simulation.sleep().spot).toBe('bedroll');
+      const startTime = simulation.time.getNormalizedTime();
+      simulation.runFor(1);
+      expect(simulation.time.getNormalizedTime() - startTime).toBeCloseTo(
+        FATIGUE_CONFIG.SLEEP_TIME_SCALE / GAME_CONFIG.DAY_CYCLE_DURATION
+      );
+
+      simulation.runFor(30);
+      expect(simulation.isSleeping()).toBe(false);
+      expect(simulation.getCharacter().stats.hunger).toBeLessThan(97); // Three in-game minutes asleep
+      expect(events).toEqual([
+        { type: GameEventType.SLEEP_STARTED, characterId: 'player_1', spot: 'bedroll' },
+        {
+          type: GameEventType.SLEEP_ENDED,
+          characterId: 'player_1',
+          reason: 'rested',
+          energy: Stats.MAX_ENERGY,
+        },
+      ]);
+    });
+
+    it('should be interrupted by damage and the cold', () => {
+      const reasons: string[] = [];
+      const simulation = tiredSimulation();
+      simulation.eventBus.subscribe(GameEventType.SLEEP_ENDED, (event) =>
+        reasons.push(event.reason)
+      );
+      addBedroll(simulation);
+
+      simulation.sleep();
+      simulation.getCharacter().takeDamage(5);
+      simulation.runFor(0.1);
+      expect(simulation.isSleeping()).toBe(false);
+
+      simulation.getCharacter().updateTemperature(GAME_CONFIG.HYPOTHERMIA_THRESHOLD + 0.05);
+      simulation.sleep();
+      simulation.runFor(2);
+      expect(reasons).toEqual(['damage', 'hypothermia']);
+    });
+  });
+
+  it('should replay identically from the same seed', () => {
+    const run = (seed: number): string => {
+      const simulation = new GameSimulation({ seed });
+      const weathers: string[] = [];
+      simulation.eventBus.subscribe(GameEventType.WEATHER_CHANGED, (event) => {
+        weathers.push(event.weather);
+      });
+      gatherUntilDepleted(simulation, 'rock_formation_0');
+      simulation.runDays(2);
+      return JSON.stringify({
+        weathers,
+        inventory: simulation.getInventory().toJSON(),
+        character: simulation.getCharacter().toJSON(),
+      });
+    };
+
+    expect(run(7)).toBe(run(7));
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ActivityMetabolism,
+  FlatMetabolism,
+  IMetabolism,
+  MetabolismModel,
+} from '@application/survival/Metabolism';
+import { ISurvivalContext } from '@application/survival/SurvivalRules';
+import { createSurvivalBalance } from '@application/balancing/SurvivalBalance';
+import { GameSimulation, createStarterCharacter } from '@application/simulation/GameSimulation';
+import { GAME_CONFIG, METABOLISM_CONFIG } from '@shared/constants/GameConstants';
+
+function context(overrides: Partial<ISurvivalContext> = {}): ISurvivalContext {
+  return {
+    deltaTime: 1,
+    environmentTemperature: 37,
+    activity: { isMoving: false, isSprinting: false },
+    snowfall: 0,
+    heat: 0,
+    isSleeping: false,
+    ...overrides,
+  };
+}
+
+const sprinting = { isMoving: true, isSprinting: true };
+
+describe('Metabolism', () => {
+  it('should burn at the flat rates whatever the character does', () => {
+    const flat: IMetabolism = new FlatMetabolism();
+    const character = createStarterCharacter();
+
+    expect(flat.getBurnRate(character, context({ activity: sprinting }))).toEqual({
+      hunger: 1,
+      thirst: 1,
+    });
+    expect(flat.getExertionCost({ type: 'gather', staminaCost: 8 })).toEqual({
+      hunger: 0,
+      thirst: 0,
+    });
+  });
+
+  it('should burn more when sprinting or cold and less when resting or asleep', () => {
+    const activity = new ActivityMetabolism();
+    const character = createStarterCharacter();
+
+    const resting = activity.getBurnRate(character, context());
+    const running = activity.getBurnRate(character, context({ activity: sprinting }));
+    const asleep = activity.getBurnRate(character, context({ isSleeping: true }));
+    expect(resting.hunger).toBeLessThan(1);
+    expect(running.hunger).toBeGreaterThan(1);
+    expect(running.thirst).toBeGreaterThan(running.hunger);
+    expect(asleep.hunger).toBeLessThan(resting.hunger);
+
+    character.updateTemperature(GAME_CONFIG.NORMAL_BODY_TEMP - 2);
+    expect(activity.getBurnRate(character, context()).hunger).toBeCloseTo(
+      resting.hunger + 2 * METABOLISM_CONFIG.COLD_BURN_PER_DEGREE
+    );
+  });
+
+  it('should charge gathering by the resource stamina cost', () => {
+    const activity = new ActivityMetabolism();
+
+    const light = activity.getExertionCost({ type: 'gather', staminaCost: 2 });
+    const heavy = activity.getExertionCost({ type: 'gather', staminaCost: 8 });
+    expect(heavy.hunger).toBeCloseTo(4 * light.hunger);
+    expect(heavy.thirst).toBeGreaterThan(0);
+    expect(activity.getExertionCost({ type: 'craft' }).hunger).toBeCloseTo(
+      METABOLISM_CONFIG.CRAFT_CALORIES / METABOLISM_CONFIG.CALORIES_PER_HUNGER
+    );
+  });
+
+  it('should let designers compare the models in the simulation', () => {
+    const activityBalance = createSurvivalBalance({ metabolism: MetabolismModel.ACTIVITY });
+    const flat = new GameSimulation({ seed: 1 });
+    const activity = new GameSimulation({ seed: 1, balance: activityBalance });
+    expect(flat.metabolism.model).toBe(MetabolismModel.FLAT);
+    expect(activity.metabolism.model).toBe(MetabolismModel.ACTIVITY);
+
+    for (const simulation of [flat, activity]) {
+      simulation.setActivity(sprinting);
+      simulation.runFor(30);
+    }
+
+    expect(flat.getCharacter().stats.hunger).toBeCloseTo(
+      100 - GAME_CONFIG.HUNGER_DEPLETION_RATE / 2
+    );
+    expect(activity.getCharacter().stats.hunger).toBeLessThan(flat.getCharacter().stats.hunger);
+    expect(activity.getCharacter().stats.thirst).toBeLessThan(flat.getCharacter().stats.thirst);
+  });
+
+  it('should spend food and water on gathering only with the activity model', () => {
+    const flat = new GameSimulation({ seed: 1 });
+    const activity = new GameSimulation({
+      seed: 1,
+      balance: createSurvivalBalance({ metabolism: MetabolismModel.ACTIVITY }),
+    });
+
+    for (const simulation of [flat, activity]) {
+      const resource = simulation.getResources().getResources()[0]!;
+      expect(simulation.gather(resource.id).success).toBe(true);
+    }
+
+    expect(flat.getCharacter().stats.hunger).toBe(100);
+    expect(activity.getCharacter().stats.hunger).toBeLessThan(100);
+    expect(activity.getCharacter().stats.thirst).toBeLessThan(100);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { RandomService, RandomStream } from '@application/services/RandomService';
+import { WeatherService } from '@application/services/WeatherService';
+import { EventBus } from '@application/events/EventBus';
+import { Resource } from '@domain/entities/Resource';
+import { RESOURCE_DEFINITIONS } from '@domain/value-objects/ResourceDefinitions';
+import { SeededRandom } from '@shared/random/SeededRandom';
+
+function draw(random: { next(): number }, count: number): number[] {
+  return Array.from({ length: count }, () => random.next());
+}
+
+/**
+ * Run the weather state machine and record every weather it reports
+ */
+function weatherSequence(seed: number): string[] {
+  const random = new RandomService(seed);
+  const weather = new WeatherService(new EventBus(), random.stream(RandomStream.WEATHER));
+  const sequence: string[] = [];
+  for (let i = 0; i < 2000; i++) {
+    weather.update(1);
+    if (sequence[sequence.length - 1] !== weather.getWeather()) {
+      sequence.push(weather.getWeather());
+    }
+  }
+  return sequence;
+}
+
+/**
+ * Deplete a fresh pine tree repeatedly and record the drops
+ */
+function lootSequence(random: RandomService): number[] {
+  const quantities: number[] = [];
+  for (let i = 0; i < 20; i++) {
+    const tree = new Resource(
+      `tree_${i}`,
+      RESOURCE_DEFINITIONS['pine_tree']!,
+      random.stream(RandomStream.LOOT)
+    );
+    let drops = tree.hit(null);
+    while (!tree.isDepleted) drops = tree.hit(null);
+    quantities.push(...drops.map((drop) => drop.minQuantity));
+  }
+  return quantities;
+}
+
+describe('SeededRandom', () => {
+  it('should produce the same sequence for the same seed', () => {
+    expect(draw(new SeededRandom(42), 50)).toEqual(draw(new SeededRandom(42), 50));
+    expect(draw(new SeededRandom(42), 50)).not.toEqual(draw(new SeededRandom(43), 50));
+  });
+
+  it('should stay within [0, 1) and honour integer ranges', () => {
+    const random = new SeededRandom(7);
+    for (let i = 0; i < 1000; i++) {
+      const value = random.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+
+      const roll = random.int(2, 5);
+      expect(roll).toBeGreaterThanOrEqual(2);
+      expect(roll).toBeLessThanOrEqual(5);
+      expect(Number.isInteger(roll)).toBe(true);
+    }
+  });
+
+  it('should resume exactly from a saved state', () => {
+    const random = new SeededRandom(9);
+    draw(random, 10);
+    const state = random.getState();
+    const expected = draw(random, 10);
+
+    const resumed = new SeededRandom(0);
+    resumed.setState(state);
+    expect(draw(resumed, 10)).toEqual(expected);
+  });
+});
+
+describe('RandomService', () => {
+  it('should keep named streams independent', () => {
+    const a = new RandomService(100);
+    const b = new RandomService(100);
+
+    draw(a.stream(RandomStream.LOOT), 25); // Extra loot rolls must not shift the weather
+    expect(draw(a.stream(RandomStream.WEATHER), 10)).toEqual(
+      draw(b.stream(RandomStream.WEATHER), 10)
+    );
+    expect(draw(b.stream(RandomStream.LOOT), 10)).not.toEqual(
+      draw(b.stream(RandomStream.WEATHER), 10)
+    );
+  });
+
+  it('should reproduce the weather sequence from a world seed', () => {
+    const sequence = weatherSequence(2024);
+
+    expect(sequence.length).toBeGreaterThan(3);
+    expect(weatherSequence(2024)).toEqual(sequence);
+    expect(weatherSequence(2025)).not.toEqual(sequence);
+  });
+
+  it('should reproduce resource drops from a world seed', () => {
+    expect(lootSequence(new RandomService(11))).toEqual(lootSequence(new RandomService(11)));
+  });
+
+  it('should fork a stream from its start without advancing it', () => {
+    const random = new RandomService(3);
+    const layout = draw(random.fork(RandomStream.WORLD_GEN), 20);
+
+    draw(random.stream(RandomStream.WORLD_GEN), 5);
+    expect(draw(random.fork(RandomStream.WORLD_GEN), 20)).toEqual(layout);
+  });
+
+  it('should rewind streams in place when reseeded or restored', () => {
+    const random = new RandomService(1);
+    const weather = random.stream(RandomStream.WEATHER);
+    const saved = random.toJSON();
+    const expected = draw(weather, 5);
+
+    random.reseed(77);
+    random.restoreState(saved);
+    expect(random.stream(RandomStream.WEATHER)).toBe(weather);
+    expect(draw(weather, 5)).toEqual(expected);
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, it, expect } from 'vitest';
+import { GameSimulation } from '@application/simulation/GameSimulation';
+import { Item, ItemType } from '@domain/entities/Item';
+import {
+  IInputState,
+  activityFromInput,
+  createIdleInput,
+} from '@application/simulation/PlayerInput';
+import { SaveGameService, ISaveStorage } from '@application/services/SaveGameService';
+import { ISaveGameSnapshot } from '@application/persistence/SaveSnapshot';
+import { InputRecorder } from '@application/replay/InputRecorder';
+import { ReplayPlayer } from '@application/replay/ReplayPlayer';
+import {
+  IInputRecording,
+  ReplayFormatError,
+  parseRecording,
+} from '@application/replay/InputRecording';
+
+const NO_STORAGE: ISaveStorage = {
+  save: () => Promise.resolve(),
+  load: () => Promise.resolve(null),
+  delete: () => Promise.resolve(),
+};
+
+function saveServiceFor(simulation: GameSimulation): SaveGameService {
+  return new SaveGameService(NO_STORAGE, simulation.time, simulation.weather, simulation.random);
+}
+
+function snapshotOf(simulation: GameSimulation): ISaveGameSnapshot {
+  return saveServiceFor(simulation).createSnapshot({
+    character: simulation.getCharacter(),
+    inventory: simulation.getInventory(),
+    resources: simulation.getResources().getResources(),
+    playtime: 0,
+  });
+}
+
+/**
+ * A fresh simulation in the state the recording started from
+ */
+function restoreFrom(recording: IInputRecording): GameSimulation {
+  const simulation = new GameSimulation({ seed: recording.seed });
+  const loaded = saveServiceFor(simulation).restoreSnapshot(
+    recording.initialSave,
+    simulation.getResources().getResources(),
+    'strict'
+  );
+  simulation.setCharacter(loaded.character);
+  simulation.setInventory(loaded.inventory);
+  return simulation;
+}
+
+/**
+ * Play a scripted session: walk, gather and craft, with time passing in between
+ */
+function recordSession(): { recording: IInputRecording; final: string } {
+  // State from before the recording (time passed, materials carried) must come from the save
+  const simulation = new GameSimulation({ seed: 4 });
+  simulation.runFor(30);
+  for (const [id, quantity] of [
+    ['wood', 4],
+    ['stone', 2],
+  ] as const) {
+    simulation
+      .getInventory()
+      .addItem(
+        Item.create({
+          id,
+          name: id,
+          description: '',
+          type: ItemType.MATERIAL,
+          maxStack: 20,
+          quantity,
+        })
+      );
+  }
+
+  let input: IInputState = createIdleInput();
+  const setInput = (changes: Partial<IInputState>): void => {
+    input = { ...input, ...changes };
+    simulation.setActivity(activityFromInput(input));
+  };
+  // Stands in for the scene moving the player each tick
+  simulation.onTick((deltaTime) => {
+    if (input.forward) {
+      const { x, y, z } = simulation.getCharacter().position;
+      simulation.setPlayerPosition(x, y, z + 6 * deltaTime);
+    }
+  });
+  const recorder = new InputRecorder(simulation, () => input);
+  recorder.start(snapshotOf(simulation));
+
+  simulation.gather('berry_bush_0');
+  setInput({ forward: true, sprint: true });
+  simulation.runFor(2);
+  setInput({ forward: false, sprint: false, interact: true });
+  for (let hit = 0; hit < 5; hit++) {
+    simulation.gather('pine_tree_0');
+    simulation.runFor(2);
+  }
+  for (let hit = 0; hit < 4; hit++) {
+    simulation.gather('rock_formation_0');
+    simulation.runFor(2.5);
+  }
+  setInput({ interact: false });
+  simulation.craft('campfire');
+  simulation.craft('campfire'); // Materials used up
+  simulation.runFor(1);
+
+  return { recording: recorder.stop(), final: stateOf(simulation) };
+}
+
+function stateOf(simulation: GameSimulation): string {
+  return JSON.stringify({
+    character: simulation.getCharacter().toJSON(),
+    inventory: simulation.getInventory().toJSON(),
+    resources: simulation
+      .getResources()
+      .getResources()
+      .map((resource) => resource.toJSON()),
+    time: simulation.time.toJSON(),
+    weather: simulation.weather.toJSON(),
+    random: simulation.random.toJSON(),
+  });
+}
+
+describe('Input recording and replay', () => {
+  it('should record only input changes and every command', () => {
+    const { recording } = recordSession();
+
+    expect(recording.seed).toBe(4);
+    expect(recording.length).toBe(recording.tickRate * 23);
+    expect(recording.inputs.map((entry) => entry.tick)).toEqual([1, 41, 441]);
+    expect(recording.commands[0]).toMatchObject({
+      tick: 0,
+      command: { type: 'gather', resourceId: 'berry_bush_0' },
+      result: { success: true },
+    });
+    expect(recording.commands.map((entry) => entry.command.type).slice(-2)).toEqual([
+      'craft',
+      'craft',
+    ]);
+  });
+
+  it('should reproduce the recorded gather and craft results', () => {
+    const { recording, final } = recordSession();
+    const simulation = restoreFrom(recording);
+    const crafted: boolean[] = [];
+    simulation.onCommand((command, result) => {
+      if (command.type === 'craft') crafted.push(result.success);
+    });
+
+    const player = new ReplayPlayer(simulation, recording);
+    player.start();
+    simulation.runFor(recording.length / recording.tickRate);
+
+    expect(player.isFinished()).toBe(true);
+    expect(player.getDivergences()).toEqual([]);
+    expect(crafted).toEqual([true, false]);
+    expect(stateOf(simulation)).toBe(final);
+  });
+
+  it('should put the player where they stood for every command', () => {
+    const where = (simulation: GameSimulation): string[] => {
+      const positions: string[] = [];
+      simulation.onCommand((command) => {
+        const { x, y, z } = simulation.getCharacter().position;
+        positions.push(`${command.type} at ${x},${y},${z}`);
+      });
+      return positions;
+    };
+
+    const live = new GameSimulation({ seed: 9 });
+    const recorder = new InputRecorder(live, createIdleInput);
+    const livePositions = where(live);
+    recorder.start(snapshotOf(live));
+    for (const step of [4, 0, 2.5]) {
+      live.setPlayerPosition(step, 0, -step);
+      live.gather('pine_tree_0');
+      live.runFor(1);
+    }
+    const recording = recorder.stop();
+
+    const simulation = restoreFrom(recording);
+    const replayed = where(simulation);
+    const placed: number[] = [];
+    const player = new ReplayPlayer(simulation, recording);
+    player.onPosition((position) => placed.push(position.tick));
+    player.start();
+    simulation.runFor(recording.length / recording.tickRate);
+
+    expect(recording.positions.map((entry) => entry.tick)).toEqual([0, 20, 40]);
+    expect(replayed).toEqual(livePositions);
+    expect(livePositions[1]).toBe('gather at 0,0,0');
+    expect(placed).toEqual([0, 20, 40]);
+    expect(player.getDivergences()).toEqual([]);
+  });
+
+  it('should step, pause and fast-forward through the clock', () => {
+    const { recording } = recordSession();
+    const simulation = restoreFrom(recording);
+    const player = new ReplayPlayer(simulation, recording);
+    player.start();
+
+    player.pause();
+    simulation.clock.advance(1);
+    expect(player.getTick()).toBe(0);
+
+    player.step();
+    player.step();
+    expect(player.getTick()).toBe(2);
+
+    player.resume();
+    player.setSpeed(4);
+    simulation.clock.advance(0.25);
+    expect(player.getTick() - 2).toBeGreaterThan(0.25 * 3 * recording.tickRate);
+  });
+
+  it('should report commands whose results differ from the recording', () => {
+    const { recording } = recordSession();
+    const simulation = restoreFrom(recording);
+    simulation.setInventory(simulation.getInventory()); // Same state...
+    simulation.getResources().getResourceById('berry_bush_0')?.hit(null); // ...except the bush
+
+    const player = new ReplayPlayer(simulation, recording);
+    player.start();
+
+    expect(player.getDivergences()[0]).toMatchObject({
+      tick: 0,
+      recorded: { command: { resourceId: 'berry_bush_0' } },
+      actual: { success: false },
+    });
+  });
+
+  it('should stop early and hand input back', () => {
+    const { recording } = recordSession();
+    const simulation = restoreFrom(recording);
+    const applied: Array<IInputState | null> = [];
+    const player = new ReplayPlayer(simulation, recording, (state) => applied.push(state));
+
+    player.start();
+    simulation.runFor(1);
+    player.stop();
+
+    expect(player.isPlaying()).toBe(false);
+    expect(applied[applied.length - 1]).toBeNull();
+  });
+
+  it('should reject files that are not replays', () => {
+    expect(() => parseRecording('nope')).toThrow(ReplayFormatError);
+    expect(() => parseRecording({ version: 99 })).toThrow('Unsupported replay version');
+    const { recording } = recordSession();
+    expect(parseRecording(JSON.parse(JSON.stringify(recording)))).toEqual(recording);
+  });
+});
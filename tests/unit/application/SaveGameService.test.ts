@@ -0,0 +1,403 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  SaveGameService,
+  ISaveStorage,
+  SaveRestoreError,
+} from '@application/services/SaveGameService';
+import { ISaveGameSnapshot } from '@application/persistence/SaveSnapshot';
+import { EventBus } from '@application/events/EventBus';
+import { TimeService } from '@application/services/TimeService';
+import { WeatherService } from '@application/services/WeatherService';
+import { RandomService, RandomStream } from '@application/services/RandomService';
+import { Character } from '@domain/entities/Character';
+import { Inventory } from '@domain/entities/Inventory';
+import { Item, ItemType } from '@domain/entities/Item';
+import { HeatSource } from '@domain/entities/HeatSource';
+import { Corpse } from '@domain/entities/Corpse';
+import { DamageCause } from '@domain/events/CharacterEvents';
+import { Resource } from '@domain/entities/Resource';
+import { Stats } from '@domain/value-objects/Stats';
+import { Position } from '@domain/value-objects/Position';
+import { RESOURCE_DEFINITIONS } from '@domain/value-objects/ResourceDefinitions';
+import { CharacterClass, WeatherType } from '@shared/constants/GameConstants';
+import { Difficulty, GAME_RULE_PRESETS } from '@application/balancing/GameRules';
+
+class MemorySaveStorage implements ISaveStorage {
+  readonly saves = new Map<string, ISaveGameSnapshot>();
+
+  save(key: string, snapshot: ISaveGameSnapshot): Promise<void> {
+    this.saves.set(key, JSON.parse(JSON.stringify(snapshot)) as ISaveGameSnapshot);
+    return Promise.resolve();
+  }
+
+  load(key: string): Promise<ISaveGameSnapshot | null> {
+    return Promise.resolve(this.saves.get(key) ?? null);
+  }
+
+  delete(key: string): Promise<void> {
+    this.saves.delete(key);
+    return Promise.resolve();
+  }
+}
+
+function createResources(): Resource[] {
+  return [
+    new Resource('pine_tree_0', RESOURCE_DEFINITIONS['pine_tree']!),
+    new Resource('berry_bush_0', RESOURCE_DEFINITIONS['berry_bush']!),
+  ];
+}
+
+describe('SaveGameService', () => {
+  let storage: MemorySaveStorage;
+  let timeService: TimeService;
+  let weatherService: WeatherService;
+  let randomService: RandomService;
+  let service: SaveGameService;
+
+  beforeEach(() => {
+    const eventBus = new EventBus();
+    storage = new MemorySaveStorage();
+    timeService = new TimeService(eventBus);
+    randomService = new RandomService(1234);
+    weatherService = new WeatherService(eventBus, randomService.stream(RandomStream.WEATHER));
+    service = new SaveGameService(storage, timeService, weatherService, randomService);
+  });
+
+  it('should return null when no save exists', async () => {
+    expect(await service.load(createResources())).toBeNull();
+  });
+
+  it('should restore character, inventory, clock, weather and world state', async () => {
+    const character = Character.create(
+      'player_1',
+      CharacterClass.HUNTER,
+      'Saved Hunter',
+      Stats.create(60, 100, 40, 100, 30, 100, 36, 50, 100),
+      Position.create(4, 1, -7)
+    );
+    const inventory = Inventory.create('player_inventory', 20, 100);
+    inventory.addItem(
+      Item.create({
+        id: 'wood',
+        name: 'Wood',
+        description: '',
+        type: ItemType.MATERIAL,
+        maxStack: 20,
+        quantity: 7,
+      })
+    );
+
+    const resources = createResources();
+    resources[1]!.hit(null); // Deplete the berry bush (1 health)
+    resources[1]!.updateRespawn(100);
+
+    timeService.update(120);
+    const savedTime = timeService.getNormalizedTime();
+    const savedWeather = weatherService.toJSON();
+
+    const heatSources = [HeatSource.create('campfire_0', 'campfire', Position.create(3, 0, -5))];
+    const corpseInventory = Inventory.create('corpse_0_inventory', 20, 100);
+    corpseInventory.addItem(
+      Item.create({
+        id: 'stone',
+        name: 'Stone',
+        description: '',
+        type: ItemType.MATERIAL,
+        maxStack: 20,
+        quantity: 3,
+      })
+    );
+    const corpses = [
+      Corpse.create(
+        'corpse_0',
+        'Old Hunter',
+        DamageCause.HYPOTHERMIA,
+        Position.create(-8, 1, 2),
+        corpseInventory
+      ),
+    ];
+
+    await service.save({
+      character,
+      inventory,
+      resources,
+      heatSources,
+      corpses,
+      rules: GAME_RULE_PRESETS[Difficulty.HARD],
+      playtime: 95,
+      thumbnail: null,
+    });
+
+    // Start a fresh session and load into it
+    const freshBus = new EventBus();
+    const freshTime = new TimeService(freshBus);
+    const freshWeather = new WeatherService(freshBus);
+    const freshRandom = new RandomService(99);
+    const freshService = new SaveGameService(storage, freshTime, freshWeather, freshRandom);
+    const freshResources = createResources();
+
+    const loaded = await freshService.load(freshResources);
+
+    expect(loaded).not.toBeNull();
+    expect(loaded!.metadata.playtime).toBe(95);
+    expect(loaded!.metadata.characterName).toBe('Saved Hunter');
+    expect(loaded!.character.name).toBe('Saved Hunter');
+    expect(loaded!.character.characterClass).toBe(CharacterClass.HUNTER);
+    expect(loaded!.character.stats.health).toBe(60);
+    expect(loaded!.character.position.equals(Position.create(4, 1, -7))).toBe(true);
+    expect(loaded!.inventory.countItem('wood')).toBe(7);
+    expect(freshTime.getNormalizedTime()).toBeCloseTo(savedTime);
+    expect(freshWeather.toJSON()).toEqual(savedWeather);
+    expect(freshRandom.toJSON()).toEqual(randomService.toJSON());
+    expect(freshResources[0]!.isDepleted).toBe(false);
+    expect(freshResources[1]!.isDepleted).toBe(true);
+    expect(freshResources[1]!.respawnTimer).toBe(resources[1]!.respawnTimer);
+    expect(loaded!.heatSources.map((source) => source.toJSON())).toEqual(
+      heatSources.map((source) => source.toJSON())
+    );
+    expect(loaded!.corpses.map((corpse) => corpse.toJSON())).toEqual(
+      corpses.map((corpse) => corpse.toJSON())
+    );
+    expect(loaded!.corpses[0]!.inventory.countItem('stone')).toBe(3);
+    expect(loaded!.rules).toEqual(GAME_RULE_PRESETS[Difficulty.HARD]);
+  });
+
+  it('should pass the saved world seed to the world resolver', async () => {
+    await service.save({
+      character: Character.create('p', CharacterClass.SURVIVOR, 'P', Stats.create(100, 100)),
+      inventory: Inventory.create('inv'),
+      resources: [],
+      playtime: 0,
+    });
+
+    const freshBus = new EventBus();
+    const freshRandom = new RandomService(5);
+    const freshService = new SaveGameService(
+      storage,
+      new TimeService(freshBus),
+      new WeatherService(freshBus),
+      freshRandom
+    );
+    const requestedSeeds: number[] = [];
+    await freshService.load((seed) => {
+      requestedSeeds.push(seed);
+      return createResources();
+    });
+
+    expect(requestedSeeds).toEqual([1234]);
+    expect(freshRandom.getSeed()).toBe(1234);
+  });
+
+  it('should describe the session in snapshot metadata', () => {
+    timeService.update(600); // One full day
+    const snapshot = service.createSnapshot({
+      character: Character.create(
+        'p',
+        CharacterClass.MEDIC,
+        'Doc',
+        Stats.create(100, 100),
+        Position.create(1, 2, 3)
+      ),
+      inventory: Inventory.create('inv'),
+      resources: [],
+      playtime: 42,
+      thumbnail: 'data:image/jpeg;base64,AAAA',
+    });
+
+    expect(snapshot.metadata).toEqual({
+      characterName: 'Doc',
+      characterClass: CharacterClass.MEDIC,
+      playtime: 42,
+      day: 2,
+      timeOfDay: timeService.getTimeOfDay(),
+      weather: weatherService.getWeather(),
+      position: { x: 1, y: 2, z: 3 },
+      worldSeed: 1234,
+      thumbnail: 'data:image/jpeg;base64,AAAA',
+    });
+  });
+
+  it('should reject saves from a newer version', () => {
+    const snapshot = service.createSnapshot({
+      character: Character.create('p', CharacterClass.SURVIVOR, 'P', Stats.create(100, 100)),
+      inventory: Inventory.create('inv'),
+      resources: [],
+      playtime: 0,
+    });
+
+    expect(() => service.restoreSnapshot({ ...snapshot, schemaVersion: 999 }, [])).toThrow(
+      'newer than supported'
+    );
+  });
+
+  describe('corrupt snapshots', () => {
+    function createSnapshot(): ISaveGameSnapshot {
+      const inventory = Inventory.create('inv');
+      inventory.addItem(
+        Item.create({
+          id: 'wood',
+          name: 'Wood',
+          description: '',
+          type: ItemType.MATERIAL,
+          maxStack: 20,
+          quantity: 3,
+        })
+      );
+      return JSON.parse(
+        JSON.stringify(
+          service.createSnapshot({
+            character: Character.create('p', CharacterClass.SURVIVOR, 'P', Stats.create(100, 100)),
+            inventory,
+            resources: [],
+            playtime: 0,
+          })
+        )
+      ) as ISaveGameSnapshot;
+    }
+
+    it('should name the character and field when strict validation fails', () => {
+      const snapshot = createSnapshot();
+      (snapshot.character['stats'] as Record<string, number>)['health'] = 500;
+
+      expect(() => service.restoreSnapshot(snapshot, [], 'strict')).toThrow(
+        'Failed to restore Character: Invalid Character data: stats.health must be at most 100'
+      );
+    });
+
+    it('should report the field path of an invalid inventory item', () => {
+      const snapshot = createSnapshot();
+      const items = snapshot.inventory['items'] as Array<{ item: Record<string, unknown> }>;
+      items[0]!.item['quantity'] = 99;
+
+      try {
+        service.restoreSnapshot(snapshot, [], 'strict');
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(SaveRestoreError);
+        expect((error as SaveRestoreError).entity).toBe('Inventory');
+        expect((error as SaveRestoreError).issues).toEqual([
+          { path: 'items[0].item.quantity', message: 'must be at most 20' },
+        ]);
+      }
+    });
+
+    it('should repair fixable fields in lenient mode and report them', () => {
+      const snapshot = createSnapshot();
+      (snapshot.character['stats'] as Record<string, number>)['health'] = 500;
+      snapshot.character['characterClass'] = 'wizard';
+      const items = snapshot.inventory['items'] as Array<{ item: Record<string, unknown> }>;
+      items[0]!.item['quantity'] = 99;
+
+      const loaded = service.restoreSnapshot(snapshot, []);
+
+      expect(loaded.character.stats.health).toBe(100);
+      expect(loaded.character.characterClass).toBe(CharacterClass.SURVIVOR);
+      expect(loaded.inventory.countItem('wood')).toBe(20);
+      expect(loaded.repairs.map((repair) => repair.path)).toEqual([
+        'character.characterClass',
+        'character.stats.health',
+        'inventory.items[0].item.quantity',
+      ]);
+    });
+
+    it('should reject game rules outside the allowed range', () => {
+      const snapshot = createSnapshot();
+      snapshot.rules['damage'] = 0;
+
+      expect(() => service.restoreSnapshot(snapshot, [])).toThrow(
+        'Failed to restore game rules: Game rule damage must be between 0.25 and 4'
+      );
+    });
+
+    it('should leave the session untouched when restore fails', () => {
+      timeService.update(120);
+      const timeBefore = timeService.toJSON();
+      const resources = createResources();
+
+      const snapshot = createSnapshot();
+      snapshot.time = { normalizedTime: 0.9, day: 5 };
+      snapshot.world.resources = [{ id: 'berry_bush_0', health: 0, isDepleted: true }];
+      delete snapshot.character['id'];
+
+      expect(() => service.restoreSnapshot(snapshot, resources)).toThrow(SaveRestoreError);
+      expect(timeService.toJSON()).toEqual(timeBefore);
+      expect(resources[1]!.isDepleted).toBe(false);
+    });
+
+    it('should apply no section when the weather section is corrupt', () => {
+      timeService.update(120);
+      const timeBefore = timeService.toJSON();
+      const weatherBefore = weatherService.toJSON();
+      const resources = createResources();
+
+      const snapshot = createSnapshot();
+      snapshot.time = { normalizedTime: 0.9, day: 5 };
+      snapshot.weather = { ...snapshot.weather, currentWeather: 'acid_rain' };
+      snapshot.world.resources = [{ id: 'berry_bush_0', health: 0, isDepleted: true }];
+
+      expect(() => service.restoreSnapshot(snapshot, resources, 'strict')).toThrow(
+        'Failed to restore Weather: Invalid Weather data: currentWeather has unknown value "acid_rain"'
+      );
+      expect(timeService.toJSON()).toEqual(timeBefore);
+      expect(weatherService.toJSON()).toEqual(weatherBefore);
+      expect(() => weatherService.getTemperatureModifier()).not.toThrow();
+      expect(resources[1]!.isDepleted).toBe(false);
+    });
+
+    it('should reject a time section outside the day', () => {
+      const timeBefore = timeService.toJSON();
+      const snapshot = createSnapshot();
+      snapshot.time = { normalizedTime: 1.5, day: 2 };
+
+      expect(() => service.restoreSnapshot(snapshot, [], 'strict')).toThrow(SaveRestoreError);
+      expect(timeService.toJSON()).toEqual(timeBefore);
+    });
+
+    it('should repair world sections in lenient mode and reject unusable ones', () => {
+      const resources = createResources();
+      const snapshot = createSnapshot();
+      snapshot.time = { normalizedTime: 0.5, day: 2.6 };
+      snapshot.weather = { ...snapshot.weather, currentWeather: 'acid_rain', intensity: 3 };
+      snapshot.world.resources = [
+        { id: 'pine_tree_0', health: 'lots' },
+        { id: 'berry_bush_0', isDepleted: true, respawnTimer: 12 },
+      ];
+      snapshot.world.heatSources = [
+        { id: 'campfire_0', itemId: 'campfire', position: { x: 3, y: 0, z: -5 } },
+        { id: 'campfire_1', itemId: 'bonfire', position: { x: 0, y: 0, z: 0 } },
+      ];
+      snapshot.world.corpses = [
+        { id: 'corpse_0', characterName: 'Old Hunter', cause: 'hypothermia', inventory: 'gone' },
+      ];
+
+      const loaded = service.restoreSnapshot(snapshot, resources);
+
+      expect(timeService.getDay()).toBe(3);
+      expect(weatherService.toJSON()).toMatchObject({
+        currentWeather: WeatherType.CLEAR,
+        intensity: 1,
+      });
+      expect(resources[0]!.isDepleted).toBe(false);
+      expect(resources[1]!.respawnTimer).toBe(12);
+      expect(loaded.heatSources.map((source) => source.id)).toEqual(['campfire_0']);
+      expect(loaded.corpses).toEqual([]);
+      expect(loaded.repairs.map((repair) => repair.path)).toEqual([
+        'time.day',
+        'weather.currentWeather',
+        'weather.intensity',
+        'world.resources[0]',
+        'world.heatSources[1].itemId',
+        'world.heatSources[1]',
+        'world.corpses[0]',
+      ]);
+
+      const weatherBefore = weatherService.toJSON();
+      const unusable = createSnapshot();
+      unusable.weather = 'stormy' as unknown as Record<string, unknown>;
+      expect(() => service.restoreSnapshot(unusable, resources)).toThrow(
+        'Failed to restore Weather: Invalid Weather data: (root) must be an object'
+      );
+      expect(weatherService.toJSON()).toEqual(weatherBefore);
+    });
+  });
+});
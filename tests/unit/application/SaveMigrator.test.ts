@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { SaveMigrator, LEGACY_WORLD_SEED } from '@application/persistence/SaveMigrator';
+import { MigrationRegistry } from '@application/persistence/MigrationRegistry';
+import { SAVE_SCHEMA_VERSION } from '@application/persistence/SaveSnapshot';
+import { DEFAULT_GAME_RULES } from '@application/balancing/GameRules';
+import { Character } from '@domain/entities/Character';
+import { Inventory } from '@domain/entities/Inventory';
+import { Item } from '@domain/entities/Item';
+import { CharacterClass, TimeOfDay, WeatherType } from '@shared/constants/GameConstants';
+import v1Save from '../../fixtures/saves/v1-save.json';
+import v1SparseSave from '../../fixtures/saves/v1-sparse-save.json';
+
+describe('MigrationRegistry', () => {
+  it('should chain migrations and stamp each version', () => {
+    const registry = new MigrationRegistry()
+      .register('thing', 1, (data) => ({ ...data, a: 1 }))
+      .register('thing', 2, (data) => ({ ...data, b: 2 }));
+
+    const migrated = registry.migrate('thing', { id: 'x' }, 3);
+
+    expect(migrated).toEqual({ id: 'x', a: 1, b: 2, schemaVersion: 3 });
+  });
+
+  it('should leave current data untouched', () => {
+    const registry = new MigrationRegistry();
+    const data = { id: 'x', schemaVersion: 2 };
+
+    expect(registry.migrate('thing', data, 2)).toBe(data);
+  });
+
+  it('should fail loudly when a step is missing', () => {
+    const registry = new MigrationRegistry().register('thing', 1, (data) => data);
+
+    expect(() => registry.migrate('thing', {}, 3)).toThrow('No migration registered for thing v2');
+  });
+
+  it('should reject data from a newer schema', () => {
+    expect(() => new MigrationRegistry().migrate('thing', { schemaVersion: 5 }, 2)).toThrow(
+      'newer than supported'
+    );
+  });
+
+  it('should reject duplicate registrations', () => {
+    const registry = new MigrationRegistry().register('thing', 1, (data) => data);
+
+    expect(() => registry.register('thing', 1, (data) => data)).toThrow('already registered');
+  });
+});
+
+describe('SaveMigrator', () => {
+  const migrator = new SaveMigrator();
+
+  it('should upgrade a v1 save to the current schema', () => {
+    const upgraded = migrator.upgrade(v1Save);
+
+    expect(upgraded.schemaVersion).toBe(SAVE_SCHEMA_VERSION);
+    expect(upgraded).not.toHaveProperty('version');
+    expect(upgraded.character['schemaVersion']).toBe(Character.SCHEMA_VERSION);
+    expect(upgraded.inventory['schemaVersion']).toBe(Inventory.SCHEMA_VERSION);
+
+    const items = upgraded.inventory['items'] as Array<{ item: Record<string, unknown> }>;
+    for (const { item } of items) {
+      expect(item['schemaVersion']).toBe(Item.SCHEMA_VERSION);
+    }
+  });
+
+  it('should derive slot metadata for saves written before v3', () => {
+    const upgraded = migrator.upgrade(v1Save);
+
+    expect(upgraded.metadata).toEqual({
+      characterName: 'Legacy Hunter',
+      characterClass: CharacterClass.HUNTER,
+      playtime: 0,
+      day: 1,
+      timeOfDay: TimeOfDay.DAY,
+      weather: WeatherType.SNOWING,
+      position: { x: 12.5, y: 1, z: -3 },
+      worldSeed: LEGACY_WORLD_SEED,
+      thumbnail: null,
+    });
+  });
+
+  it('should assign the legacy world seed to saves written before v4', () => {
+    const upgraded = migrator.upgrade(v1Save);
+
+    expect(upgraded.random).toEqual({ seed: LEGACY_WORLD_SEED, streams: {} });
+  });
+
+  it('should start worlds saved before v6 without corpses', () => {
+    const upgraded = migrator.upgrade(v1Save);
+
+    expect(upgraded.world.corpses).toEqual([]);
+  });
+
+  it('should play games saved before v7 on Normal', () => {
+    const upgraded = migrator.upgrade(v1Save);
+
+    expect(upgraded.rules).toEqual(DEFAULT_GAME_RULES);
+  });
+
+  it('should deserialize entities from an upgraded v1 save', () => {
+    const upgraded = migrator.upgrade(v1Save);
+
+    const character = Character.fromJSON(upgraded.character);
+    expect(character.name).toBe('Legacy Hunter');
+    expect(character.characterClass).toBe(CharacterClass.HUNTER);
+    expect(character.stats.health).toBe(72);
+    expect(character.stats.temperature).toBe(36.2);
+    expect(character.position.x).toBe(12.5);
+
+    const inventory = Inventory.fromJSON(upgraded.inventory);
+    expect(inventory.countItem('wood')).toBe(6);
+    expect(inventory.getItemAt(3)?.effects?.hungerRestore).toBe(5);
+    expect(inventory.getItemAt(3)?.isPerishable()).toBe(true);
+    expect(inventory.getItemAt(3)?.freshness).toBe(1);
+    expect(inventory.getItemAt(0)?.isPerishable()).toBe(false);
+  });
+
+  it('should fill explicit defaults for fields missing from sparse v1 saves', () => {
+    const upgraded = migrator.upgrade(v1SparseSave);
+
+    expect(upgraded.character['stats']).toEqual({
+      health: 0,
+      maxHealth: 100,
+      hunger: 100,
+      maxHunger: 100,
+      thirst: 100,
+      maxThirst: 100,
+      temperature: 37,
+      stamina: 100,
+      maxStamina: 100,
+      wetness: 0,
+      energy: 100,
+    });
+    expect(upgraded.character['isAlive']).toBe(false);
+
+    const inventory = Inventory.fromJSON(upgraded.inventory);
+    expect(inventory.maxSlots).toBe(20);
+    expect(inventory.getItemAt(1)?.maxStack).toBe(1);
+    expect(inventory.getItemAt(1)?.quantity).toBe(1);
+  });
+
+  it('should refuse to deserialize unmigrated entity data', () => {
+    expect(() => Character.fromJSON(v1Save.character)).toThrow('Run save migrations first');
+    expect(() => Inventory.fromJSON(v1Save.inventory)).toThrow('Run save migrations first');
+  });
+
+  it('should round-trip current saves without changes', () => {
+    const upgraded = migrator.upgrade(v1Save);
+
+    expect(migrator.upgrade(upgraded as unknown as Record<string, unknown>)).toEqual(upgraded);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { SaveGameService, ISaveStorage } from '@application/services/SaveGameService';
+import { SaveSlotService, QUICKSAVE_SLOT } from '@application/services/SaveSlotService';
+import { ISaveGameSnapshot } from '@application/persistence/SaveSnapshot';
+import { EventBus } from '@application/events/EventBus';
+import { RandomService } from '@application/services/RandomService';
+import { TimeService } from '@application/services/TimeService';
+import { WeatherService } from '@application/services/WeatherService';
+import { Character } from '@domain/entities/Character';
+import { Inventory } from '@domain/entities/Inventory';
+import { Stats } from '@domain/value-objects/Stats';
+import { CharacterClass } from '@shared/constants/GameConstants';
+
+/**
+ * Storage where some keys hold saves that cannot be read
+ */
+class PartlyCorruptStorage implements ISaveStorage {
+  readonly saves = new Map<string, ISaveGameSnapshot>();
+  readonly unreadable = new Set<string>();
+
+  save(key: string, snapshot: ISaveGameSnapshot): Promise<void> {
+    this.saves.set(key, JSON.parse(JSON.stringify(snapshot)) as ISaveGameSnapshot);
+    return Promise.resolve();
+  }
+
+  load(key: string): Promise<ISaveGameSnapshot | null> {
+    if (this.unreadable.has(key)) {
+      return Promise.reject(new SyntaxError('Unexpected token in JSON'));
+    }
+    return Promise.resolve(this.saves.get(key) ?? null);
+  }
+
+  delete(key: string): Promise<void> {
+    this.saves.delete(key);
+    return Promise.resolve();
+  }
+}
+
+describe('SaveSlotService', () => {
+  it('should list a corrupt slot without hiding the good ones', async () => {
+    const eventBus = new EventBus();
+    const storage = new PartlyCorruptStorage();
+    const saveGameService = new SaveGameService(
+      storage,
+      new TimeService(eventBus),
+      new WeatherService(eventBus),
+      new RandomService(7)
+    );
+    const slots = new SaveSlotService(saveGameService, () => ({
+      character: Character.create(
+        'p',
+        CharacterClass.SURVIVOR,
+        'Slot Tester',
+        Stats.create(100, 100)
+      ),
+      inventory: Inventory.create('inv'),
+      resources: [],
+    }));
+
+    await slots.saveToSlot(QUICKSAVE_SLOT);
+    await slots.saveToSlot('slot_2');
+    storage.unreadable.add('slot_1');
+    storage.saves.set('slot_3', {
+      ...storage.saves.get('slot_2')!,
+      schemaVersion: 999, // From a newer build
+    });
+
+    const listed = await slots.listSlots();
+    const bySlot = new Map(listed.map((slot) => [slot.slotId, slot]));
+
+    expect(bySlot.get('slot_1')).toMatchObject({ corrupt: true, metadata: null, savedAt: null });
+    expect(bySlot.get('slot_3')?.corrupt).toBe(true);
+    expect(bySlot.get(QUICKSAVE_SLOT)?.metadata?.characterName).toBe('Slot Tester');
+    expect(bySlot.get('slot_2')?.corrupt).toBe(false);
+    expect(await slots.findLatestSlot()).not.toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { SimulationClock } from '@application/services/SimulationClock';
+
+describe('SimulationClock', () => {
+  describe('fixed steps', () => {
+    it('should run one tick per fixed delta regardless of frame size', () => {
+      const clock = new SimulationClock(4, 1);
+      const deltas: number[] = [];
+      clock.onTick((dt) => deltas.push(dt));
+
+      expect(clock.advance(0.125)).toBe(0);
+      expect(clock.advance(0.125)).toBe(1);
+      expect(clock.advance(0.75)).toBe(3);
+
+      expect(deltas).toEqual([0.25, 0.25, 0.25, 0.25]);
+      expect(clock.getTick()).toBe(4);
+      expect(clock.getElapsed()).toBe(1);
+    });
+
+    it('should expose the leftover fraction as the interpolation alpha', () => {
+      const clock = new SimulationClock(4, 1);
+
+      clock.advance(0.375);
+
+      expect(clock.getTick()).toBe(1);
+      expect(clock.getAlpha()).toBeCloseTo(0.5);
+    });
+
+    it('should clamp long frames so a stall does not cause a spiral of ticks', () => {
+      const clock = new SimulationClock(4, 0.5);
+
+      expect(clock.advance(10)).toBe(2);
+      expect(clock.advance(-1)).toBe(0);
+    });
+
+    it('should call handlers in registration order and stop after unsubscribe', () => {
+      const clock = new SimulationClock(4, 1);
+      const calls: string[] = [];
+      clock.onTick((_dt, tick) => calls.push(`time:${tick}`));
+      const unsubscribe = clock.onTick((_dt, tick) => calls.push(`weather:${tick}`));
+
+      clock.advance(0.25);
+      unsubscribe();
+      clock.advance(0.25);
+
+      expect(calls).toEqual(['time:1', 'weather:1', 'time:2']);
+    });
+  });
+
+  describe('pause and time scale', () => {
+    it('should not tick or accumulate while paused', () => {
+      const clock = new SimulationClock(4, 1);
+      clock.pause();
+
+      expect(clock.advance(1)).toBe(0);
+      expect(clock.isPaused()).toBe(true);
+
+      clock.resume();
+      expect(clock.advance(0.25)).toBe(1);
+      expect(clock.getTick()).toBe(1);
+    });
+
+    it('should step exactly one tick while paused', () => {
+      const clock = new SimulationClock(4, 1);
+      clock.pause();
+
+      clock.step();
+
+      expect(clock.getTick()).toBe(1);
+    });
+
+    it('should scale simulated time', () => {
+      const clock = new SimulationClock(4, 1);
+
+      clock.setTimeScale(2);
+      expect(clock.advance(0.5)).toBe(4);
+
+      clock.setTimeScale(0);
+      expect(clock.advance(1)).toBe(0);
+    });
+
+    it('should reject invalid time scales', () => {
+      const clock = new SimulationClock();
+
+      expect(() => clock.setTimeScale(-1)).toThrow();
+      expect(() => clock.setTimeScale(Number.NaN)).toThrow();
+      expect(clock.getTimeScale()).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EventBus, GameEvent, GameEventType } from '@application/events/EventBus';
+import {
+  DamageOverTimeRule,
+  DepletionRule,
+  ISurvivalContext,
+  SurvivalRuleId,
+  TemperatureExchangeRule,
+  WetnessRule,
+} from '@application/survival/SurvivalRules';
+import { SurvivalSystem, createDefaultSurvivalRules } from '@application/survival/SurvivalSystem';
+import { DEFAULT_SURVIVAL_BALANCE } from '@application/balancing/SurvivalBalance';
+import { createStarterCharacter } from '@application/simulation/GameSimulation';
+import { Character } from '@domain/entities/Character';
+import { DamageCause } from '@domain/events/CharacterEvents';
+import { StatusEffectType } from '@domain/value-objects/StatusEffectDefinitions';
+import { GAME_CONFIG } from '@shared/constants/GameConstants';
+
+function context(overrides: Partial<ISurvivalContext> = {}): ISurvivalContext {
+  return {
+    deltaTime: 60,
+    environmentTemperature: 37,
+    activity: { isMoving: false, isSprinting: false },
+    snowfall: 0,
+    heat: 0,
+    isSleeping: false,
+    ...overrides,
+  };
+}
+
+describe('Survival rules', () => {
+  let character: Character;
+
+  beforeEach(() => {
+    character = createStarterCharacter();
+  });
+
+  it('should deplete a stat per minute and stop firing once it is empty', () => {
+    const rule = new DepletionRule({ id: 'hunger', stat: 'hunger', ratePerMinute: 40 });
+
+    expect(rule.apply(character, context())?.stats.hunger).toBe(60);
+    rule.apply(character, context({ deltaTime: 120 }));
+    expect(character.stats.hunger).toBe(0);
+    expect(rule.apply(character, context())).toBeNull();
+  });
+
+  it('should restore a stat with a negative rate only while its condition holds', () => {
+    character.updateStats(character.stats.withStamina(10));
+    const rule = new DepletionRule({
+      id: 'rest',
+      stat: 'stamina',
+      ratePerMinute: -5,
+      condition: ({ activity }) => !activity.isMoving,
+    });
+
+    const moving = context({ activity: { isMoving: true, isSprinting: false } });
+    expect(rule.apply(character, moving)).toBeNull();
+    expect(rule.apply(character, context())?.stats.stamina).toBe(15);
+  });
+
+  it('should move body temperature toward the air without overshooting', () => {
+    const rule = new TemperatureExchangeRule({ id: 'temperature', ratePerMinute: 0.5 });
+
+    rule.apply(character, context({ environmentTemperature: -10 }));
+    expect(character.stats.temperature).toBe(36.5);
+
+    rule.apply(character, context({ environmentTemperature: 36.7 }));
+    expect(character.stats.temperature).toBe(36.7);
+    expect(rule.apply(character, context({ environmentTemperature: 36.7 }))).toBeNull();
+  });
+
+  it('should soak the character in snow and dry them faster near heat', () => {
+    const rule = new WetnessRule({
+      id: 'wetness',
+      wettingRate: 20,
+      dryingRate: 2,
+      heatDryingRate: 30,
+    });
+
+    rule.apply(character, context({ snowfall: 0.5 }));
+    expect(character.stats.wetness).toBe(10);
+    expect(rule.apply(character, context())?.stats.wetness).toBe(8);
+
+    character.updateWetness(100);
+    expect(rule.apply(character, context({ snowfall: 1 }))).toBeNull();
+    rule.apply(character, context({ snowfall: 1, heat: 1 }));
+    expect(character.stats.wetness).toBe(90);
+  });
+
+  it('should cool a wet character faster', () => {
+    const rule = new TemperatureExchangeRule({
+      id: 'temperature',
+      ratePerMinute: 0.5,
+      wetCoolingMultiplier: 2,
+    });
+
+    character.updateWetness(50);
+    rule.apply(character, context({ environmentTemperature: -10 }));
+    expect(character.stats.temperature).toBe(36.25);
+
+    character.updateTemperature(30);
+    rule.apply(character, context({ environmentTemperature: 37 }));
+    expect(character.stats.temperature).toBe(30.5); // Warming is unaffected
+  });
+
+  it('should scale cooling, but not warming, by the cooling multiplier', () => {
+    const rule = new TemperatureExchangeRule({
+      id: 'temperature',
+      ratePerMinute: 0.5,
+      coolingMultiplier: 2,
+    });
+
+    rule.apply(character, context({ environmentTemperature: -10 }));
+    expect(character.stats.temperature).toBe(36);
+    rule.apply(character, context({ environmentTemperature: 40 }));
+    expect(character.stats.temperature).toBe(36.5);
+  });
+
+  it('should drift toward the heat temperature where it is warmer than the air', () => {
+    const rule = new TemperatureExchangeRule({
+      id: 'temperature',
+      ratePerMinute: 1,
+      fullHeatTemperature: 80,
+      maxHeatTemperature: 37,
+    });
+    character.updateTemperature(34);
+
+    const cold = { environmentTemperature: -10 };
+    expect(rule.getEffectiveTemperature(context({ ...cold, heat: 0.25 }))).toBe(20);
+    expect(rule.getEffectiveTemperature(context({ environmentTemperature: 25, heat: 0.25 }))).toBe(
+      25
+    );
+    rule.apply(character, context({ ...cold, heat: 0.25 }));
+    expect(character.stats.temperature).toBe(33); // 20 degrees, colder than the body
+
+    rule.apply(character, context({ ...cold, heat: 1 }));
+    expect(character.stats.temperature).toBe(34);
+    rule.apply(character, context({ ...cold, heat: 1, deltaTime: 600 }));
+    expect(character.stats.temperature).toBe(37);
+  });
+
+  it('should deal damage over time with its cause while the condition holds', () => {
+    const rule = new DamageOverTimeRule({
+      id: 'cold',
+      cause: DamageCause.HYPOTHERMIA,
+      damagePerSecond: 1,
+      condition: (stats) => stats.temperature < 35,
+    });
+
+    expect(rule.apply(character, context({ deltaTime: 1 }))).toBeNull();
+
+    character.updateTemperature(34);
+    rule.apply(character, context({ deltaTime: 5 }));
+    expect(character.stats.health).toBe(95);
+    expect(character.pullEvents()).toContainEqual(
+      expect.objectContaining({ type: 'damaged', cause: DamageCause.HYPOTHERMIA, amount: 5 })
+    );
+  });
+});
+
+describe('SurvivalSystem', () => {
+  let bus: EventBus;
+  let events: GameEvent[];
+
+  beforeEach(() => {
+    bus = new EventBus();
+    events = [];
+    bus.subscribeAll((event) => events.push(event));
+  });
+
+  const ruleEvents = (): Array<[GameEventType, string]> =>
+    events.flatMap((event) =>
+      event.type === GameEventType.SURVIVAL_RULE_ACTIVATED ||
+      event.type === GameEventType.SURVIVAL_RULE_DEACTIVATED
+        ? [[event.type, event.ruleId] as [GameEventType, string]]
+        : []
+    );
+
+  it('should announce rules when they start and stop firing', () => {
+    const system = new SurvivalSystem(bus, [
+      new DepletionRule({ id: 'thirst', stat: 'thirst', ratePerMinute: 50 }),
+    ]);
+    const character = createStarterCharacter();
+
+    system.update(character, context());
+    system.update(character, context());
+    expect(system.isActive('thirst')).toBe(true);
+    system.update(character, context());
+
+    expect(ruleEvents()).toEqual([
+      [GameEventType.SURVIVAL_RULE_ACTIVATED, 'thirst'],
+      [GameEventType.SURVIVAL_RULE_DEACTIVATED, 'thirst'],
+    ]);
+  });
+
+  it('should stop applying rules once the character is dead', () => {
+    const system = new SurvivalSystem(bus, [
+      new DamageOverTimeRule({
+        id: 'bleeding',
+        cause: DamageCause.OTHER,
+        damagePerSecond: 60,
+        condition: () => true,
+      }),
+      new DepletionRule({ id: 'hunger', stat: 'hunger', ratePerMinute: 1 }),
+    ]);
+    const character = createStarterCharacter();
+
+    system.update(character, context({ deltaTime: 1 }));
+    system.update(character, context({ deltaTime: 1 }));
+    expect(character.isAlive).toBe(false);
+    expect(system.isActive('bleeding')).toBe(true); // Fired on the killing blow
+
+    system.update(character, context({ deltaTime: 1 }));
+    expect(character.stats.hunger).toBeCloseTo(100 - 1 / 60);
+    expect(system.isActive('bleeding')).toBe(false);
+    expect(system.isActive('hunger')).toBe(false);
+  });
+
+  it('should replace rules by id and remove them', () => {
+    const system = new SurvivalSystem(bus, createDefaultSurvivalRules(DEFAULT_SURVIVAL_BALANCE));
+    const ids = system.getRules().map((rule) => rule.id);
+
+    system.addRule(
+      new TemperatureExchangeRule({ id: SurvivalRuleId.TEMPERATURE, ratePerMinute: 0 })
+    );
+    expect(system.getRules().map((rule) => rule.id)).toEqual(ids);
+
+    const character = createStarterCharacter();
+    system.update(character, context({ environmentTemperature: -30 }));
+    expect(character.stats.temperature).toBe(37);
+
+    expect(system.removeRule(SurvivalRuleId.HUNGER)).toBe(true);
+    expect(system.removeRule(SurvivalRuleId.HUNGER)).toBe(false);
+    expect(system.getRule(SurvivalRuleId.HUNGER)).toBeUndefined();
+  });
+
+  it('should exhaust an emptied character and halve stamina regeneration', () => {
+    const system = new SurvivalSystem(bus, createDefaultSurvivalRules(DEFAULT_SURVIVAL_BALANCE));
+    const character = createStarterCharacter();
+    character.updateStats(character.stats.withStamina(0));
+
+    const sprinting = { isMoving: true, isSprinting: true };
+    system.update(character, context({ deltaTime: 0.05, activity: sprinting }));
+    expect(character.hasStatusEffect(StatusEffectType.EXHAUSTED)).toBe(true);
+    expect(system.isActive(SurvivalRuleId.EXHAUSTION)).toBe(true);
+
+    const before = character.stats.stamina;
+    system.update(character, context({ deltaTime: 2 }));
+    expect(character.stats.stamina - before).toBeCloseTo(GAME_CONFIG.STAMINA_REGEN_RATE * 2 * 0.5);
+  });
+
+  it('should warm a soaked character in a blizzard at full heat', () => {
+    const system = new SurvivalSystem(bus, createDefaultSurvivalRules(DEFAULT_SURVIVAL_BALANCE));
+    const character = createStarterCharacter();
+    character.updateWetness(100);
+    character.updateTemperature(34);
+
+    const blizzard = { environmentTemperature: -25, snowfall: 1 };
+    system.update(character, context({ ...blizzard, heat: 1 }));
+
+    expect(character.stats.temperature).toBe(34 + DEFAULT_SURVIVAL_BALANCE.baseCoolingRate);
+    system.update(character, context({ ...blizzard, heat: 0 }));
+    expect(character.stats.temperature).toBeLessThan(34);
+  });
+
+  it('should add frostbite stacks for prolonged hypothermia', () => {
+    const system = new SurvivalSystem(bus, createDefaultSurvivalRules(DEFAULT_SURVIVAL_BALANCE));
+    system.removeRule(SurvivalRuleId.HYPOTHERMIA); // Survive the exposure
+    const character = createStarterCharacter();
+    character.updateTemperature(30);
+
+    for (let i = 0; i < 2; i++) {
+      system.update(character, context({ deltaTime: 60, environmentTemperature: 30 }));
+    }
+    expect(character.hasStatusEffect(StatusEffectType.HYPOTHERMIA)).toBe(true);
+    expect(character.getStatusEffect(StatusEffectType.FROSTBITE)?.stacks).toBe(2);
+  });
+});
@@ -3,6 +3,7 @@ import { Character } from '@domain/entities/Character';
 import { Stats } from '@domain/value-objects/Stats';
 import { Position } from '@domain/value-objects/Position';
 import { CharacterClass } from '@shared/constants/GameConstants';
+import { DamageCause } from '@domain/events/CharacterEvents';
 
 describe('Character Entity', () => {
   let character: Character;
@@ -189,13 +190,68 @@ describe('Character Entity', () => {
     });
 
     it('should maintain state through serialization round-trip', () => {
-      const damaged = character.takeDamage(25).eat(30).useStamina(40);
+      const damaged = character
+        .takeDamage(25)
+        .eat(30)
+        .useStamina(40)
+        .updateWetness(35)
+        .useEnergy(15);
       const json = damaged.toJSON();
       const restored = Character.fromJSON(json);
 
       expect(restored.stats.health).toBe(damaged.stats.health);
       expect(restored.stats.hunger).toBe(damaged.stats.hunger);
       expect(restored.stats.stamina).toBe(damaged.stats.stamina);
+      expect(restored.stats.wetness).toBe(35);
+      expect(restored.stats.energy).toBe(damaged.stats.energy);
+    });
+  });
+
+  describe('Events', () => {
+    it('should add up consecutive damage of one cause', () => {
+      character.takeDamage(2, DamageCause.HYPOTHERMIA).takeDamage(3, DamageCause.HYPOTHERMIA);
+      character.takeDamage(1, DamageCause.STARVATION);
+
+      expect(character.pullEvents()).toEqual([
+        { type: 'damaged', amount: 5, cause: DamageCause.HYPOTHERMIA },
+        { type: 'damaged', amount: 1, cause: DamageCause.STARVATION },
+      ]);
+      expect(character.pullEvents()).toEqual([]);
+    });
+
+    it('should report death with the cause of the killing blow', () => {
+      character.takeDamage(70, DamageCause.STARVATION).pullEvents();
+      character.takeDamage(50, DamageCause.DEHYDRATION);
+      character.takeDamage(10, DamageCause.HYPOTHERMIA); // Already dead
+
+      expect(character.pullEvents()).toEqual([
+        { type: 'damaged', amount: 50, cause: DamageCause.DEHYDRATION },
+        {
+          type: 'thresholdCrossed',
+          stat: 'health',
+          threshold: 20,
+          direction: 'below',
+          value: 0,
+        },
+        { type: 'died', cause: DamageCause.DEHYDRATION },
+      ]);
+    });
+
+    it('should report stat thresholds crossed in both directions', () => {
+      character.updateStats(character.stats.withHunger(15)).eat(10);
+      character.updateTemperature(34.5);
+
+      expect(character.pullEvents()).toEqual([
+        { type: 'thresholdCrossed', stat: 'hunger', threshold: 20, direction: 'below', value: 15 },
+        { type: 'thresholdCrossed', stat: 'hunger', threshold: 20, direction: 'above', value: 25 },
+        {
+          type: 'thresholdCrossed',
+          stat: 'temperature',
+          threshold: 35,
+          direction: 'below',
+          value: 34.5,
+        },
+      ]);
     });
   });
 });
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { Item, ItemType } from '@domain/entities/Item';
+import { Inventory } from '@domain/entities/Inventory';
+import { Character } from '@domain/entities/Character';
+import { Stats } from '@domain/value-objects/Stats';
+import { MATH_RANDOM } from '@shared/random/SeededRandom';
+import {
+  CharacterClass,
+  FRESHNESS_CONFIG,
+  METABOLISM_CONFIG,
+} from '@shared/constants/GameConstants';
+
+const berries = (quantity: number, freshness = 1): Item =>
+  Item.create({
+    id: 'berries',
+    name: 'Berries',
+    type: ItemType.FOOD,
+    maxStack: 20,
+    isConsumable: true,
+    effects: { hungerRestore: 10 },
+    quantity,
+    shelfLife: 1000,
+    freshness,
+  });
+
+describe('Item freshness', () => {
+  it('should spoil over its shelf life, slower in the cold', () => {
+    expect(berries(1).decay(500, FRESHNESS_CONFIG.REFERENCE_TEMPERATURE).freshness).toBe(0.5);
+    expect(berries(1).decay(500, -10).freshness).toBeGreaterThan(0.5);
+    expect(berries(1).decay(5000, 0).freshness).toBe(0);
+
+    const rock = Item.create({ id: 'stone', name: 'Stone', type: ItemType.MATERIAL });
+    expect(rock.decay(5000, 20).freshness).toBe(1);
+  });
+
+  it('should restore less hunger when stale and risk poisoning when spoiled', () => {
+    expect(berries(1).getEffects()).toEqual({ hungerRestore: 10 });
+    expect(berries(1, 0.6).getEffects()).toEqual({ hungerRestore: 7 });
+
+    const spoiled = berries(1, 0);
+    expect(spoiled.isSpoiled()).toBe(true);
+    expect(spoiled.getEffects()).toEqual({
+      hungerRestore: 3,
+      poisonChance: FRESHNESS_CONFIG.SPOILED_POISON_CHANCE,
+    });
+  });
+
+  it('should scale calories with freshness and restore hunger from them', () => {
+    const meat = Item.create({
+      id: 'cooked_meat',
+      name: 'Cooked Meat',
+      type: ItemType.FOOD,
+      effects: { calories: 800 },
+      shelfLife: 1800,
+      freshness: 0.5,
+    });
+    expect(meat.getEffects()).toEqual({ calories: 520 });
+
+    const character = Character.create('p', CharacterClass.SURVIVOR, 'P', Stats.create(100, 100));
+    character.updateStats(character.stats.withHunger(50));
+    character.consume({ calories: 800 }, MATH_RANDOM);
+    expect(character.stats.hunger).toBe(50 + 800 / METABOLISM_CONFIG.CALORIES_PER_HUNGER);
+  });
+
+  it('should average freshness by quantity when stacks merge', () => {
+    const inventory = Inventory.create('test', 10, 100);
+    inventory.addItem(berries(3, 1));
+    inventory.addItem(berries(1, 0.2));
+
+    expect(inventory.getItemAt(0)?.quantity).toBe(4);
+    expect(inventory.getItemAt(0)?.freshness).toBeCloseTo(0.8);
+  });
+
+  it('should keep freshness through a save round trip', () => {
+    const item = Item.fromJSON(berries(2).decay(250, 0).toJSON());
+
+    expect(item.shelfLife).toBe(1000);
+    expect(item.freshness).toBeCloseTo(0.75);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { validatePayload, parsePayload } from '@domain/validation/PayloadValidator';
+import { PayloadValidationError } from '@domain/validation/ValidationContext';
+import { Character } from '@domain/entities/Character';
+import { Inventory } from '@domain/entities/Inventory';
+import { Item, ItemType, ItemRarity } from '@domain/entities/Item';
+import { Stats } from '@domain/value-objects/Stats';
+import { Position } from '@domain/value-objects/Position';
+import { CharacterClass } from '@shared/constants/GameConstants';
+
+function createItemData(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    ...Item.create({
+      id: 'berries',
+      name: 'Berries',
+      description: 'Sweet',
+      type: ItemType.FOOD,
+      maxStack: 10,
+      quantity: 4,
+      effects: { hungerRestore: 15 },
+    }).toJSON(),
+    ...overrides,
+  };
+}
+
+describe('PayloadValidator', () => {
+  it('should accept entity toJSON output unchanged', () => {
+    const character = Character.create(
+      'p1',
+      CharacterClass.SCOUT,
+      'Scout',
+      Stats.create(50, 100),
+      Position.create(1, 2, 3)
+    );
+    const inventory = Inventory.create('inv');
+    inventory.addItem(Item.fromJSON(createItemData()));
+
+    expect(validatePayload('character', character.toJSON()).errors).toEqual([]);
+    expect(validatePayload('inventory', inventory.toJSON()).errors).toEqual([]);
+  });
+
+  describe('strict mode', () => {
+    it('should report every invalid field with its path', () => {
+      const result = validatePayload('character', {
+        id: 'p1',
+        characterClass: 'wizard',
+        stats: { health: 150, maxHealth: 100, temperature: 'cold' },
+        position: { x: Number.NaN },
+      });
+
+      expect(result.value).toBeNull();
+      expect(result.errors).toEqual([
+        { path: 'name', message: 'is required' },
+        { path: 'characterClass', message: 'has unknown value \"wizard\"' },
+        { path: 'stats.health', message: 'must be at most 100' },
+        { path: 'stats.temperature', message: 'must be a finite number' },
+        { path: 'position.x', message: 'must be a finite number' },
+      ]);
+    });
+
+    it('should reject unknown item types, rarities and effects', () => {
+      const result = validatePayload(
+        'item',
+        createItemData({ type: 'gadget', rarity: 'mythic', effects: { mana: 5 } })
+      );
+
+      expect(result.errors.map((issue) => issue.path)).toEqual(['type', 'rarity', 'effects.mana']);
+    });
+
+    it('should reject inventory entries outside the slot range', () => {
+      const result = validatePayload('inventory', {
+        id: 'inv',
+        maxSlots: 2,
+        items: [{ slotIndex: 5, item: createItemData() }],
+      });
+
+      expect(result.errors).toEqual([
+        { path: 'items[0].slotIndex', message: 'must be between 0 and 1' },
+      ]);
+    });
+
+    it('should throw PayloadValidationError from fromJSON', () => {
+      const data = { ...createItemData(), type: 'gadget' };
+
+      expect(() => Item.fromJSON(data)).toThrow(PayloadValidationError);
+      expect(() => Item.fromJSON(data)).toThrow('Invalid Item data: type has unknown value');
+    });
+  });
+
+  describe('lenient mode', () => {
+    it('should clamp values and fall back for unknown enum members', () => {
+      const stats = parsePayload(
+        'stats',
+        'Stats',
+        { health: 150, maxHealth: 100, hunger: -5, stamina: 20.5 },
+        'lenient'
+      );
+
+      expect(stats.health).toBe(100);
+      expect(stats.hunger).toBe(0);
+      expect(stats.stamina).toBe(20.5);
+
+      const item = parsePayload(
+        'item',
+        'Item',
+        createItemData({ rarity: 'mythic', quantity: 12.4 }),
+        'lenient'
+      );
+      expect(item.rarity).toBe(ItemRarity.COMMON);
+      expect(item.quantity).toBe(10);
+    });
+
+    it('should drop unknown effect keys and unusable inventory entries', () => {
+      const result = validatePayload(
+        'inventory',
+        {
+          id: 'inv',
+          maxSlots: 4,
+          items: [
+            { slotIndex: 0, item: createItemData({ effects: { hungerRestore: 5, mana: 3 } }) },
+            { slotIndex: 1, item: createItemData({ type: 'gadget' }) },
+            { slotIndex: 0, item: createItemData() },
+            { slotIndex: 2, item: { name: 'No id' } },
+          ],
+        },
+        'lenient'
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.value!.items).toHaveLength(1);
+      expect(result.value!.items[0]!.item.effects).toEqual({ hungerRestore: 5 });
+      expect(result.repairs.map((issue) => issue.path)).toEqual([
+        'items[0].item.effects.mana',
+        'items[1].item.type',
+        'items[1]',
+        'items[2]',
+        'items[3]',
+      ]);
+    });
+
+    it('should still fail when required identity fields are missing', () => {
+      const result = validatePayload('character', { name: 'Nobody', stats: {} }, 'lenient');
+
+      expect(result.value).toBeNull();
+      expect(result.errors).toEqual([{ path: 'id', message: 'is required' }]);
+      expect(result.repairs).toEqual([
+        { path: 'characterClass', message: 'is required, using "survivor"' },
+      ]);
+    });
+  });
+});
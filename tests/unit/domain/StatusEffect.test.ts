@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Character } from '@domain/entities/Character';
+import { Stats } from '@domain/value-objects/Stats';
+import { StatusEffect } from '@domain/value-objects/StatusEffect';
+import { StatusEffectType } from '@domain/value-objects/StatusEffectDefinitions';
+import { DamageCause } from '@domain/events/CharacterEvents';
+import { CharacterClass } from '@shared/constants/GameConstants';
+import { IRandomSource } from '@shared/random/SeededRandom';
+
+const fixedRandom = (value: number): IRandomSource => ({ next: () => value });
+
+describe('StatusEffect', () => {
+  it('should refresh, stack or extend when re-applied', () => {
+    const exhausted = StatusEffect.create(StatusEffectType.EXHAUSTED).advance(15).effect;
+    expect(exhausted.reapply().remaining).toBe(20);
+    expect(exhausted.reapply().stacks).toBe(1);
+
+    let poisoning = StatusEffect.create(StatusEffectType.FOOD_POISONING);
+    for (let i = 0; i < 5; i++) poisoning = poisoning.reapply();
+    expect(poisoning.stacks).toBe(3);
+
+    const warmed = StatusEffect.create(StatusEffectType.WARMED_UP).reapply().reapply().reapply();
+    expect(warmed.stacks).toBe(1);
+    expect(warmed.remaining).toBe(360); // Capped at duration * maxStacks
+  });
+
+  it('should count periodic ticks and stop at expiry', () => {
+    const { effect, ticks } = StatusEffect.create(StatusEffectType.FOOD_POISONING).advance(12);
+    expect(ticks).toBe(2);
+    expect(effect.sinceTick).toBe(2);
+
+    const last = effect.advance(100);
+    expect(last.effect.isExpired).toBe(true);
+    expect(last.ticks).toBe(10); // Only the 48 seconds that were left
+  });
+
+  it('should compound modifiers per stack', () => {
+    const frostbite = StatusEffect.restore(StatusEffectType.FROSTBITE, 2, 100);
+    expect(frostbite.getModifier('maxHealth')).toBeCloseTo(0.81);
+    expect(frostbite.getModifier('cooling')).toBe(1);
+    expect(StatusEffect.restore(StatusEffectType.FROSTBITE, 9, -5).stacks).toBe(3);
+  });
+});
+
+describe('Character status effects', () => {
+  let character: Character;
+
+  beforeEach(() => {
+    const stats = Stats.create(100, 100, 50, 100, 100, 100, 37, 100, 100);
+    character = Character.create('test_1', CharacterClass.SURVIVOR, 'Test Character', stats);
+  });
+
+  it('should apply item effects and their status effects', () => {
+    character.consume({ hungerRestore: 40, temperatureChange: 1 }, fixedRandom(0));
+
+    expect(character.stats.hunger).toBe(90);
+    expect(character.stats.temperature).toBe(38);
+    expect(character.hasStatusEffect(StatusEffectType.WELL_FED)).toBe(true);
+    expect(character.hasStatusEffect(StatusEffectType.WARMED_UP)).toBe(true);
+    expect(character.getStatusModifier('cooling')).toBe(0.5);
+  });
+
+  it('should roll poisonChance against the random source', () => {
+    character.consume({ hungerRestore: 5, poisonChance: 0.3 }, fixedRandom(0.5));
+    expect(character.hasStatusEffect(StatusEffectType.FOOD_POISONING)).toBe(false);
+
+    character.consume({ hungerRestore: 5, poisonChance: 0.3 }, fixedRandom(0.1));
+    expect(character.hasStatusEffect(StatusEffectType.FOOD_POISONING)).toBe(true);
+  });
+
+  it('should tick damage per stack and report expiry', () => {
+    character.applyStatusEffect(StatusEffectType.FOOD_POISONING);
+    character.applyStatusEffect(StatusEffectType.FOOD_POISONING);
+    character.pullEvents();
+
+    character.updateStatusEffects(5);
+    expect(character.stats.health).toBe(98);
+    expect(character.stats.thirst).toBe(96);
+
+    character.updateStatusEffects(60);
+    expect(character.hasStatusEffect(StatusEffectType.FOOD_POISONING)).toBe(false);
+    expect(character.pullEvents()).toEqual([
+      { type: 'damaged', amount: 24, cause: DamageCause.FOOD_POISONING },
+      { type: 'statusEffectRemoved', effect: StatusEffectType.FOOD_POISONING, reason: 'expired' },
+    ]);
+  });
+
+  it('should cap health and stamina by lowered maxima', () => {
+    character.applyStatusEffect(StatusEffectType.FROSTBITE);
+    character.applyStatusEffect(StatusEffectType.HYPOTHERMIA);
+
+    expect(character.stats.health).toBeCloseTo(90);
+    expect(character.stats.stamina).toBeCloseTo(80);
+    character.heal(50);
+    expect(character.stats.health).toBeCloseTo(90);
+  });
+
+  it('should survive a save round trip', () => {
+    character.applyStatusEffect(StatusEffectType.FROSTBITE);
+    character.applyStatusEffect(StatusEffectType.FROSTBITE);
+    character.updateStatusEffects(30);
+
+    const restored = Character.fromJSON(character.toJSON());
+    const frostbite = restored.getStatusEffect(StatusEffectType.FROSTBITE);
+    expect(frostbite?.stacks).toBe(2);
+    expect(frostbite?.remaining).toBe(270);
+  });
+});
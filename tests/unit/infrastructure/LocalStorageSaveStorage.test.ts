@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { LocalStorageSaveStorage } from '@infrastructure/persistence/LocalStorageSaveStorage';
+import { ISaveGameSnapshot } from '@application/persistence/SaveSnapshot';
+
+/**
+ * In-memory Storage that can be made to run out of quota
+ */
+function createStorage(): { storage: Storage; full: { value: boolean } } {
+  const items = new Map<string, string>();
+  const full = { value: false };
+  const storage = {
+    get length(): number {
+      return items.size;
+    },
+    key: (index: number): string | null => [...items.keys()][index] ?? null,
+    getItem: (key: string): string | null => items.get(key) ?? null,
+    setItem: (key: string, value: string): void => {
+      if (full.value) throw new Error('QuotaExceededError');
+      items.set(key, value);
+    },
+    removeItem: (key: string): void => {
+      items.delete(key);
+    },
+    clear: (): void => items.clear(),
+  };
+  return { storage, full };
+}
+
+describe('LocalStorageSaveStorage', () => {
+  it('should reject instead of throwing when the quota is exceeded', async () => {
+    const { storage, full } = createStorage();
+    const saves = new LocalStorageSaveStorage(storage);
+    const snapshot = { savedAt: 1 } as unknown as ISaveGameSnapshot;
+
+    await saves.save('slot', snapshot);
+    full.value = true;
+
+    let result: Promise<void> | null = null;
+    expect(() => {
+      result = saves.save('slot', snapshot);
+    }).not.toThrow();
+    await expect(result).rejects.toThrow('QuotaExceededError');
+    expect(await saves.load('slot')).toEqual(snapshot);
+  });
+
+  it('should reject unparsable saves', async () => {
+    const { storage } = createStorage();
+    storage.setItem('wild-survival:save:slot', '{not json');
+
+    await expect(new LocalStorageSaveStorage(storage).load('slot')).rejects.toThrow(SyntaxError);
+  });
+});
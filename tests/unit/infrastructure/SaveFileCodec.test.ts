@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { SaveFileCodec, SaveFileError } from '@infrastructure/persistence/SaveFileCodec';
+import { ISaveGameSnapshot } from '@application/persistence/SaveSnapshot';
+import { SaveMigrator } from '@application/persistence/SaveMigrator';
+import v1Save from '../../fixtures/saves/v1-save.json';
+
+function createSnapshot(): ISaveGameSnapshot {
+  return new SaveMigrator().upgrade(structuredClone(v1Save) as Record<string, unknown>);
+}
+
+async function encodeBytes(codec: SaveFileCodec, snapshot: ISaveGameSnapshot): Promise<Uint8Array> {
+  return new Uint8Array(await (await codec.encode(snapshot)).arrayBuffer());
+}
+
+describe('SaveFileCodec', () => {
+  const codec = new SaveFileCodec();
+
+  it('should round-trip a snapshot', async () => {
+    const snapshot = createSnapshot();
+    const bytes = await encodeBytes(codec, snapshot);
+
+    expect(await codec.decode(bytes.buffer as ArrayBuffer)).toEqual(snapshot);
+  });
+
+  it('should reject files that are not saves', async () => {
+    const bytes = new TextEncoder().encode(JSON.stringify(createSnapshot()));
+
+    await expect(codec.decode(bytes.buffer as ArrayBuffer)).rejects.toThrow('Not a save file');
+  });
+
+  it('should reject truncated files', async () => {
+    const bytes = await encodeBytes(codec, createSnapshot());
+    const truncated = bytes.slice(0, bytes.length - 10);
+
+    await expect(codec.decode(truncated.buffer)).rejects.toThrow('Checksum mismatch');
+    await expect(codec.decode(bytes.slice(0, 20).buffer)).rejects.toThrow(SaveFileError);
+  });
+
+  it('should reject tampered files', async () => {
+    const bytes = await encodeBytes(codec, createSnapshot());
+    const last = bytes.length - 1;
+    bytes[last] = (bytes[last] ?? 0) ^ 0xff;
+
+    await expect(codec.decode(bytes.buffer as ArrayBuffer)).rejects.toThrow('Checksum mismatch');
+  });
+});